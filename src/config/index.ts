@@ -166,8 +166,39 @@ const ConfigSchema = z.object({
     filesystemPath: z.string().default('./.storage'), // This remains, but will only be used if providerType is 'filesystem'
   }),
   survey: z.object({
+    providerType: z
+      .preprocess(
+        (val) => {
+          const str = emptyStringAsUndefined(val);
+          if (typeof str === 'string') {
+            const lower = str.toLowerCase();
+            const aliasMap: Record<string, string> = {
+              fs: 'filesystem',
+            };
+            return aliasMap[lower] ?? lower;
+          }
+          return str;
+        },
+        z.enum(['filesystem', 'storage']),
+      )
+      .default('filesystem'), // 'storage' persists sessions via StorageService
     definitionsPath: z.string().default('./surveys'),
     responsesPath: z.string().default('./storage/responses'),
+    strictValidation: z
+      .preprocess((val) => {
+        const str = emptyStringAsUndefined(val);
+        return typeof str === 'string' ? str.toLowerCase() === 'true' : str;
+      }, z.boolean())
+      .default(false), // Refuse to load definitions that fail the linter
+    watchDefinitions: z
+      .preprocess((val) => {
+        const str = emptyStringAsUndefined(val);
+        return typeof str === 'string' ? str.toLowerCase() === 'true' : str;
+      }, z.boolean())
+      .default(true), // Reload definitions when files under definitionsPath change
+    inactivityTimeoutMinutes: z.coerce.number().int().nonnegative().default(0), // 0 disables automatic abandonment
+    sessionDeadlineHours: z.coerce.number().int().nonnegative().default(0), // 0 disables automatic expiry
+    sweepSchedule: z.string().default('*/15 * * * *'), // Cron pattern for the session sweep job
   }),
   openTelemetry: z.object({
     enabled: z.coerce.boolean().default(false),
@@ -292,8 +323,14 @@ const parseConfig = () => {
       filesystemPath: env.STORAGE_FILESYSTEM_PATH,
     },
     survey: {
+      providerType: env.SURVEY_PROVIDER_TYPE,
       definitionsPath: env.SURVEY_DEFINITIONS_PATH,
       responsesPath: env.SURVEY_RESPONSES_PATH,
+      strictValidation: env.SURVEY_STRICT_VALIDATION,
+      watchDefinitions: env.SURVEY_WATCH_DEFINITIONS,
+      inactivityTimeoutMinutes: env.SURVEY_INACTIVITY_TIMEOUT_MINUTES,
+      sessionDeadlineHours: env.SURVEY_SESSION_DEADLINE_HOURS,
+      sweepSchedule: env.SURVEY_SWEEP_SCHEDULE,
     },
     openTelemetry: {
       enabled: env.OTEL_ENABLED,
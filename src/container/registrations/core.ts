@@ -27,6 +27,7 @@ import { SpeechService as SpeechServiceClass } from '@/services/speech/index.js'
 import type { ISurveyProvider } from '@/services/survey/core/ISurveyProvider.js';
 import { SurveyService } from '@/services/survey/core/SurveyService.js';
 import { FilesystemSurveyProvider } from '@/services/survey/providers/filesystem.provider.js';
+import { StorageBackedSurveyProvider } from '@/services/survey/providers/storage.provider.js';
 import { StorageService as StorageServiceClass } from '@/storage/core/StorageService.js';
 import { createStorageProvider } from '@/storage/core/storageFactory.js';
 import type { Database } from '@/storage/providers/supabase/supabase.types.js';
@@ -142,10 +143,17 @@ export const registerCoreServices = () => {
     },
   });
 
-  // Register Survey Provider (Filesystem)
-  container.register<ISurveyProvider>(SurveyProvider, {
-    useClass: FilesystemSurveyProvider,
-  });
+  // Register Survey Provider (filesystem sessions or StorageService-backed sessions)
+  container.register<ISurveyProvider>(
+    SurveyProvider,
+    {
+      useClass:
+        config.survey.providerType === 'storage'
+          ? StorageBackedSurveyProvider
+          : FilesystemSurveyProvider,
+    },
+    { lifecycle: Lifecycle.Singleton },
+  );
 
   // Register Survey Service
   container.register<SurveyService>(
@@ -34,6 +34,7 @@ import 'reflect-metadata';
 import {
   initializePerformance_Hrt,
   requestContextService,
+  schedulerService,
 } from '@/utils/index.js';
 import { type McpLogLevel, logger } from '@/utils/internal/logger.js';
 
@@ -50,8 +51,12 @@ import type { SurveyService } from '@/services/survey/core/SurveyService.js';
 // The container is now composed in start(), so we must resolve config there.
 let config: typeof appConfigType;
 let transportManager: TransportManager;
+/** Survey service whose definition watcher must be stopped on shutdown */
+let watchedSurveyService: SurveyService | undefined;
 let isShuttingDown = false;
 
+const SESSION_SWEEP_JOB_ID = 'survey-session-sweep';
+
 const shutdown = async (signal: string): Promise<void> => {
   if (isShuttingDown) {
     return;
@@ -69,6 +74,14 @@ const shutdown = async (signal: string): Promise<void> => {
   );
 
   try {
+    if (
+      schedulerService.listJobs().some((job) => job.id === SESSION_SWEEP_JOB_ID)
+    ) {
+      schedulerService.remove(SESSION_SWEEP_JOB_ID);
+    }
+
+    watchedSurveyService?.unwatchDefinitions();
+
     if (transportManager) {
       await transportManager.stop(signal);
     }
@@ -168,6 +181,23 @@ const start = async (): Promise<void> => {
     requestContextService.createRequestContext({ operation: 'SurveyInit' }),
   );
 
+  // Pick up edited definition files without a restart
+  if (config.survey.watchDefinitions) {
+    surveyService.watchDefinitions();
+    watchedSurveyService = surveyService;
+  }
+
+  // Periodically mark idle sessions abandoned and overdue sessions expired
+  schedulerService.schedule(
+    SESSION_SWEEP_JOB_ID,
+    config.survey.sweepSchedule,
+    async (context) => {
+      await surveyService.sweepSessionLifecycle(context);
+    },
+    'Mark inactive survey sessions abandoned and overdue sessions expired',
+  );
+  schedulerService.start(SESSION_SWEEP_JOB_ID);
+
   transportManager = container.resolve<TransportManager>(TransportManagerToken);
 
   const startupContext = requestContextService.createRequestContext({
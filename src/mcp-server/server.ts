@@ -17,8 +17,10 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { container } from 'tsyringe';
 
 import { config } from '@/config/index.js';
+import { SurveyServiceToken } from '@/container/tokens.js';
 import { ResourceRegistry } from '@/mcp-server/resources/resource-registration.js';
 import { ToolRegistry } from '@/mcp-server/tools/tool-registration.js';
+import type { SurveyService } from '@/services/survey/core/SurveyService.js';
 import { logger, requestContextService } from '@/utils/index.js';
 
 /**
@@ -69,6 +71,21 @@ export async function createMcpServerInstance(): Promise<McpServer> {
     await resourceRegistry.registerAll(server);
 
     logger.info('All MCP capabilities registered successfully', context);
+
+    // Survey lists change when definitions are reloaded or authored; tell
+    // connected clients so they pick up new surveys without reconnecting.
+    // McpServer.sendResourceListChanged drops the notification promise, so
+    // send through the underlying Server to catch transport failures
+    const surveyService = container.resolve<SurveyService>(SurveyServiceToken);
+    surveyService.onDefinitionsChanged(() => {
+      if (!server.isConnected()) return;
+      server.server.sendResourceListChanged().catch((err: unknown) => {
+        logger.warning('Failed to send resource list changed notification', {
+          ...context,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+    });
   } catch (err) {
     logger.error('Failed to register MCP capabilities', {
       ...context,
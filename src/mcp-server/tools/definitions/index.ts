@@ -5,14 +5,26 @@
  * @module src/mcp-server/tools/definitions
  */
 
+import { surveyCompareLibraryQuestionTool } from './survey-compare-library-question.tool.js';
 import { surveyCompleteSessionTool } from './survey-complete-session.tool.js';
+import { surveyConvertDefinitionTool } from './survey-convert-definition.tool.js';
+import { surveyCreateTool } from './survey-create.tool.js';
+import { surveyCrosstabTool } from './survey-crosstab.tool.js';
+import { surveyDeleteTool } from './survey-delete.tool.js';
 import { surveyExportResultsTool } from './survey-export-results.tool.js';
+import { surveyGetAnalyticsTool } from './survey-get-analytics.tool.js';
 import { surveyGetProgressTool } from './survey-get-progress.tool.js';
 import { surveyGetQuestionTool } from './survey-get-question.tool.js';
+import { surveyGetQuotaStatusTool } from './survey-get-quota-status.tool.js';
 import { surveyListAvailableTool } from './survey-list-available.tool.js';
+import { surveyListSessionsTool } from './survey-list-sessions.tool.js';
+import { surveyMigrateSessionsTool } from './survey-migrate-sessions.tool.js';
 import { surveyResumeSessionTool } from './survey-resume-session.tool.js';
+import { surveySkipQuestionTool } from './survey-skip-question.tool.js';
 import { surveyStartSessionTool } from './survey-start-session.tool.js';
 import { surveySubmitResponseTool } from './survey-submit-response.tool.js';
+import { surveyUpdateTool } from './survey-update.tool.js';
+import { surveyValidateDefinitionTool } from './survey-validate-definition.tool.js';
 
 /**
  * An array containing all tool definitions for easy iteration.
@@ -20,10 +32,22 @@ import { surveySubmitResponseTool } from './survey-submit-response.tool.js';
 export const allToolDefinitions = [
   surveyListAvailableTool,
   surveyStartSessionTool,
+  surveyListSessionsTool,
   surveyGetQuestionTool,
   surveySubmitResponseTool,
+  surveySkipQuestionTool,
   surveyGetProgressTool,
   surveyCompleteSessionTool,
   surveyExportResultsTool,
+  surveyGetAnalyticsTool,
+  surveyCrosstabTool,
+  surveyCompareLibraryQuestionTool,
+  surveyGetQuotaStatusTool,
   surveyResumeSessionTool,
+  surveyMigrateSessionsTool,
+  surveyValidateDefinitionTool,
+  surveyConvertDefinitionTool,
+  surveyCreateTool,
+  surveyUpdateTool,
+  surveyDeleteTool,
 ];
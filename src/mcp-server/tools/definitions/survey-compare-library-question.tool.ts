@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Tool for comparing a question library entry across surveys.
+ * Reports the question's statistics in every survey that includes it, with
+ * the same session filters as the export tool.
+ * @module src/mcp-server/tools/definitions/survey-compare-library-question.tool
+ */
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import type {
+  SdkContext,
+  ToolAnnotations,
+  ToolDefinition,
+} from '@/mcp-server/tools/utils/toolDefinition.js';
+import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
+import { SurveyServiceToken } from '@/container/tokens.js';
+import { container } from 'tsyringe';
+import type { SurveyService } from '@/services/survey/core/SurveyService.js';
+import {
+  ExportFiltersSchema,
+  LibraryQuestionComparisonSchema,
+} from '@/services/survey/types.js';
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+import type { RequestContext } from '@/utils/index.js';
+import { logger, markdown } from '@/utils/index.js';
+
+const TOOL_NAME = 'survey_compare_library_question';
+const TOOL_TITLE = 'Compare Library Question';
+const TOOL_DESCRIPTION =
+  'Compare a shared question library entry (e.g. "company_size") across every survey whose latest version includes it with $ref or $include. Returns the question\'s statistics per survey (response counts and rates, distributions, numeric summaries) side by side. Supports the same filters as survey_export_results, except surveyVersion.';
+
+const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+const InputSchema = z
+  .object({
+    libraryRef: z
+      .string()
+      .min(1)
+      .describe('ID of the question in the question library'),
+    filters: ExportFiltersSchema.omit({ surveyVersion: true })
+      .optional()
+      .describe(
+        'Optional filters for session status, date range, or participant IDs, applied to every survey',
+      ),
+  })
+  .describe('Parameters for comparing a library question across surveys.');
+
+const OutputSchema = LibraryQuestionComparisonSchema.extend({
+  generatedAt: z
+    .string()
+    .datetime()
+    .describe('ISO 8601 timestamp when the comparison was generated'),
+}).describe('Library question statistics per survey.');
+
+type CompareLibraryQuestionInput = z.infer<typeof InputSchema>;
+type CompareLibraryQuestionResponse = z.infer<typeof OutputSchema>;
+type SurveyEntry = CompareLibraryQuestionResponse['surveys'][number];
+
+async function compareLibraryQuestionLogic(
+  input: CompareLibraryQuestionInput,
+  appContext: RequestContext,
+  _sdkContext: SdkContext,
+): Promise<CompareLibraryQuestionResponse> {
+  logger.debug('Comparing library question across surveys', appContext);
+
+  const tenantId = appContext.tenantId;
+  if (!tenantId) {
+    throw new McpError(
+      JsonRpcErrorCode.InvalidRequest,
+      'Tenant ID is required for this operation',
+      { operation: TOOL_NAME },
+    );
+  }
+
+  const surveyService = container.resolve<SurveyService>(SurveyServiceToken);
+
+  const comparison = await surveyService.compareLibraryQuestion(
+    input.libraryRef,
+    tenantId,
+    input.filters,
+  );
+
+  logger.info('Compared library question across surveys', {
+    ...appContext,
+    libraryRef: input.libraryRef,
+    surveyCount: comparison.surveys.length,
+  });
+
+  return { ...comparison, generatedAt: new Date().toISOString() };
+}
+
+function summarize(entry: SurveyEntry): string {
+  if (entry.responseDistribution) {
+    return Object.entries(entry.responseDistribution)
+      .sort(([, a], [, b]) => b - a)
+      .map(([value, count]) => `${value}: ${count}`)
+      .join(', ');
+  }
+  if (entry.numericSummary) {
+    return `Mean ${entry.numericSummary.mean}, median ${entry.numericSummary.median}`;
+  }
+  if (entry.booleanSplit) {
+    return `True: ${entry.booleanSplit.true}, False: ${entry.booleanSplit.false}`;
+  }
+  return '—';
+}
+
+function responseFormatter(
+  result: CompareLibraryQuestionResponse,
+): ContentBlock[] {
+  const md = markdown();
+  md.h1(`Library Question: ${result.libraryRef}`, '📚')
+    .keyValue('Surveys', result.surveys.length)
+    .blankLine();
+
+  if (result.surveys.length === 0) {
+    md.paragraph('No survey includes this library question.');
+  } else {
+    md.table(
+      ['Survey', 'Question', 'Responses', 'Skipped', 'Summary'],
+      result.surveys.map((entry) => [
+        `${entry.surveyTitle} (${entry.surveyId}@${entry.surveyVersion})`,
+        entry.questionId,
+        `${entry.responseCount} (${entry.responseRate})`,
+        String(entry.skippedCount),
+        summarize(entry),
+      ]),
+    );
+  }
+
+  return [{ type: 'text', text: md.build() }];
+}
+
+export const surveyCompareLibraryQuestionTool: ToolDefinition<
+  typeof InputSchema,
+  typeof OutputSchema
+> = {
+  name: TOOL_NAME,
+  title: TOOL_TITLE,
+  description: TOOL_DESCRIPTION,
+  inputSchema: InputSchema,
+  outputSchema: OutputSchema,
+  annotations: TOOL_ANNOTATIONS,
+  logic: withToolAuth(['survey:analytics:read'], compareLibraryQuestionLogic),
+  responseFormatter,
+};
@@ -1,6 +1,7 @@
 /**
  * @fileoverview Tool for finalizing a completed survey session.
- * Verifies all required questions are answered and marks the session as complete.
+ * Verifies all required questions are answered, marks the session as complete,
+ * and reports the outcome band and quiz grade when the survey defines them.
  * @module src/mcp-server/tools/definitions/survey-complete-session.tool
  */
 import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
@@ -15,6 +16,10 @@ import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
 import { SurveyServiceToken } from '@/container/tokens.js';
 import { container } from 'tsyringe';
 import type { SurveyService } from '@/services/survey/core/SurveyService.js';
+import {
+  QuizSummarySchema,
+  SessionOutcomeSchema,
+} from '@/services/survey/types.js';
 import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
 import type { RequestContext } from '@/utils/index.js';
 import { logger } from '@/utils/index.js';
@@ -22,7 +27,7 @@ import { logger } from '@/utils/index.js';
 const TOOL_NAME = 'survey_complete_session';
 const TOOL_TITLE = 'Complete Survey Session';
 const TOOL_DESCRIPTION =
-  'Finalize a survey session after all required questions have been answered. Validates completion eligibility, marks the session as complete, and returns a summary including duration, total questions answered, and final score (if scoring is enabled).';
+  'Finalize a survey session after all required questions have been answered. Validates completion eligibility, marks the session as complete, and returns a summary including duration, total questions answered, and final score (if scoring is enabled). Surveys with outcome bands also return the assigned outcome (label, message, and recommendation) to share with the participant, and quizzes return a graded summary with percent correct.';
 
 const TOOL_ANNOTATIONS: ToolAnnotations = {
   readOnlyHint: false,
@@ -65,7 +70,16 @@ const OutputSchema = z
           .describe('Final score achieved (if scoring is enabled)'),
       })
       .describe('Survey completion summary'),
+    outcome: SessionOutcomeSchema.optional().describe(
+      'Outcome assigned to the session (surveys with outcome bands)',
+    ),
+    quiz: QuizSummarySchema.optional().describe(
+      'Graded summary (surveys with answer keys)',
+    ),
     message: z.string().describe('Completion confirmation message'),
+    guidanceForLLM: z
+      .string()
+      .describe('Guidance for how to wrap up the conversation'),
   })
   .describe('Survey completion result.');
 
@@ -97,8 +111,17 @@ async function completeSessionLogic(
     sessionId: result.session.sessionId,
     duration: result.summary.duration,
     finalScore: result.session.currentScore,
+    outcome: result.outcome?.id,
+    percentCorrect: result.quiz?.percentCorrect,
   });
 
+  let guidance = result.outcome
+    ? `Thank the participant, then share their outcome ("${result.outcome.label}") in your own words${result.outcome.message ? ', using the outcome message' : ''}${result.outcome.recommendation ? ' and the recommended next step' : ''}. Keep it encouraging and do not reveal the scoring rules.`
+    : 'Thank the participant for their time and let them know their responses have been saved.';
+  if (result.quiz) {
+    guidance += ` They scored ${result.quiz.percentCorrect}% (${result.quiz.correctCount} of ${result.quiz.gradedQuestions} questions correct); you may go over the questions they missed.`;
+  }
+
   return {
     success: result.success,
     sessionId: result.session.sessionId,
@@ -107,7 +130,12 @@ async function completeSessionLogic(
       ...result.summary,
       finalScore: result.session.currentScore,
     },
-    message: 'Survey completed successfully! Thank you for your participation.',
+    ...(result.outcome && { outcome: result.outcome }),
+    ...(result.quiz && { quiz: result.quiz }),
+    message:
+      result.outcome?.message ??
+      'Survey completed successfully! Thank you for your participation.',
+    guidanceForLLM: guidance,
   };
 }
 
@@ -136,8 +164,18 @@ function responseFormatter(result: CompleteSessionResponse): ContentBlock[] {
     summaryLines.push(`🏆 Final Score: ${result.summary.finalScore} points`);
   }
 
+  if (result.quiz) {
+    summaryLines.push(
+      `📝 Quiz: ${result.quiz.percentCorrect}% correct (${result.quiz.correctCount}/${result.quiz.gradedQuestions} questions, ${result.quiz.pointsEarned}/${result.quiz.pointsPossible} points)`,
+    );
+  }
+
   const summary = summaryLines.join('\n');
 
+  const outcome = result.outcome
+    ? `\n\n🏅 **Outcome:** ${result.outcome.label}${result.outcome.recommendation ? `\n**Recommendation:** ${result.outcome.recommendation}` : ''}`
+    : '';
+
   const thankYou = `\n\n💬 ${result.message}`;
 
   const nextSteps = `\n\n📊 **What's Next?**
@@ -145,7 +183,18 @@ function responseFormatter(result: CompleteSessionResponse): ContentBlock[] {
 • You can export results using survey_export_results
 • Contact support if you need to make changes`;
 
-  const parts = [header, sessionInfo, timestamp, summary, thankYou, nextSteps];
+  const guidance = `\n\n💡 ${result.guidanceForLLM}`;
+
+  const parts = [
+    header,
+    sessionInfo,
+    timestamp,
+    summary,
+    ...(outcome ? [outcome] : []),
+    thankYou,
+    nextSteps,
+    guidance,
+  ];
 
   return [{ type: 'text', text: parts.join('\n') }];
 }
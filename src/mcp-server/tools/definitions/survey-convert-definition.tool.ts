@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Tool for converting survey definitions between JSON, YAML and
+ * JSON5. Converts a loaded survey or pasted source text, validating the source
+ * and reporting syntax and schema errors with line/column locations.
+ * @module src/mcp-server/tools/definitions/survey-convert-definition.tool
+ */
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import type {
+  SdkContext,
+  ToolAnnotations,
+  ToolDefinition,
+} from '@/mcp-server/tools/utils/toolDefinition.js';
+import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
+import { SurveyServiceToken } from '@/container/tokens.js';
+import { container } from 'tsyringe';
+import type { SurveyService } from '@/services/survey/core/SurveyService.js';
+import { DefinitionFormatSchema } from '@/services/survey/types.js';
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+import type { RequestContext } from '@/utils/index.js';
+import { logger, markdown } from '@/utils/index.js';
+
+const TOOL_NAME = 'survey_convert_definition';
+const TOOL_TITLE = 'Convert Survey Definition';
+const TOOL_DESCRIPTION =
+  'Convert a survey definition between JSON, YAML and JSON5 definition file formats. Pass either the ID of a loaded survey (optionally a version) or source text with its format. Source text must be a valid survey definition; syntax and schema errors are reported with line and column numbers. The definition is converted as written, without adding defaults. Comments in YAML or JSON5 sources are not carried over. Requires the survey:admin scope, since converted definitions include quiz answer keys.';
+
+const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+const InputSchema = z
+  .object({
+    surveyId: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('ID of a loaded survey to convert'),
+    version: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Version of the loaded survey (default: latest version)'),
+    content: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Survey definition source text to convert'),
+    from: DefinitionFormatSchema.default('json').describe(
+      'Format of content (default: json)',
+    ),
+    to: DefinitionFormatSchema.describe('Format to convert to'),
+  })
+  .describe(
+    'Parameters for converting a survey definition. Provide exactly one of surveyId or content.',
+  );
+
+const OutputSchema = z
+  .object({
+    surveyId: z.string().describe('ID of the converted survey'),
+    version: z.string().describe('Version of the converted survey'),
+    format: DefinitionFormatSchema.describe('Format of content'),
+    content: z.string().describe('Converted survey definition'),
+  })
+  .describe('Converted survey definition.');
+
+type ConvertDefinitionInput = z.infer<typeof InputSchema>;
+type ConvertDefinitionResponse = z.infer<typeof OutputSchema>;
+
+async function convertDefinitionLogic(
+  input: ConvertDefinitionInput,
+  appContext: RequestContext,
+  _sdkContext: SdkContext,
+): Promise<ConvertDefinitionResponse> {
+  logger.debug('Converting survey definition', appContext);
+
+  const tenantId = appContext.tenantId;
+  if (!tenantId) {
+    throw new McpError(
+      JsonRpcErrorCode.InvalidRequest,
+      'Tenant ID is required for this operation',
+      { operation: TOOL_NAME },
+    );
+  }
+
+  const surveyService = container.resolve<SurveyService>(SurveyServiceToken);
+
+  const result = await surveyService.convertDefinition(
+    {
+      surveyId: input.surveyId,
+      version: input.version,
+      content: input.content,
+      from: input.from,
+    },
+    input.to,
+    tenantId,
+  );
+
+  logger.info('Converted survey definition', {
+    ...appContext,
+    surveyId: result.surveyId,
+    version: result.version,
+    to: input.to,
+  });
+
+  return { ...result, format: input.to };
+}
+
+function responseFormatter(result: ConvertDefinitionResponse): ContentBlock[] {
+  const md = markdown();
+  md.h1(`Survey Definition Converted: ${result.surveyId}`, '🔁')
+    .keyValue('Version', result.version)
+    .keyValue('Format', result.format)
+    .blankLine()
+    .codeBlock(result.content.trimEnd(), result.format);
+
+  return [{ type: 'text', text: md.build() }];
+}
+
+export const surveyConvertDefinitionTool: ToolDefinition<
+  typeof InputSchema,
+  typeof OutputSchema
+> = {
+  name: TOOL_NAME,
+  title: TOOL_TITLE,
+  description: TOOL_DESCRIPTION,
+  inputSchema: InputSchema,
+  outputSchema: OutputSchema,
+  annotations: TOOL_ANNOTATIONS,
+  logic: withToolAuth(['survey:admin'], convertDefinitionLogic),
+  responseFormatter,
+};
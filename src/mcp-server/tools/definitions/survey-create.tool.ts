@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Tool for authoring a new survey definition or version.
+ * Validates the definition against the schema and linter, then persists it
+ * through the survey provider, as a draft unless a status is given.
+ * @module src/mcp-server/tools/definitions/survey-create.tool
+ */
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import type {
+  SdkContext,
+  ToolAnnotations,
+  ToolDefinition,
+} from '@/mcp-server/tools/utils/toolDefinition.js';
+import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
+import { SurveyServiceToken } from '@/container/tokens.js';
+import { container } from 'tsyringe';
+import type { SurveyService } from '@/services/survey/core/SurveyService.js';
+import {
+  DefinitionIssueSchema,
+  SurveyVersionInfoSchema,
+} from '@/services/survey/types.js';
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+import type { RequestContext } from '@/utils/index.js';
+import { logger, markdown } from '@/utils/index.js';
+
+const TOOL_NAME = 'survey_create';
+const TOOL_TITLE = 'Create Survey';
+const TOOL_DESCRIPTION =
+  'Create a survey, or a new version of an existing survey, from a full definition (id, version, metadata, questions, settings, and optional variables, outcomes, termination rules and quotas). The definition is rejected if it fails schema validation or linting, for example when a condition depends on a question that does not exist. Questions can be included from the shared question library with { "$ref": "<questionId>" } (other fields override the library question) or { "$include": "<blockId>" }. New versions start as drafts unless the definition sets status; publish them with survey_update so they appear in survey_list_available and accept new sessions.';
+
+const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: false,
+};
+
+const InputSchema = z
+  .object({
+    definition: z
+      .record(z.unknown())
+      .describe(
+        'Full survey definition (JSON object); status defaults to draft',
+      ),
+  })
+  .describe('Parameters for creating a survey definition.');
+
+const OutputSchema = SurveyVersionInfoSchema.extend({
+  warnings: z
+    .array(DefinitionIssueSchema)
+    .describe('Lint warnings that did not block saving'),
+}).describe('The created survey version.');
+
+type CreateSurveyInput = z.infer<typeof InputSchema>;
+type CreateSurveyResponse = z.infer<typeof OutputSchema>;
+
+async function createSurveyLogic(
+  input: CreateSurveyInput,
+  appContext: RequestContext,
+  _sdkContext: SdkContext,
+): Promise<CreateSurveyResponse> {
+  logger.debug('Creating survey definition', appContext);
+
+  const tenantId = appContext.tenantId;
+  if (!tenantId) {
+    throw new McpError(
+      JsonRpcErrorCode.InvalidRequest,
+      'Tenant ID is required for this operation',
+      { operation: TOOL_NAME },
+    );
+  }
+
+  const surveyService = container.resolve<SurveyService>(SurveyServiceToken);
+
+  const { survey, lint } = await surveyService.createSurvey(
+    input.definition,
+    tenantId,
+  );
+
+  logger.info('Created survey definition', {
+    ...appContext,
+    surveyId: survey.id,
+    version: survey.version,
+    status: survey.status,
+  });
+
+  return {
+    surveyId: survey.id,
+    version: survey.version,
+    status: survey.status,
+    title: survey.metadata.title,
+    questionCount: survey.questions.length,
+    warnings: lint.warnings,
+  };
+}
+
+function responseFormatter(result: CreateSurveyResponse): ContentBlock[] {
+  const md = markdown();
+  md.h1(`Survey Created: ${result.title}`, '📝')
+    .keyValue('ID', `\`${result.surveyId}\``)
+    .keyValue('Version', result.version)
+    .keyValue('Status', result.status)
+    .keyValue('Questions', result.questionCount)
+    .blankLine();
+
+  if (result.warnings.length > 0) {
+    md.h2('Warnings').list(result.warnings.map((issue) => issue.message));
+  }
+
+  if (result.status === 'draft') {
+    md.paragraph(
+      'This version is a draft. Publish it with survey_update to make it available to participants.',
+    );
+  }
+
+  return [{ type: 'text', text: md.build() }];
+}
+
+export const surveyCreateTool: ToolDefinition<
+  typeof InputSchema,
+  typeof OutputSchema
+> = {
+  name: TOOL_NAME,
+  title: TOOL_TITLE,
+  description: TOOL_DESCRIPTION,
+  inputSchema: InputSchema,
+  outputSchema: OutputSchema,
+  annotations: TOOL_ANNOTATIONS,
+  logic: withToolAuth(['survey:admin'], createSurveyLogic),
+  responseFormatter,
+};
@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Tool for cross-tabulating two survey questions.
+ * Reports cell counts, row and column percentages, and a chi-square test of
+ * independence, with the same session filters as the export tool.
+ * @module src/mcp-server/tools/definitions/survey-crosstab.tool
+ */
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import type {
+  SdkContext,
+  ToolAnnotations,
+  ToolDefinition,
+} from '@/mcp-server/tools/utils/toolDefinition.js';
+import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
+import { SurveyServiceToken } from '@/container/tokens.js';
+import { container } from 'tsyringe';
+import type { SurveyService } from '@/services/survey/core/SurveyService.js';
+import {
+  CrosstabSchema,
+  ExportFiltersSchema,
+} from '@/services/survey/types.js';
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+import type { RequestContext } from '@/utils/index.js';
+import { logger, markdown } from '@/utils/index.js';
+
+const TOOL_NAME = 'survey_crosstab';
+const TOOL_TITLE = 'Cross-tabulate Survey Questions';
+const TOOL_DESCRIPTION =
+  'Cross-tabulate two questions (e.g. satisfaction by department). Returns cell counts, row and column percentages, and a chi-square test of independence with degrees of freedom and p-value. Works with multiple-choice, multiple-select, rating-scale and boolean questions. Multiple-select answers count once per selected option, so a session can appear in several cells; such tables have no chi-square test because their counts are not independent. Rating scales can be grouped into bins with ratingBinSize. Only sessions that answered both questions are counted. Supports the same filters as survey_export_results.';
+
+const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+const InputSchema = z
+  .object({
+    surveyId: z.string().min(1).describe('Survey identifier to analyze'),
+    rowQuestionId: z
+      .string()
+      .min(1)
+      .describe('Question whose answers form the table rows'),
+    columnQuestionId: z
+      .string()
+      .min(1)
+      .describe('Question whose answers form the table columns'),
+    ratingBinSize: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        'Group rating-scale answers into bins of this many scale points (default: 1, no grouping)',
+      ),
+    filters: ExportFiltersSchema.optional().describe(
+      'Optional filters for session status, date range, or participant IDs',
+    ),
+  })
+  .describe('Parameters for cross-tabulating two questions.');
+
+const OutputSchema = CrosstabSchema.extend({
+  surveyId: z.string().describe('Survey that was analyzed'),
+  generatedAt: z
+    .string()
+    .datetime()
+    .describe('ISO 8601 timestamp when the crosstab was generated'),
+}).describe('Cross-tabulation of two survey questions.');
+
+type CrosstabInput = z.infer<typeof InputSchema>;
+type CrosstabResponse = z.infer<typeof OutputSchema>;
+
+async function crosstabLogic(
+  input: CrosstabInput,
+  appContext: RequestContext,
+  _sdkContext: SdkContext,
+): Promise<CrosstabResponse> {
+  logger.debug('Generating survey crosstab', appContext);
+
+  const tenantId = appContext.tenantId;
+  if (!tenantId) {
+    throw new McpError(
+      JsonRpcErrorCode.InvalidRequest,
+      'Tenant ID is required for this operation',
+      { operation: TOOL_NAME },
+    );
+  }
+
+  const surveyService = container.resolve<SurveyService>(SurveyServiceToken);
+
+  const crosstab = await surveyService.getCrosstab(
+    input.surveyId,
+    input.rowQuestionId,
+    input.columnQuestionId,
+    tenantId,
+    {
+      filters: input.filters,
+      ...(input.ratingBinSize !== undefined && {
+        ratingBinSize: input.ratingBinSize,
+      }),
+    },
+  );
+
+  logger.info('Generated survey crosstab', {
+    ...appContext,
+    surveyId: input.surveyId,
+    rowQuestionId: input.rowQuestionId,
+    columnQuestionId: input.columnQuestionId,
+    respondentCount: crosstab.respondentCount,
+  });
+
+  return {
+    surveyId: input.surveyId,
+    ...crosstab,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+function tableRows(
+  result: CrosstabResponse,
+  cell: (row: number, column: number) => string,
+  total?: (row: number) => string,
+): string[][] {
+  return result.rowCategories.map((category, r) => [
+    category,
+    ...result.columnCategories.map((_, c) => cell(r, c)),
+    ...(total ? [total(r)] : []),
+  ]);
+}
+
+function responseFormatter(result: CrosstabResponse): ContentBlock[] {
+  const md = markdown();
+  const corner = `${result.rowQuestionId} \\ ${result.columnQuestionId}`;
+  const count = (r: number, c: number): string =>
+    String(result.counts[r]?.[c] ?? 0);
+
+  md.h1(`Crosstab: ${result.rowQuestionId} × ${result.columnQuestionId}`, '🧮')
+    .keyValue('Survey', result.surveyId)
+    .keyValue('Respondents', result.respondentCount)
+    .when(result.multiResponse, () => {
+      md.keyValue(
+        'Note',
+        'Multiple-select question: one respondent can count in several cells',
+      );
+    })
+    .blankLine()
+    .h2('Counts')
+    .table(
+      [corner, ...result.columnCategories, 'Total'],
+      [
+        ...tableRows(result, count, (r) => String(result.rowTotals[r] ?? 0)),
+        [
+          'Total',
+          ...result.columnTotals.map(String),
+          String(result.grandTotal),
+        ],
+      ],
+    )
+    .h2('Row Percentages')
+    .table(
+      [corner, ...result.columnCategories],
+      tableRows(result, (r, c) => `${result.rowPercentages[r]?.[c] ?? 0}%`),
+    )
+    .h2('Column Percentages')
+    .table(
+      [corner, ...result.columnCategories],
+      tableRows(result, (r, c) => `${result.columnPercentages[r]?.[c] ?? 0}%`),
+    )
+    .h2('Chi-square Test', '📐');
+
+  if (result.chiSquare) {
+    md.keyValue('χ²', result.chiSquare.statistic)
+      .keyValue('Degrees of Freedom', result.chiSquare.degreesOfFreedom)
+      .keyValue('p-value', result.chiSquare.pValue);
+  } else if (result.multiResponse) {
+    md.paragraph(
+      'Not computed: a respondent can count in several cells, so the counts are not independent observations.',
+    );
+  } else {
+    md.paragraph(
+      'Not computed: needs at least two non-empty rows and two non-empty columns.',
+    );
+  }
+
+  return [{ type: 'text', text: md.build() }];
+}
+
+export const surveyCrosstabTool: ToolDefinition<
+  typeof InputSchema,
+  typeof OutputSchema
+> = {
+  name: TOOL_NAME,
+  title: TOOL_TITLE,
+  description: TOOL_DESCRIPTION,
+  inputSchema: InputSchema,
+  outputSchema: OutputSchema,
+  annotations: TOOL_ANNOTATIONS,
+  logic: withToolAuth(['survey:analytics:read'], crosstabLogic),
+  responseFormatter,
+};
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Tool for deleting survey definitions that no session uses.
+ * Versions with sessions are kept so results stay interpretable; those are
+ * retired by archiving them with survey_update.
+ * @module src/mcp-server/tools/definitions/survey-delete.tool
+ */
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import type {
+  SdkContext,
+  ToolAnnotations,
+  ToolDefinition,
+} from '@/mcp-server/tools/utils/toolDefinition.js';
+import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
+import { SurveyServiceToken } from '@/container/tokens.js';
+import { container } from 'tsyringe';
+import type { SurveyService } from '@/services/survey/core/SurveyService.js';
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+import type { RequestContext } from '@/utils/index.js';
+import { logger, markdown } from '@/utils/index.js';
+
+const TOOL_NAME = 'survey_delete';
+const TOOL_TITLE = 'Delete Survey';
+const TOOL_DESCRIPTION =
+  'Permanently delete a survey version, or every version of a survey when version is omitted. Only versions that no session is pinned to can be deleted (typically abandoned drafts); to retire a survey that has responses, set its status to archived with survey_update.';
+
+const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: false,
+  openWorldHint: false,
+};
+
+const InputSchema = z
+  .object({
+    surveyId: z.string().min(1).describe('Survey to delete'),
+    version: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Version to delete (default: all versions)'),
+  })
+  .describe('Parameters for deleting a survey definition.');
+
+const OutputSchema = z
+  .object({
+    surveyId: z.string().describe('Survey that was deleted'),
+    deletedVersions: z
+      .array(z.string())
+      .describe('Versions whose definitions were removed'),
+  })
+  .describe('Deleted survey versions.');
+
+type DeleteSurveyInput = z.infer<typeof InputSchema>;
+type DeleteSurveyResponse = z.infer<typeof OutputSchema>;
+
+async function deleteSurveyLogic(
+  input: DeleteSurveyInput,
+  appContext: RequestContext,
+  _sdkContext: SdkContext,
+): Promise<DeleteSurveyResponse> {
+  logger.debug('Deleting survey definition', appContext);
+
+  const tenantId = appContext.tenantId;
+  if (!tenantId) {
+    throw new McpError(
+      JsonRpcErrorCode.InvalidRequest,
+      'Tenant ID is required for this operation',
+      { operation: TOOL_NAME },
+    );
+  }
+
+  const surveyService = container.resolve<SurveyService>(SurveyServiceToken);
+
+  const result = await surveyService.deleteSurvey(
+    input.surveyId,
+    tenantId,
+    input.version,
+  );
+
+  logger.info('Deleted survey definition', {
+    ...appContext,
+    surveyId: input.surveyId,
+    deletedVersions: result.deletedVersions,
+  });
+
+  return result;
+}
+
+function responseFormatter(result: DeleteSurveyResponse): ContentBlock[] {
+  const md = markdown();
+  md.h1(`Survey Deleted: ${result.surveyId}`, '🗑️').keyValue(
+    'Versions',
+    result.deletedVersions.map((version) => `v${version}`).join(', '),
+  );
+
+  return [{ type: 'text', text: md.build() }];
+}
+
+export const surveyDeleteTool: ToolDefinition<
+  typeof InputSchema,
+  typeof OutputSchema
+> = {
+  name: TOOL_NAME,
+  title: TOOL_TITLE,
+  description: TOOL_DESCRIPTION,
+  inputSchema: InputSchema,
+  outputSchema: OutputSchema,
+  annotations: TOOL_ANNOTATIONS,
+  logic: withToolAuth(['survey:admin'], deleteSurveyLogic),
+  responseFormatter,
+};
@@ -18,6 +18,7 @@ import type { SurveyService } from '@/services/survey/core/SurveyService.js';
 import {
   ExportFormatSchema,
   ExportFiltersSchema,
+  SessionStatusCountsSchema,
 } from '@/services/survey/types.js';
 import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
 import type { RequestContext } from '@/utils/index.js';
@@ -26,7 +27,7 @@ import { logger } from '@/utils/index.js';
 const TOOL_NAME = 'survey_export_results';
 const TOOL_TITLE = 'Export Survey Results';
 const TOOL_DESCRIPTION =
-  'Export survey response data in CSV or JSON format. Supports filtering by session status, date range, and specific participant IDs. Returns the formatted export data as a string.';
+  'Export survey response data in CSV (one row per session, or one row per response with csv-long) or JSON format. Roster questions repeated per item are exported one column per item, e.g. "tool_rating[slack]". Supports filtering by session status, date range, and specific participant IDs. Returns the formatted export data as a string.';
 
 const TOOL_ANNOTATIONS: ToolAnnotations = {
   readOnlyHint: true,
@@ -40,7 +41,9 @@ const InputSchema = z
       .string()
       .min(1)
       .describe('Survey identifier to export results for'),
-    format: ExportFormatSchema.describe('Export format (csv or json)'),
+    format: ExportFormatSchema.describe(
+      'Export format (csv, csv-long or json)',
+    ),
     filters: ExportFiltersSchema.optional().describe(
       'Optional filters for session status, date range, or participant IDs',
     ),
@@ -55,6 +58,9 @@ const OutputSchema = z
       .number()
       .int()
       .describe('Number of sessions included in export'),
+    statusCounts: SessionStatusCountsSchema.describe(
+      'Exported sessions per status, so screened-out sessions can be told apart from completes',
+    ),
     generatedAt: z
       .string()
       .datetime()
@@ -101,12 +107,13 @@ async function exportResultsLogic(
     format: result.format,
     data: result.data,
     recordCount: result.recordCount,
+    statusCounts: result.statusCounts,
     generatedAt: result.generatedAt,
   };
 }
 
 function responseFormatter(result: ExportResultsResponse): ContentBlock[] {
-  const formatEmoji = result.format === 'csv' ? '📊' : '📄';
+  const formatEmoji = result.format !== 'json' ? '📊' : '📄';
   const header = `${formatEmoji} Survey Export (${result.format.toUpperCase()})`;
 
   const generatedTime = new Date(result.generatedAt).toLocaleString('en-US', {
@@ -114,15 +121,20 @@ function responseFormatter(result: ExportResultsResponse): ContentBlock[] {
     timeStyle: 'short',
   });
 
+  const statusSummary = Object.entries(result.statusCounts)
+    .map(([status, count]) => `${count} ${status}`)
+    .join(', ');
+
   const metadata = [
     `**Records Exported:** ${result.recordCount}`,
+    ...(statusSummary ? [`**By Status:** ${statusSummary}`] : []),
     `**Generated:** ${generatedTime}`,
     `**Format:** ${result.format}`,
   ].join('\n');
 
-  // Preview first few lines for CSV, or indicate JSON structure
+  // Preview first few lines for CSV (wide or long), or indicate JSON structure
   let preview: string;
-  if (result.format === 'csv') {
+  if (result.format !== 'json') {
     const lines = result.data.split('\n');
     const previewLines = lines.slice(0, 6); // Header + 5 data rows
     preview = `\`\`\`csv\n${previewLines.join('\n')}`;
@@ -146,7 +158,7 @@ function responseFormatter(result: ExportResultsResponse): ContentBlock[] {
   }
 
   const usageHint =
-    result.format === 'csv'
+    result.format !== 'json'
       ? '\n\n💡 **Tip:** Copy the full CSV data and paste into a spreadsheet application'
       : '\n\n💡 **Tip:** Use the structured output for programmatic access to all records';
 
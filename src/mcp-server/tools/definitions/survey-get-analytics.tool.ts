@@ -0,0 +1,261 @@
+/**
+ * @fileoverview Tool for summarizing survey results with per-question statistics.
+ * Supports the same session filters as the export tool, and a funnel mode that
+ * reports where participants drop off.
+ * @module src/mcp-server/tools/definitions/survey-get-analytics.tool
+ */
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import type {
+  SdkContext,
+  ToolAnnotations,
+  ToolDefinition,
+} from '@/mcp-server/tools/utils/toolDefinition.js';
+import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
+import { SurveyServiceToken } from '@/container/tokens.js';
+import { container } from 'tsyringe';
+import type { SurveyService } from '@/services/survey/core/SurveyService.js';
+import {
+  type DropOffFunnel,
+  DropOffFunnelSchema,
+  ExportFiltersSchema,
+  SurveyAnalyticsReportSchema,
+} from '@/services/survey/types.js';
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+import type { RequestContext } from '@/utils/index.js';
+import { logger, markdown, type MarkdownBuilder } from '@/utils/index.js';
+
+const TOOL_NAME = 'survey_get_analytics';
+const TOOL_TITLE = 'Get Survey Analytics';
+const TOOL_DESCRIPTION =
+  'Summarize survey results: session counts by status, completion rate, average completion time, and per-question statistics. Choice and rating questions get value distributions, multiple-select gets per-option counts, matrix questions get per-row distributions, number and rating-scale questions get mean/median/standard deviation/percentiles, and boolean questions get true/false splits. Quiz questions with an answer key get difficulty (percent correct), and surveys with outcome bands also report how completed sessions were classified. Supports the same filters as survey_export_results. Set mode to "funnel" to also get a drop-off funnel: how many sessions reached each question, median time to answer, which question abandoned sessions answered last, and a completion curve.';
+
+const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+const InputSchema = z
+  .object({
+    surveyId: z.string().min(1).describe('Survey identifier to analyze'),
+    filters: ExportFiltersSchema.optional().describe(
+      'Optional filters for session status, date range, or participant IDs',
+    ),
+    mode: z
+      .enum(['summary', 'funnel'])
+      .default('summary')
+      .describe(
+        'summary: per-question statistics; funnel: statistics plus the drop-off funnel',
+      ),
+  })
+  .describe('Parameters for survey analytics.');
+
+const OutputSchema = SurveyAnalyticsReportSchema.extend({
+  surveyId: z.string().describe('Survey that was analyzed'),
+  funnel: DropOffFunnelSchema.optional().describe(
+    'Drop-off funnel (funnel mode only)',
+  ),
+  generatedAt: z
+    .string()
+    .datetime()
+    .describe('ISO 8601 timestamp when the analytics were generated'),
+}).describe('Survey analytics summary.');
+
+type GetAnalyticsInput = z.infer<typeof InputSchema>;
+type GetAnalyticsResponse = z.infer<typeof OutputSchema>;
+type QuestionStatsEntry = GetAnalyticsResponse['questionStats'][number];
+
+async function getAnalyticsLogic(
+  input: GetAnalyticsInput,
+  appContext: RequestContext,
+  _sdkContext: SdkContext,
+): Promise<GetAnalyticsResponse> {
+  logger.debug('Generating survey analytics', appContext);
+
+  const tenantId = appContext.tenantId;
+  if (!tenantId) {
+    throw new McpError(
+      JsonRpcErrorCode.InvalidRequest,
+      'Tenant ID is required for this operation',
+      { operation: TOOL_NAME },
+    );
+  }
+
+  const surveyService = container.resolve<SurveyService>(SurveyServiceToken);
+
+  const report = await surveyService.getAnalytics(
+    input.surveyId,
+    tenantId,
+    input.filters,
+  );
+  const funnel =
+    input.mode === 'funnel'
+      ? await surveyService.getDropOffFunnel(
+          input.surveyId,
+          tenantId,
+          input.filters,
+        )
+      : undefined;
+
+  logger.info('Generated survey analytics', {
+    ...appContext,
+    surveyId: input.surveyId,
+    mode: input.mode,
+    totalSessions: report.totalSessions,
+  });
+
+  return {
+    surveyId: input.surveyId,
+    ...report,
+    ...(funnel && { funnel }),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+function formatCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([value, count]) => `${value}: ${count}`)
+    .join(', ');
+}
+
+function describeQuestionStats(stat: QuestionStatsEntry): string[] {
+  const details = [
+    `Responses: ${stat.responseCount} (${stat.responseRate}), skipped: ${stat.skippedCount}`,
+  ];
+
+  if (stat.rosterId) {
+    details.push(
+      `Roster question (${stat.rosterId}): responses count once per item; ${stat.respondentCount ?? 0} sessions answered at least one item`,
+    );
+  }
+
+  if (stat.libraryRef) {
+    details.push(
+      `Library question: ${stat.libraryRef} (compare across surveys with survey_compare_library_question)`,
+    );
+  }
+
+  if (stat.responseDistribution) {
+    details.push(`Distribution: ${formatCounts(stat.responseDistribution)}`);
+  }
+  if (stat.rowDistributions) {
+    for (const [rowId, counts] of Object.entries(stat.rowDistributions)) {
+      details.push(`Row ${rowId}: ${formatCounts(counts) || 'no responses'}`);
+    }
+  }
+  if (stat.numericSummary) {
+    const n = stat.numericSummary;
+    details.push(
+      `Mean ${n.mean}, median ${n.median}, std dev ${n.stdDev}, range ${n.min}–${n.max}, p25/p75/p90 ${n.percentiles.p25}/${n.percentiles.p75}/${n.percentiles.p90}`,
+    );
+  }
+  if (stat.booleanSplit) {
+    details.push(
+      `True: ${stat.booleanSplit.true}, False: ${stat.booleanSplit.false}`,
+    );
+  }
+  if (stat.difficulty) {
+    details.push(
+      `Correct: ${stat.difficulty.percentCorrect}% (${stat.difficulty.correctCount} fully correct, ${stat.difficulty.partialCount} partial)`,
+    );
+  }
+
+  return details;
+}
+
+function formatSeconds(seconds: number | undefined): string {
+  if (seconds === undefined) {
+    return '—';
+  }
+  return seconds < 60 ? `${seconds}s` : `${Math.round(seconds / 6) / 10}m`;
+}
+
+function appendFunnel(md: MarkdownBuilder, funnel: DropOffFunnel): void {
+  md.h2('Drop-off Funnel', '🔻')
+    .keyValue('Sessions Analyzed', funnel.sessionCount)
+    .keyValue(
+      'Median Time Between Answers',
+      formatSeconds(funnel.medianSecondsBetweenAnswers),
+    )
+    .keyValue('Abandoned Before First Answer', funnel.abandonedWithoutAnswers)
+    .blankLine()
+    .table(
+      ['#', 'Question', 'Reached', 'Median Time', 'Last Before Abandonment'],
+      funnel.steps.map((step) => [
+        String(step.position),
+        step.questionId,
+        `${step.reachedCount} (${step.reachedRate})`,
+        formatSeconds(step.medianSecondsToAnswer),
+        String(step.lastAnsweredBeforeAbandonment),
+      ]),
+    )
+    .h3('Completion Curve')
+    .table(
+      ['Questions Answered', 'Sessions', 'Share'],
+      funnel.completionCurve.map((point) => [
+        `≥ ${point.questionsAnswered}`,
+        String(point.sessionCount),
+        point.sessionRate,
+      ]),
+    );
+}
+
+function responseFormatter(result: GetAnalyticsResponse): ContentBlock[] {
+  const md = markdown();
+  md.h1(`Survey Analytics: ${result.surveyId}`, '📈')
+    .keyValue(
+      'Sessions',
+      `${result.totalSessions} total — ${result.completedSessions} completed, ${result.inProgressSessions} in progress, ${result.abandonedSessions} abandoned, ${result.expiredSessions} expired, ${result.screenedOutSessions} screened out`,
+    )
+    .keyValue('Completion Rate', result.completionRate)
+    .when(result.averageCompletionTime !== undefined, () => {
+      md.keyValue(
+        'Average Completion Time',
+        result.averageCompletionTime ?? '',
+      );
+    })
+    .blankLine();
+
+  if (result.outcomeDistribution) {
+    md.h2('Outcomes', '🏅').table(
+      ['Outcome', 'Sessions', 'Share'],
+      result.outcomeDistribution.map((entry) => [
+        `${entry.label} (${entry.outcomeId})`,
+        String(entry.count),
+        entry.percentage,
+      ]),
+    );
+  }
+
+  md.when(result.questionStats.length > 0, () => {
+    md.h2('Questions');
+    for (const stat of result.questionStats) {
+      md.h3(`${stat.questionId} — ${stat.questionText}`).list(
+        describeQuestionStats(stat),
+      );
+    }
+  });
+
+  if (result.funnel) {
+    appendFunnel(md, result.funnel);
+  }
+
+  return [{ type: 'text', text: md.build() }];
+}
+
+export const surveyGetAnalyticsTool: ToolDefinition<
+  typeof InputSchema,
+  typeof OutputSchema
+> = {
+  name: TOOL_NAME,
+  title: TOOL_TITLE,
+  description: TOOL_DESCRIPTION,
+  inputSchema: InputSchema,
+  outputSchema: OutputSchema,
+  annotations: TOOL_ANNOTATIONS,
+  logic: withToolAuth(['survey:analytics:read'], getAnalyticsLogic),
+  responseFormatter,
+};
@@ -99,6 +99,10 @@ async function getProgressLogic(
   } else {
     const remaining = result.unansweredRequired.length;
     guidance = `Session is ${result.session.progress.percentComplete}% complete. There are ${remaining} required question${remaining !== 1 ? 's' : ''} remaining. Continue the conversation naturally and work through the remaining questions.`;
+    const { currentSection } = result.session.progress;
+    if (currentSection) {
+      guidance += ` The current section is "${currentSection.title}".`;
+    }
   }
 
   logger.info('Retrieved survey progress', {
@@ -164,6 +168,29 @@ function responseFormatter(result: GetProgressResponse): ContentBlock[] {
         )}${result.unansweredOptional.length > 2 ? `\n   ... and ${result.unansweredOptional.length - 2} more` : ''}`
     : '';
 
+  // Per-section status for surveys with sections
+  const sectionIcons = {
+    'not-started': '⬜',
+    'in-progress': '🔄',
+    completed: '✅',
+    hidden: '🚫',
+  } as const;
+  const sectionStatus = progress.sections?.length
+    ? `\nSections:\n${progress.sections
+        .map((section) => {
+          const current =
+            section.sectionId === progress.currentSection?.id
+              ? ' ← current'
+              : '';
+          const detail =
+            section.status === 'hidden'
+              ? 'not shown'
+              : `${section.answeredQuestions + section.skippedQuestions}/${section.totalQuestions} (${section.percentComplete}%)`;
+          return `${sectionIcons[section.status]} ${section.title}: ${detail}${current}`;
+        })
+        .join('\n')}`
+    : '';
+
   // Completion status
   const completionStatus = result.canComplete
     ? '\n\n✅ Survey can be completed now!'
@@ -184,6 +211,7 @@ function responseFormatter(result: GetProgressResponse): ContentBlock[] {
     answered,
     scoreInfo,
     timeInfo,
+    sectionStatus,
     '',
     requiredStatus,
     optionalStatus,
@@ -14,6 +14,7 @@ import type {
 import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
 import { SurveyServiceToken } from '@/container/tokens.js';
 import { container } from 'tsyringe';
+import { describeCondition } from '@/services/survey/core/conditions.js';
 import type { SurveyService } from '@/services/survey/core/SurveyService.js';
 import { EnrichedQuestionSchema } from '@/services/survey/types.js';
 import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
@@ -163,12 +164,12 @@ function responseFormatter(result: GetQuestionResponse): ContentBlock[] {
   // Show conditional dependency if exists
   let conditionalInfo = '';
   if (q.conditional) {
-    if ('dependsOn' in q.conditional && 'showIf' in q.conditional) {
+    if ('dependsOn' in q.conditional && q.conditional.showIf) {
       // Simple single condition
       conditionalInfo = `\n**Depends On:** Question ${q.conditional.dependsOn} (show if: ${q.conditional.showIf.join(', ')})`;
-    } else if ('operator' in q.conditional && 'conditions' in q.conditional) {
-      // Multi-condition
-      conditionalInfo = `\n**Conditional Logic:** ${q.conditional.operator} (${q.conditional.conditions.length} conditions)`;
+    } else {
+      // Expression or multi-condition
+      conditionalInfo = `\n**Conditional Logic:** ${describeCondition(q.conditional)}`;
     }
   }
 
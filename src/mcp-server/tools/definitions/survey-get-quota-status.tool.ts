@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Tool for checking live quota fill on a survey.
+ * Reports completes against the overall cap and every quota cell so
+ * operators can see how close a survey is to closing.
+ * @module src/mcp-server/tools/definitions/survey-get-quota-status.tool
+ */
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import type {
+  SdkContext,
+  ToolAnnotations,
+  ToolDefinition,
+} from '@/mcp-server/tools/utils/toolDefinition.js';
+import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
+import { SurveyServiceToken } from '@/container/tokens.js';
+import { container } from 'tsyringe';
+import type { SurveyService } from '@/services/survey/core/SurveyService.js';
+import { QuotaStatusSchema } from '@/services/survey/types.js';
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+import type { RequestContext } from '@/utils/index.js';
+import { logger, markdown } from '@/utils/index.js';
+
+const TOOL_NAME = 'survey_get_quota_status';
+const TOOL_TITLE = 'Get Survey Quota Status';
+const TOOL_DESCRIPTION =
+  'Check live quota fill for a survey: completed sessions against the overall completion cap, and for each quota cell its limit, completes, in-progress sessions already placed in it, and whether it is full. Full cells screen out new participants who qualify for them, and a full overall cap stops new sessions from starting. Quota checks are serialized within one server process only; deployments running several instances (including Cloudflare Workers) can overfill a quota slightly under concurrent completions.';
+
+const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+const InputSchema = z
+  .object({
+    surveyId: z.string().min(1).describe('Survey identifier to check'),
+  })
+  .describe('Parameters for checking survey quota fill.');
+
+const OutputSchema = QuotaStatusSchema.extend({
+  generatedAt: z
+    .string()
+    .datetime()
+    .describe('ISO 8601 timestamp when the status was generated'),
+}).describe('Live quota fill for a survey.');
+
+type GetQuotaStatusInput = z.infer<typeof InputSchema>;
+type GetQuotaStatusResponse = z.infer<typeof OutputSchema>;
+
+async function getQuotaStatusLogic(
+  input: GetQuotaStatusInput,
+  appContext: RequestContext,
+  _sdkContext: SdkContext,
+): Promise<GetQuotaStatusResponse> {
+  logger.debug('Getting survey quota status', appContext);
+
+  const tenantId = appContext.tenantId;
+  if (!tenantId) {
+    throw new McpError(
+      JsonRpcErrorCode.InvalidRequest,
+      'Tenant ID is required for this operation',
+      { operation: TOOL_NAME },
+    );
+  }
+
+  const surveyService = container.resolve<SurveyService>(SurveyServiceToken);
+
+  const status = await surveyService.getQuotaStatus(input.surveyId, tenantId);
+
+  logger.info('Retrieved survey quota status', {
+    ...appContext,
+    surveyId: input.surveyId,
+    completes: status.completes,
+    full: status.full,
+    fullCells: status.cells.filter((cell) => cell.full).length,
+  });
+
+  return {
+    ...status,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+function responseFormatter(result: GetQuotaStatusResponse): ContentBlock[] {
+  const md = markdown();
+  md.h1(`Quota Status: ${result.surveyId}`, '🎟️')
+    .keyValue(
+      'Completes',
+      result.maxCompletes !== undefined
+        ? `${result.completes}/${result.maxCompletes} (${result.remaining ?? 0} remaining)`
+        : `${result.completes} (no overall cap)`,
+    )
+    .keyValue(
+      'Status',
+      result.full ? '🔴 Full - new sessions are refused' : '🟢 Open',
+    )
+    .keyValue('Screened Out by Quota', result.screenedOutByQuota)
+    .blankLine();
+
+  if (result.cells.length > 0) {
+    md.h2('Cells').table(
+      ['Cell', 'Question', 'Completes', 'Limit', 'In Progress', 'Status'],
+      result.cells.map((cell) => [
+        cell.label ?? cell.id,
+        cell.questionId,
+        String(cell.completes),
+        String(cell.limit),
+        String(cell.inProgress),
+        cell.full ? '🔴 Full' : `🟢 ${cell.remaining} left`,
+      ]),
+    );
+  } else if (result.maxCompletes === undefined) {
+    md.paragraph('This survey does not define any quotas.');
+  }
+
+  return [{ type: 'text', text: md.build() }];
+}
+
+export const surveyGetQuotaStatusTool: ToolDefinition<
+  typeof InputSchema,
+  typeof OutputSchema
+> = {
+  name: TOOL_NAME,
+  title: TOOL_TITLE,
+  description: TOOL_DESCRIPTION,
+  inputSchema: InputSchema,
+  outputSchema: OutputSchema,
+  annotations: TOOL_ANNOTATIONS,
+  logic: withToolAuth(['survey:analytics:read'], getQuotaStatusLogic),
+  responseFormatter,
+};
@@ -22,7 +22,7 @@ import { logger } from '@/utils/index.js';
 const TOOL_NAME = 'survey_list_available';
 const TOOL_TITLE = 'List Available Surveys';
 const TOOL_DESCRIPTION =
-  'Discover available surveys that can be started with participants. Returns survey metadata including title, description, estimated duration, and question count.';
+  "Discover available surveys that can be started with participants. Lists the published surveys in the caller's tenant catalog: shared surveys plus the tenant's own, which replace shared surveys with the same ID. Returns survey metadata including title, description, estimated duration, and question count.";
 
 const TOOL_ANNOTATIONS: ToolAnnotations = {
   readOnlyHint: true,
@@ -36,7 +36,7 @@ const InputSchema = z
       .string()
       .optional()
       .describe(
-        'Optional tenant identifier for multi-tenant scenarios. If not provided, uses context tenant.',
+        "Optional tenant identifier for multi-tenant scenarios. If not provided, uses context tenant. Must match the caller's tenant when the request is authenticated with one.",
       ),
   })
   .describe('Parameters for listing available surveys.');
@@ -47,6 +47,7 @@ const OutputSchema = z
       .array(
         z.object({
           id: z.string().describe('Unique survey identifier'),
+          version: z.string().describe('Latest version, used for new sessions'),
           title: z.string().describe('Survey title'),
           description: z.string().describe('Survey description'),
           estimatedDuration: z
@@ -72,6 +73,19 @@ async function surveyListLogic(
   logger.debug('Listing available surveys', appContext);
 
   const surveyService = container.resolve<SurveyService>(SurveyServiceToken);
+  // Callers only see their own tenant's catalog
+  if (
+    input.tenantId &&
+    appContext.tenantId &&
+    input.tenantId !== appContext.tenantId
+  ) {
+    throw new McpError(
+      JsonRpcErrorCode.Forbidden,
+      'Cannot list surveys for another tenant',
+      { operation: TOOL_NAME },
+    );
+  }
+
   const tenantId = input.tenantId || appContext.tenantId;
   if (!tenantId) {
     throw new McpError(
@@ -113,7 +127,7 @@ function responseFormatter(result: SurveyListResponse): ContentBlock[] {
 
       return [
         `${index + 1}. **${s.title}**`,
-        `   ID: \`${s.id}\``,
+        `   ID: \`${s.id}\` (v${s.version})`,
         `   ${s.description}`,
         duration && questions
           ? `   ${duration} | ${questions}`
@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Tool for listing survey sessions with cursor-based pagination.
+ * Lets interviewers and analysts find a participant's session (for example,
+ * to resume it) without knowing its ID.
+ * @module src/mcp-server/tools/definitions/survey-list-sessions.tool
+ */
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import type {
+  SdkContext,
+  ToolAnnotations,
+  ToolDefinition,
+} from '@/mcp-server/tools/utils/toolDefinition.js';
+import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
+import { SurveyServiceToken } from '@/container/tokens.js';
+import { container } from 'tsyringe';
+import type { SurveyService } from '@/services/survey/core/SurveyService.js';
+import {
+  ExportFiltersSchema,
+  SessionListEntrySchema,
+} from '@/services/survey/types.js';
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+import type { RequestContext } from '@/utils/index.js';
+import { DEFAULT_PAGINATION_CONFIG, logger, markdown } from '@/utils/index.js';
+
+const TOOL_NAME = 'survey_list_sessions';
+const TOOL_TITLE = 'List Survey Sessions';
+const TOOL_DESCRIPTION =
+  "List sessions for a survey as compact rows (session ID, participant, status, percent complete, last activity, score). Filter by participant, status, date range, or session metadata key/value pairs. Results are paginated: pass the returned nextCursor to fetch the next page. Use this to find a participant's session ID before calling survey_resume_session.";
+
+const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+const InputSchema = z
+  .object({
+    surveyId: z.string().min(1).describe('Survey whose sessions to list'),
+    participantId: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Only list sessions for this participant'),
+    status: ExportFiltersSchema.shape.status,
+    dateRange: ExportFiltersSchema.shape.dateRange,
+    metadata: ExportFiltersSchema.shape.metadata,
+    cursor: z
+      .string()
+      .optional()
+      .describe('Opaque cursor from a previous call to fetch the next page'),
+    pageSize: z
+      .number()
+      .int()
+      .min(DEFAULT_PAGINATION_CONFIG.MIN_PAGE_SIZE)
+      .max(DEFAULT_PAGINATION_CONFIG.MAX_PAGE_SIZE)
+      .optional()
+      .describe(
+        `Sessions per page (default: ${DEFAULT_PAGINATION_CONFIG.DEFAULT_PAGE_SIZE}); ignored when a cursor is given`,
+      ),
+  })
+  .describe('Parameters for listing survey sessions.');
+
+const OutputSchema = z
+  .object({
+    surveyId: z.string().describe('Survey whose sessions were listed'),
+    sessions: z
+      .array(SessionListEntrySchema)
+      .describe('Sessions on this page, oldest first'),
+    totalCount: z
+      .number()
+      .int()
+      .describe('Total sessions matching the filters'),
+    nextCursor: z
+      .string()
+      .optional()
+      .describe('Cursor for the next page; absent on the last page'),
+  })
+  .describe('A page of survey sessions.');
+
+type ListSessionsInput = z.infer<typeof InputSchema>;
+type ListSessionsResponse = z.infer<typeof OutputSchema>;
+
+async function listSessionsLogic(
+  input: ListSessionsInput,
+  appContext: RequestContext,
+  _sdkContext: SdkContext,
+): Promise<ListSessionsResponse> {
+  logger.debug('Listing survey sessions', appContext);
+
+  const tenantId = appContext.tenantId;
+  if (!tenantId) {
+    throw new McpError(
+      JsonRpcErrorCode.InvalidRequest,
+      'Tenant ID is required for this operation',
+      { operation: TOOL_NAME },
+    );
+  }
+
+  const surveyService = container.resolve<SurveyService>(SurveyServiceToken);
+
+  const page = await surveyService.listSessions(
+    input.surveyId,
+    tenantId,
+    {
+      filters: {
+        ...(input.participantId && { participantIds: [input.participantId] }),
+        ...(input.status && { status: input.status }),
+        ...(input.dateRange && { dateRange: input.dateRange }),
+        ...(input.metadata && { metadata: input.metadata }),
+      },
+      cursor: input.cursor,
+      pageSize: input.pageSize,
+    },
+    appContext,
+  );
+
+  logger.info('Listed survey sessions', {
+    ...appContext,
+    surveyId: input.surveyId,
+    returned: page.sessions.length,
+    totalCount: page.totalCount,
+  });
+
+  return {
+    surveyId: input.surveyId,
+    ...page,
+  };
+}
+
+function responseFormatter(result: ListSessionsResponse): ContentBlock[] {
+  const md = markdown();
+  md.h1(`Sessions: ${result.surveyId}`, '🗂️')
+    .keyValue(
+      'Showing',
+      `${result.sessions.length} of ${result.totalCount} matching sessions`,
+    )
+    .blankLine();
+
+  if (result.sessions.length === 0) {
+    md.paragraph('No sessions match these filters.');
+  } else {
+    md.table(
+      [
+        'Session',
+        'Participant',
+        'Status',
+        'Progress',
+        'Last Activity',
+        'Score',
+      ],
+      result.sessions.map((session) => [
+        session.sessionId,
+        session.participantId,
+        session.status,
+        `${session.percentComplete}%`,
+        session.lastActivityAt,
+        String(session.currentScore),
+      ]),
+    );
+  }
+
+  if (result.nextCursor) {
+    md.keyValue('Next Cursor', result.nextCursor);
+  }
+
+  return [{ type: 'text', text: md.build() }];
+}
+
+export const surveyListSessionsTool: ToolDefinition<
+  typeof InputSchema,
+  typeof OutputSchema
+> = {
+  name: TOOL_NAME,
+  title: TOOL_TITLE,
+  description: TOOL_DESCRIPTION,
+  inputSchema: InputSchema,
+  outputSchema: OutputSchema,
+  annotations: TOOL_ANNOTATIONS,
+  logic: withToolAuth(['survey:session:read'], listSessionsLogic),
+  responseFormatter,
+};
@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Tool for moving unfinished sessions between survey versions.
+ * Lets operators ship wording fixes and renamed questions without forcing
+ * participants to restart, with a dry run that shows what each session loses.
+ * @module src/mcp-server/tools/definitions/survey-migrate-sessions.tool
+ */
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import type {
+  SdkContext,
+  ToolAnnotations,
+  ToolDefinition,
+} from '@/mcp-server/tools/utils/toolDefinition.js';
+import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
+import { SurveyServiceToken } from '@/container/tokens.js';
+import { container } from 'tsyringe';
+import type { SurveyService } from '@/services/survey/core/SurveyService.js';
+import {
+  SessionMigrationReportSchema,
+  SessionMigrationRulesSchema,
+} from '@/services/survey/types.js';
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+import type { RequestContext } from '@/utils/index.js';
+import { logger, markdown } from '@/utils/index.js';
+
+const TOOL_NAME = 'survey_migrate_sessions';
+const TOOL_TITLE = 'Migrate Survey Sessions';
+const TOOL_DESCRIPTION =
+  'Move unfinished (in-progress or abandoned) sessions pinned to an older survey version onto a newer one, the latest by default. Answers carry over to questions with the same ID, or follow explicit rules: renamed question IDs, remapped option values, and dropped questions. Answers that no longer fit the new version are discarded. Runs as a dry run by default, reporting per session what would be kept and lost; pass dryRun: false to apply. Migrated sessions record the move in metadata.migrations.';
+
+const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+const InputSchema = z
+  .object({
+    surveyId: z.string().min(1).describe('Survey whose sessions to migrate'),
+    fromVersion: z
+      .string()
+      .min(1)
+      .describe('Version the sessions are currently pinned to'),
+    toVersion: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Version to migrate to (default: latest loaded version)'),
+    rules: SessionMigrationRulesSchema.optional().describe(
+      'How answers map to the new version; without rules, answers match by question ID',
+    ),
+    sessionIds: z
+      .array(z.string().min(1))
+      .optional()
+      .describe('Only migrate these sessions (default: all unfinished)'),
+    dryRun: z
+      .boolean()
+      .default(true)
+      .describe('Report what would change without saving (default: true)'),
+  })
+  .describe('Parameters for migrating sessions between survey versions.');
+
+const OutputSchema = z
+  .object({
+    surveyId: z.string().describe('Survey whose sessions were migrated'),
+    fromVersion: z.string().describe('Version the sessions were pinned to'),
+    toVersion: z.string().describe('Version the sessions move to'),
+    dryRun: z.boolean().describe('Whether changes were only reported'),
+    migratedCount: z
+      .number()
+      .int()
+      .describe('Sessions saved on the new version (0 for a dry run)'),
+    sessions: z
+      .array(SessionMigrationReportSchema)
+      .describe('What each matching session keeps and loses'),
+  })
+  .describe('Session migration report.');
+
+type MigrateSessionsInput = z.infer<typeof InputSchema>;
+type MigrateSessionsResponse = z.infer<typeof OutputSchema>;
+
+async function migrateSessionsLogic(
+  input: MigrateSessionsInput,
+  appContext: RequestContext,
+  _sdkContext: SdkContext,
+): Promise<MigrateSessionsResponse> {
+  logger.debug('Migrating survey sessions', appContext);
+
+  const tenantId = appContext.tenantId;
+  if (!tenantId) {
+    throw new McpError(
+      JsonRpcErrorCode.InvalidRequest,
+      'Tenant ID is required for this operation',
+      { operation: TOOL_NAME },
+    );
+  }
+
+  const surveyService = container.resolve<SurveyService>(SurveyServiceToken);
+
+  const result = await surveyService.migrateSessions(input.surveyId, tenantId, {
+    fromVersion: input.fromVersion,
+    toVersion: input.toVersion,
+    rules: input.rules,
+    sessionIds: input.sessionIds,
+    dryRun: input.dryRun,
+  });
+
+  logger.info('Migrated survey sessions', {
+    ...appContext,
+    surveyId: input.surveyId,
+    fromVersion: result.fromVersion,
+    toVersion: result.toVersion,
+    dryRun: input.dryRun,
+    matched: result.sessions.length,
+    migrated: result.migratedCount,
+  });
+
+  return {
+    surveyId: input.surveyId,
+    dryRun: input.dryRun,
+    ...result,
+  };
+}
+
+function responseFormatter(result: MigrateSessionsResponse): ContentBlock[] {
+  const md = markdown();
+  md.h1(
+    `${result.dryRun ? 'Migration Preview' : 'Sessions Migrated'}: ${result.surveyId}`,
+    '🔀',
+  )
+    .keyValue('Versions', `v${result.fromVersion} → v${result.toVersion}`)
+    .keyValue(
+      'Sessions',
+      result.dryRun
+        ? `${result.sessions.length} would be migrated`
+        : `${result.migratedCount} migrated`,
+    )
+    .blankLine();
+
+  if (result.sessions.length === 0) {
+    md.paragraph(
+      `No unfinished sessions are pinned to version ${result.fromVersion}.`,
+    );
+  } else {
+    md.table(
+      ['Session', 'Participant', 'Kept', 'Lost'],
+      result.sessions.map((session) => [
+        session.sessionId,
+        session.participantId,
+        String(session.migrated.length),
+        session.lost.length > 0
+          ? session.lost
+              .map((lost) => `${lost.questionId} (${lost.reason})`)
+              .join(', ')
+          : '—',
+      ]),
+    );
+  }
+
+  if (result.dryRun && result.sessions.length > 0) {
+    md.paragraph('Run again with dryRun: false to apply this migration.');
+  }
+
+  return [{ type: 'text', text: md.build() }];
+}
+
+export const surveyMigrateSessionsTool: ToolDefinition<
+  typeof InputSchema,
+  typeof OutputSchema
+> = {
+  name: TOOL_NAME,
+  title: TOOL_TITLE,
+  description: TOOL_DESCRIPTION,
+  inputSchema: InputSchema,
+  outputSchema: OutputSchema,
+  annotations: TOOL_ANNOTATIONS,
+  logic: withToolAuth(['survey:admin'], migrateSessionsLogic),
+  responseFormatter,
+};
@@ -15,7 +15,10 @@ import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
 import { SurveyServiceToken } from '@/container/tokens.js';
 import { container } from 'tsyringe';
 import type { SurveyService } from '@/services/survey/core/SurveyService.js';
-import { EnrichedQuestionSchema } from '@/services/survey/types.js';
+import {
+  CurrentSectionSchema,
+  EnrichedQuestionSchema,
+} from '@/services/survey/types.js';
 import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
 import type { RequestContext } from '@/utils/index.js';
 import { logger } from '@/utils/index.js';
@@ -23,7 +26,7 @@ import { logger } from '@/utils/index.js';
 const TOOL_NAME = 'survey_resume_session';
 const TOOL_TITLE = 'Resume Survey Session';
 const TOOL_DESCRIPTION =
-  'Resume an incomplete survey session. Restores the full survey context, lists previously answered questions, provides updated question suggestions, and reports time elapsed since last activity. Continue the conversation naturally from where the participant left off.';
+  'Resume an incomplete survey session. Restores the full survey context, lists previously answered questions, provides updated question suggestions, and reports time elapsed since last activity. Continue the conversation naturally from where the participant left off. Sessions abandoned for inactivity are reopened unless the survey disables it; expired sessions cannot be resumed.';
 
 const TOOL_ANNOTATIONS: ToolAnnotations = {
   readOnlyHint: false,
@@ -82,12 +85,19 @@ const OutputSchema = z
           id: z.string().describe('Question identifier'),
           text: z.string().describe('Question text'),
           answer: z.unknown().describe("Participant's answer"),
+          skipped: z
+            .boolean()
+            .optional()
+            .describe('True when the participant declined to answer'),
         }),
       )
       .describe('Questions that have already been answered'),
     nextSuggestedQuestions: z
       .array(EnrichedQuestionSchema)
       .describe('Updated list of 3-5 suggested next questions'),
+    currentSection: CurrentSectionSchema.optional().describe(
+      'Section the participant is in, for surveys organized into sections',
+    ),
     guidanceForLLM: z
       .string()
       .describe(
@@ -119,6 +129,15 @@ async function resumeSessionLogic(
 
   const result = await surveyService.resumeSession(input.sessionId, tenantId);
 
+  const { currentSection } = result.session.progress;
+  let guidance = `Welcome the participant back warmly. Acknowledge the time gap (${result.elapsedTimeSinceLastActivity}) and recap their progress (${result.session.progress.percentComplete}% complete). Pick up the conversation naturally from where they left off.`;
+  if (currentSection) {
+    guidance += ` They are in the "${currentSection.title}" section`;
+    guidance += currentSection.intro
+      ? `; remind them of the topic: "${currentSection.intro}".`
+      : '.';
+  }
+
   logger.info('Resumed survey session', {
     ...appContext,
     sessionId: result.session.sessionId,
@@ -142,7 +161,8 @@ async function resumeSessionLogic(
     },
     answeredQuestions: result.answeredQuestions,
     nextSuggestedQuestions: result.nextSuggestedQuestions,
-    guidanceForLLM: `Welcome the participant back warmly. Acknowledge the time gap (${result.elapsedTimeSinceLastActivity}) and recap their progress (${result.session.progress.percentComplete}% complete). Pick up the conversation naturally from where they left off.`,
+    ...(currentSection && { currentSection }),
+    guidanceForLLM: guidance,
   };
 }
 
@@ -163,8 +183,9 @@ function responseFormatter(result: ResumeSessionResponse): ContentBlock[] {
     ? `\n✅ Already Answered (${result.answeredQuestions.length} questions):\n${result.answeredQuestions
         .slice(0, 5)
         .map((q) => {
-          const answerPreview =
-            typeof q.answer === 'string' && q.answer.length > 50
+          const answerPreview = q.skipped
+            ? '(skipped)'
+            : typeof q.answer === 'string' && q.answer.length > 50
               ? `${q.answer.slice(0, 47)}...`
               : String(q.answer);
           return `   • ${q.text}\n     Answer: ${answerPreview}`;
@@ -186,6 +207,10 @@ function responseFormatter(result: ResumeSessionResponse): ContentBlock[] {
           .join('\n')}`
       : '';
 
+  const section = result.currentSection
+    ? `\n\n📂 Current Section: ${result.currentSection.title}`
+    : '';
+
   // Suggested next questions
   const suggested = result.nextSuggestedQuestions.length
     ? `\n\n📋 Pick Up Where You Left Off:\n${result.nextSuggestedQuestions
@@ -205,6 +230,7 @@ function responseFormatter(result: ResumeSessionResponse): ContentBlock[] {
     progress,
     answeredSection,
     stillNeedSection,
+    section,
     suggested,
   ].filter(Boolean);
 
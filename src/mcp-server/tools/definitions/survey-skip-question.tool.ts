@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Tool for recording that a participant declined to answer a question.
+ * Marks the question as skipped so it stops being suggested and counts toward progress.
+ * @module src/mcp-server/tools/definitions/survey-skip-question.tool
+ */
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import type {
+  SdkContext,
+  ToolAnnotations,
+  ToolDefinition,
+} from '@/mcp-server/tools/utils/toolDefinition.js';
+import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
+import { SurveyServiceToken } from '@/container/tokens.js';
+import { container } from 'tsyringe';
+import type { SurveyService } from '@/services/survey/core/SurveyService.js';
+import {
+  CurrentSectionSchema,
+  EligibilityChangeSchema,
+  EnrichedQuestionSchema,
+  SessionProgressSchema,
+  SessionScreenOutSchema,
+} from '@/services/survey/types.js';
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+import type { RequestContext } from '@/utils/index.js';
+import { logger } from '@/utils/index.js';
+
+const TOOL_NAME = 'survey_skip_question';
+const TOOL_TITLE = 'Skip Survey Question';
+const TOOL_DESCRIPTION =
+  'Record that the participant declined to answer an optional question. Use this instead of inventing an answer or leaving the question pending. Skipped questions count toward progress and are no longer suggested. Required questions cannot be skipped, and some surveys disable skipping entirely.';
+
+const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+const InputSchema = z
+  .object({
+    sessionId: z.string().min(1).describe('Survey session identifier'),
+    questionId: z.string().min(1).describe('Question identifier to skip'),
+    reason: z
+      .string()
+      .optional()
+      .describe(
+        'Optional reason the participant gave for declining (e.g., "prefers not to say")',
+      ),
+  })
+  .describe('Parameters for skipping a survey question.');
+
+const OutputSchema = z
+  .object({
+    success: z.boolean().describe('Whether the skip was recorded'),
+    questionId: z.string().describe('Question that was skipped'),
+    progress: SessionProgressSchema.describe('Updated session progress'),
+    updatedEligibility: z
+      .array(EligibilityChangeSchema)
+      .describe('Questions whose eligibility changed due to this skip'),
+    nextSuggestedQuestions: z
+      .array(EnrichedQuestionSchema)
+      .describe('Updated list of 3-5 suggested next questions'),
+    screenOut: SessionScreenOutSchema.optional().describe(
+      'Set when this skip matched a termination rule and ended the session',
+    ),
+    enteredSection: CurrentSectionSchema.optional().describe(
+      'Set when this skip finished a section and the next one begins',
+    ),
+    guidanceForLLM: z
+      .string()
+      .describe('Instructions for next steps after skipping this question'),
+  })
+  .describe('Question skip result.');
+
+type SkipQuestionInput = z.infer<typeof InputSchema>;
+type SkipQuestionResponse = z.infer<typeof OutputSchema>;
+
+async function skipQuestionLogic(
+  input: SkipQuestionInput,
+  appContext: RequestContext,
+  _sdkContext: SdkContext,
+): Promise<SkipQuestionResponse> {
+  logger.debug('Skipping survey question', appContext);
+
+  const tenantId = appContext.tenantId;
+  if (!tenantId) {
+    throw new McpError(
+      JsonRpcErrorCode.InvalidRequest,
+      'Tenant ID is required for this operation',
+      { operation: TOOL_NAME },
+    );
+  }
+
+  const surveyService = container.resolve<SurveyService>(SurveyServiceToken);
+
+  const result = await surveyService.skipQuestion(
+    input.sessionId,
+    input.questionId,
+    tenantId,
+    input.reason,
+  );
+
+  let guidance: string;
+  if (result.screenOut) {
+    guidance = `Skipping this question ended the survey: the participant does not qualify (rule "${result.screenOut.ruleId}").${result.screenOut.message ? ` Share this message with them: "${result.screenOut.message}"` : ' Let them know the survey has ended.'} Thank them politely and do not ask any further survey questions.`;
+  } else {
+    guidance = `The question was marked as skipped. Acknowledge the participant's choice without pressing further. Progress is now ${result.progress.percentComplete}%.`;
+    const newlyAvailable = result.updatedEligibility.filter(
+      (c) => c.nowEligible,
+    );
+    if (newlyAvailable.length > 0) {
+      guidance += ` New conditional questions became available: ${newlyAvailable.map((c) => c.questionId).join(', ')}.`;
+    }
+    if (result.enteredSection) {
+      guidance += ` Suggestions now move on to the "${result.enteredSection.title}" section`;
+      guidance += result.enteredSection.intro
+        ? `; transition into it with: "${result.enteredSection.intro}".`
+        : '; let the participant know the topic is changing.';
+    }
+    guidance +=
+      result.nextSuggestedQuestions.length > 0
+        ? ' Continue with one of the suggested questions.'
+        : ' No further questions are suggested - check progress and complete the survey if possible.';
+  }
+
+  logger.info('Skipped survey question', {
+    ...appContext,
+    sessionId: input.sessionId,
+    questionId: input.questionId,
+    progress: result.progress.percentComplete,
+  });
+
+  return {
+    success: true,
+    questionId: input.questionId,
+    progress: result.progress,
+    updatedEligibility: result.updatedEligibility,
+    nextSuggestedQuestions: result.nextSuggestedQuestions,
+    ...(result.screenOut && { screenOut: result.screenOut }),
+    ...(result.enteredSection && { enteredSection: result.enteredSection }),
+    guidanceForLLM: guidance,
+  };
+}
+
+function responseFormatter(result: SkipQuestionResponse): ContentBlock[] {
+  const header = result.screenOut
+    ? `🚫 Survey Ended (screened out) after skipping: ${result.questionId}`
+    : `⏭️ Question Skipped: ${result.questionId}`;
+  const progress = `Progress: ${result.progress.percentComplete}% (${result.progress.answeredQuestions} answered, ${result.progress.skippedQuestions ?? 0} skipped of ${result.progress.totalQuestions})`;
+
+  const section = result.enteredSection
+    ? `\n\n📂 Next Section: ${result.enteredSection.title}${result.enteredSection.intro ? `\n${result.enteredSection.intro}` : ''}`
+    : '';
+
+  const suggested =
+    result.nextSuggestedQuestions.length > 0
+      ? `\n\n📋 Suggested Next Questions:\n${result.nextSuggestedQuestions
+          .map((q, i) => {
+            const reqTag = q.required ? '[Required]' : '[Optional]';
+            return `${i + 1}. ${reqTag} ${q.text}`;
+          })
+          .join('\n')}`
+      : '';
+
+  return [
+    {
+      type: 'text',
+      text: `${header}\n\n${progress}${section}${suggested}\n\n💡 ${result.guidanceForLLM}`,
+    },
+  ];
+}
+
+export const surveySkipQuestionTool: ToolDefinition<
+  typeof InputSchema,
+  typeof OutputSchema
+> = {
+  name: TOOL_NAME,
+  title: TOOL_TITLE,
+  description: TOOL_DESCRIPTION,
+  inputSchema: InputSchema,
+  outputSchema: OutputSchema,
+  annotations: TOOL_ANNOTATIONS,
+  logic: withToolAuth(['survey:response:write'], skipQuestionLogic),
+  responseFormatter,
+};
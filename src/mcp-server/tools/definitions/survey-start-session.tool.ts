@@ -15,7 +15,10 @@ import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
 import { SurveyServiceToken } from '@/container/tokens.js';
 import { container } from 'tsyringe';
 import type { SurveyService } from '@/services/survey/core/SurveyService.js';
-import { EnrichedQuestionSchema } from '@/services/survey/types.js';
+import {
+  CurrentSectionSchema,
+  EnrichedQuestionSchema,
+} from '@/services/survey/types.js';
 import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
 import type { RequestContext } from '@/utils/index.js';
 import { logger } from '@/utils/index.js';
@@ -78,6 +81,9 @@ const OutputSchema = z
       .describe(
         '3-5 suggested questions to ask next (prioritizes required questions)',
       ),
+    currentSection: CurrentSectionSchema.optional().describe(
+      'Section to start with, for surveys organized into sections',
+    ),
     guidanceForLLM: z
       .string()
       .describe('Instructions for how to conduct the survey naturally'),
@@ -112,6 +118,16 @@ async function startSessionLogic(
     input.metadata,
   );
 
+  const currentSection = result.session.progress.currentSection;
+  let guidance =
+    "You have the complete survey context. Feel free to ask questions in any order that feels natural to the conversation. The 'nextSuggestedQuestions' array provides a good starting point. Be conversational and adaptive - you can explore topics as they arise. Just make sure to eventually cover all required questions before completing the survey.";
+  if (currentSection) {
+    guidance += ` The survey is organized into sections, and suggestions stay within the current one until it is done. Start with the "${currentSection.title}" section`;
+    guidance += currentSection.intro
+      ? `, introducing it with: "${currentSection.intro}".`
+      : '.';
+  }
+
   logger.info('Started survey session', {
     ...appContext,
     sessionId: result.session.sessionId,
@@ -129,8 +145,8 @@ async function startSessionLogic(
     },
     allQuestions: result.allQuestions,
     nextSuggestedQuestions: result.nextSuggestedQuestions,
-    guidanceForLLM:
-      "You have the complete survey context. Feel free to ask questions in any order that feels natural to the conversation. The 'nextSuggestedQuestions' array provides a good starting point. Be conversational and adaptive - you can explore topics as they arise. Just make sure to eventually cover all required questions before completing the survey.",
+    ...(currentSection && { currentSection }),
+    guidanceForLLM: guidance,
   };
 }
 
@@ -163,12 +179,19 @@ function responseFormatter(result: StartSessionResponse): ContentBlock[] {
     })
     .join('\n');
 
+  const sectionIntro = result.currentSection
+    ? `📂 First Section: ${result.currentSection.title}${result.currentSection.intro ? `\n${result.currentSection.intro}` : ''}\n`
+    : undefined;
+
   const startingSection = [
+    sectionIntro,
     '🔑 Getting Started - Choose Your Path:',
     suggested,
     '',
     '💬 Feel free to answer in any order that feels natural!',
-  ].join('\n');
+  ]
+    .filter((line) => line !== undefined)
+    .join('\n');
 
   const parts = [header, sessionInfo, '', aboutSection, '', startingSection];
 
@@ -16,9 +16,13 @@ import { SurveyServiceToken } from '@/container/tokens.js';
 import { container } from 'tsyringe';
 import type { SurveyService } from '@/services/survey/core/SurveyService.js';
 import {
+  CurrentSectionSchema,
   EligibilityChangeSchema,
   EnrichedQuestionSchema,
+  QuestionGradeSchema,
   SessionProgressSchema,
+  SessionScreenOutSchema,
+  type SessionScreenOut,
   ValidationResultSchema,
 } from '@/services/survey/types.js';
 import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
@@ -28,7 +32,7 @@ import { logger } from '@/utils/index.js';
 const TOOL_NAME = 'survey_submit_response';
 const TOOL_TITLE = 'Submit Survey Response';
 const TOOL_DESCRIPTION =
-  "Record a participant's answer to a survey question. Validates the response against question rules, calculates scores for quiz/assessment questions, updates session progress, detects eligibility changes for conditional questions, and returns updated question suggestions. If validation fails, re-prompt the participant with the specific guidance provided.";
+  "Record a participant's answer to a survey question. Validates the response against question rules, calculates scores for quiz/assessment questions, grades questions that have an answer key (returning correctness and feedback unless the survey holds them until completion), updates session progress, detects eligibility changes for conditional questions, and returns updated question suggestions. If the answer triggers a screen-out rule or places the participant in a full quota cell, the session ends and `screenOut` carries the message to relay. If validation fails, re-prompt the participant with the specific guidance provided.";
 
 const TOOL_ANNOTATIONS: ToolAnnotations = {
   readOnlyHint: false,
@@ -64,9 +68,15 @@ const OutputSchema = z
       .describe(
         'Total accumulated score for the session (if scoring is enabled)',
       ),
+    grade: QuestionGradeSchema.optional().describe(
+      'Quiz questions: correctness and feedback (omitted when the survey reveals correctness only on completion)',
+    ),
     progress: SessionProgressSchema.optional().describe(
       'Updated session progress (only if submission succeeded)',
     ),
+    screenOut: SessionScreenOutSchema.optional().describe(
+      'Set when this response matched a termination rule and ended the session',
+    ),
     updatedEligibility: z
       .array(EligibilityChangeSchema)
       .optional()
@@ -75,6 +85,20 @@ const OutputSchema = z
       .array(EnrichedQuestionSchema)
       .optional()
       .describe('Updated list of 3-5 suggested next questions'),
+    enteredSection: CurrentSectionSchema.optional().describe(
+      'Set when this response finished a section and the next one begins',
+    ),
+    attemptsRemaining: z
+      .number()
+      .int()
+      .optional()
+      .describe(
+        'Attempts left before the question locks (only when the survey sets maxAttempts)',
+      ),
+    questionLocked: z
+      .boolean()
+      .optional()
+      .describe('Whether the question is now locked after too many failures'),
     guidanceForLLM: z
       .string()
       .describe('Instructions for next steps after recording this response'),
@@ -114,10 +138,27 @@ async function submitResponseLogic(
     const errorMessages = result.validation.errors
       .map((e) => e.message)
       .join('; ');
+    let guidance = `The participant's response was invalid: ${errorMessages}.`;
+    if (result.questionLocked) {
+      guidance +=
+        ' The maximum number of attempts has been reached and this question is now locked. Move on to another question.';
+    } else {
+      guidance +=
+        ' Politely ask them to provide a corrected answer that meets the requirements.';
+      if (result.attemptsRemaining !== undefined) {
+        guidance += ` ${result.attemptsRemaining} attempt(s) remain before the question locks.`;
+      }
+    }
     return {
       success: false,
       validation: result.validation,
-      guidanceForLLM: `The participant's response was invalid: ${errorMessages}. Politely ask them to provide a corrected answer that meets the requirements.`,
+      ...(result.attemptsRemaining !== undefined && {
+        attemptsRemaining: result.attemptsRemaining,
+      }),
+      ...(result.questionLocked !== undefined && {
+        questionLocked: result.questionLocked,
+      }),
+      guidanceForLLM: guidance,
     };
   }
 
@@ -127,6 +168,22 @@ async function submitResponseLogic(
   const responseScore = result.score;
   const currentScore = result.currentScore;
 
+  if (result.screenOut) {
+    logger.info('Submitted survey response', {
+      ...appContext,
+      questionId: input.questionId,
+      screenOutRule: result.screenOut.ruleId,
+    });
+
+    return {
+      success: true,
+      validation: result.validation,
+      progress: result.progress,
+      screenOut: result.screenOut,
+      guidanceForLLM: screenOutGuidance(result.screenOut),
+    };
+  }
+
   let guidance = `Response recorded successfully. Progress updated to ${result.progress?.percentComplete}%.`;
 
   if (newlyAvailable.length > 0) {
@@ -134,6 +191,24 @@ async function submitResponseLogic(
     guidance += ` New conditional questions became available: ${questionIds}.`;
   }
 
+  if (result.grade) {
+    guidance += result.grade.correct
+      ? ' The answer is correct.'
+      : result.grade.credit > 0
+        ? ` The answer is partially correct (${Math.round(result.grade.credit * 100)}% credit).`
+        : ' The answer is incorrect.';
+    if (result.grade.feedback) {
+      guidance += ` Share this feedback with the participant: "${result.grade.feedback}"`;
+    }
+  }
+
+  if (result.enteredSection) {
+    guidance += ` Suggestions now move on to the "${result.enteredSection.title}" section`;
+    guidance += result.enteredSection.intro
+      ? `; transition into it with: "${result.enteredSection.intro}".`
+      : '; let the participant know the topic is changing.';
+  }
+
   guidance +=
     " You have multiple questions to choose from - follow the conversation's natural direction.";
 
@@ -149,22 +224,50 @@ async function submitResponseLogic(
     validation: result.validation,
     score: responseScore,
     currentScore,
+    ...(result.grade && { grade: result.grade }),
     progress: result.progress,
     updatedEligibility: eligibilityChanges,
     nextSuggestedQuestions: result.nextSuggestedQuestions,
+    ...(result.enteredSection && { enteredSection: result.enteredSection }),
     guidanceForLLM: guidance,
   };
 }
 
+/**
+ * Guidance once a termination rule has ended the session.
+ */
+function screenOutGuidance(screenOut: SessionScreenOut): string {
+  const message = screenOut.message
+    ? ` Share this message with them: "${screenOut.message}"`
+    : ' Let them know the survey has ended.';
+  const cause =
+    screenOut.reason === 'quota-full'
+      ? `the quota for their group is already full (quota "${screenOut.ruleId}")`
+      : `the participant does not qualify (rule "${screenOut.ruleId}")`;
+  return `This response ended the survey: ${cause}.${message} Thank them politely and do not ask any further survey questions.`;
+}
+
 function responseFormatter(result: SubmitResponseResponse): ContentBlock[] {
+  if (result.screenOut) {
+    return [
+      {
+        type: 'text',
+        text: `🚫 Survey Ended (screened out)\n\n${result.screenOut.message ?? 'The participant does not qualify for this survey.'}\n\n💡 ${result.guidanceForLLM}`,
+      },
+    ];
+  }
+
   if (!result.success) {
     const errors = result.validation.errors
       .map((e) => `• ${e.message}`)
       .join('\n');
+    const footer = result.questionLocked
+      ? '🔒 Maximum attempts reached - this question is now locked.'
+      : `💡 Please provide a corrected answer that meets the requirements.${result.attemptsRemaining !== undefined ? ` (${result.attemptsRemaining} attempt(s) remaining)` : ''}`;
     return [
       {
         type: 'text',
-        text: `❌ Validation Failed\n\n${errors}\n\n💡 Please provide a corrected answer that meets the requirements.`,
+        text: `❌ Validation Failed\n\n${errors}\n\n${footer}`,
       },
     ];
   }
@@ -185,6 +288,10 @@ function responseFormatter(result: SubmitResponseResponse): ContentBlock[] {
       ? `\n\n🎯 Score: ${result.score !== undefined ? `+${result.score}` : '0'} points${result.currentScore !== undefined ? ` (Total: ${result.currentScore})` : ''}`
       : '';
 
+  const gradeSection = result.grade
+    ? `\n\n${result.grade.correct ? '✅ Correct' : result.grade.credit > 0 ? '🟡 Partially correct' : '❌ Incorrect'} (${result.grade.pointsEarned}/${result.grade.pointsPossible} points)${result.grade.feedback ? `\n${result.grade.feedback}` : ''}`
+    : '';
+
   // Newly unlocked questions with details
   const newlyUnlocked =
     result.updatedEligibility && result.updatedEligibility.length > 0
@@ -208,6 +315,10 @@ function responseFormatter(result: SubmitResponseResponse): ContentBlock[] {
           .join('\n')}`
       : '';
 
+  const sectionSection = result.enteredSection
+    ? `\n\n📂 Next Section: ${result.enteredSection.title}${result.enteredSection.intro ? `\n${result.enteredSection.intro}` : ''}`
+    : '';
+
   // Suggested next questions with full details
   const suggested =
     result.nextSuggestedQuestions && result.nextSuggestedQuestions.length > 0
@@ -231,7 +342,7 @@ function responseFormatter(result: SubmitResponseResponse): ContentBlock[] {
   return [
     {
       type: 'text',
-      text: `✓ Response Recorded\n\nProgress: ${progress}${scoreSection}${newQuestionsSection}${suggested}${guidance}`,
+      text: `✓ Response Recorded\n\nProgress: ${progress}${scoreSection}${gradeSection}${newQuestionsSection}${sectionSection}${suggested}${guidance}`,
     },
   ];
 }
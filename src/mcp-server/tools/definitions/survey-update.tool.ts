@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Tool for editing draft survey definitions and moving survey
+ * versions through the draft/published/closed/archived lifecycle.
+ * @module src/mcp-server/tools/definitions/survey-update.tool
+ */
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import type {
+  SdkContext,
+  ToolAnnotations,
+  ToolDefinition,
+} from '@/mcp-server/tools/utils/toolDefinition.js';
+import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
+import { SurveyServiceToken } from '@/container/tokens.js';
+import { container } from 'tsyringe';
+import type { SurveyService } from '@/services/survey/core/SurveyService.js';
+import {
+  DefinitionIssueSchema,
+  SurveyStatusSchema,
+  SurveyVersionInfoSchema,
+} from '@/services/survey/types.js';
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+import type { RequestContext } from '@/utils/index.js';
+import { logger, markdown } from '@/utils/index.js';
+
+const TOOL_NAME = 'survey_update';
+const TOOL_TITLE = 'Update Survey';
+const TOOL_DESCRIPTION =
+  'Update a survey version (the latest when version is omitted). Replace the full definition of a draft, change its status, or both. Status changes follow the lifecycle: draft → published or archived; published → closed or archived; closed → published or archived; archived → closed. Only published versions appear in survey_list_available and accept new sessions; closed versions let existing sessions finish. Published versions cannot be edited: create a new version with survey_create instead, so sessions pinned to the old version are unaffected.';
+
+const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+const InputSchema = z
+  .object({
+    surveyId: z.string().min(1).describe('Survey to update'),
+    version: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Version to update (default: latest version)'),
+    definition: z
+      .record(z.unknown())
+      .optional()
+      .describe(
+        'Replacement definition for a draft; its id and version are taken from the survey being updated',
+      ),
+    status: SurveyStatusSchema.optional().describe('New authoring status'),
+  })
+  .describe(
+    'Parameters for updating a survey. Provide a definition, a status, or both.',
+  );
+
+const OutputSchema = SurveyVersionInfoSchema.extend({
+  previousStatus: SurveyStatusSchema.describe('Status before the update'),
+  warnings: z
+    .array(DefinitionIssueSchema)
+    .describe('Lint warnings on the saved definition'),
+}).describe('The updated survey version.');
+
+type UpdateSurveyInput = z.infer<typeof InputSchema>;
+type UpdateSurveyResponse = z.infer<typeof OutputSchema>;
+
+async function updateSurveyLogic(
+  input: UpdateSurveyInput,
+  appContext: RequestContext,
+  _sdkContext: SdkContext,
+): Promise<UpdateSurveyResponse> {
+  logger.debug('Updating survey definition', appContext);
+
+  const tenantId = appContext.tenantId;
+  if (!tenantId) {
+    throw new McpError(
+      JsonRpcErrorCode.InvalidRequest,
+      'Tenant ID is required for this operation',
+      { operation: TOOL_NAME },
+    );
+  }
+
+  const surveyService = container.resolve<SurveyService>(SurveyServiceToken);
+
+  const { survey, previousStatus, lint } = await surveyService.updateSurvey(
+    input.surveyId,
+    tenantId,
+    {
+      version: input.version,
+      definition: input.definition,
+      status: input.status,
+    },
+  );
+
+  logger.info('Updated survey definition', {
+    ...appContext,
+    surveyId: survey.id,
+    version: survey.version,
+    previousStatus,
+    status: survey.status,
+  });
+
+  return {
+    surveyId: survey.id,
+    version: survey.version,
+    status: survey.status,
+    previousStatus,
+    title: survey.metadata.title,
+    questionCount: survey.questions.length,
+    warnings: lint.warnings,
+  };
+}
+
+function responseFormatter(result: UpdateSurveyResponse): ContentBlock[] {
+  const md = markdown();
+  md.h1(`Survey Updated: ${result.title}`, '✏️')
+    .keyValue('ID', `\`${result.surveyId}\``)
+    .keyValue('Version', result.version)
+    .keyValue(
+      'Status',
+      result.previousStatus !== result.status
+        ? `${result.previousStatus} → ${result.status}`
+        : result.status,
+    )
+    .keyValue('Questions', result.questionCount)
+    .blankLine();
+
+  if (result.warnings.length > 0) {
+    md.h2('Warnings').list(result.warnings.map((issue) => issue.message));
+  }
+
+  return [{ type: 'text', text: md.build() }];
+}
+
+export const surveyUpdateTool: ToolDefinition<
+  typeof InputSchema,
+  typeof OutputSchema
+> = {
+  name: TOOL_NAME,
+  title: TOOL_TITLE,
+  description: TOOL_DESCRIPTION,
+  inputSchema: InputSchema,
+  outputSchema: OutputSchema,
+  annotations: TOOL_ANNOTATIONS,
+  logic: withToolAuth(['survey:admin'], updateSurveyLogic),
+  responseFormatter,
+};
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Tool for linting survey definitions.
+ * Reports semantic problems (broken dependencies, impossible conditions,
+ * inconsistent validation rules) in a loaded survey or a draft definition.
+ * @module src/mcp-server/tools/definitions/survey-validate-definition.tool
+ */
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import type {
+  SdkContext,
+  ToolAnnotations,
+  ToolDefinition,
+} from '@/mcp-server/tools/utils/toolDefinition.js';
+import { withToolAuth } from '@/mcp-server/transports/auth/lib/withAuth.js';
+import { SurveyServiceToken } from '@/container/tokens.js';
+import { container } from 'tsyringe';
+import type { SurveyService } from '@/services/survey/core/SurveyService.js';
+import {
+  DefinitionIssueSchema,
+  type DefinitionIssue,
+} from '@/services/survey/types.js';
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+import type { RequestContext } from '@/utils/index.js';
+import { logger } from '@/utils/index.js';
+
+const TOOL_NAME = 'survey_validate_definition';
+const TOOL_TITLE = 'Validate Survey Definition';
+const TOOL_DESCRIPTION =
+  'Lint a survey definition for semantic mistakes that schema validation misses: duplicate question IDs, dependencies on missing questions, condition values that are not valid answers, circular dependencies, unreachable questions, missing rating scales, inconsistent min/max rules, and invalid regex patterns. Pass either the ID of a loaded survey or a full draft definition.';
+
+const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+const InputSchema = z
+  .object({
+    surveyId: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('ID of a loaded survey to lint'),
+    definition: z
+      .record(z.unknown())
+      .optional()
+      .describe('Draft survey definition (JSON object) to lint'),
+  })
+  .describe(
+    'Parameters for validating a survey definition. Provide exactly one of surveyId or definition.',
+  );
+
+const OutputSchema = z
+  .object({
+    surveyId: z
+      .string()
+      .optional()
+      .describe('Survey ID, when the definition declares one'),
+    valid: z.boolean().describe('True when no errors were found'),
+    errorCount: z.number().int().describe('Number of errors'),
+    warningCount: z.number().int().describe('Number of warnings'),
+    errors: z
+      .array(DefinitionIssueSchema)
+      .describe('Issues that make the survey unusable'),
+    warnings: z
+      .array(DefinitionIssueSchema)
+      .describe('Issues that are likely mistakes but do not block loading'),
+  })
+  .describe('Survey definition lint result.');
+
+type ValidateDefinitionInput = z.infer<typeof InputSchema>;
+type ValidateDefinitionResponse = z.infer<typeof OutputSchema>;
+
+async function validateDefinitionLogic(
+  input: ValidateDefinitionInput,
+  appContext: RequestContext,
+  _sdkContext: SdkContext,
+): Promise<ValidateDefinitionResponse> {
+  logger.debug('Validating survey definition', appContext);
+
+  const tenantId = appContext.tenantId;
+  if (!tenantId) {
+    throw new McpError(
+      JsonRpcErrorCode.InvalidRequest,
+      'Tenant ID is required for this operation',
+      { operation: TOOL_NAME },
+    );
+  }
+
+  const surveyService = container.resolve<SurveyService>(SurveyServiceToken);
+
+  const result = await surveyService.validateDefinition(
+    { surveyId: input.surveyId, definition: input.definition },
+    tenantId,
+  );
+
+  logger.info('Validated survey definition', {
+    ...appContext,
+    surveyId: result.surveyId,
+    valid: result.valid,
+    errorCount: result.errors.length,
+    warningCount: result.warnings.length,
+  });
+
+  return {
+    ...(result.surveyId !== undefined && { surveyId: result.surveyId }),
+    valid: result.valid,
+    errorCount: result.errors.length,
+    warningCount: result.warnings.length,
+    errors: result.errors,
+    warnings: result.warnings,
+  };
+}
+
+function formatIssue(issue: DefinitionIssue): string {
+  const location = issue.path ? ` (\`${issue.path}\`)` : '';
+  return `- **${issue.code}**${location}: ${issue.message}`;
+}
+
+function responseFormatter(result: ValidateDefinitionResponse): ContentBlock[] {
+  const subject = result.surveyId ? ` — ${result.surveyId}` : '';
+  const header = result.valid
+    ? `✅ Survey Definition Valid${subject}`
+    : `❌ Survey Definition Invalid${subject}`;
+
+  const summary = `**Errors:** ${result.errorCount} | **Warnings:** ${result.warningCount}`;
+
+  const sections = [header, summary];
+  if (result.errorCount > 0) {
+    sections.push(`**Errors:**\n${result.errors.map(formatIssue).join('\n')}`);
+  }
+  if (result.warningCount > 0) {
+    sections.push(
+      `⚠️ **Warnings:**\n${result.warnings.map(formatIssue).join('\n')}`,
+    );
+  }
+
+  return [{ type: 'text', text: sections.join('\n\n') }];
+}
+
+export const surveyValidateDefinitionTool: ToolDefinition<
+  typeof InputSchema,
+  typeof OutputSchema
+> = {
+  name: TOOL_NAME,
+  title: TOOL_TITLE,
+  description: TOOL_DESCRIPTION,
+  inputSchema: InputSchema,
+  outputSchema: OutputSchema,
+  annotations: TOOL_ANNOTATIONS,
+  logic: withToolAuth(['survey:definition:read'], validateDefinitionLogic),
+  responseFormatter,
+};
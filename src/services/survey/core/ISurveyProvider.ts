@@ -8,9 +8,11 @@ import type {
   ExportFilters,
   ExportFormat,
   ParticipantSession,
+  SessionStatusCounts,
   SurveyAnalytics,
   SurveyDefinition,
 } from '../types.js';
+import type { QuestionLibrary } from './library.js';
 
 /**
  * Provider interface for survey data access.
@@ -23,6 +25,24 @@ export interface ISurveyProvider {
    */
   initialize(): Promise<void>;
 
+  /**
+   * Start reloading survey definitions when their source changes.
+   * Providers without a watchable source may treat this as a no-op.
+   */
+  watchDefinitions(): void;
+
+  /**
+   * Stop reloading survey definitions on source changes.
+   */
+  unwatchDefinitions(): void;
+
+  /**
+   * Subscribe to changes in the available survey definitions.
+   * @param listener Called after definitions are reloaded, saved or deleted
+   * @returns Function that removes the listener
+   */
+  onDefinitionsChanged(listener: () => void): () => void;
+
   /**
    * Get all available survey definitions.
    * @param tenantId Optional tenant identifier for multi-tenant scenarios
@@ -30,17 +50,60 @@ export interface ISurveyProvider {
    */
   getAllSurveys(tenantId?: string): Promise<SurveyDefinition[]>;
 
+  /**
+   * Get the question library that definitions include questions from with
+   * `$ref` and `$include`. Providers without a library return an empty one.
+   */
+  getQuestionLibrary(): QuestionLibrary;
+
   /**
    * Get a specific survey definition by ID.
    * @param surveyId Unique survey identifier
    * @param tenantId Optional tenant identifier
+   * @param version Optional version; defaults to the latest loaded version
    * @returns Survey definition or null if not found
    */
   getSurveyById(
     surveyId: string,
     tenantId?: string,
+    version?: string,
   ): Promise<SurveyDefinition | null>;
 
+  /**
+   * Get every loaded version of a survey.
+   * @param surveyId Unique survey identifier
+   * @param tenantId Optional tenant identifier
+   * @returns Survey definitions ordered oldest version first (empty if not found)
+   */
+  getSurveyVersions(
+    surveyId: string,
+    tenantId?: string,
+  ): Promise<SurveyDefinition[]>;
+
+  /**
+   * Create or replace a survey definition version and persist it.
+   * @param survey Validated survey definition (identified by ID and version)
+   * @param tenantId Optional tenant identifier
+   * @returns The stored definition
+   */
+  saveSurvey(
+    survey: SurveyDefinition,
+    tenantId?: string,
+  ): Promise<SurveyDefinition>;
+
+  /**
+   * Delete a survey definition version.
+   * @param surveyId Unique survey identifier
+   * @param version Version to delete
+   * @param tenantId Optional tenant identifier
+   * @returns True if the version existed and was deleted
+   */
+  deleteSurvey(
+    surveyId: string,
+    version: string,
+    tenantId?: string,
+  ): Promise<boolean>;
+
   /**
    * Create a new participant session.
    * @param session Initial session state
@@ -68,6 +131,7 @@ export interface ISurveyProvider {
 
   /**
    * Get all sessions for a specific survey with pagination.
+   * Sessions are ordered by start time, then session ID.
    * @param surveyId Survey identifier
    * @param tenantId Tenant identifier
    * @param filters Optional filters for date range, status, etc.
@@ -81,28 +145,59 @@ export interface ISurveyProvider {
     pagination?: { page: number; pageSize: number },
   ): Promise<{ sessions: ParticipantSession[]; total: number }>;
 
+  /**
+   * Get every session for a survey matching the filters, unpaginated.
+   * Analytics and exports read through this so no session is left out.
+   * @param surveyId Survey identifier
+   * @param tenantId Tenant identifier
+   * @param filters Optional filters for status, date range, etc.
+   * @returns All matching sessions
+   */
+  getAllSessionsBySurvey(
+    surveyId: string,
+    tenantId: string,
+    filters?: ExportFilters,
+  ): Promise<ParticipantSession[]>;
+
+  /**
+   * List the tenants that have stored sessions.
+   * Used by maintenance jobs (such as the inactivity sweep) that run outside
+   * of any tenant's request.
+   * @returns Tenant identifiers
+   */
+  listTenantIds(): Promise<string[]>;
+
   /**
    * Export survey results in the specified format.
    * @param surveyId Survey identifier
    * @param tenantId Tenant identifier
-   * @param format Export format (csv or json)
+   * @param format Export format (csv, csv-long or json)
    * @param filters Optional filters
-   * @returns Formatted export data as string
+   * @returns Formatted export data as string, with session counts per status
    */
   exportResults(
     surveyId: string,
     tenantId: string,
     format: ExportFormat,
     filters?: ExportFilters,
-  ): Promise<{ data: string; recordCount: number }>;
+  ): Promise<{
+    data: string;
+    recordCount: number;
+    statusCounts: SessionStatusCounts;
+  }>;
 
   /**
    * Get analytics summary for a survey.
    * @param surveyId Survey identifier
    * @param tenantId Tenant identifier
+   * @param filters Optional filters limiting which sessions are analyzed
    * @returns Analytics summary with completion stats, response distributions, etc.
    */
-  getAnalytics(surveyId: string, tenantId: string): Promise<SurveyAnalytics>;
+  getAnalytics(
+    surveyId: string,
+    tenantId: string,
+    filters?: ExportFilters,
+  ): Promise<SurveyAnalytics>;
 
   /**
    * Health check for the provider.
@@ -6,32 +6,111 @@
 
 import { inject, injectable } from 'tsyringe';
 
-import { SurveyProvider } from '@/container/tokens.js';
+import type { parseConfig } from '@/config/index.js';
+import { AppConfig, SurveyProvider } from '@/container/tokens.js';
 import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
-import { logger } from '@/utils/index.js';
+import {
+  decodeCursor,
+  DEFAULT_PAGINATION_CONFIG,
+  encodeCursor,
+  logger,
+  requestContextService,
+  type RequestContext,
+} from '@/utils/index.js';
 import { idGenerator } from '@/utils/security/idGenerator.js';
 import type {
-  ConditionalLogic,
+  Crosstab,
+  CurrentSection,
+  DefinitionFormat,
+  DefinitionLintResult,
+  DropOffFunnel,
   EligibilityChange,
   EnrichedQuestion,
   ExportFilters,
   ExportFormat,
+  LibraryQuestionComparison,
   ParticipantSession,
   QuestionDefinition,
+  QuestionGrade,
+  QuizSummary,
+  QuotaStatus,
+  SessionListEntry,
+  SessionMigrationRecord,
+  SessionMigrationReport,
+  SessionMigrationRules,
+  SessionOutcome,
   SessionProgress,
+  SessionScreenOut,
+  SessionStatusCounts,
+  SurveyAnalyticsReport,
   SurveyDefinition,
+  SurveyStatus,
   SurveySummary,
   ValidationResult,
 } from '../types.js';
+import { SessionMigrationRulesSchema } from '../types.js';
+import { buildCrosstab, CROSSTAB_QUESTION_TYPES } from './crosstab.js';
+import { parseSurveyDefinitionSource, serializeDefinition } from './formats.js';
+import { buildDropOffFunnel } from './funnel.js';
+import { gradeResponse, gradeSession } from './grading.js';
+import { collapseQuestionReferences } from './library.js';
 import type { ISurveyProvider } from './ISurveyProvider.js';
+import {
+  evaluateSessionLifecycle,
+  type LifecyclePolicy,
+  resolveLifecyclePolicy,
+} from './lifecycle.js';
+import { planSessionMigration } from './migration.js';
+import { orderQuestions, shuffleQuestionIds } from './ordering.js';
+import { evaluateOutcome } from './outcomes.js';
+import { buildQuotaStatus, findFullQuota, matchesQuotaCell } from './quotas.js';
+import {
+  type ExpandedQuestion,
+  expandRosterQuestions,
+  findStaleRosterResponses,
+  mapRosterQuestions,
+} from './rosters.js';
+import { lintRawSurveyDefinition, lintSurveyDefinition } from './linter.js';
+import {
+  buildSectionProgress,
+  createVisibilityCheck,
+  orderQuestionsBySection,
+} from './sections.js';
+import { interpolateQuestion, interpolateTemplate } from './templating.js';
+import { evaluateTermination } from './termination.js';
 import { validateResponse } from './validation.js';
+import { computeVariables } from './variables.js';
+import { latestSurveyVersion } from './versions.js';
+
+type AppConfigType = ReturnType<typeof parseConfig>;
+
+/** Allowed authoring status changes for a survey version. */
+const SURVEY_STATUS_TRANSITIONS: Record<SurveyStatus, readonly SurveyStatus[]> =
+  {
+    draft: ['published', 'archived'],
+    published: ['closed', 'archived'],
+    closed: ['published', 'archived'],
+    archived: ['closed'],
+  };
+
+/** Unfinished statuses whose sessions can move to another survey version. */
+const MIGRATABLE_STATUSES: ReadonlySet<ParticipantSession['status']> = new Set([
+  'in-progress',
+  'abandoned',
+]);
 
 /**
  * Survey service providing high-level survey operations.
  */
 @injectable()
 export class SurveyService {
-  constructor(@inject(SurveyProvider) private provider: ISurveyProvider) {}
+  /** Pending quota-checked completions per tenant and survey. */
+  private readonly quotaLocks = new Map<string, Promise<void>>();
+
+  constructor(
+    @inject(SurveyProvider) private provider: ISurveyProvider,
+    @inject(AppConfig) private config: AppConfigType,
+  ) {}
 
   /**
    * Initialize the survey service.
@@ -40,14 +119,45 @@ export class SurveyService {
     await this.provider.initialize();
   }
 
+  /**
+   * Reload survey definitions whenever their source files change.
+   */
+  watchDefinitions(): void {
+    this.provider.watchDefinitions();
+  }
+
+  /**
+   * Stop reloading survey definitions on file changes.
+   */
+  unwatchDefinitions(): void {
+    this.provider.unwatchDefinitions();
+  }
+
+  /**
+   * Subscribe to changes in the set of survey definitions, e.g. to notify
+   * MCP clients that their survey lists are stale.
+   * @returns Function that removes the listener
+   */
+  onDefinitionsChanged(listener: () => void): () => void {
+    return this.provider.onDefinitionsChanged(listener);
+  }
+
   /**
    * Get all available surveys as summaries.
    */
   async listAvailableSurveys(tenantId?: string): Promise<SurveySummary[]> {
-    const surveys = await this.provider.getAllSurveys(tenantId);
+    // Only published versions are offered; drafts and closed surveys are hidden
+    const surveys = (
+      await Promise.all(
+        (await this.provider.getAllSurveys(tenantId)).map((survey) =>
+          this.findPublishedSurvey(survey.id, tenantId),
+        ),
+      )
+    ).filter((survey) => survey !== undefined);
 
     return surveys.map((survey) => ({
       id: survey.id,
+      version: survey.version,
       title: survey.metadata.title,
       description: survey.metadata.description,
       estimatedDuration: survey.metadata.estimatedDuration,
@@ -69,20 +179,53 @@ export class SurveyService {
     allQuestions: EnrichedQuestion[];
     nextSuggestedQuestions: EnrichedQuestion[];
   }> {
-    // Get survey definition
-    const survey = await this.provider.getSurveyById(surveyId, tenantId);
+    // New sessions start on the latest published version
+    const survey = await this.findPublishedSurvey(surveyId, tenantId);
     if (!survey) {
+      const latest = await this.getSurveyOrThrow(surveyId, tenantId);
       throw new McpError(
-        JsonRpcErrorCode.NotFound,
-        `Survey not found: ${surveyId}`,
-        { surveyId },
+        JsonRpcErrorCode.InvalidRequest,
+        `Survey is not accepting new sessions (status: ${latest.status})`,
+        { surveyId, status: latest.status },
       );
     }
 
+    // Refuse new sessions once the overall completion quota is full
+    if (survey.quotas?.maxCompletes !== undefined) {
+      const quotaStatus = await this.loadQuotaStatus(survey, tenantId);
+      if (quotaStatus.full) {
+        throw new McpError(
+          JsonRpcErrorCode.InvalidRequest,
+          'Survey has reached its completion quota and is not accepting new sessions',
+          {
+            surveyId,
+            maxCompletes: quotaStatus.maxCompletes,
+            completes: quotaStatus.completes,
+            ...(survey.quotas.message !== undefined && {
+              message: survey.quotas.message,
+            }),
+          },
+        );
+      }
+    }
+
     // Create initial session
     const now = new Date().toISOString();
     const sessionId = `sess_${idGenerator.generate()}`;
 
+    // Seeded per-session order, persisted so resume keeps it stable
+    const questionOrder = survey.settings.shuffleQuestions
+      ? shuffleQuestionIds(
+          survey.questions.map((q) => q.id),
+          sessionId,
+        )
+      : undefined;
+
+    // Roster questions have no items until their source is answered
+    const initialQuestions = expandRosterQuestions(survey.questions, survey, {
+      responses: {},
+    });
+
     const session: ParticipantSession = {
       sessionId,
       surveyId: survey.id,
@@ -96,19 +239,27 @@ export class SurveyService {
       metadata: metadata || {},
       responses: {},
       progress: {
-        totalQuestions: survey.questions.length,
+        totalQuestions: initialQuestions.length,
         answeredQuestions: 0,
-        requiredRemaining: survey.questions.filter((q) => q.required).length,
+        requiredRemaining: initialQuestions.filter((q) => q.required).length,
         percentComplete: 0,
       },
       currentScore: 0,
+      ...(questionOrder && { questionOrder, shuffleSeed: sessionId }),
     };
+    if (survey.sections) {
+      session.progress = {
+        ...session.progress,
+        ...buildSectionProgress(survey, session),
+      };
+    }
 
     const createdSession = await this.provider.createSession(session);
 
     // Enrich all questions with eligibility
     const allQuestions = this.enrichQuestionsWithEligibility(
-      survey.questions,
+      survey,
+      this.getOrderedQuestions(survey, createdSession),
       createdSession,
     );
 
@@ -146,18 +297,16 @@ export class SurveyService {
     tenantId: string,
   ): Promise<EnrichedQuestion> {
     const session = await this.getSessionOrThrow(sessionId, tenantId);
-    const survey = await this.getSurveyOrThrow(session.surveyId, tenantId);
+    const survey = await this.getSurveyOrThrow(
+      session.surveyId,
+      tenantId,
+      session.surveyVersion,
+    );
 
-    const question = survey.questions.find((q) => q.id === questionId);
-    if (!question) {
-      throw new McpError(
-        JsonRpcErrorCode.NotFound,
-        `Question not found: ${questionId}`,
-        { questionId, surveyId: survey.id },
-      );
-    }
+    const question = this.findSessionQuestion(survey, session, questionId);
 
     const enrichedQuestions = this.enrichQuestionsWithEligibility(
+      survey,
       [question],
       session,
     );
@@ -190,9 +339,18 @@ export class SurveyService {
     nextSuggestedQuestions?: EnrichedQuestion[];
     score?: number;
     currentScore?: number;
+    attemptsRemaining?: number;
+    questionLocked?: boolean;
+    grade?: QuestionGrade;
+    screenOut?: SessionScreenOut;
+    enteredSection?: CurrentSection;
   }> {
     const session = await this.getSessionOrThrow(sessionId, tenantId);
-    const survey = await this.getSurveyOrThrow(session.surveyId, tenantId);
+    const survey = await this.getSurveyOrThrow(
+      session.surveyId,
+      tenantId,
+      session.surveyVersion,
+    );
 
     // Check session status
     if (session.status === 'completed') {
@@ -202,146 +360,196 @@ export class SurveyService {
         { sessionId },
       );
     }
+    this.assertSessionOpen(session);
 
-    const question = survey.questions.find((q) => q.id === questionId);
-    if (!question) {
-      throw new McpError(
-        JsonRpcErrorCode.NotFound,
-        `Question not found: ${questionId}`,
-        { questionId },
-      );
-    }
-
-    // Check eligibility
-    const enrichedQuestion = this.enrichQuestionsWithEligibility(
-      [question],
-      session,
-    )[0];
-    if (!enrichedQuestion) {
-      throw new McpError(
-        JsonRpcErrorCode.InternalError,
-        'Failed to enrich question for eligibility check',
-        { questionId },
-      );
-    }
-    if (!enrichedQuestion.currentlyEligible) {
-      throw new McpError(
-        JsonRpcErrorCode.InvalidRequest,
-        `Question not currently eligible: ${enrichedQuestion.eligibilityReason ?? 'unknown reason'}`,
-        { questionId, reason: enrichedQuestion.eligibilityReason },
-      );
-    }
+    const question = this.getAnswerableQuestion(survey, session, questionId);
+    const previousResponse = session.responses[questionId];
+    const attempts = session.attempts?.[questionId] ?? {
+      total: previousResponse?.attemptCount ?? 0,
+      failed: 0,
+    };
 
     // Validate response
-    const validationResult = validateResponse(question, value);
+    const { allowSkip, maxAttempts } = survey.settings;
+    const validationResult = validateResponse(question, value, { allowSkip });
     if (!validationResult.valid) {
+      // Count the failed attempt and lock the question once maxAttempts is reached
+      const failed = attempts.failed + 1;
+      const questionLocked = maxAttempts !== undefined && failed >= maxAttempts;
+      session.lastActivityAt = new Date().toISOString();
+      session.attempts = {
+        ...session.attempts,
+        [questionId]: {
+          total: attempts.total + 1,
+          failed,
+          ...(questionLocked && { lockedAt: session.lastActivityAt }),
+        },
+      };
+      await this.provider.updateSession(session);
+
+      if (questionLocked) {
+        logger.info('Locked survey question after failed attempts', {
+          requestId: sessionId,
+          timestamp: session.lastActivityAt,
+          sessionId,
+          questionId,
+          failedAttempts: failed,
+        });
+      }
+
       return {
         success: false,
         validation: validationResult,
+        ...(maxAttempts !== undefined && {
+          attemptsRemaining: Math.max(0, maxAttempts - failed),
+          questionLocked,
+        }),
       };
     }
 
     // Track previous eligibility
-    const previousEligibility = new Map(
-      survey.questions.map((q) => {
-        const enriched = this.enrichQuestionsWithEligibility([q], session)[0];
-        return [q.id, enriched?.currentlyEligible || false];
-      }),
-    );
+    const previousEligibility = this.snapshotEligibility(survey, session);
 
     // Calculate score for this response
-    let responseScore: number | undefined;
-    if (question.type === 'multiple-choice' && question.options) {
-      const selectedOption = question.options.find(
-        (opt) => opt.value === value,
-      );
-      if (selectedOption?.score !== undefined) {
-        responseScore = selectedOption.score;
-      }
-    } else if (
-      question.type === 'multiple-select' &&
-      question.options &&
-      Array.isArray(value)
-    ) {
-      responseScore = value.reduce((total: number, val: unknown) => {
-        if (typeof val !== 'string') {
-          return total;
-        }
-        const selectedOption = question.options?.find(
-          (opt) => opt.value === val,
-        );
-        return total + (selectedOption?.score ?? 0);
-      }, 0);
-    }
-    // NOTE: Scoring for other question types can be added here if needed.
+    const responseScore = this.scoreResponse(question, value);
 
     // Record response
-    const previousResponse = session.responses[questionId];
-    const attemptCount = previousResponse?.attemptCount || 0;
+    const attemptCount = attempts.total + 1;
+    session.attempts = {
+      ...session.attempts,
+      [questionId]: { ...attempts, total: attemptCount },
+    };
     session.responses[questionId] = {
       questionId,
       value,
       answeredAt: new Date().toISOString(),
-      attemptCount: attemptCount + 1,
+      attemptCount,
       score: responseScore,
     };
 
-    // Recalculate total session score
-    session.currentScore = Object.values(session.responses).reduce(
-      (total, response) => total + (response.score ?? 0),
-      0,
-    );
-
-    // Update progress
-    session.lastActivityAt = new Date().toISOString();
-    session.progress = this.calculateProgress(survey, session);
-
-    // Save updated session
-    const updatedSession = await this.provider.updateSession(session);
-
-    // Detect eligibility changes
-    const updatedEligibility: EligibilityChange[] = [];
-    survey.questions.forEach((q) => {
-      const enriched = this.enrichQuestionsWithEligibility(
-        [q],
-        updatedSession,
-      )[0];
-      const wasEligible = previousEligibility.get(q.id) || false;
-      const isNowEligible = enriched?.currentlyEligible || false;
-
-      if (wasEligible !== isNowEligible) {
-        updatedEligibility.push({
-          questionId: q.id,
-          nowEligible: isNowEligible,
-          reason: enriched?.eligibilityReason,
-        });
-      }
-    });
-
-    // Get next suggested questions using survey settings
-    const allEnrichedQuestions = this.enrichQuestionsWithEligibility(
-      survey.questions,
+    const {
       updatedSession,
-    );
-    const { min, max } = survey.settings.suggestionStrategy;
-    const nextSuggestedQuestions = this.getNextSuggestedQuestions(
-      allEnrichedQuestions,
-      min,
-      max,
+      updatedEligibility,
+      nextSuggestedQuestions,
+      enteredSection,
+    } = await this.saveAndRefresh(
+      survey,
+      session,
+      previousEligibility,
+      questionId,
     );
 
     logger.debug('Submitted survey response');
 
+    // Quiz questions: report correctness now unless it is held until completion
+    const grade =
+      survey.settings.revealCorrectness === 'immediately'
+        ? gradeResponse(question, value)
+        : undefined;
+
     return {
       success: true,
       validation: validationResult,
-      progress: session.progress,
+      progress: updatedSession.progress,
       updatedEligibility,
       nextSuggestedQuestions,
       ...(responseScore !== undefined && { score: responseScore }),
       ...(updatedSession.currentScore !== undefined && {
         currentScore: updatedSession.currentScore,
       }),
+      ...(grade && { grade }),
+      ...(updatedSession.screenOut && {
+        screenOut: updatedSession.screenOut,
+      }),
+      ...(enteredSection && { enteredSection }),
+    };
+  }
+
+  /**
+   * Record that the participant declined to answer an optional question.
+   */
+  async skipQuestion(
+    sessionId: string,
+    questionId: string,
+    tenantId: string,
+    reason?: string,
+  ): Promise<{
+    progress: SessionProgress;
+    updatedEligibility: EligibilityChange[];
+    nextSuggestedQuestions: EnrichedQuestion[];
+    screenOut?: SessionScreenOut;
+    enteredSection?: CurrentSection;
+  }> {
+    const session = await this.getSessionOrThrow(sessionId, tenantId);
+    const survey = await this.getSurveyOrThrow(
+      session.surveyId,
+      tenantId,
+      session.surveyVersion,
+    );
+
+    if (session.status === 'completed') {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidRequest,
+        'Cannot skip question in completed session',
+        { sessionId },
+      );
+    }
+    this.assertSessionOpen(session);
+
+    if (!survey.settings.allowSkip) {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidRequest,
+        'Skipping questions is disabled for this survey',
+        { sessionId, surveyId: survey.id },
+      );
+    }
+
+    const question = this.getAnswerableQuestion(survey, session, questionId);
+    if (question.required) {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidRequest,
+        `Required questions cannot be skipped: ${questionId}`,
+        { questionId },
+      );
+    }
+
+    const previousEligibility = this.snapshotEligibility(survey, session);
+
+    const previousResponse = session.responses[questionId];
+    session.responses[questionId] = {
+      questionId,
+      value: null,
+      answeredAt: new Date().toISOString(),
+      attemptCount:
+        session.attempts?.[questionId]?.total ??
+        previousResponse?.attemptCount ??
+        0,
+      skipped: true,
+      ...(reason && { skipReason: reason }),
+    };
+
+    const {
+      updatedSession,
+      updatedEligibility,
+      nextSuggestedQuestions,
+      enteredSection,
+    } = await this.saveAndRefresh(
+      survey,
+      session,
+      previousEligibility,
+      questionId,
+    );
+
+    logger.debug('Skipped survey question');
+
+    return {
+      progress: updatedSession.progress,
+      updatedEligibility,
+      nextSuggestedQuestions,
+      ...(updatedSession.screenOut && {
+        screenOut: updatedSession.screenOut,
+      }),
+      ...(enteredSection && { enteredSection }),
     };
   }
 
@@ -359,10 +567,15 @@ export class SurveyService {
     completionBlockers: string[];
   }> {
     const session = await this.getSessionOrThrow(sessionId, tenantId);
-    const survey = await this.getSurveyOrThrow(session.surveyId, tenantId);
+    const survey = await this.getSurveyOrThrow(
+      session.surveyId,
+      tenantId,
+      session.surveyVersion,
+    );
 
     const allQuestions = this.enrichQuestionsWithEligibility(
-      survey.questions,
+      survey,
+      this.getOrderedQuestions(survey, session),
       session,
     );
 
@@ -371,7 +584,8 @@ export class SurveyService {
     );
 
     const unansweredOptional = allQuestions.filter(
-      (q) => !q.required && !q.alreadyAnswered && q.currentlyEligible,
+      (q) =>
+        !q.required && !q.alreadyAnswered && !q.skipped && q.currentlyEligible,
     );
 
     const completionBlockers: string[] = [];
@@ -380,6 +594,13 @@ export class SurveyService {
         `Required question ${q.id} has not been answered`,
       );
     });
+    if (!survey.settings.allowSkip) {
+      unansweredOptional.forEach((q) => {
+        completionBlockers.push(
+          `Optional question ${q.id} has not been answered (skipping is disabled for this survey)`,
+        );
+      });
+    }
 
     const canComplete = completionBlockers.length === 0;
 
@@ -393,7 +614,10 @@ export class SurveyService {
   }
 
   /**
-   * Complete a survey session.
+   * Complete a survey session, assign its outcome if the survey defines
+   * outcome bands, and grade its quiz questions. For surveys with quotas,
+   * completions are checked one at a time; a session whose quota filled
+   * while it was in progress is screened out instead.
    */
   async completeSession(
     sessionId: string,
@@ -406,6 +630,8 @@ export class SurveyService {
       answeredQuestions: number;
       duration: string;
     };
+    outcome?: SessionOutcome;
+    quiz?: QuizSummary;
   }> {
     const session = await this.getSessionOrThrow(sessionId, tenantId);
 
@@ -416,6 +642,7 @@ export class SurveyService {
         { sessionId },
       );
     }
+    this.assertSessionOpen(session);
 
     // Check if all required questions are answered
     const progressCheck = await this.getProgress(sessionId, tenantId);
@@ -427,16 +654,31 @@ export class SurveyService {
       );
     }
 
-    // Update session
-    session.status = 'completed';
-    session.completedAt = new Date().toISOString();
-    session.lastActivityAt = session.completedAt;
-
-    const updatedSession = await this.provider.updateSession(session);
+    const survey = await this.getSurveyOrThrow(
+      session.surveyId,
+      tenantId,
+      session.surveyVersion,
+    );
+    const updatedSession = survey.quotas
+      ? await this.withQuotaLock(survey, tenantId, async () => {
+          const screenOut = findFullQuota(
+            survey,
+            session,
+            await this.loadQuotaStatus(survey, tenantId),
+            true,
+          );
+          if (screenOut) {
+            await this.screenOutOnCompletion(session, screenOut);
+          }
+          return this.markCompleted(survey, session);
+        })
+      : await this.markCompleted(survey, session);
+    const { outcome } = updatedSession;
+    const quiz = gradeSession(survey, updatedSession);
 
     // Calculate duration
     const startTime = new Date(session.startedAt).getTime();
-    const endTime = new Date(session.completedAt).getTime();
+    const endTime = new Date(updatedSession.lastActivityAt).getTime();
     const durationMs = endTime - startTime;
     const durationMinutes = Math.round(durationMs / 60000);
 
@@ -450,9 +692,59 @@ export class SurveyService {
         answeredQuestions: session.progress.answeredQuestions,
         duration: `${durationMinutes} minutes`,
       },
+      ...(outcome && { outcome }),
+      ...(quiz && { quiz }),
     };
   }
 
+  /**
+   * Mark a session completed with its outcome and persist it.
+   */
+  private async markCompleted(
+    survey: SurveyDefinition,
+    session: ParticipantSession,
+  ): Promise<ParticipantSession> {
+    session.status = 'completed';
+    session.completedAt = new Date().toISOString();
+    session.lastActivityAt = session.completedAt;
+
+    const outcome = evaluateOutcome(survey, session);
+    if (outcome) {
+      session.outcome = outcome;
+    }
+
+    return this.provider.updateSession(session);
+  }
+
+  /**
+   * Screen out a session whose quota filled before it could complete, and
+   * reject the completion.
+   */
+  private async screenOutOnCompletion(
+    session: ParticipantSession,
+    screenOut: SessionScreenOut,
+  ): Promise<never> {
+    session.lastActivityAt = new Date().toISOString();
+    this.applyScreenOut(session, screenOut, session.lastActivityAt);
+    await this.provider.updateSession(session);
+
+    logger.info('Screened out survey session', {
+      ...this.createLifecycleContext(session, 'completeSession'),
+      reason: screenOut.reason,
+      ruleId: screenOut.ruleId,
+    });
+
+    throw new McpError(
+      JsonRpcErrorCode.InvalidRequest,
+      `Quota "${screenOut.ruleId}" is full, so the session was screened out instead of completed`,
+      {
+        sessionId: session.sessionId,
+        ruleId: screenOut.ruleId,
+        ...(screenOut.message !== undefined && { message: screenOut.message }),
+      },
+    );
+  }
+
   /**
    * Resume an existing session.
    */
@@ -466,12 +758,17 @@ export class SurveyService {
       id: string;
       text: string;
       answer: unknown;
+      skipped?: boolean;
     }>;
     nextSuggestedQuestions: EnrichedQuestion[];
     elapsedTimeSinceLastActivity: string;
   }> {
     const session = await this.getSessionOrThrow(sessionId, tenantId);
-    const survey = await this.getSurveyOrThrow(session.surveyId, tenantId);
+    const survey = await this.getSurveyOrThrow(
+      session.surveyId,
+      tenantId,
+      session.surveyVersion,
+    );
 
     if (session.status === 'completed') {
       throw new McpError(
@@ -480,11 +777,62 @@ export class SurveyService {
         { sessionId },
       );
     }
+    if (session.status === 'screened-out') {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidRequest,
+        'Cannot resume screened-out session',
+        { sessionId, ruleId: session.screenOut?.ruleId },
+      );
+    }
+
+    if (!survey.settings.allowResume) {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidRequest,
+        'Resuming sessions is disabled for this survey',
+        { sessionId, surveyId: survey.id },
+      );
+    }
+
+    // Apply a deadline the sweep has not caught up with yet
+    const now = new Date();
+    const lifecycleContext = this.createLifecycleContext(
+      session,
+      'resumeSession',
+    );
+    if (
+      evaluateSessionLifecycle(
+        session,
+        this.getLifecyclePolicy(survey),
+        now,
+      ) === 'expired'
+    ) {
+      await this.transitionSession(session, 'expired', now, lifecycleContext);
+    }
+
+    if (session.status === 'expired') {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidRequest,
+        'Cannot resume expired session',
+        { sessionId, expiredAt: session.expiredAt },
+      );
+    }
+
+    if (session.status === 'abandoned') {
+      if (survey.settings.resumeAbandoned === 'reject') {
+        throw new McpError(
+          JsonRpcErrorCode.InvalidRequest,
+          'Resuming abandoned sessions is disabled for this survey',
+          { sessionId, surveyId: survey.id },
+        );
+      }
+      session.status = 'in-progress';
+      delete session.abandonedAt;
+      logger.info('Reopened abandoned survey session', lifecycleContext);
+    }
 
     // Calculate time since last activity
     const lastActivity = new Date(session.lastActivityAt).getTime();
-    const now = new Date().getTime();
-    const elapsedMs = now - lastActivity;
+    const elapsedMs = now.getTime() - lastActivity;
     const elapsedMinutes = Math.round(elapsedMs / 60000);
     const elapsedTimeSinceLastActivity =
       elapsedMinutes < 60
@@ -492,19 +840,24 @@ export class SurveyService {
         : `${Math.round(elapsedMinutes / 60)} hours`;
 
     // Get answered questions
+    const sessionQuestions = this.getSessionQuestions(survey, session);
     const answeredQuestions = Object.keys(session.responses).map((qid) => {
-      const question = survey.questions.find((q) => q.id === qid);
+      const question = sessionQuestions.find((q) => q.id === qid);
       const response = session.responses[qid];
       return {
         id: qid,
-        text: question?.text || 'Unknown question',
+        text: question
+          ? interpolateTemplate(question.text, survey, session)
+          : 'Unknown question',
         answer: response ? response.value : null,
+        ...(response?.skipped && { skipped: true }),
       };
     });
 
     // Get next suggested questions using survey settings
     const allQuestions = this.enrichQuestionsWithEligibility(
-      survey.questions,
+      survey,
+      this.getOrderedQuestions(survey, session),
       session,
     );
     const { min, max } = survey.settings.suggestionStrategy;
@@ -530,17 +883,162 @@ export class SurveyService {
   }
 
   /**
-   * Export survey results.
+   * Sweep every tenant's unfinished sessions and apply the lifecycle rules:
+   * idle in-progress sessions become `abandoned`, and sessions past their
+   * deadline become `expired`.
    */
-  async exportResults(
-    surveyId: string,
-    tenantId: string,
-    format: ExportFormat,
-    filters?: ExportFilters,
-  ): Promise<{
-    format: ExportFormat;
+  async sweepSessionLifecycle(
+    context: RequestContext,
+    now: Date = new Date(),
+  ): Promise<{ scanned: number; abandoned: number; expired: number }> {
+    const counts = { scanned: 0, abandoned: 0, expired: 0 };
+
+    for (const tenantId of await this.provider.listTenantIds()) {
+      for (const survey of await this.provider.getAllSurveys(tenantId)) {
+        // Each session follows the timeouts of the version it is pinned to
+        const policies = new Map(
+          (await this.provider.getSurveyVersions(survey.id, tenantId)).map(
+            (version) => [version.version, this.getLifecyclePolicy(version)],
+          ),
+        );
+        if (
+          [...policies.values()].every(
+            (policy) =>
+              policy.inactivityTimeoutMs === undefined &&
+              policy.deadlineMs === undefined,
+          )
+        ) {
+          continue;
+        }
+
+        const sessions = await this.provider.getAllSessionsBySurvey(
+          survey.id,
+          tenantId,
+        );
+
+        for (const session of sessions) {
+          counts.scanned++;
+          const policy =
+            policies.get(session.surveyVersion) ??
+            this.getLifecyclePolicy(survey);
+          const transition = evaluateSessionLifecycle(session, policy, now);
+          if (transition) {
+            await this.transitionSession(session, transition, now, {
+              ...context,
+              tenantId,
+              sessionId: session.sessionId,
+              surveyId: survey.id,
+            });
+            counts[transition]++;
+          }
+        }
+      }
+    }
+
+    logger.info('Swept survey sessions for inactivity and expiry', {
+      ...context,
+      ...counts,
+    });
+
+    return counts;
+  }
+
+  /**
+   * List a page of sessions for a survey as compact rows.
+   * The cursor encodes the offset, page size, survey and a hash of the
+   * filters, so a cursor cannot be replayed against another survey's
+   * listing or with different filters.
+   */
+  async listSessions(
+    surveyId: string,
+    tenantId: string,
+    options: {
+      filters?: ExportFilters | undefined;
+      cursor?: string | undefined;
+      pageSize?: number | undefined;
+    },
+    context: RequestContext,
+  ): Promise<{
+    sessions: SessionListEntry[];
+    totalCount: number;
+    nextCursor?: string;
+  }> {
+    await this.getSurveyOrThrow(surveyId, tenantId);
+
+    const filtersHash = hashFilters(options.filters);
+    const state = options.cursor
+      ? decodeCursor(options.cursor, context)
+      : {
+          offset: 0,
+          limit:
+            options.pageSize ?? DEFAULT_PAGINATION_CONFIG.DEFAULT_PAGE_SIZE,
+          surveyId,
+          filtersHash,
+        };
+    if (state.surveyId !== surveyId) {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidParams,
+        'Pagination cursor belongs to a different survey listing',
+        { surveyId, cursor: options.cursor },
+      );
+    }
+    if (state.filtersHash !== filtersHash) {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidParams,
+        'Pagination cursor was issued for different filters; repeat the filters of the first page or start over without a cursor',
+        { surveyId, cursor: options.cursor },
+      );
+    }
+
+    const limit = Math.min(
+      state.limit,
+      DEFAULT_PAGINATION_CONFIG.MAX_PAGE_SIZE,
+    );
+    const { sessions, total } = await this.provider.getSessionsBySurvey(
+      surveyId,
+      tenantId,
+      options.filters,
+      { page: Math.floor(state.offset / limit) + 1, pageSize: limit },
+    );
+
+    const nextOffset = state.offset + limit;
+
+    logger.info('Listed survey sessions');
+
+    return {
+      sessions: sessions.map((session) => ({
+        sessionId: session.sessionId,
+        participantId: session.participantId,
+        status: session.status,
+        percentComplete: session.progress.percentComplete,
+        lastActivityAt: session.lastActivityAt,
+        currentScore: session.currentScore,
+      })),
+      totalCount: total,
+      ...(nextOffset < total && {
+        nextCursor: encodeCursor({
+          offset: nextOffset,
+          limit,
+          surveyId,
+          filtersHash,
+        }),
+      }),
+    };
+  }
+
+  /**
+   * Export survey results.
+   */
+  async exportResults(
+    surveyId: string,
+    tenantId: string,
+    format: ExportFormat,
+    filters?: ExportFilters,
+  ): Promise<{
+    format: ExportFormat;
     data: string;
     recordCount: number;
+    statusCounts: SessionStatusCounts;
     generatedAt: string;
   }> {
     const result = await this.provider.exportResults(
@@ -556,33 +1054,30 @@ export class SurveyService {
       format,
       data: result.data,
       recordCount: result.recordCount,
+      statusCounts: result.statusCounts,
       generatedAt: new Date().toISOString(),
     };
   }
 
   /**
-   * Get survey analytics summary.
+   * Get survey analytics summary, optionally limited to sessions matching
+   * the export filters.
    */
   async getAnalytics(
     surveyId: string,
     tenantId: string,
-  ): Promise<{
-    totalSessions: number;
-    completedSessions: number;
-    inProgressSessions: number;
-    abandonedSessions: number;
-    completionRate: string;
-    averageCompletionTime?: string;
-    questionStats: Array<{
-      questionId: string;
-      questionText: string;
-      responseCount: number;
-      responseRate: string;
-      responseDistribution?: Record<string, number>;
-    }>;
-  }> {
-    const survey = await this.getSurveyOrThrow(surveyId, tenantId);
-    const analyticsData = await this.provider.getAnalytics(surveyId, tenantId);
+    filters?: ExportFilters,
+  ): Promise<SurveyAnalyticsReport> {
+    const survey = await this.getSurveyOrThrow(
+      surveyId,
+      tenantId,
+      filters?.surveyVersion,
+    );
+    const analyticsData = await this.provider.getAnalytics(
+      surveyId,
+      tenantId,
+      filters,
+    );
 
     // Calculate completion rate
     const completionRate =
@@ -590,40 +1085,584 @@ export class SurveyService {
         ? `${Math.round((analyticsData.completedSessions / analyticsData.totalSessions) * 100)}%`
         : '0%';
 
-    // Enrich question stats with question text and response rates
+    // Enrich question stats with question text and response rates; roster
+    // questions count sessions, not item instances
     const enrichedQuestionStats = analyticsData.questionStats.map((stat) => {
       const question = survey.questions.find((q) => q.id === stat.questionId);
+      const respondents = stat.respondentCount ?? stat.responseCount;
       const responseRate =
         analyticsData.totalSessions > 0
-          ? `${Math.round((stat.responseCount / analyticsData.totalSessions) * 100)}%`
+          ? `${Math.round((respondents / analyticsData.totalSessions) * 100)}%`
           : '0%';
 
       return {
-        questionId: stat.questionId,
+        ...stat,
         questionText: question?.text || 'Unknown question',
-        responseCount: stat.responseCount,
         responseRate,
-        ...(stat.responseDistribution && {
-          responseDistribution: stat.responseDistribution,
-        }),
       };
     });
 
     logger.info('Generated survey analytics');
 
     return {
-      totalSessions: analyticsData.totalSessions,
-      completedSessions: analyticsData.completedSessions,
-      inProgressSessions: analyticsData.inProgressSessions,
-      abandonedSessions: analyticsData.abandonedSessions,
+      ...analyticsData,
       completionRate,
-      ...(analyticsData.averageCompletionTime && {
-        averageCompletionTime: analyticsData.averageCompletionTime,
-      }),
       questionStats: enrichedQuestionStats,
     };
   }
 
+  /**
+   * Compare a question library entry across the surveys whose latest
+   * version includes it, applying the same session filters to every survey.
+   */
+  async compareLibraryQuestion(
+    libraryRef: string,
+    tenantId: string,
+    filters?: Omit<ExportFilters, 'surveyVersion'>,
+  ): Promise<LibraryQuestionComparison> {
+    if (!this.provider.getQuestionLibrary().questions.has(libraryRef)) {
+      throw new McpError(
+        JsonRpcErrorCode.NotFound,
+        `Library question not found: ${libraryRef}`,
+        { libraryRef },
+      );
+    }
+
+    const surveys = (await this.provider.getAllSurveys(tenantId))
+      .filter((survey) =>
+        survey.questions.some((question) => question.libraryRef === libraryRef),
+      )
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+    const comparison: LibraryQuestionComparison['surveys'] = [];
+    for (const survey of surveys) {
+      const report = await this.getAnalytics(survey.id, tenantId, filters);
+      for (const stat of report.questionStats) {
+        if (stat.libraryRef === libraryRef) {
+          comparison.push({
+            ...stat,
+            surveyId: survey.id,
+            surveyVersion: survey.version,
+            surveyTitle: survey.metadata.title,
+            totalSessions: report.totalSessions,
+          });
+        }
+      }
+    }
+
+    logger.info('Compared library question across surveys');
+
+    return { libraryRef, surveys: comparison };
+  }
+
+  /**
+   * Build the question-level drop-off funnel for a survey, optionally
+   * limited to sessions matching the export filters.
+   */
+  async getDropOffFunnel(
+    surveyId: string,
+    tenantId: string,
+    filters?: ExportFilters,
+  ): Promise<DropOffFunnel> {
+    const survey = await this.getSurveyOrThrow(
+      surveyId,
+      tenantId,
+      filters?.surveyVersion,
+    );
+    const sessions = await this.provider.getAllSessionsBySurvey(
+      surveyId,
+      tenantId,
+      filters,
+    );
+
+    logger.info('Generated survey drop-off funnel');
+
+    return buildDropOffFunnel(survey, sessions);
+  }
+
+  /**
+   * Cross-tabulate two categorical questions, optionally limited to sessions
+   * matching the export filters.
+   */
+  async getCrosstab(
+    surveyId: string,
+    rowQuestionId: string,
+    columnQuestionId: string,
+    tenantId: string,
+    options: {
+      filters?: ExportFilters | undefined;
+      ratingBinSize?: number;
+    } = {},
+  ): Promise<Crosstab> {
+    const survey = await this.getSurveyOrThrow(
+      surveyId,
+      tenantId,
+      options.filters?.surveyVersion,
+    );
+    const rosterQuestions = mapRosterQuestions(survey.rosters ?? []);
+    const [rowQuestion, columnQuestion] = [rowQuestionId, columnQuestionId].map(
+      (questionId) => {
+        const question = survey.questions.find((q) => q.id === questionId);
+        if (!question) {
+          throw new McpError(
+            JsonRpcErrorCode.NotFound,
+            `Question not found: ${questionId}`,
+            { questionId, surveyId },
+          );
+        }
+        const roster = rosterQuestions.get(questionId);
+        if (roster) {
+          throw new McpError(
+            JsonRpcErrorCode.InvalidParams,
+            `Question ${questionId} is asked once per item of roster ${roster.id} and cannot be cross-tabulated`,
+            { questionId, rosterId: roster.id },
+          );
+        }
+        if (!CROSSTAB_QUESTION_TYPES.includes(question.type)) {
+          throw new McpError(
+            JsonRpcErrorCode.InvalidParams,
+            `Question type ${question.type} cannot be cross-tabulated`,
+            { questionId, supportedTypes: [...CROSSTAB_QUESTION_TYPES] },
+          );
+        }
+        return question;
+      },
+    );
+    if (!rowQuestion || !columnQuestion || rowQuestion === columnQuestion) {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidParams,
+        'Row and column questions must be different',
+        { rowQuestionId, columnQuestionId },
+      );
+    }
+
+    const sessions = await this.provider.getAllSessionsBySurvey(
+      surveyId,
+      tenantId,
+      options.filters,
+    );
+
+    logger.info('Generated survey crosstab');
+
+    return buildCrosstab(rowQuestion, columnQuestion, sessions, {
+      ...(options.ratingBinSize !== undefined && {
+        ratingBinSize: options.ratingBinSize,
+      }),
+    });
+  }
+
+  /**
+   * Get live quota fill for a survey: completes against the overall cap and
+   * every quota cell.
+   */
+  async getQuotaStatus(
+    surveyId: string,
+    tenantId: string,
+  ): Promise<QuotaStatus> {
+    const survey = await this.getSurveyOrThrow(surveyId, tenantId);
+    const status = await this.loadQuotaStatus(survey, tenantId);
+
+    logger.info('Generated survey quota status');
+
+    return status;
+  }
+
+  /**
+   * Move unfinished sessions pinned to one survey version onto another
+   * (the latest by default). Answers are mapped with the migration rules; a
+   * dry run only reports what each session would keep and lose. Migrated
+   * sessions append a record to `metadata.migrations`.
+   */
+  async migrateSessions(
+    surveyId: string,
+    tenantId: string,
+    options: {
+      fromVersion: string;
+      toVersion?: string | undefined;
+      rules?: SessionMigrationRules | undefined;
+      sessionIds?: string[] | undefined;
+      dryRun: boolean;
+    },
+  ): Promise<{
+    fromVersion: string;
+    toVersion: string;
+    sessions: SessionMigrationReport[];
+    migratedCount: number;
+  }> {
+    const source = await this.getSurveyOrThrow(
+      surveyId,
+      tenantId,
+      options.fromVersion,
+    );
+    const target = await this.getSurveyOrThrow(
+      surveyId,
+      tenantId,
+      options.toVersion,
+    );
+    if (source.version === target.version) {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidParams,
+        `Sessions are already on version ${target.version}`,
+        { surveyId, version: target.version },
+      );
+    }
+
+    const rules = options.rules ?? SessionMigrationRulesSchema.parse({});
+    this.assertMigrationRules(source, target, rules);
+
+    const sessions = await this.provider.getAllSessionsBySurvey(
+      surveyId,
+      tenantId,
+      { surveyVersion: source.version },
+    );
+    const candidates = sessions.filter(
+      (session) =>
+        MIGRATABLE_STATUSES.has(session.status) &&
+        (!options.sessionIds || options.sessionIds.includes(session.sessionId)),
+    );
+
+    const reports: SessionMigrationReport[] = [];
+    for (const session of candidates) {
+      const plan = planSessionMigration(session, source, target, rules);
+      reports.push(plan.report);
+      if (options.dryRun) {
+        continue;
+      }
+
+      for (const response of Object.values(plan.responses)) {
+        const question = target.questions.find(
+          (q) => q.id === response.questionId,
+        );
+        const score =
+          question && !response.skipped
+            ? this.scoreResponse(question, response.value)
+            : undefined;
+        if (score !== undefined) {
+          response.score = score;
+        }
+      }
+
+      const record: SessionMigrationRecord = {
+        fromVersion: source.version,
+        toVersion: target.version,
+        migratedAt: new Date().toISOString(),
+        migratedQuestions: plan.report.migrated.length,
+        lostQuestionIds: plan.report.lost.map((lost) => lost.questionId),
+      };
+      const history = session.metadata?.['migrations'];
+      const previous: unknown[] = Array.isArray(history) ? history : [];
+      session.metadata = {
+        ...session.metadata,
+        migrations: [...previous, record],
+      };
+      session.surveyVersion = target.version;
+      session.responses = plan.responses;
+      session.attempts = plan.attempts;
+      delete session.variables;
+      delete session.questionOrder;
+      delete session.shuffleSeed;
+      if (target.settings.shuffleQuestions) {
+        session.shuffleSeed = session.sessionId;
+        session.questionOrder = shuffleQuestionIds(
+          target.questions.map((q) => q.id),
+          session.sessionId,
+        );
+      }
+      this.recalculateSession(target, session);
+      await this.provider.updateSession(session);
+    }
+
+    logger.info('Migrated survey sessions', {
+      ...requestContextService.createRequestContext({
+        operation: 'SurveyService.migrateSessions',
+        tenantId,
+        surveyId,
+      }),
+      fromVersion: source.version,
+      toVersion: target.version,
+      dryRun: options.dryRun,
+      sessions: reports.length,
+    });
+
+    return {
+      fromVersion: source.version,
+      toVersion: target.version,
+      sessions: reports,
+      migratedCount: options.dryRun ? 0 : reports.length,
+    };
+  }
+
+  /**
+   * Lint a survey definition, either a loaded survey (by ID) or a raw
+   * definition supplied by the caller.
+   */
+  async validateDefinition(
+    source: { surveyId?: string | undefined; definition?: unknown },
+    tenantId: string,
+  ): Promise<DefinitionLintResult> {
+    const hasSurveyId = source.surveyId !== undefined;
+    const hasDefinition = source.definition !== undefined;
+    if (hasSurveyId === hasDefinition) {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidParams,
+        'Provide exactly one of surveyId or definition',
+      );
+    }
+
+    const result = source.surveyId
+      ? lintSurveyDefinition(
+          await this.getSurveyOrThrow(source.surveyId, tenantId),
+        )
+      : lintRawSurveyDefinition(
+          source.definition,
+          this.provider.getQuestionLibrary(),
+        ).result;
+
+    logger.info('Validated survey definition');
+
+    return result;
+  }
+
+  /**
+   * Convert a survey definition to another format, either a loaded survey
+   * version (by ID) or source text in one of the supported formats. Source
+   * text is validated against the schema but written out as authored, so
+   * schema defaults are not added.
+   */
+  async convertDefinition(
+    source: {
+      surveyId?: string | undefined;
+      version?: string | undefined;
+      content?: string | undefined;
+      from: DefinitionFormat;
+    },
+    to: DefinitionFormat,
+    tenantId: string,
+  ): Promise<{ surveyId: string; version: string; content: string }> {
+    const hasSurveyId = source.surveyId !== undefined;
+    const hasContent = source.content !== undefined;
+    if (hasSurveyId === hasContent) {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidParams,
+        'Provide exactly one of surveyId or content',
+      );
+    }
+
+    let document: unknown;
+    let survey: SurveyDefinition;
+    if (source.surveyId !== undefined) {
+      survey = await this.getSurveyOrThrow(
+        source.surveyId,
+        tenantId,
+        source.version,
+      );
+      document = collapseQuestionReferences(
+        survey,
+        this.provider.getQuestionLibrary(),
+      );
+    } else {
+      ({ document, survey } = parseSurveyDefinitionSource(
+        source.content ?? '',
+        source.from,
+        this.provider.getQuestionLibrary(),
+      ));
+    }
+
+    logger.info('Converted survey definition');
+
+    return {
+      surveyId: survey.id,
+      version: survey.version,
+      content: serializeDefinition(document, to),
+    };
+  }
+
+  /**
+   * Create a survey version from a raw definition. New definitions start as
+   * drafts unless they declare a status; definitions with schema or lint
+   * errors (such as conditions on unknown questions) are rejected.
+   */
+  async createSurvey(
+    definition: Record<string, unknown>,
+    tenantId: string,
+  ): Promise<{ survey: SurveyDefinition; lint: DefinitionLintResult }> {
+    const { survey, lint } = this.parseAuthoredDefinition({
+      status: 'draft',
+      ...definition,
+    });
+
+    const existing = await this.provider.getSurveyById(
+      survey.id,
+      tenantId,
+      survey.version,
+    );
+    if (existing) {
+      throw new McpError(
+        JsonRpcErrorCode.Conflict,
+        `Survey version already exists: ${survey.id}@${survey.version}`,
+        { surveyId: survey.id, version: survey.version },
+      );
+    }
+
+    const saved = await this.provider.saveSurvey(survey, tenantId);
+
+    logger.info('Created survey definition', {
+      ...this.createAuthoringContext(saved, tenantId, 'createSurvey'),
+      status: saved.status,
+    });
+
+    return { survey: saved, lint };
+  }
+
+  /**
+   * Update a survey version (the latest when no version is given). Only
+   * drafts can have their definition replaced; published versions change by
+   * creating a new version, so pinned sessions never see edits. Status
+   * changes follow the draft → published → closed → archived lifecycle.
+   */
+  async updateSurvey(
+    surveyId: string,
+    tenantId: string,
+    changes: {
+      version?: string | undefined;
+      definition?: Record<string, unknown> | undefined;
+      status?: SurveyStatus | undefined;
+    },
+  ): Promise<{
+    survey: SurveyDefinition;
+    previousStatus: SurveyStatus;
+    lint: DefinitionLintResult;
+  }> {
+    if (!changes.definition && !changes.status) {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidParams,
+        'Provide a definition or a status to update',
+        { surveyId },
+      );
+    }
+
+    const current = await this.getSurveyOrThrow(
+      surveyId,
+      tenantId,
+      changes.version,
+    );
+    let survey = current;
+    let lint = lintSurveyDefinition(current);
+
+    if (changes.definition) {
+      if (current.status !== 'draft') {
+        throw new McpError(
+          JsonRpcErrorCode.InvalidRequest,
+          `Only draft versions can be edited; ${surveyId}@${current.version} is ${current.status}, so create a new version instead`,
+          { surveyId, version: current.version, status: current.status },
+        );
+      }
+      ({ survey, lint } = this.parseAuthoredDefinition({
+        ...changes.definition,
+        id: current.id,
+        version: current.version,
+        status: current.status,
+      }));
+    }
+
+    if (changes.status && changes.status !== current.status) {
+      if (!SURVEY_STATUS_TRANSITIONS[current.status].includes(changes.status)) {
+        throw new McpError(
+          JsonRpcErrorCode.InvalidRequest,
+          `Cannot change survey status from ${current.status} to ${changes.status}`,
+          {
+            surveyId,
+            version: current.version,
+            allowed: SURVEY_STATUS_TRANSITIONS[current.status],
+          },
+        );
+      }
+      if (changes.status === 'published' && !lint.valid) {
+        throw new McpError(
+          JsonRpcErrorCode.ValidationError,
+          `Survey definition failed validation: ${lint.errors.map((issue) => issue.message).join('; ')}`,
+          { surveyId, version: current.version, errors: lint.errors },
+        );
+      }
+      survey = { ...survey, status: changes.status };
+    }
+
+    const saved = await this.provider.saveSurvey(survey, tenantId);
+
+    logger.info('Updated survey definition', {
+      ...this.createAuthoringContext(saved, tenantId, 'updateSurvey'),
+      previousStatus: current.status,
+      status: saved.status,
+    });
+
+    return { survey: saved, previousStatus: current.status, lint };
+  }
+
+  /**
+   * Delete a survey version, or every version when none is given. Versions
+   * that sessions are pinned to (in any tenant) cannot be deleted; archive
+   * them instead.
+   */
+  async deleteSurvey(
+    surveyId: string,
+    tenantId: string,
+    version?: string,
+  ): Promise<{ surveyId: string; deletedVersions: string[] }> {
+    const versions =
+      version !== undefined
+        ? [await this.getSurveyOrThrow(surveyId, tenantId, version)]
+        : await this.provider.getSurveyVersions(surveyId, tenantId);
+    if (versions.length === 0) {
+      throw new McpError(
+        JsonRpcErrorCode.NotFound,
+        `Survey not found: ${surveyId}`,
+        { surveyId },
+      );
+    }
+
+    const tenantIds = new Set([
+      tenantId,
+      ...(await this.provider.listTenantIds()),
+    ]);
+    for (const survey of versions) {
+      for (const sessionTenantId of tenantIds) {
+        const { total } = await this.provider.getSessionsBySurvey(
+          surveyId,
+          sessionTenantId,
+          { surveyVersion: survey.version },
+          { page: 1, pageSize: 1 },
+        );
+        if (total > 0) {
+          throw new McpError(
+            JsonRpcErrorCode.InvalidRequest,
+            `Survey version ${surveyId}@${survey.version} has sessions and cannot be deleted; archive it instead`,
+            { surveyId, version: survey.version },
+          );
+        }
+      }
+    }
+
+    const deletedVersions: string[] = [];
+    for (const survey of versions) {
+      if (
+        await this.provider.deleteSurvey(surveyId, survey.version, tenantId)
+      ) {
+        deletedVersions.push(survey.version);
+      }
+    }
+
+    logger.info('Deleted survey definition', {
+      ...requestContextService.createRequestContext({
+        operation: 'SurveyService.deleteSurvey',
+        tenantId,
+        surveyId,
+      }),
+      deletedVersions,
+    });
+
+    return { surveyId, deletedVersions };
+  }
+
   /**
    * Health check.
    */
@@ -632,148 +1671,415 @@ export class SurveyService {
   }
 
   /**
-   * Enrich questions with current eligibility information.
+   * Enrich questions with current eligibility information and resolve
+   * answer-piping templates in their text.
    */
   private enrichQuestionsWithEligibility(
-    questions: QuestionDefinition[],
+    survey: SurveyDefinition,
+    questions: ExpandedQuestion[],
     session: ParticipantSession,
   ): EnrichedQuestion[] {
+    // A hidden section hides all of its questions; otherwise conditional
+    // logic decides
+    const checkVisibility = createVisibilityCheck(survey, session);
+
     return questions.map((question) => {
-      const alreadyAnswered = !!session.responses[question.id];
-      let currentlyEligible = true;
-      let eligibilityReason = 'Always available (no conditional logic)';
-
-      // Check conditional logic
-      if (question.conditional) {
-        const conditionalResult = this.evaluateConditionalLogic(
-          question.conditional,
-          session,
-        );
-        currentlyEligible = conditionalResult.eligible;
-        eligibilityReason = conditionalResult.reason;
+      const response = session.responses[question.id];
+      const skipped = !!response?.skipped;
+      const alreadyAnswered = !!response && !skipped;
+      const { section, ...visibility } = checkVisibility(question);
+      let currentlyEligible = visibility.eligible;
+      let eligibilityReason = visibility.reason;
+
+      // Locked questions accept no further submissions
+      const attempts = session.attempts?.[question.id];
+      const locked = !!attempts?.lockedAt;
+      if (locked) {
+        currentlyEligible = false;
+        eligibilityReason = `Locked after ${attempts?.failed ?? 0} failed validation attempts`;
       }
 
+      // The answer key stays server-side
+      const { answerKey: _answerKey, ...visible } = interpolateQuestion(
+        question,
+        survey,
+        session,
+      );
+
       return {
-        ...question,
+        ...visible,
         currentlyEligible,
         eligibilityReason,
         alreadyAnswered,
+        ...(locked && { locked }),
+        ...(skipped && { skipped }),
+        ...(section && { sectionId: section.id }),
       };
     });
   }
 
   /**
-   * Evaluate conditional logic (supports both simple and multi-condition).
+   * Find a question and verify it can currently be answered or skipped.
    */
-  private evaluateConditionalLogic(
-    conditional: ConditionalLogic,
+  private getAnswerableQuestion(
+    survey: SurveyDefinition,
     session: ParticipantSession,
-  ): { eligible: boolean; reason: string } {
-    // Check if it's a simple single condition
-    if ('dependsOn' in conditional && 'showIf' in conditional) {
-      return this.evaluateSingleCondition(conditional, session);
+    questionId: string,
+  ): ExpandedQuestion {
+    const question = this.findSessionQuestion(survey, session, questionId);
+
+    // Locked questions accept no further submissions
+    const attempts = session.attempts?.[questionId];
+    if (attempts?.lockedAt) {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidRequest,
+        `Question locked after ${attempts.failed} failed attempts: ${questionId}`,
+        { questionId, failedAttempts: attempts.failed },
+      );
     }
 
-    // Multi-condition logic
-    if ('operator' in conditional && 'conditions' in conditional) {
-      const { operator, conditions } = conditional;
-      const results = conditions.map(
-        (cond: { dependsOn: string; showIf: (string | number | boolean)[] }) =>
-          this.evaluateSingleCondition(cond, session),
+    // Check eligibility
+    const enrichedQuestion = this.enrichQuestionsWithEligibility(
+      survey,
+      [question],
+      session,
+    )[0];
+    if (!enrichedQuestion) {
+      throw new McpError(
+        JsonRpcErrorCode.InternalError,
+        'Failed to enrich question for eligibility check',
+        { questionId },
       );
+    }
+    if (!enrichedQuestion.currentlyEligible) {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidRequest,
+        `Question not currently eligible: ${enrichedQuestion.eligibilityReason ?? 'unknown reason'}`,
+        { questionId, reason: enrichedQuestion.eligibilityReason },
+      );
+    }
 
-      if (operator === 'AND') {
-        // All conditions must be eligible
-        const allEligible = results.every(
-          (r: { eligible: boolean; reason: string }) => r.eligible,
-        );
-        if (allEligible) {
-          return {
-            eligible: true,
-            reason: `All ${conditions.length} conditions satisfied (AND)`,
-          };
-        }
-        const failedReasons = results
-          .filter((r: { eligible: boolean; reason: string }) => !r.eligible)
-          .map((r: { eligible: boolean; reason: string }) => r.reason);
-        return {
-          eligible: false,
-          reason: `AND condition failed: ${failedReasons.join('; ')}`,
-        };
-      } else {
-        // OR: At least one condition must be eligible
-        const anyEligible = results.some(
-          (r: { eligible: boolean; reason: string }) => r.eligible,
-        );
-        if (anyEligible) {
-          const satisfiedReasons = results
-            .filter((r: { eligible: boolean; reason: string }) => r.eligible)
-            .map((r: { eligible: boolean; reason: string }) => r.reason);
-          return {
-            eligible: true,
-            reason: `OR condition satisfied: ${satisfiedReasons[0] ?? 'unknown'}`,
-          };
-        }
-        return {
-          eligible: false,
-          reason: `OR condition failed: all ${conditions.length} conditions not met`,
-        };
-      }
+    return question;
+  }
+
+  /**
+   * Find a question, or a roster question instance, as asked in a session.
+   */
+  private findSessionQuestion(
+    survey: SurveyDefinition,
+    session: ParticipantSession,
+    questionId: string,
+  ): ExpandedQuestion {
+    const question = this.getSessionQuestions(survey, session).find(
+      (q) => q.id === questionId,
+    );
+    if (question) {
+      return question;
     }
 
-    // Fallback (should not happen with proper types)
-    return { eligible: true, reason: 'Unknown conditional logic format' };
+    const roster = mapRosterQuestions(survey.rosters ?? []).get(questionId);
+    throw new McpError(
+      JsonRpcErrorCode.NotFound,
+      roster
+        ? `Question ${questionId} is asked once per item of ${roster.sourceQuestionId}; use an instance ID such as ${questionId}[<item>]`
+        : `Question not found: ${questionId}`,
+      { questionId, surveyId: survey.id },
+    );
+  }
+
+  /**
+   * Get the survey's questions in definition order, with roster questions
+   * expanded into one instance per item of the session's source answers.
+   */
+  private getSessionQuestions(
+    survey: SurveyDefinition,
+    session: ParticipantSession,
+  ): ExpandedQuestion[] {
+    return expandRosterQuestions(survey.questions, survey, session);
   }
 
   /**
-   * Evaluate a single condition.
+   * Capture current eligibility of every question, for change detection.
    */
-  private evaluateSingleCondition(
-    condition: { dependsOn: string; showIf: (string | number | boolean)[] },
+  private snapshotEligibility(
+    survey: SurveyDefinition,
     session: ParticipantSession,
-  ): { eligible: boolean; reason: string } {
-    const { dependsOn, showIf } = condition;
-    const dependencyResponse = session.responses[dependsOn];
+  ): Map<string, boolean> {
+    return new Map(
+      this.getSessionQuestions(survey, session).map((q) => {
+        const enriched = this.enrichQuestionsWithEligibility(
+          survey,
+          [q],
+          session,
+        )[0];
+        return [q.id, enriched?.currentlyEligible || false];
+      }),
+    );
+  }
 
-    if (!dependencyResponse) {
-      return {
-        eligible: false,
-        reason: `Conditional: depends on unanswered question ${dependsOn}`,
-      };
+  /**
+   * Mark a session screened out. The caller persists it.
+   */
+  private applyScreenOut(
+    session: ParticipantSession,
+    screenOut: SessionScreenOut,
+    at: string,
+  ): void {
+    session.status = 'screened-out';
+    session.screenedOutAt = at;
+    session.screenOut = screenOut;
+  }
+
+  /**
+   * Compute live quota fill from the survey's stored sessions.
+   */
+  private async loadQuotaStatus(
+    survey: SurveyDefinition,
+    tenantId: string,
+  ): Promise<QuotaStatus> {
+    const sessions = await this.provider.getAllSessionsBySurvey(
+      survey.id,
+      tenantId,
+    );
+    return buildQuotaStatus(survey, sessions);
+  }
+
+  /**
+   * Run `task` once every earlier quota check of the same survey (a
+   * completion, or an answer placing a session in a quota cell) has finished,
+   * so two sessions cannot both take the last place in a quota. Chains are
+   * per tenant and survey and only span this process: servers running
+   * several instances against one storage backend (including Workers) can
+   * still overfill a quota by the number of concurrent completions.
+   */
+  private async withQuotaLock<T>(
+    survey: SurveyDefinition,
+    tenantId: string,
+    task: () => Promise<T>,
+  ): Promise<T> {
+    const key = `${tenantId}:${survey.id}`;
+    const previous = this.quotaLocks.get(key) ?? Promise.resolve();
+    const current = previous.then(task, task);
+    const settled = current.then(
+      () => undefined,
+      () => undefined,
+    );
+    this.quotaLocks.set(key, settled);
+    try {
+      return await current;
+    } finally {
+      if (this.quotaLocks.get(key) === settled) {
+        this.quotaLocks.delete(key);
+      }
     }
+  }
+
+  /**
+   * Recalculate score, variables and progress after a response change, apply
+   * termination rules and quota cells, persist the session, and compute
+   * eligibility changes and refreshed suggestions (none once the session is
+   * screened out).
+   */
+  private async saveAndRefresh(
+    survey: SurveyDefinition,
+    session: ParticipantSession,
+    previousEligibility: Map<string, boolean>,
+    changedQuestionId: string,
+  ): Promise<{
+    updatedSession: ParticipantSession;
+    updatedEligibility: EligibilityChange[];
+    nextSuggestedQuestions: EnrichedQuestion[];
+    enteredSection?: CurrentSection;
+  }> {
+    const previousSectionId = session.progress.currentSection?.id;
+    session.lastActivityAt = new Date().toISOString();
+    this.recalculateSession(survey, session);
+
+    // End the session if a termination rule now matches, or if this answer
+    // placed it in a quota cell that is already full
+    let screenOut = evaluateTermination(survey, session);
+    const entersQuotaCell =
+      !screenOut &&
+      !!survey.quotas?.cells.some(
+        (cell) =>
+          cell.questionId === changedQuestionId &&
+          matchesQuotaCell(cell, session),
+      );
+    const save = async (): Promise<ParticipantSession> => {
+      if (entersQuotaCell) {
+        screenOut = findFullQuota(
+          survey,
+          session,
+          await this.loadQuotaStatus(survey, session.tenantId),
+        );
+      }
+      if (screenOut) {
+        this.applyScreenOut(session, screenOut, session.lastActivityAt);
+      }
+      return this.provider.updateSession(session);
+    };
 
-    const responseValue = dependencyResponse.value;
-    const matchesCondition = showIf.some((val) => val === responseValue);
+    // Save updated session; cell checks hold the quota lock until it is saved
+    const updatedSession = entersQuotaCell
+      ? await this.withQuotaLock(survey, session.tenantId, save)
+      : await save();
 
-    if (!matchesCondition) {
+    if (screenOut) {
+      logger.info('Screened out survey session', {
+        ...this.createLifecycleContext(updatedSession, 'saveAndRefresh'),
+        reason: screenOut.reason,
+        ruleId: screenOut.ruleId,
+      });
       return {
-        eligible: false,
-        reason: `Conditional: ${dependsOn} answer does not match required values`,
+        updatedSession,
+        updatedEligibility: [],
+        nextSuggestedQuestions: [],
       };
     }
 
-    // Handle different types for template literal
-    const valueStr =
-      typeof responseValue === 'object' && responseValue !== null
-        ? JSON.stringify(responseValue)
-        : String(responseValue);
+    // Detect eligibility changes (including newly added roster instances)
+    const updatedEligibility: EligibilityChange[] = [];
+    this.getSessionQuestions(survey, updatedSession).forEach((q) => {
+      const enriched = this.enrichQuestionsWithEligibility(
+        survey,
+        [q],
+        updatedSession,
+      )[0];
+      const wasEligible = previousEligibility.get(q.id) || false;
+      const isNowEligible = enriched?.currentlyEligible || false;
+
+      if (wasEligible !== isNowEligible) {
+        updatedEligibility.push({
+          questionId: q.id,
+          nowEligible: isNowEligible,
+          reason: enriched?.eligibilityReason,
+        });
+      }
+    });
+
+    // Get next suggested questions using survey settings
+    const allEnrichedQuestions = this.enrichQuestionsWithEligibility(
+      survey,
+      this.getOrderedQuestions(survey, updatedSession),
+      updatedSession,
+    );
+    const { min, max } = survey.settings.suggestionStrategy;
+    const nextSuggestedQuestions = this.getNextSuggestedQuestions(
+      allEnrichedQuestions,
+      min,
+      max,
+    );
+
+    // Report when this change moved the session into a new section
+    const { currentSection } = updatedSession.progress;
+    const enteredSection =
+      currentSection && currentSection.id !== previousSectionId
+        ? currentSection
+        : undefined;
+
     return {
-      eligible: true,
-      reason: `Conditional logic satisfied (${dependsOn} = '${valueStr}')`,
+      updatedSession,
+      updatedEligibility,
+      nextSuggestedQuestions,
+      ...(enteredSection && { enteredSection }),
     };
   }
 
   /**
-   * Get next suggested questions (eligible, unanswered questions).
+   * Score a response from its selected options' `score` values.
+   */
+  private scoreResponse(
+    question: QuestionDefinition,
+    value: unknown,
+  ): number | undefined {
+    if (question.type === 'multiple-choice' && question.options) {
+      return question.options.find((opt) => opt.value === value)?.score;
+    }
+    if (
+      question.type === 'multiple-select' &&
+      question.options &&
+      Array.isArray(value)
+    ) {
+      return value.reduce((total: number, val: unknown) => {
+        if (typeof val !== 'string') {
+          return total;
+        }
+        const selectedOption = question.options?.find(
+          (opt) => opt.value === val,
+        );
+        return total + (selectedOption?.score ?? 0);
+      }, 0);
+    }
+    // NOTE: Scoring for other question types can be added here if needed.
+    return undefined;
+  }
+
+  /**
+   * Recalculate total score, computed variables and progress from the
+   * session's responses, first dropping answers to roster items that are no
+   * longer listed.
+   */
+  private recalculateSession(
+    survey: SurveyDefinition,
+    session: ParticipantSession,
+  ): void {
+    // Answers for roster items no longer listed in the source answer go
+    for (const staleId of findStaleRosterResponses(survey, session)) {
+      delete session.responses[staleId];
+      delete session.attempts?.[staleId];
+    }
+
+    session.currentScore = Object.values(session.responses).reduce(
+      (total, response) => total + (response.score ?? 0),
+      0,
+    );
+    if (survey.variables?.length) {
+      session.variables = computeVariables(survey, session);
+    }
+    session.progress = this.calculateProgress(survey, session);
+  }
+
+  /**
+   * Get survey questions in the session's order (shuffled surveys persist it),
+   * grouped by section when the survey has sections, with roster questions
+   * expanded per item.
+   */
+  private getOrderedQuestions(
+    survey: SurveyDefinition,
+    session: ParticipantSession,
+  ): ExpandedQuestion[] {
+    const ordered = orderQuestions(survey.questions, session.questionOrder);
+    const grouped = survey.sections
+      ? orderQuestionsBySection(
+          ordered,
+          survey.sections,
+          !!session.questionOrder?.length,
+        )
+      : ordered;
+    return expandRosterQuestions(grouped, survey, session);
+  }
+
+  /**
+   * Get next suggested questions (eligible, unanswered questions). Questions
+   * arrive in section order, so suggestions stay within the first section
+   * with questions left, plus any questions in no section.
    */
   private getNextSuggestedQuestions(
     enrichedQuestions: EnrichedQuestion[],
     min: number,
     max: number,
   ): EnrichedQuestion[] {
-    // Filter to eligible, unanswered questions
-    const eligible = enrichedQuestions.filter(
-      (q) => q.currentlyEligible && !q.alreadyAnswered,
+    // Filter to eligible, unanswered questions (skipped ones are handled)
+    const remaining = enrichedQuestions.filter(
+      (q) => q.currentlyEligible && !q.alreadyAnswered && !q.skipped,
+    );
+
+    // Stay within the current section
+    const currentSectionId = remaining.find(
+      (q) => q.sectionId !== undefined,
+    )?.sectionId;
+    const eligible = remaining.filter(
+      (q) => q.sectionId === undefined || q.sectionId === currentSectionId,
     );
 
     // Prioritize required questions
@@ -801,30 +2107,197 @@ export class SurveyService {
     survey: SurveyDefinition,
     session: ParticipantSession,
   ): SessionProgress {
-    const totalQuestions = survey.questions.length;
-    const answeredQuestions = Object.keys(session.responses).length;
-    const requiredQuestions = survey.questions.filter((q) => q.required).length;
-    const answeredRequired = survey.questions.filter(
+    // Roster questions count once per item
+    const questions = this.getSessionQuestions(survey, session);
+    const totalQuestions = questions.length;
+    const responses = survey.rosters
+      ? questions.flatMap((q) => session.responses[q.id] ?? [])
+      : Object.values(session.responses);
+    const skippedQuestions = responses.filter((r) => r.skipped).length;
+    const answeredQuestions = responses.length - skippedQuestions;
+    const handledQuestions = answeredQuestions + skippedQuestions;
+    const requiredQuestions = questions.filter((q) => q.required).length;
+    const answeredRequired = questions.filter(
       (q) => q.required && session.responses[q.id],
     ).length;
 
+    // Skipped questions count as handled
     const percentComplete = Math.round(
-      (answeredQuestions / totalQuestions) * 100,
+      (handledQuestions / totalQuestions) * 100,
     );
 
     return {
       totalQuestions,
       answeredQuestions,
+      skippedQuestions,
       requiredAnswered: answeredRequired,
       requiredRemaining: requiredQuestions - answeredRequired,
       percentComplete,
       estimatedTimeRemaining:
         percentComplete >= 50
-          ? `${Math.max(1, Math.round((totalQuestions - answeredQuestions) / 2))} minutes`
+          ? `${Math.max(1, Math.round((totalQuestions - handledQuestions) / 2))} minutes`
           : survey.metadata.estimatedDuration,
+      ...(survey.sections && buildSectionProgress(survey, session)),
     };
   }
 
+  /**
+   * Reject changes to sessions that were abandoned or expired.
+   */
+  private assertSessionOpen(session: ParticipantSession): void {
+    if (session.status === 'abandoned') {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidRequest,
+        'Session was abandoned after inactivity; resume it to continue',
+        { sessionId: session.sessionId, abandonedAt: session.abandonedAt },
+      );
+    }
+    if (session.status === 'expired') {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidRequest,
+        'Session expired and can no longer be changed',
+        { sessionId: session.sessionId, expiredAt: session.expiredAt },
+      );
+    }
+    if (session.status === 'screened-out') {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidRequest,
+        'Session was screened out and can no longer be changed',
+        {
+          sessionId: session.sessionId,
+          screenedOutAt: session.screenedOutAt,
+          ruleId: session.screenOut?.ruleId,
+        },
+      );
+    }
+  }
+
+  /**
+   * Effective abandonment/expiry limits for a survey.
+   */
+  private getLifecyclePolicy(survey: SurveyDefinition): LifecyclePolicy {
+    return resolveLifecyclePolicy(survey, {
+      inactivityTimeoutMinutes: this.config.survey.inactivityTimeoutMinutes,
+      sessionDeadlineHours: this.config.survey.sessionDeadlineHours,
+    });
+  }
+
+  /**
+   * Persist an automatic status change and log the transition.
+   */
+  private async transitionSession(
+    session: ParticipantSession,
+    status: 'abandoned' | 'expired',
+    now: Date,
+    context: RequestContext,
+  ): Promise<void> {
+    const previousStatus = session.status;
+    const timestamp = now.toISOString();
+    session.status = status;
+    if (status === 'abandoned') {
+      session.abandonedAt = timestamp;
+    } else {
+      session.expiredAt = timestamp;
+    }
+    await this.provider.updateSession(session);
+
+    logger.info(`Marked survey session ${status}`, {
+      ...context,
+      previousStatus,
+      lastActivityAt: session.lastActivityAt,
+    });
+  }
+
+  /**
+   * Reject migration rules that name questions missing from either version,
+   * which are almost always typos that would silently lose answers.
+   */
+  private assertMigrationRules(
+    source: SurveyDefinition,
+    target: SurveyDefinition,
+    rules: SessionMigrationRules,
+  ): void {
+    const sourceIds = new Set(source.questions.map((q) => q.id));
+    const targetIds = new Set(target.questions.map((q) => q.id));
+    const referenced = [
+      ...Object.keys(rules.renames),
+      ...Object.keys(rules.optionMaps),
+      ...rules.drop,
+    ];
+
+    const unknownSource = referenced.find((id) => !sourceIds.has(id));
+    if (unknownSource !== undefined) {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidParams,
+        `Migration rules reference ${unknownSource}, which is not a question in version ${source.version}`,
+        { surveyId: source.id, questionId: unknownSource },
+      );
+    }
+    const unknownTarget = Object.values(rules.renames).find(
+      (id) => !targetIds.has(id),
+    );
+    if (unknownTarget !== undefined) {
+      throw new McpError(
+        JsonRpcErrorCode.InvalidParams,
+        `Migration rules rename to ${unknownTarget}, which is not a question in version ${target.version}`,
+        { surveyId: target.id, questionId: unknownTarget },
+      );
+    }
+  }
+
+  /**
+   * Parse and lint an authored definition, rejecting it on any error.
+   * Library question references (`$ref`, `$include`) are expanded first.
+   */
+  private parseAuthoredDefinition(input: Record<string, unknown>): {
+    survey: SurveyDefinition;
+    lint: DefinitionLintResult;
+  } {
+    const { definition, result } = lintRawSurveyDefinition(
+      input,
+      this.provider.getQuestionLibrary(),
+    );
+    if (!definition || !result.valid) {
+      throw new McpError(
+        JsonRpcErrorCode.ValidationError,
+        `Survey definition failed validation: ${result.errors.map((issue) => issue.message).join('; ')}`,
+        { surveyId: result.surveyId, errors: result.errors },
+      );
+    }
+    return { survey: definition, lint: result };
+  }
+
+  /**
+   * Build a request context identifying a survey version for authoring logs.
+   */
+  private createAuthoringContext(
+    survey: SurveyDefinition,
+    tenantId: string,
+    operation: string,
+  ): RequestContext {
+    return requestContextService.createRequestContext({
+      operation: `SurveyService.${operation}`,
+      tenantId,
+      surveyId: survey.id,
+      version: survey.version,
+    });
+  }
+
+  /**
+   * Build a request context identifying a session for lifecycle logs.
+   */
+  private createLifecycleContext(
+    session: ParticipantSession,
+    operation: string,
+  ): RequestContext {
+    return requestContextService.createRequestContext({
+      operation: `SurveyService.${operation}`,
+      tenantId: session.tenantId,
+      sessionId: session.sessionId,
+      surveyId: session.surveyId,
+    });
+  }
+
   /**
    * Get session or throw error.
    */
@@ -843,20 +2316,62 @@ export class SurveyService {
   }
 
   /**
-   * Get survey or throw error.
+   * Find the latest published version of a survey, which new sessions use.
+   */
+  private async findPublishedSurvey(
+    surveyId: string,
+    tenantId?: string,
+  ): Promise<SurveyDefinition | undefined> {
+    const versions = await this.provider.getSurveyVersions(surveyId, tenantId);
+    return latestSurveyVersion(
+      versions.filter((survey) => survey.status === 'published'),
+    );
+  }
+
+  /**
+   * Get survey or throw error. Sessions pass their pinned version so edits
+   * published later never change questions under them.
    */
   private async getSurveyOrThrow(
     surveyId: string,
     tenantId: string,
+    version?: string,
   ): Promise<SurveyDefinition> {
-    const survey = await this.provider.getSurveyById(surveyId, tenantId);
+    const survey = await this.provider.getSurveyById(
+      surveyId,
+      tenantId,
+      version,
+    );
     if (!survey) {
       throw new McpError(
         JsonRpcErrorCode.NotFound,
-        `Survey not found: ${surveyId}`,
-        { surveyId },
+        version !== undefined
+          ? `Survey version not found: ${surveyId}@${version}`
+          : `Survey not found: ${surveyId}`,
+        { surveyId, ...(version !== undefined && { version }) },
       );
     }
     return survey;
   }
 }
+
+/**
+ * Short, stable hash of session filters for pagination cursors. Object keys
+ * are sorted so equal filters hash the same whatever their key order.
+ */
+function hashFilters(filters: ExportFilters | undefined): string {
+  const canonical = JSON.stringify(filters ?? {}, (_key, value: unknown) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : value,
+  );
+  // 32-bit FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < canonical.length; i++) {
+    hash ^= canonical.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,366 @@
+/**
+ * @fileoverview Conditional logic engine for survey questions.
+ * Evaluates single conditions (legacy `showIf` or operator expressions),
+ * AND/OR groups, and NOT, nested to any depth, producing a human-readable
+ * reason alongside each result.
+ * @module src/services/survey/core/conditions
+ */
+
+import type {
+  ConditionOperator,
+  ConditionPrimitive,
+  ConditionalLogic,
+  ParticipantSession,
+  SingleCondition,
+} from '../types.js';
+
+/**
+ * Result of evaluating a condition against a session.
+ */
+export interface ConditionResult {
+  /** Whether the condition is satisfied */
+  eligible: boolean;
+  /** Human-readable explanation, surfaced as `eligibilityReason` */
+  reason: string;
+}
+
+/**
+ * Session state needed to evaluate conditions.
+ */
+export type ConditionSessionState = Pick<
+  ParticipantSession,
+  'responses' | 'variables'
+>;
+
+type ComparisonFn = (
+  answer: unknown,
+  expected: ConditionPrimitive | ConditionPrimitive[],
+) => boolean;
+
+/**
+ * Display symbols for each operator, used in reasons and descriptions.
+ */
+const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  eq: '=',
+  neq: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  in: 'is one of',
+  notIn: 'is not one of',
+  contains: 'contains',
+  notContains: 'does not contain',
+  answered: 'is answered',
+  notAnswered: 'is not answered',
+};
+
+/**
+ * Map of comparison operators to their implementations.
+ * Presence operators (`answered`/`notAnswered`) are handled before lookup.
+ */
+const comparisonMap: Record<
+  Exclude<ConditionOperator, 'answered' | 'notAnswered'>,
+  ComparisonFn
+> = {
+  eq: (answer, expected) => valuesEqual(answer, expected),
+  neq: (answer, expected) => !valuesEqual(answer, expected),
+  gt: (answer, expected) => compareOrdered(answer, expected, (d) => d > 0),
+  gte: (answer, expected) => compareOrdered(answer, expected, (d) => d >= 0),
+  lt: (answer, expected) => compareOrdered(answer, expected, (d) => d < 0),
+  lte: (answer, expected) => compareOrdered(answer, expected, (d) => d <= 0),
+  in: (answer, expected) => matchesAny(answer, toList(expected)),
+  notIn: (answer, expected) => !matchesAny(answer, toList(expected)),
+  contains: (answer, expected) => containsValue(answer, expected),
+  notContains: (answer, expected) => !containsValue(answer, expected),
+};
+
+/**
+ * Evaluate conditional logic against the current session responses.
+ *
+ * @param conditional - Condition, group, or negation to evaluate
+ * @param session - Session whose responses supply the answers
+ * @returns Eligibility result with a human-readable reason
+ */
+export function evaluateCondition(
+  conditional: ConditionalLogic,
+  session: ConditionSessionState,
+): ConditionResult {
+  if ('dependsOn' in conditional) {
+    return evaluateSingleCondition(conditional, session);
+  }
+
+  if (conditional.operator === 'NOT') {
+    const inner = evaluateCondition(conditional.condition, session);
+    const description = describeCondition(conditional.condition);
+    return inner.eligible
+      ? {
+          eligible: false,
+          reason: `NOT condition failed: ${description} is met`,
+        }
+      : {
+          eligible: true,
+          reason: `NOT condition satisfied: ${description} is not met`,
+        };
+  }
+
+  const { operator, conditions } = conditional;
+  const results = conditions.map((cond) => evaluateCondition(cond, session));
+
+  if (operator === 'AND') {
+    // All conditions must be eligible
+    if (results.every((r) => r.eligible)) {
+      return {
+        eligible: true,
+        reason: `All ${conditions.length} conditions satisfied (AND)`,
+      };
+    }
+    const failedReasons = results
+      .filter((r) => !r.eligible)
+      .map((r) => r.reason);
+    return {
+      eligible: false,
+      reason: `AND condition failed: ${failedReasons.join('; ')}`,
+    };
+  }
+
+  // OR: At least one condition must be eligible
+  const satisfied = results.find((r) => r.eligible);
+  if (satisfied) {
+    return {
+      eligible: true,
+      reason: `OR condition satisfied: ${satisfied.reason}`,
+    };
+  }
+  return {
+    eligible: false,
+    reason: `OR condition failed: all ${conditions.length} conditions not met`,
+  };
+}
+
+/**
+ * Render conditional logic as a compact, human-readable expression,
+ * e.g. `(role is one of [manager, director] AND NOT (tenure < 2))`.
+ */
+export function describeCondition(conditional: ConditionalLogic): string {
+  if ('dependsOn' in conditional) {
+    const target = getConditionTarget(conditional);
+    if (conditional.op === undefined) {
+      return `${target} ${OPERATOR_LABELS.in} ${formatValue(conditional.showIf ?? [])}`;
+    }
+    if (conditional.value === undefined) {
+      return `${target} ${OPERATOR_LABELS[conditional.op]}`;
+    }
+    return `${target} ${OPERATOR_LABELS[conditional.op]} ${formatValue(conditional.value)}`;
+  }
+
+  if (conditional.operator === 'NOT') {
+    const inner = describeCondition(conditional.condition);
+    // Multi-member groups are already parenthesized
+    return inner.startsWith('(') ? `NOT ${inner}` : `NOT (${inner})`;
+  }
+
+  const parts = conditional.conditions.map((cond) => describeCondition(cond));
+  return parts.length === 1
+    ? (parts[0] ?? '')
+    : `(${parts.join(` ${conditional.operator} `)})`;
+}
+
+/**
+ * Flatten conditional logic into its single conditions, in definition order.
+ */
+export function collectConditions(
+  conditional: ConditionalLogic,
+): SingleCondition[] {
+  if ('dependsOn' in conditional) {
+    return [conditional];
+  }
+  if (conditional.operator === 'NOT') {
+    return collectConditions(conditional.condition);
+  }
+  return conditional.conditions.flatMap((cond) => collectConditions(cond));
+}
+
+/**
+ * Evaluate a single condition (legacy `showIf` or operator expression).
+ */
+function evaluateSingleCondition(
+  condition: SingleCondition,
+  session: ConditionSessionState,
+): ConditionResult {
+  const { dependsOn } = condition;
+  const target = getConditionTarget(condition);
+  const answer = resolveAnswer(condition, session);
+
+  if (condition.op === 'answered' || condition.op === 'notAnswered') {
+    const isAnswered = answer !== undefined;
+    const eligible = condition.op === 'answered' ? isAnswered : !isAnswered;
+    return eligible
+      ? {
+          eligible,
+          reason: `Conditional logic satisfied (${describeCondition(condition)})`,
+        }
+      : {
+          eligible,
+          reason: `Conditional: requires that ${describeCondition(condition)}`,
+        };
+  }
+
+  if (answer === undefined) {
+    return {
+      eligible: false,
+      reason: session.responses[dependsOn]?.skipped
+        ? `Conditional: depends on skipped question ${target}`
+        : `Conditional: depends on unanswered question ${target}`,
+    };
+  }
+
+  // Legacy form: answer must match one of the showIf values
+  if (condition.op === undefined) {
+    if (!matchesAny(answer, condition.showIf ?? [])) {
+      return {
+        eligible: false,
+        reason: `Conditional: ${dependsOn} answer does not match required values`,
+      };
+    }
+    return {
+      eligible: true,
+      reason: `Conditional logic satisfied (${target} = '${stringifyAnswer(answer)}')`,
+    };
+  }
+
+  // Schema validation guarantees a value for non-presence operators
+  const expected = condition.value ?? [];
+  if (!comparisonMap[condition.op](answer, expected)) {
+    return {
+      eligible: false,
+      reason: `Conditional: requires that ${describeCondition(condition)} (answer: '${stringifyAnswer(answer)}')`,
+    };
+  }
+  return {
+    eligible: true,
+    reason: `Conditional logic satisfied (${describeCondition(condition)}; answer: '${stringifyAnswer(answer)}')`,
+  };
+}
+
+/**
+ * Look up the answer a condition refers to, following `path` into object answers.
+ * `dependsOn` may also name a computed variable. Returns undefined when the
+ * question (or path) has no answer; skipped questions count as unanswered.
+ */
+function resolveAnswer(
+  condition: SingleCondition,
+  session: ConditionSessionState,
+): unknown {
+  const variable = session.variables?.[condition.dependsOn];
+  if (variable !== undefined) {
+    return variable;
+  }
+
+  const response = session.responses[condition.dependsOn];
+  if (!response || response.skipped) {
+    return undefined;
+  }
+
+  let current: unknown = response.value;
+  if (condition.path) {
+    for (const segment of condition.path.split('.')) {
+      if (typeof current !== 'object' || current === null) {
+        return undefined;
+      }
+      current = (current as Record<string, unknown>)[segment];
+    }
+  }
+
+  return current;
+}
+
+function getConditionTarget(condition: SingleCondition): string {
+  return condition.path
+    ? `${condition.dependsOn}.${condition.path}`
+    : condition.dependsOn;
+}
+
+function toList(
+  expected: ConditionPrimitive | ConditionPrimitive[],
+): ConditionPrimitive[] {
+  return Array.isArray(expected) ? expected : [expected];
+}
+
+/**
+ * True when the answer (or, for array answers, any selected value) is in the list.
+ */
+function matchesAny(answer: unknown, values: ConditionPrimitive[]): boolean {
+  if (Array.isArray(answer)) {
+    return answer.some((item) => values.some((val) => val === item));
+  }
+  return values.some((val) => val === answer);
+}
+
+/**
+ * Strict equality; arrays compare as sets so selection order does not matter.
+ */
+function valuesEqual(
+  answer: unknown,
+  expected: ConditionPrimitive | ConditionPrimitive[],
+): boolean {
+  if (Array.isArray(answer) || Array.isArray(expected)) {
+    if (!Array.isArray(answer) || !Array.isArray(expected)) {
+      return false;
+    }
+    const answerSet = new Set<unknown>(answer);
+    const expectedSet = new Set<unknown>(expected);
+    return (
+      answerSet.size === expectedSet.size &&
+      [...expectedSet].every((val) => answerSet.has(val))
+    );
+  }
+  return answer === expected;
+}
+
+/**
+ * Ordered comparison: numeric for numbers, lexical for strings (ISO dates/times).
+ * Mismatched types never satisfy the comparison.
+ */
+function compareOrdered(
+  answer: unknown,
+  expected: ConditionPrimitive | ConditionPrimitive[],
+  predicate: (difference: number) => boolean,
+): boolean {
+  if (typeof answer === 'number' && typeof expected === 'number') {
+    return predicate(answer - expected);
+  }
+  if (typeof answer === 'string' && typeof expected === 'string') {
+    return predicate(answer === expected ? 0 : answer > expected ? 1 : -1);
+  }
+  return false;
+}
+
+/**
+ * Array answers contain the value (or every listed value); string answers
+ * contain the substring.
+ */
+function containsValue(
+  answer: unknown,
+  expected: ConditionPrimitive | ConditionPrimitive[],
+): boolean {
+  if (Array.isArray(answer)) {
+    return toList(expected).every((val) => answer.includes(val));
+  }
+  if (typeof answer === 'string' && typeof expected === 'string') {
+    return answer.includes(expected);
+  }
+  return false;
+}
+
+function formatValue(value: ConditionPrimitive | ConditionPrimitive[]): string {
+  return Array.isArray(value)
+    ? `[${value.map((val) => String(val)).join(', ')}]`
+    : String(value);
+}
+
+function stringifyAnswer(answer: unknown): string {
+  return typeof answer === 'object' && answer !== null
+    ? JSON.stringify(answer)
+    : String(answer);
+}
@@ -0,0 +1,327 @@
+/**
+ * @fileoverview Cross-tabulation of two questions with a chi-square test of
+ * independence. Supports categorical question types; rating scales can be
+ * grouped into bins, and multiple-select answers count once per selection.
+ * @module src/services/survey/core/crosstab
+ */
+
+import type {
+  Crosstab,
+  ParticipantSession,
+  QuestionDefinition,
+  QuestionType,
+} from '../types.js';
+
+/**
+ * Question types that can form a crosstab axis.
+ */
+export const CROSSTAB_QUESTION_TYPES: readonly QuestionType[] = [
+  'multiple-choice',
+  'multiple-select',
+  'rating-scale',
+  'boolean',
+];
+
+/**
+ * Options for building a crosstab.
+ */
+export interface CrosstabOptions {
+  /** Width of rating-scale bins in scale points; 1 (default) keeps each point */
+  ratingBinSize?: number;
+}
+
+interface CategoryAxis {
+  labels: string[];
+  categorize(value: unknown): string[];
+}
+
+/**
+ * Cross-tabulate two questions across sessions.
+ * Only sessions that answered (not skipped) both questions are counted.
+ *
+ * @param rowQuestion - Question whose categories form the rows
+ * @param columnQuestion - Question whose categories form the columns
+ * @param sessions - Sessions to analyze
+ * @param options - Binning options
+ * @returns Counts, percentages and, for single-response tables, a
+ * chi-square test
+ */
+export function buildCrosstab(
+  rowQuestion: QuestionDefinition,
+  columnQuestion: QuestionDefinition,
+  sessions: ParticipantSession[],
+  options: CrosstabOptions = {},
+): Crosstab {
+  const rowAxis = createAxis(rowQuestion, options);
+  const columnAxis = createAxis(columnQuestion, options);
+
+  const pairs: Array<[string[], string[]]> = [];
+  for (const session of sessions) {
+    const rowResponse = session.responses[rowQuestion.id];
+    const columnResponse = session.responses[columnQuestion.id];
+    if (
+      !rowResponse ||
+      !columnResponse ||
+      rowResponse.skipped ||
+      columnResponse.skipped
+    ) {
+      continue;
+    }
+    const rowCategories = rowAxis.categorize(rowResponse.value);
+    const columnCategories = columnAxis.categorize(columnResponse.value);
+    if (rowCategories.length > 0 && columnCategories.length > 0) {
+      pairs.push([rowCategories, columnCategories]);
+    }
+  }
+
+  const counts = rowAxis.labels.map(() => columnAxis.labels.map(() => 0));
+  for (const [rowCategories, columnCategories] of pairs) {
+    for (const rowCategory of rowCategories) {
+      const row = counts[rowAxis.labels.indexOf(rowCategory)];
+      for (const columnCategory of columnCategories) {
+        const column = columnAxis.labels.indexOf(columnCategory);
+        if (row && column >= 0) {
+          row[column] = (row[column] ?? 0) + 1;
+        }
+      }
+    }
+  }
+
+  const rowTotals = counts.map((row) => sum(row));
+  const columnTotals = columnAxis.labels.map((_, column) =>
+    sum(counts.map((row) => row[column] ?? 0)),
+  );
+  const grandTotal = sum(rowTotals);
+  const multiResponse =
+    rowQuestion.type === 'multiple-select' ||
+    columnQuestion.type === 'multiple-select';
+
+  // Pearson's test assumes one observation per cell count; a respondent
+  // with several selections breaks that, so multi-response tables get none
+  const chiSquare = multiResponse
+    ? undefined
+    : chiSquareTest(counts, rowTotals, columnTotals, grandTotal);
+
+  return {
+    rowQuestionId: rowQuestion.id,
+    columnQuestionId: columnQuestion.id,
+    rowCategories: rowAxis.labels,
+    columnCategories: columnAxis.labels,
+    counts,
+    rowTotals,
+    columnTotals,
+    grandTotal,
+    rowPercentages: counts.map((row, r) =>
+      row.map((count) => percentage(count, rowTotals[r] ?? 0)),
+    ),
+    columnPercentages: counts.map((row) =>
+      row.map((count, c) => percentage(count, columnTotals[c] ?? 0)),
+    ),
+    respondentCount: pairs.length,
+    multiResponse,
+    ...(chiSquare && { chiSquare }),
+  };
+}
+
+/**
+ * Upper-tail probability of the chi-square distribution.
+ *
+ * @param statistic - Chi-square statistic
+ * @param degreesOfFreedom - Degrees of freedom (> 0)
+ * @returns p-value in [0, 1]
+ */
+export function chiSquarePValue(
+  statistic: number,
+  degreesOfFreedom: number,
+): number {
+  return regularizedGammaQ(degreesOfFreedom / 2, statistic / 2);
+}
+
+/**
+ * Build the category axis for a question, appending observed values that
+ * the definition does not list.
+ */
+function createAxis(
+  question: QuestionDefinition,
+  options: CrosstabOptions,
+): CategoryAxis {
+  const labels: string[] = [];
+  const addLabel = (label: string): void => {
+    if (!labels.includes(label)) {
+      labels.push(label);
+    }
+  };
+
+  let toCategory = (value: unknown): string => String(value);
+
+  switch (question.type) {
+    case 'boolean':
+      labels.push('true', 'false');
+      break;
+    case 'rating-scale': {
+      const scale = question.scale;
+      const binSize = Math.max(1, Math.floor(options.ratingBinSize ?? 1));
+      if (scale) {
+        for (let value = scale.min; value <= scale.max; value += scale.step) {
+          addLabel(ratingBinLabel(value, scale.min, scale.max, binSize));
+        }
+        toCategory = (value) =>
+          typeof value === 'number'
+            ? ratingBinLabel(value, scale.min, scale.max, binSize)
+            : String(value);
+      }
+      break;
+    }
+    default:
+      for (const option of question.options ?? []) {
+        addLabel(option.value);
+      }
+      break;
+  }
+
+  return {
+    labels,
+    categorize(value: unknown): string[] {
+      if (value === null || value === undefined) {
+        return [];
+      }
+      const values: unknown[] = Array.isArray(value) ? value : [value];
+      const categories = [...new Set(values.map(toCategory))];
+      categories.forEach(addLabel);
+      return categories;
+    },
+  };
+}
+
+function ratingBinLabel(
+  value: number,
+  min: number,
+  max: number,
+  binSize: number,
+): string {
+  if (binSize === 1) {
+    return String(value);
+  }
+  const low = min + Math.floor((value - min) / binSize) * binSize;
+  const high = Math.min(low + binSize - 1, max);
+  return low === high ? String(low) : `${low}–${high}`;
+}
+
+/**
+ * Pearson chi-square test over the non-empty rows and columns.
+ */
+function chiSquareTest(
+  counts: number[][],
+  rowTotals: number[],
+  columnTotals: number[],
+  grandTotal: number,
+): Crosstab['chiSquare'] {
+  const rows = rowTotals.flatMap((total, r) => (total > 0 ? [r] : []));
+  const columns = columnTotals.flatMap((total, c) => (total > 0 ? [c] : []));
+  if (rows.length < 2 || columns.length < 2) {
+    return undefined;
+  }
+
+  let statistic = 0;
+  for (const r of rows) {
+    for (const c of columns) {
+      const expected =
+        ((rowTotals[r] ?? 0) * (columnTotals[c] ?? 0)) / grandTotal;
+      const observed = counts[r]?.[c] ?? 0;
+      statistic += (observed - expected) ** 2 / expected;
+    }
+  }
+
+  const degreesOfFreedom = (rows.length - 1) * (columns.length - 1);
+  return {
+    statistic: round(statistic, 4),
+    degreesOfFreedom,
+    pValue: round(chiSquarePValue(statistic, degreesOfFreedom), 4),
+  };
+}
+
+const LANCZOS_COEFFICIENTS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+  771.32342877765313, -176.61502916214059, 12.507343278686905,
+  -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/**
+ * Natural log of the gamma function (Lanczos approximation).
+ */
+function logGamma(z: number): number {
+  if (z < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * z)) - logGamma(1 - z);
+  }
+  const shifted = z - 1;
+  let x = LANCZOS_COEFFICIENTS[0] ?? 1;
+  LANCZOS_COEFFICIENTS.slice(1).forEach((coefficient, i) => {
+    x += coefficient / (shifted + i + 1);
+  });
+  const t = shifted + LANCZOS_COEFFICIENTS.length - 1.5;
+  return (
+    0.5 * Math.log(2 * Math.PI) +
+    (shifted + 0.5) * Math.log(t) -
+    t +
+    Math.log(x)
+  );
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x), using the series
+ * expansion below a + 1 and a continued fraction above it.
+ */
+function regularizedGammaQ(a: number, x: number): number {
+  if (x <= 0) {
+    return 1;
+  }
+  const prefix = Math.exp(-x + a * Math.log(x) - logGamma(a));
+  const epsilon = 1e-14;
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let total = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      total += term;
+      if (Math.abs(term) < Math.abs(total) * epsilon) {
+        break;
+      }
+    }
+    return Math.min(1, Math.max(0, 1 - total * prefix));
+  }
+
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < epsilon) {
+      break;
+    }
+  }
+  return Math.min(1, Math.max(0, prefix * h));
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function percentage(count: number, total: number): number {
+  return total > 0 ? round((count / total) * 100, 1) : 0;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,472 @@
+/**
+ * @fileoverview Survey definition file formats. Definitions can be written as
+ * JSON, YAML or JSON5; this module picks the format from a file extension,
+ * parses and validates source text with line/column locations for every
+ * error, and serializes definitions back to any of the formats.
+ * @module src/services/survey/core/formats
+ */
+
+import JSON5 from 'json5';
+import * as yaml from 'js-yaml';
+import type { z } from 'zod';
+
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+import { json5Parser, jsonParser, yamlParser } from '@/utils/index.js';
+import type {
+  DefinitionFormat,
+  DefinitionSourceIssue,
+  QuestionLibraryFile,
+  SurveyDefinition,
+} from '../types.js';
+import { QuestionLibraryFileSchema, SurveyDefinitionSchema } from '../types.js';
+import { type QuestionLibrary, resolveQuestionReferences } from './library.js';
+
+/**
+ * Definition file extensions and the format each is parsed as.
+ */
+export const DEFINITION_FILE_EXTENSIONS: Readonly<
+  Record<string, DefinitionFormat>
+> = {
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.json5': 'json5',
+};
+
+/** Line and column (both 1-based) in source text */
+interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * Get the definition format of a file from its extension.
+ *
+ * @returns The format, or undefined for files that are not definitions
+ */
+export function definitionFormatFromPath(
+  filePath: string,
+): DefinitionFormat | undefined {
+  const extension = /\.[^./\\]+$/.exec(filePath)?.[0].toLowerCase();
+  return extension !== undefined
+    ? DEFINITION_FILE_EXTENSIONS[extension]
+    : undefined;
+}
+
+/**
+ * Parse definition source text and validate it against the survey schema.
+ *
+ * @param text - Source text in the given format
+ * @param format - Format of the source text
+ * @param library - Question library for expanding `$ref` and `$include`
+ *   question entries before validation; without one, entries are validated
+ *   as written
+ * @returns The parsed document as written, and the validated definition with
+ *   library questions expanded and schema defaults applied
+ * @throws {McpError} ValidationError when the text cannot be parsed, has
+ *   unresolved references or does not match the schema; `data.issues` lists
+ *   each error with its location
+ */
+export function parseSurveyDefinitionSource(
+  text: string,
+  format: DefinitionFormat,
+  library?: QuestionLibrary,
+): { document: unknown; survey: SurveyDefinition } {
+  const document = parseDefinitionDocument(text, format);
+  if (!library) {
+    return {
+      document,
+      survey: validateDocument(
+        text,
+        format,
+        document,
+        SurveyDefinitionSchema,
+        'Survey definition',
+      ),
+    };
+  }
+
+  const resolved = resolveQuestionReferences(document, library);
+  if (resolved.issues.length > 0) {
+    throwSourceIssues(
+      'Survey definition has unresolved library references',
+      format,
+      resolved.issues.map((issue) => ({
+        ...issue,
+        ...locateDefinitionPath(text, format, issue.path?.split('.') ?? []),
+      })),
+    );
+  }
+
+  // Schema errors in expanded questions are located at the entry that
+  // included them
+  const sourcePath = (path: readonly (string | number)[]) =>
+    path[0] === 'questions' && typeof path[1] === 'number'
+      ? ['questions', resolved.questionSources[path[1]] ?? path[1]]
+      : path;
+  return {
+    document,
+    survey: validateDocument(
+      text,
+      format,
+      resolved.document,
+      SurveyDefinitionSchema,
+      'Survey definition',
+      sourcePath,
+    ),
+  };
+}
+
+/**
+ * Parse question library source text and validate it against the library
+ * schema.
+ *
+ * @param text - Source text in the given format
+ * @param format - Format of the source text
+ * @returns The parsed document as written, and the validated library file
+ * @throws {McpError} ValidationError when the text cannot be parsed or does
+ *   not match the schema; `data.issues` lists each error with its location
+ */
+export function parseQuestionLibrarySource(
+  text: string,
+  format: DefinitionFormat,
+): { document: unknown; library: QuestionLibraryFile } {
+  const document = parseDefinitionDocument(text, format, 'Question library');
+  return {
+    document,
+    library: validateDocument(
+      text,
+      format,
+      document,
+      QuestionLibraryFileSchema,
+      'Question library',
+    ),
+  };
+}
+
+/**
+ * Serialize a definition document in the given format.
+ *
+ * @param document - Definition to write (as authored, or a validated definition)
+ * @param format - Target format
+ * @returns Source text ending in a newline
+ */
+export function serializeDefinition(
+  document: unknown,
+  format: DefinitionFormat,
+): string {
+  switch (format) {
+    case 'yaml':
+      return yaml.dump(document, { noRefs: true, lineWidth: -1 });
+    case 'json5':
+      return `${JSON5.stringify(document, null, 2)}\n`;
+    case 'json':
+      return `${JSON.stringify(document, null, 2)}\n`;
+  }
+}
+
+/**
+ * Parse source text into a plain document with the format's parser. Syntax
+ * errors are rethrown with the line and column in the original text.
+ *
+ * @param subject - What the text holds, for error messages
+ */
+function parseDefinitionDocument(
+  text: string,
+  format: DefinitionFormat,
+  subject = 'Survey definition',
+): unknown {
+  try {
+    switch (format) {
+      case 'yaml':
+        return yamlParser.parse(text);
+      case 'json5':
+        return json5Parser.parse(text);
+      case 'json':
+        // Definitions are complete documents: allow no partial values
+        return jsonParser.parse(text, 0);
+    }
+  } catch (error) {
+    const data = error instanceof McpError ? error.data : undefined;
+    const line = typeof data?.line === 'number' ? data.line : undefined;
+    const column = typeof data?.column === 'number' ? data.column : undefined;
+    // The parsers trim the text, so shift lines by the leading blank lines
+    const leadingLines = (/^\s*/.exec(text)?.[0].match(/\n/g) ?? []).length;
+    const issue: DefinitionSourceIssue = {
+      message: firstLine(
+        error instanceof Error ? error.message : String(error),
+      ),
+      ...(line !== undefined && { line: line + leadingLines }),
+      ...(column !== undefined && { column }),
+    };
+    throw new McpError(
+      JsonRpcErrorCode.ValidationError,
+      `${subject} is not valid ${format.toUpperCase()}: ${describeIssue(issue)}`,
+      { format, issues: [issue] },
+    );
+  }
+}
+
+/**
+ * Validate a parsed document against a schema, reporting each schema error
+ * at its location in the source text.
+ *
+ * @param subject - What the document holds, for error messages
+ * @param sourcePath - Maps a path in the validated document to the path
+ *   to locate in the source text, when the two differ
+ */
+function validateDocument<T>(
+  text: string,
+  format: DefinitionFormat,
+  document: unknown,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  subject: string,
+  sourcePath: (
+    path: readonly (string | number)[],
+  ) => readonly (string | number)[] = (path) => path,
+): T {
+  const parsed = schema.safeParse(document);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  const issues: DefinitionSourceIssue[] = parsed.error.issues.map((issue) => ({
+    message: issue.message,
+    ...(issue.path.length > 0 && { path: issue.path.join('.') }),
+    ...locateDefinitionPath(text, format, sourcePath(issue.path)),
+  }));
+  return throwSourceIssues(
+    `${subject} does not match the schema`,
+    format,
+    issues,
+  );
+}
+
+/**
+ * Throw a ValidationError listing the first few issues in its message and
+ * all of them in `data.issues`.
+ */
+function throwSourceIssues(
+  summary: string,
+  format: DefinitionFormat,
+  issues: DefinitionSourceIssue[],
+): never {
+  throw new McpError(
+    JsonRpcErrorCode.ValidationError,
+    `${summary}: ${issues
+      .slice(0, 3)
+      .map(describeIssue)
+      .join(
+        '; ',
+      )}${issues.length > 3 ? ` (and ${issues.length - 3} more)` : ''}`,
+    { format, issues },
+  );
+}
+
+/**
+ * Find where a definition path appears in the source text. Paths that do
+ * not appear (such as a missing required field) resolve to their nearest
+ * enclosing value.
+ */
+function locateDefinitionPath(
+  text: string,
+  format: DefinitionFormat,
+  path: readonly (string | number)[],
+): SourceLocation | undefined {
+  return format === 'yaml'
+    ? locateYamlPath(text, path)
+    : locateJsonPath(text, path);
+}
+
+/**
+ * Locate a path in YAML text. js-yaml reports where each node starts through
+ * its parse listener; collections are matched to their positions by identity.
+ */
+function locateYamlPath(
+  text: string,
+  path: readonly (string | number)[],
+): SourceLocation | undefined {
+  const positions = new WeakMap<object, SourceLocation>();
+  const open: SourceLocation[] = [];
+  let node: unknown;
+  try {
+    node = yaml.load(text, {
+      listener(event, state) {
+        if (event === 'open') {
+          open.push({
+            line: state.line + 1,
+            column: state.position - state.lineStart + 1,
+          });
+          return;
+        }
+        const start = open.pop();
+        const result: unknown = state.result;
+        if (start && typeof result === 'object' && result !== null) {
+          positions.set(result, start);
+        }
+      },
+    });
+  } catch {
+    return undefined;
+  }
+
+  let location =
+    typeof node === 'object' && node !== null ? positions.get(node) : undefined;
+  for (const key of path) {
+    if (typeof node !== 'object' || node === null) {
+      break;
+    }
+    node = (node as Record<string, unknown>)[String(key)];
+    if (typeof node === 'object' && node !== null) {
+      location = positions.get(node) ?? location;
+    }
+  }
+  return location;
+}
+
+/**
+ * Locate a path in JSON or JSON5 text.
+ */
+function locateJsonPath(
+  text: string,
+  path: readonly (string | number)[],
+): SourceLocation | undefined {
+  const offsets = indexJsonOffsets(text);
+  for (let length = path.length; length >= 0; length--) {
+    const offset = offsets.get(path.slice(0, length).join('.'));
+    if (offset !== undefined) {
+      const before = text.slice(0, offset).split('\n');
+      return {
+        line: before.length,
+        column: (before[before.length - 1]?.length ?? 0) + 1,
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Record the offset at which every value in a JSON or JSON5 document starts,
+ * keyed by its dot-separated path. Tolerates comments, trailing commas,
+ * unquoted keys and single-quoted strings; stops at anything malformed.
+ */
+function indexJsonOffsets(text: string): Map<string, number> {
+  const offsets = new Map<string, number>();
+  let i = 0;
+
+  const skipTrivia = () => {
+    while (i < text.length) {
+      if (/\s/.test(text[i] ?? '')) {
+        i++;
+      } else if (text.startsWith('//', i)) {
+        const end = text.indexOf('\n', i);
+        i = end === -1 ? text.length : end;
+      } else if (text.startsWith('/*', i)) {
+        const end = text.indexOf('*/', i + 2);
+        i = end === -1 ? text.length : end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const readString = (): string => {
+    const quote = text[i];
+    let value = '';
+    i++;
+    while (i < text.length && text[i] !== quote) {
+      if (text[i] === '\\') {
+        value += text[i + 1] ?? '';
+        i += 2;
+      } else {
+        value += text[i];
+        i++;
+      }
+    }
+    i++;
+    return value;
+  };
+
+  const readBare = (): string => {
+    const start = i;
+    while (i < text.length && !/[\s,:[\]{}/]/.test(text[i] ?? '')) {
+      i++;
+    }
+    return text.slice(start, i);
+  };
+
+  const readValue = (path: string[]): void => {
+    skipTrivia();
+    offsets.set(path.join('.'), i);
+    const char = text[i];
+
+    if (char === '{') {
+      i++;
+      for (;;) {
+        skipTrivia();
+        if (i >= text.length || text[i] === '}') {
+          i++;
+          return;
+        }
+        const key =
+          text[i] === '"' || text[i] === "'" ? readString() : readBare();
+        skipTrivia();
+        if (text[i] !== ':') {
+          return;
+        }
+        i++;
+        readValue([...path, key]);
+        skipTrivia();
+        if (text[i] === ',') {
+          i++;
+        }
+      }
+    } else if (char === '[') {
+      i++;
+      for (let index = 0; ; index++) {
+        skipTrivia();
+        if (i >= text.length || text[i] === ']') {
+          i++;
+          return;
+        }
+        const start = i;
+        readValue([...path, String(index)]);
+        if (i === start) {
+          return;
+        }
+        skipTrivia();
+        if (text[i] === ',') {
+          i++;
+        }
+      }
+    } else if (char === '"' || char === "'") {
+      readString();
+    } else {
+      readBare();
+    }
+  };
+
+  readValue([]);
+  return offsets;
+}
+
+/**
+ * Format an issue as `path (line L, column C): message`.
+ */
+function describeIssue(issue: DefinitionSourceIssue): string {
+  const location =
+    issue.line !== undefined
+      ? `line ${issue.line}${issue.column !== undefined ? `, column ${issue.column}` : ''}`
+      : undefined;
+  const where = [issue.path, location && `(${location})`]
+    .filter(Boolean)
+    .join(' ');
+  return where ? `${where}: ${issue.message}` : issue.message;
+}
+
+/**
+ * First line of a parser message (js-yaml appends a source excerpt).
+ */
+function firstLine(message: string): string {
+  return message.split('\n')[0] ?? message;
+}
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Drop-off funnel analytics built from response timestamps.
+ * Shows how far participants get through a survey, how long each answer
+ * takes, and where abandoned sessions stopped. Roster instance answers count
+ * toward the question they repeat.
+ * @module src/services/survey/core/funnel
+ */
+
+import type {
+  DropOffFunnel,
+  ParticipantSession,
+  SurveyDefinition,
+} from '../types.js';
+import { parseRosterInstanceId } from './rosters.js';
+import { summarizeNumbers } from './statistics.js';
+
+/**
+ * Build the drop-off funnel for a survey.
+ *
+ * Time to answer is measured from the session's previous response (or from
+ * session start for the first response), ordered by `answeredAt`. Steps are
+ * listed in definition order, even for surveys that shuffle questions.
+ *
+ * @param survey - Survey definition
+ * @param sessions - Sessions to analyze
+ * @returns Funnel steps, answer timing and completion curve
+ */
+export function buildDropOffFunnel(
+  survey: SurveyDefinition,
+  sessions: ParticipantSession[],
+): DropOffFunnel {
+  const reached = new Map<string, number>();
+  const secondsToAnswer = new Map<string, number[]>();
+  const lastBeforeAbandonment = new Map<string, number>();
+  const allGaps: number[] = [];
+  const handledCounts: number[] = [];
+  let abandonedWithoutAnswers = 0;
+
+  for (const session of sessions) {
+    const responses = Object.values(session.responses).sort(
+      (a, b) =>
+        new Date(a.answeredAt).getTime() - new Date(b.answeredAt).getTime(),
+    );
+    const questionIds = responses.map(
+      (response) =>
+        parseRosterInstanceId(response.questionId)?.questionId ??
+        response.questionId,
+    );
+    const handled = new Set(questionIds);
+    handledCounts.push(handled.size);
+    for (const questionId of handled) {
+      reached.set(questionId, (reached.get(questionId) ?? 0) + 1);
+    }
+
+    let previous = new Date(session.startedAt).getTime();
+    responses.forEach((response, index) => {
+      const questionId = questionIds[index] ?? response.questionId;
+      const answeredAt = new Date(response.answeredAt).getTime();
+      const seconds = Math.max(0, (answeredAt - previous) / 1000);
+      previous = answeredAt;
+      if (!response.skipped) {
+        const timings = secondsToAnswer.get(questionId) ?? [];
+        timings.push(seconds);
+        secondsToAnswer.set(questionId, timings);
+      }
+      if (index > 0) {
+        allGaps.push(seconds);
+      }
+    });
+
+    if (session.status === 'abandoned' || session.status === 'expired') {
+      const last = questionIds[questionIds.length - 1];
+      if (last) {
+        lastBeforeAbandonment.set(
+          last,
+          (lastBeforeAbandonment.get(last) ?? 0) + 1,
+        );
+      } else {
+        abandonedWithoutAnswers++;
+      }
+    }
+  }
+
+  const sessionCount = sessions.length;
+  const steps = survey.questions.map((question, index) => {
+    const reachedCount = reached.get(question.id) ?? 0;
+    const median = summarizeNumbers(
+      secondsToAnswer.get(question.id) ?? [],
+    )?.median;
+    return {
+      questionId: question.id,
+      questionText: question.text,
+      position: index + 1,
+      reachedCount,
+      reachedRate: formatRate(reachedCount, sessionCount),
+      ...(median !== undefined && { medianSecondsToAnswer: median }),
+      lastAnsweredBeforeAbandonment:
+        lastBeforeAbandonment.get(question.id) ?? 0,
+    };
+  });
+
+  const completionCurve = survey.questions.map((_, index) => {
+    const questionsAnswered = index + 1;
+    const count = handledCounts.filter((n) => n >= questionsAnswered).length;
+    return {
+      questionsAnswered,
+      sessionCount: count,
+      sessionRate: formatRate(count, sessionCount),
+    };
+  });
+
+  const medianGap = summarizeNumbers(allGaps)?.median;
+
+  return {
+    sessionCount,
+    steps,
+    ...(medianGap !== undefined && { medianSecondsBetweenAnswers: medianGap }),
+    abandonedWithoutAnswers,
+    completionCurve,
+  };
+}
+
+function formatRate(count: number, total: number): string {
+  return total > 0 ? `${Math.round((count / total) * 100)}%` : '0%';
+}
@@ -0,0 +1,178 @@
+/**
+ * @fileoverview Grading engine for quiz questions.
+ * Compares responses against a question's answer key, with partial credit for
+ * multiple-select questions and tolerance for numeric answers, and builds the
+ * graded summary returned when a quiz session completes.
+ * @module src/services/survey/core/grading
+ */
+
+import type {
+  AnswerKey,
+  ConditionPrimitive,
+  ParticipantSession,
+  QuestionDefinition,
+  QuestionGrade,
+  QuizSummary,
+  SurveyDefinition,
+} from '../types.js';
+import { expandRosterQuestions } from './rosters.js';
+import { createVisibilityCheck } from './sections.js';
+
+/**
+ * Grade a response against the question's answer key.
+ *
+ * @param question - Question definition
+ * @param value - The (already validated) response value
+ * @returns The grade, or undefined when the question has no answer key or cannot be graded
+ */
+export function gradeResponse(
+  question: QuestionDefinition,
+  value: unknown,
+): QuestionGrade | undefined {
+  const key = question.answerKey;
+  if (!key || question.type === 'matrix') {
+    return undefined;
+  }
+
+  const credit = computeCredit(question, key, value);
+  const grade: QuestionGrade = {
+    questionId: question.id,
+    correct: credit === 1,
+    credit,
+    pointsEarned: round(credit * key.points),
+    pointsPossible: key.points,
+  };
+
+  const feedback =
+    credit === 1
+      ? key.feedback?.correct
+      : credit > 0
+        ? (key.feedback?.partial ?? key.feedback?.incorrect)
+        : key.feedback?.incorrect;
+  if (feedback !== undefined) {
+    grade.feedback = feedback;
+  }
+
+  return grade;
+}
+
+/**
+ * Grade every quiz question the participant was shown. Questions hidden by
+ * conditional logic or by a hidden section are left out; skipped or
+ * unanswered ones earn no credit.
+ *
+ * @param survey - Survey definition
+ * @param session - Session to grade
+ * @returns The graded summary, or undefined when the survey has no quiz questions
+ */
+export function gradeSession(
+  survey: SurveyDefinition,
+  session: ParticipantSession,
+): QuizSummary | undefined {
+  const questions: QuizSummary['questions'] = [];
+  const checkVisibility = createVisibilityCheck(survey, session);
+
+  // Roster questions are graded once per item
+  for (const question of expandRosterQuestions(
+    survey.questions,
+    survey,
+    session,
+  )) {
+    const key = question.answerKey;
+    if (!key || question.type === 'matrix') {
+      continue;
+    }
+    const response = session.responses[question.id];
+    const answered = !!response && !response.skipped;
+    if (!answered && !checkVisibility(question).eligible) {
+      continue;
+    }
+
+    const grade = (answered && gradeResponse(question, response.value)) || {
+      questionId: question.id,
+      correct: false,
+      credit: 0,
+      pointsEarned: 0,
+      pointsPossible: key.points,
+    };
+    questions.push({ ...grade, answered, correctAnswer: key.correct });
+  }
+
+  if (questions.length === 0) {
+    return undefined;
+  }
+
+  const pointsEarned = round(sum(questions.map((q) => q.pointsEarned)));
+  const pointsPossible = round(sum(questions.map((q) => q.pointsPossible)));
+
+  return {
+    gradedQuestions: questions.length,
+    correctCount: questions.filter((q) => q.correct).length,
+    pointsEarned,
+    pointsPossible,
+    percentCorrect:
+      pointsPossible > 0
+        ? Math.round((pointsEarned / pointsPossible) * 1000) / 10
+        : 0,
+    questions,
+  };
+}
+
+/**
+ * Credit from 0 to 1 for a response.
+ */
+function computeCredit(
+  question: QuestionDefinition,
+  key: AnswerKey,
+  value: unknown,
+): number {
+  const accepted: ConditionPrimitive[] = Array.isArray(key.correct)
+    ? key.correct
+    : [key.correct];
+
+  if (question.type === 'multiple-select') {
+    const selected: unknown[] = Array.isArray(value) ? value : [value];
+    const hits = selected.filter((item) =>
+      accepted.includes(item as ConditionPrimitive),
+    ).length;
+    const misses = selected.length - hits;
+    if (hits === accepted.length && misses === 0) {
+      return 1;
+    }
+    return key.partialCredit
+      ? Math.max(0, round((hits - misses) / accepted.length, 4))
+      : 0;
+  }
+
+  if (typeof value === 'number') {
+    const tolerance = key.tolerance ?? 0;
+    return accepted.some(
+      (answer) =>
+        typeof answer === 'number' && Math.abs(value - answer) <= tolerance,
+    )
+      ? 1
+      : 0;
+  }
+
+  if (typeof value === 'string') {
+    const normalize = (text: string) =>
+      key.caseSensitive ? text.trim() : text.trim().toLowerCase();
+    return accepted.some(
+      (answer) =>
+        typeof answer === 'string' && normalize(answer) === normalize(value),
+    )
+      ? 1
+      : 0;
+  }
+
+  return accepted.includes(value as ConditionPrimitive) ? 1 : 0;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
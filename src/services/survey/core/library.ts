@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Question library: questions shared across surveys and named
+ * blocks of them. Survey definitions include a library question with
+ * `{ "$ref": "<questionId>", ...overrides }` and a whole block with
+ * `{ "$include": "<blockId>", "overrides": { "<questionId>": {...} } }`.
+ * References are expanded before schema validation, and collapsed back when
+ * a definition is written so files keep pointing at the library.
+ * @module src/services/survey/core/library
+ */
+
+import type {
+  DefinitionSourceIssue,
+  QuestionLibraryFile,
+  SurveyDefinition,
+} from '../types.js';
+import { QuestionDefinitionSchema } from '../types.js';
+
+/** Key of a question entry that references a library question */
+export const QUESTION_REF_KEY = '$ref';
+
+/** Key of a question entry that includes a library block */
+export const QUESTION_INCLUDE_KEY = '$include';
+
+/**
+ * Library questions and blocks, merged from every library file.
+ */
+export interface QuestionLibrary {
+  /** Library questions as written (without schema defaults), by ID */
+  questions: Map<string, Record<string, unknown>>;
+  /** Library question IDs included by each block, by block ID */
+  blocks: Map<string, string[]>;
+}
+
+/**
+ * A survey definition document with its library references expanded.
+ */
+export interface ResolvedQuestionReferences {
+  /** The document with every `$ref` and `$include` entry expanded */
+  document: unknown;
+  /** Index in the source `questions` array of each expanded question */
+  questionSources: number[];
+  /** References that could not be resolved */
+  issues: DefinitionSourceIssue[];
+}
+
+/**
+ * Create an empty question library.
+ */
+export function createQuestionLibrary(): QuestionLibrary {
+  return { questions: new Map(), blocks: new Map() };
+}
+
+/**
+ * Add the questions and blocks of one library file. Questions and blocks
+ * already in the library keep their first definition.
+ *
+ * @param library - Library to add to
+ * @param document - The library file as written
+ * @param file - The same file validated against the library schema
+ * @returns IDs of the questions and blocks skipped as duplicates
+ */
+export function addToQuestionLibrary(
+  library: QuestionLibrary,
+  document: unknown,
+  file: QuestionLibraryFile,
+): string[] {
+  const written = isRecord(document) && Array.isArray(document.questions);
+  const duplicates: string[] = [];
+
+  file.questions.forEach((question, index) => {
+    if (library.questions.has(question.id)) {
+      duplicates.push(question.id);
+      return;
+    }
+    const source = written
+      ? (document.questions as unknown[])[index]
+      : undefined;
+    library.questions.set(
+      question.id,
+      isRecord(source) ? source : { ...question },
+    );
+  });
+
+  for (const [blockId, questionIds] of Object.entries(file.blocks)) {
+    if (library.blocks.has(blockId)) {
+      duplicates.push(blockId);
+      continue;
+    }
+    library.blocks.set(blockId, questionIds);
+  }
+
+  return duplicates;
+}
+
+/**
+ * Expand the `$ref` and `$include` entries in a definition's questions.
+ * Fields written next to `$ref` (and a block's per-question `overrides`)
+ * replace the library question's fields; every expanded question records
+ * its library ID in `libraryRef`. Documents without a questions array are
+ * returned unchanged for schema validation to report.
+ */
+export function resolveQuestionReferences(
+  document: unknown,
+  library: QuestionLibrary,
+): ResolvedQuestionReferences {
+  if (!isRecord(document) || !Array.isArray(document.questions)) {
+    return { document, questionSources: [], issues: [] };
+  }
+
+  const questions: unknown[] = [];
+  const questionSources: number[] = [];
+  const issues: DefinitionSourceIssue[] = [];
+
+  document.questions.forEach((entry: unknown, index) => {
+    if (isRecord(entry) && QUESTION_REF_KEY in entry) {
+      const { [QUESTION_REF_KEY]: ref, ...overrides } = entry;
+      const question =
+        typeof ref === 'string' ? library.questions.get(ref) : undefined;
+      if (typeof ref !== 'string' || !question) {
+        issues.push({
+          message: `Unknown library question: ${String(ref)}`,
+          path: `questions.${index}.${QUESTION_REF_KEY}`,
+        });
+        return;
+      }
+      questions.push({ ...question, ...overrides, libraryRef: ref });
+      questionSources.push(index);
+      return;
+    }
+
+    if (isRecord(entry) && QUESTION_INCLUDE_KEY in entry) {
+      const blockId = entry[QUESTION_INCLUDE_KEY];
+      const questionIds =
+        typeof blockId === 'string' ? library.blocks.get(blockId) : undefined;
+      if (typeof blockId !== 'string' || !questionIds) {
+        issues.push({
+          message: `Unknown library block: ${String(blockId)}`,
+          path: `questions.${index}.${QUESTION_INCLUDE_KEY}`,
+        });
+        return;
+      }
+
+      const overrides = isRecord(entry.overrides) ? entry.overrides : {};
+      for (const questionId of Object.keys(overrides)) {
+        if (!questionIds.includes(questionId)) {
+          issues.push({
+            message: `Library block ${blockId} does not include question ${questionId}`,
+            path: `questions.${index}.overrides.${questionId}`,
+          });
+        }
+      }
+      for (const questionId of questionIds) {
+        const question = library.questions.get(questionId);
+        if (!question) {
+          issues.push({
+            message: `Library block ${blockId} includes unknown question ${questionId}`,
+            path: `questions.${index}.${QUESTION_INCLUDE_KEY}`,
+          });
+          continue;
+        }
+        const questionOverrides = Object.hasOwn(overrides, questionId)
+          ? overrides[questionId]
+          : undefined;
+        questions.push({
+          ...question,
+          ...(isRecord(questionOverrides) && questionOverrides),
+          libraryRef: questionId,
+        });
+        questionSources.push(index);
+      }
+      return;
+    }
+
+    questions.push(entry);
+    questionSources.push(index);
+  });
+
+  return { document: { ...document, questions }, questionSources, issues };
+}
+
+/**
+ * Turn library questions in a definition back into `$ref` entries that keep
+ * only the fields differing from the library. Questions whose library entry
+ * no longer exists are written out in full.
+ */
+export function collapseQuestionReferences(
+  survey: SurveyDefinition,
+  library: QuestionLibrary,
+): Record<string, unknown> {
+  const questions = survey.questions.map((question) => {
+    const source =
+      question.libraryRef !== undefined
+        ? library.questions.get(question.libraryRef)
+        : undefined;
+    const parsed = QuestionDefinitionSchema.safeParse(source);
+    if (!parsed.success) {
+      return question;
+    }
+
+    const base: Record<string, unknown> = parsed.data;
+    const overrides = Object.fromEntries(
+      Object.entries(question).filter(
+        ([key, value]) =>
+          key !== 'libraryRef' &&
+          JSON.stringify(value) !== JSON.stringify(base[key]),
+      ),
+    );
+    return { [QUESTION_REF_KEY]: question.libraryRef, ...overrides };
+  });
+
+  return { ...survey, questions };
+}
+
+/**
+ * Whether a value is a plain (non-array) object.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
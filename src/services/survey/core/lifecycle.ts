@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Session lifecycle rules for automatic abandonment and expiry.
+ * A session is abandoned after a period of inactivity and expired once a hard
+ * deadline (measured from when it started) has passed. Survey settings
+ * override the server-wide defaults; a value of 0 disables a rule.
+ * @module src/services/survey/core/lifecycle
+ */
+
+import type { ParticipantSession, SurveyDefinition } from '../types.js';
+
+/**
+ * Server-wide lifecycle defaults, applied when a survey does not set its own.
+ */
+export interface LifecycleDefaults {
+  inactivityTimeoutMinutes: number;
+  sessionDeadlineHours: number;
+}
+
+/**
+ * Effective lifecycle limits for one survey, in milliseconds.
+ * A missing limit means the rule is disabled.
+ */
+export interface LifecyclePolicy {
+  inactivityTimeoutMs?: number;
+  deadlineMs?: number;
+}
+
+/**
+ * Status a session should move to, or null when it should stay as it is.
+ */
+export type LifecycleTransition = 'abandoned' | 'expired' | null;
+
+/**
+ * Resolve the effective lifecycle policy for a survey.
+ *
+ * @param survey - Survey definition
+ * @param defaults - Server-wide defaults
+ * @returns Policy with disabled rules omitted
+ */
+export function resolveLifecyclePolicy(
+  survey: SurveyDefinition,
+  defaults: LifecycleDefaults,
+): LifecyclePolicy {
+  const inactivityMinutes =
+    survey.settings.inactivityTimeoutMinutes ??
+    defaults.inactivityTimeoutMinutes;
+  const deadlineHours =
+    survey.settings.sessionDeadlineHours ?? defaults.sessionDeadlineHours;
+
+  return {
+    ...(inactivityMinutes > 0 && {
+      inactivityTimeoutMs: inactivityMinutes * 60_000,
+    }),
+    ...(deadlineHours > 0 && { deadlineMs: deadlineHours * 3_600_000 }),
+  };
+}
+
+/**
+ * Decide whether a session should be abandoned or expired at `now`.
+ * Expiry takes precedence and also applies to already-abandoned sessions;
+ * completed, expired and screened-out sessions never transition.
+ *
+ * @param session - Session to evaluate
+ * @param policy - Effective lifecycle policy for the session's survey
+ * @param now - Evaluation time
+ * @returns The status to transition to, or null
+ */
+export function evaluateSessionLifecycle(
+  session: Pick<ParticipantSession, 'status' | 'startedAt' | 'lastActivityAt'>,
+  policy: LifecyclePolicy,
+  now: Date,
+): LifecycleTransition {
+  if (session.status !== 'in-progress' && session.status !== 'abandoned') {
+    return null;
+  }
+
+  const nowMs = now.getTime();
+
+  if (
+    policy.deadlineMs !== undefined &&
+    nowMs - new Date(session.startedAt).getTime() >= policy.deadlineMs
+  ) {
+    return 'expired';
+  }
+
+  if (
+    session.status === 'in-progress' &&
+    policy.inactivityTimeoutMs !== undefined &&
+    nowMs - new Date(session.lastActivityAt).getTime() >=
+      policy.inactivityTimeoutMs
+  ) {
+    return 'abandoned';
+  }
+
+  return null;
+}
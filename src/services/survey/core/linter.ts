@@ -0,0 +1,1308 @@
+/**
+ * @fileoverview Static linter for survey definitions.
+ * Catches semantic mistakes that schema validation cannot: broken or circular
+ * dependencies, condition values that can never match, unreachable questions,
+ * broken answer-piping templates, invalid computed variables, outcome bands,
+ * sections, rosters or quiz answer keys, and inconsistent question
+ * configuration or validation rules. Roster instance IDs such as
+ * `tool_rating[slack]` are checked against the repeated question.
+ * @module src/services/survey/core/linter
+ */
+
+import type {
+  ConditionOperator,
+  ConditionPrimitive,
+  ConditionalLogic,
+  DefinitionIssue,
+  DefinitionLintResult,
+  QuestionDefinition,
+  QuestionType,
+  SingleCondition,
+  SurveyDefinition,
+} from '../types.js';
+import { SurveyDefinitionSchema } from '../types.js';
+import { collectConditions } from './conditions.js';
+import { type QuestionLibrary, resolveQuestionReferences } from './library.js';
+import { mapRosterQuestions, parseRosterInstanceId } from './rosters.js';
+import { extractTemplateReferences } from './templating.js';
+
+/**
+ * Records an issue found by a lint check.
+ */
+type ReportFn = (
+  severity: DefinitionIssue['severity'],
+  issue: Omit<DefinitionIssue, 'severity'>,
+) => void;
+
+/**
+ * Question types whose answers come from `options`.
+ */
+const CHOICE_TYPES: ReadonlySet<QuestionType> = new Set([
+  'multiple-choice',
+  'multiple-select',
+]);
+
+/**
+ * Operators whose `value` must be a possible answer of the target question.
+ */
+const VALUE_CHECKED_OPERATORS: ReadonlySet<ConditionOperator> = new Set([
+  'eq',
+  'neq',
+  'in',
+  'notIn',
+  'contains',
+  'notContains',
+]);
+
+/**
+ * Operators that require the answer to match one of the compared values.
+ */
+const MATCHING_OPERATORS: ReadonlySet<ConditionOperator> = new Set([
+  'eq',
+  'in',
+  'contains',
+]);
+
+/**
+ * Lint a parsed survey definition.
+ *
+ * @param survey - Schema-valid survey definition
+ * @returns Structured errors and warnings; `valid` is false when any error was found
+ */
+export function lintSurveyDefinition(
+  survey: SurveyDefinition,
+): DefinitionLintResult {
+  const errors: DefinitionIssue[] = [];
+  const warnings: DefinitionIssue[] = [];
+  const report: ReportFn = (severity, issue) => {
+    (severity === 'error' ? errors : warnings).push({ severity, ...issue });
+  };
+
+  const questionsById = new Map<string, QuestionDefinition>();
+  survey.questions.forEach((question, index) => {
+    if (questionsById.has(question.id)) {
+      report('error', {
+        code: 'duplicate_question_id',
+        message: `Question ID "${question.id}" is used more than once`,
+        questionId: question.id,
+        path: `questions.${index}.id`,
+      });
+    } else {
+      questionsById.set(question.id, question);
+    }
+    lintQuestionStructure(question, `questions.${index}`, report);
+    lintAnswerKey(question, `questions.${index}.answerKey`, report);
+  });
+
+  const { min, max } = survey.settings.suggestionStrategy;
+  if (min > max) {
+    report('error', {
+      code: 'invalid_suggestion_strategy',
+      message: `suggestionStrategy.min (${min}) is greater than suggestionStrategy.max (${max})`,
+      path: 'settings.suggestionStrategy',
+    });
+  }
+
+  const variableIds = lintVariables(survey, questionsById, report);
+  lintConditionReferences(survey, questionsById, variableIds, report);
+  lintOutcomes(survey, questionsById, variableIds, report);
+  lintTerminationRules(survey, questionsById, variableIds, report);
+  lintQuotas(survey, questionsById, report);
+  lintSections(survey, questionsById, variableIds, report);
+  lintRosters(survey, questionsById, report);
+  lintTemplateReferences(survey, questionsById, variableIds, report);
+  const cyclic = lintCircularDependencies(survey, questionsById, report);
+  lintReachability(survey, questionsById, variableIds, cyclic, report);
+
+  return {
+    surveyId: survey.id,
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Lint an unparsed definition (e.g. raw JSON supplied by a tool call).
+ * Schema violations are reported as `schema_error` issues; semantic checks
+ * only run once the definition passes schema validation.
+ *
+ * @param input - Candidate survey definition
+ * @param library - Question library for expanding `$ref` and `$include`
+ *   entries first; unresolved ones are `unknown_library_reference` errors
+ * @returns The parsed definition (null when schema validation failed) and the lint result
+ */
+export function lintRawSurveyDefinition(
+  input: unknown,
+  library?: QuestionLibrary,
+): {
+  definition: SurveyDefinition | null;
+  result: DefinitionLintResult;
+} {
+  const resolved = library
+    ? resolveQuestionReferences(input, library)
+    : undefined;
+  const referenceErrors: DefinitionIssue[] = (resolved?.issues ?? []).map(
+    (issue) => ({
+      severity: 'error',
+      code: 'unknown_library_reference',
+      message: issue.message,
+      ...(issue.path !== undefined && { path: issue.path }),
+    }),
+  );
+
+  const parsed = SurveyDefinitionSchema.safeParse(resolved?.document ?? input);
+  if (parsed.success && referenceErrors.length === 0) {
+    return {
+      definition: parsed.data,
+      result: lintSurveyDefinition(parsed.data),
+    };
+  }
+
+  const declaredId =
+    typeof input === 'object' &&
+    input !== null &&
+    typeof (input as { id?: unknown }).id === 'string'
+      ? (input as { id: string }).id
+      : undefined;
+
+  return {
+    definition: null,
+    result: {
+      ...(declaredId !== undefined && { surveyId: declaredId }),
+      valid: false,
+      errors: [
+        ...referenceErrors,
+        ...(parsed.error?.issues ?? []).map((issue) => ({
+          severity: 'error' as const,
+          code: 'schema_error' as const,
+          message: issue.message,
+          ...(issue.path.length > 0 && { path: issue.path.join('.') }),
+        })),
+      ],
+      warnings: [],
+    },
+  };
+}
+
+/**
+ * Check type-specific configuration and validation rules of a single question.
+ */
+function lintQuestionStructure(
+  question: QuestionDefinition,
+  path: string,
+  report: ReportFn,
+): void {
+  const questionId = question.id;
+
+  if (CHOICE_TYPES.has(question.type)) {
+    if (!question.options || question.options.length === 0) {
+      report('error', {
+        code: 'missing_options',
+        message: `${question.type} question "${questionId}" has no options`,
+        questionId,
+        path: `${path}.options`,
+      });
+    } else {
+      reportDuplicateValues(
+        question.options.map((option) => option.value),
+        questionId,
+        `${path}.options`,
+        report,
+      );
+    }
+  } else if (question.options) {
+    reportUnused(question, 'options', path, report);
+  }
+
+  if (question.type === 'rating-scale') {
+    if (!question.scale) {
+      report('error', {
+        code: 'missing_scale',
+        message: `rating-scale question "${questionId}" has no scale`,
+        questionId,
+        path: `${path}.scale`,
+      });
+    } else if (
+      question.scale.min >= question.scale.max ||
+      question.scale.step <= 0
+    ) {
+      report('error', {
+        code: 'invalid_scale',
+        message: `Scale of "${questionId}" must have min < max and a positive step`,
+        questionId,
+        path: `${path}.scale`,
+      });
+    }
+  } else if (question.scale) {
+    reportUnused(question, 'scale', path, report);
+  }
+
+  if (question.type === 'matrix') {
+    if (!question.matrix) {
+      report('error', {
+        code: 'missing_matrix',
+        message: `matrix question "${questionId}" has no matrix configuration`,
+        questionId,
+        path: `${path}.matrix`,
+      });
+    } else {
+      reportDuplicateValues(
+        question.matrix.columns.map((column) => column.value),
+        questionId,
+        `${path}.matrix.columns`,
+        report,
+      );
+    }
+  } else if (question.matrix) {
+    reportUnused(question, 'matrix', path, report);
+  }
+
+  const validation = question.validation;
+  if (!validation) {
+    return;
+  }
+  const validationPath = `${path}.validation`;
+
+  if (
+    validation.minSelections !== undefined &&
+    validation.maxSelections !== undefined &&
+    validation.minSelections > validation.maxSelections
+  ) {
+    report('error', {
+      code: 'invalid_selection_range',
+      message: `minSelections (${validation.minSelections}) is greater than maxSelections (${validation.maxSelections})`,
+      questionId,
+      path: validationPath,
+    });
+  } else if (
+    validation.minSelections !== undefined &&
+    question.options &&
+    validation.minSelections > question.options.length
+  ) {
+    report('error', {
+      code: 'invalid_selection_range',
+      message: `minSelections (${validation.minSelections}) exceeds the ${question.options.length} available options`,
+      questionId,
+      path: validationPath,
+    });
+  }
+
+  if (
+    validation.minLength !== undefined &&
+    validation.maxLength !== undefined &&
+    validation.minLength > validation.maxLength
+  ) {
+    report('error', {
+      code: 'invalid_length_range',
+      message: `minLength (${validation.minLength}) is greater than maxLength (${validation.maxLength})`,
+      questionId,
+      path: validationPath,
+    });
+  }
+
+  if (
+    validation.min !== undefined &&
+    validation.max !== undefined &&
+    validation.min > validation.max
+  ) {
+    report('error', {
+      code: 'invalid_value_range',
+      message: `min (${validation.min}) is greater than max (${validation.max})`,
+      questionId,
+      path: validationPath,
+    });
+  }
+
+  if (validation.pattern !== undefined) {
+    try {
+      new RegExp(validation.pattern);
+    } catch (error) {
+      report('error', {
+        code: 'invalid_pattern',
+        message: `Invalid regex pattern "${validation.pattern}": ${error instanceof Error ? error.message : String(error)}`,
+        questionId,
+        path: `${validationPath}.pattern`,
+      });
+    }
+  }
+}
+
+/**
+ * Check that a quiz answer key can be matched by the question's answers and
+ * only uses options that apply to the question type.
+ */
+function lintAnswerKey(
+  question: QuestionDefinition,
+  path: string,
+  report: ReportFn,
+): void {
+  const key = question.answerKey;
+  if (!key) {
+    return;
+  }
+  const questionId = question.id;
+
+  if (question.type === 'matrix') {
+    report('error', {
+      code: 'invalid_answer_key',
+      message: `Matrix question "${questionId}" cannot have an answer key`,
+      questionId,
+      path,
+    });
+    return;
+  }
+
+  const numeric =
+    question.type === 'number' || question.type === 'rating-scale';
+  const correct = Array.isArray(key.correct) ? key.correct : [key.correct];
+  const allowed = CHOICE_TYPES.has(question.type)
+    ? question.options?.map((option) => option.value)
+    : undefined;
+  const invalid = correct.filter((value) =>
+    allowed
+      ? !allowed.includes(value as string)
+      : numeric
+        ? typeof value !== 'number'
+        : question.type === 'boolean'
+          ? typeof value !== 'boolean'
+          : typeof value !== 'string',
+  );
+  if (invalid.length > 0) {
+    report('error', {
+      code: 'invalid_answer_key',
+      message: `Answer key of "${questionId}" lists ${invalid.map((v) => `'${String(v)}'`).join(', ')}, which ${invalid.length === 1 ? 'is not a possible answer' : 'are not possible answers'} for a ${question.type} question`,
+      questionId,
+      path: `${path}.correct`,
+    });
+  }
+
+  if (key.tolerance !== undefined && !numeric) {
+    report('warning', {
+      code: 'unused_configuration',
+      message: `"tolerance" is ignored for ${question.type} question "${questionId}"`,
+      questionId,
+      path: `${path}.tolerance`,
+    });
+  }
+  if (key.partialCredit && question.type !== 'multiple-select') {
+    report('warning', {
+      code: 'unused_configuration',
+      message: `"partialCredit" is ignored for ${question.type} question "${questionId}"`,
+      questionId,
+      path: `${path}.partialCredit`,
+    });
+  }
+}
+
+/**
+ * Question types whose answers are numeric (booleans count as 1/0), and so
+ * can feed a variable's arithmetic.
+ */
+const NUMERIC_TYPES: ReadonlySet<QuestionType> = new Set([
+  'number',
+  'rating-scale',
+  'boolean',
+]);
+
+/**
+ * Check computed variables: unique IDs that do not shadow questions, items
+ * that reference questions or earlier variables, and item options that fit
+ * the referenced question.
+ *
+ * @returns IDs of the declared variables
+ */
+function lintVariables(
+  survey: SurveyDefinition,
+  questionsById: Map<string, QuestionDefinition>,
+  report: ReportFn,
+): Set<string> {
+  const declared = new Set<string>();
+
+  (survey.variables ?? []).forEach((variable, index) => {
+    const path = `variables.${index}`;
+    if (declared.has(variable.id)) {
+      report('error', {
+        code: 'duplicate_variable_id',
+        message: `Variable ID "${variable.id}" is used more than once`,
+        path: `${path}.id`,
+      });
+    }
+    if (questionsById.has(variable.id)) {
+      report('error', {
+        code: 'invalid_variable',
+        message: `Variable "${variable.id}" has the same ID as a question`,
+        path: `${path}.id`,
+      });
+    }
+    if (variable.countValues && variable.formula !== 'count') {
+      report('warning', {
+        code: 'unused_configuration',
+        message: `"countValues" is ignored for ${variable.formula} variable "${variable.id}"`,
+        path: `${path}.countValues`,
+      });
+    }
+
+    variable.items.forEach((item, itemIndex) => {
+      const itemPath = `${path}.items.${itemIndex}`;
+      const question = questionsById.get(item.ref);
+      if (!question) {
+        if (!declared.has(item.ref)) {
+          report('error', {
+            code: 'invalid_variable',
+            message: `Variable "${variable.id}" references "${item.ref}", which is neither a question nor a variable defined before it`,
+            path: `${itemPath}.ref`,
+          });
+        } else if (item.use === 'score' || item.reverse) {
+          report('error', {
+            code: 'invalid_variable',
+            message: `Variable "${variable.id}" cannot use ${item.use === 'score' ? '"use: score"' : '"reverse"'} on variable "${item.ref}"`,
+            path: itemPath,
+          });
+        }
+        return;
+      }
+
+      if (item.reverse && !question.scale) {
+        report('error', {
+          code: 'invalid_variable',
+          message: `Variable "${variable.id}" reverse-codes "${item.ref}", which has no rating scale`,
+          path: `${itemPath}.reverse`,
+        });
+      }
+      if (
+        item.use === 'score' &&
+        !question.options?.some((o) => o.score !== undefined)
+      ) {
+        report('warning', {
+          code: 'invalid_variable',
+          message: `Variable "${variable.id}" uses the score of "${item.ref}", which has no scored options`,
+          path: `${itemPath}.use`,
+        });
+      }
+      if (
+        item.use === 'value' &&
+        variable.formula !== 'count' &&
+        !NUMERIC_TYPES.has(question.type)
+      ) {
+        report('warning', {
+          code: 'invalid_variable',
+          message: `Variable "${variable.id}" reads the value of ${question.type} question "${item.ref}", which is never numeric`,
+          path: itemPath,
+        });
+      }
+    });
+
+    declared.add(variable.id);
+  });
+
+  return declared;
+}
+
+/**
+ * Check that every condition points at an existing question or variable, uses
+ * a valid path, and only compares against values the target question can
+ * produce.
+ */
+function lintConditionReferences(
+  survey: SurveyDefinition,
+  questionsById: Map<string, QuestionDefinition>,
+  variableIds: ReadonlySet<string>,
+  report: ReportFn,
+): void {
+  survey.questions.forEach((question, index) => {
+    if (!question.conditional) {
+      return;
+    }
+    lintConditions(
+      question.conditional,
+      { owner: `Question "${question.id}"`, questionId: question.id },
+      `questions.${index}.conditional`,
+      questionsById,
+      variableIds,
+      report,
+    );
+  });
+}
+
+/**
+ * Check the single conditions of one question's, outcome's or termination
+ * rule's conditional logic.
+ */
+function lintConditions(
+  conditional: ConditionalLogic,
+  source: { owner: string; questionId?: string },
+  path: string,
+  questionsById: Map<string, QuestionDefinition>,
+  variableIds: ReadonlySet<string>,
+  report: ReportFn,
+): void {
+  const { owner, questionId } = source;
+  const issue = { ...(questionId !== undefined && { questionId }), path };
+
+  for (const condition of collectConditions(conditional)) {
+    const target = questionsById.get(
+      parseRosterInstanceId(condition.dependsOn)?.questionId ??
+        condition.dependsOn,
+    );
+    if (!target && variableIds.has(condition.dependsOn)) {
+      if (condition.path !== undefined) {
+        report('error', {
+          ...issue,
+          code: 'invalid_condition_path',
+          message: `Condition path "${condition.path}" cannot be used with variable "${condition.dependsOn}"`,
+        });
+      }
+      continue;
+    }
+    if (!target) {
+      report('error', {
+        ...issue,
+        code: 'missing_dependency',
+        message: `${owner} depends on unknown question "${condition.dependsOn}"`,
+      });
+      continue;
+    }
+
+    if (
+      condition.path !== undefined &&
+      !(
+        target.type === 'matrix' &&
+        target.matrix?.rows.some((row) => row.id === condition.path)
+      )
+    ) {
+      report('error', {
+        ...issue,
+        code: 'invalid_condition_path',
+        message: `Condition path "${condition.path}" does not match a row of "${target.id}"`,
+      });
+      continue;
+    }
+
+    const allowed = getAllowedValues(target, condition.path);
+    if (!allowed) {
+      continue;
+    }
+    const invalid = getComparedValues(condition).filter(
+      (value) => !allowed.includes(value),
+    );
+    if (invalid.length > 0) {
+      report('error', {
+        ...issue,
+        code: 'invalid_condition_value',
+        message: `${owner} compares "${target.id}" against ${invalid.map((v) => `'${String(v)}'`).join(', ')}, which ${invalid.length === 1 ? 'is not a possible answer' : 'are not possible answers'} (expected one of: ${allowed.map((v) => String(v)).join(', ')})`,
+      });
+    }
+  }
+}
+
+/**
+ * Check outcome bands: unique IDs, sensible score ranges, valid conditions,
+ * and outcomes that can never be assigned because an earlier outcome without
+ * criteria matches every session.
+ */
+function lintOutcomes(
+  survey: SurveyDefinition,
+  questionsById: Map<string, QuestionDefinition>,
+  variableIds: ReadonlySet<string>,
+  report: ReportFn,
+): void {
+  const declared = new Set<string>();
+  let catchAll: string | undefined;
+
+  (survey.outcomes ?? []).forEach((outcome, index) => {
+    const path = `outcomes.${index}`;
+    if (declared.has(outcome.id)) {
+      report('error', {
+        code: 'duplicate_outcome_id',
+        message: `Outcome ID "${outcome.id}" is used more than once`,
+        path: `${path}.id`,
+      });
+    }
+    declared.add(outcome.id);
+
+    if (catchAll !== undefined) {
+      report('warning', {
+        code: 'invalid_outcome',
+        message: `Outcome "${outcome.id}" can never be assigned because "${catchAll}" before it has no criteria and matches every session`,
+        path,
+      });
+    }
+
+    const { min, max } = outcome.scoreRange ?? {};
+    if (min !== undefined && max !== undefined && min > max) {
+      report('error', {
+        code: 'invalid_outcome',
+        message: `Outcome "${outcome.id}" has a score range whose min (${min}) is greater than its max (${max})`,
+        path: `${path}.scoreRange`,
+      });
+    }
+
+    if (outcome.when) {
+      lintConditions(
+        outcome.when,
+        { owner: `Outcome "${outcome.id}"` },
+        `${path}.when`,
+        questionsById,
+        variableIds,
+        report,
+      );
+    } else if (min === undefined && max === undefined) {
+      catchAll ??= outcome.id;
+    }
+  });
+}
+
+/**
+ * Check termination rules: unique IDs and valid conditions.
+ */
+function lintTerminationRules(
+  survey: SurveyDefinition,
+  questionsById: Map<string, QuestionDefinition>,
+  variableIds: ReadonlySet<string>,
+  report: ReportFn,
+): void {
+  const declared = new Set<string>();
+
+  (survey.terminationRules ?? []).forEach((rule, index) => {
+    const path = `terminationRules.${index}`;
+    if (declared.has(rule.id)) {
+      report('error', {
+        code: 'duplicate_termination_rule_id',
+        message: `Termination rule ID "${rule.id}" is used more than once`,
+        path: `${path}.id`,
+      });
+    }
+    declared.add(rule.id);
+
+    lintConditions(
+      rule.when,
+      { owner: `Termination rule "${rule.id}"` },
+      `${path}.when`,
+      questionsById,
+      variableIds,
+      report,
+    );
+  });
+}
+
+/**
+ * Check quota cells: unique IDs, a known question, values that are possible
+ * answers, and limits the overall cap leaves room for.
+ */
+function lintQuotas(
+  survey: SurveyDefinition,
+  questionsById: Map<string, QuestionDefinition>,
+  report: ReportFn,
+): void {
+  const quotas = survey.quotas;
+  if (!quotas) {
+    return;
+  }
+  const declared = new Set<string>();
+
+  quotas.cells.forEach((cell, index) => {
+    const path = `quotas.cells.${index}`;
+    if (declared.has(cell.id)) {
+      report('error', {
+        code: 'duplicate_quota_cell_id',
+        message: `Quota cell ID "${cell.id}" is used more than once`,
+        path: `${path}.id`,
+      });
+    }
+    declared.add(cell.id);
+
+    const question = questionsById.get(cell.questionId);
+    if (!question) {
+      report('error', {
+        code: 'missing_dependency',
+        message: `Quota cell "${cell.id}" depends on unknown question "${cell.questionId}"`,
+        path: `${path}.questionId`,
+      });
+      return;
+    }
+    if (question.type === 'matrix') {
+      report('error', {
+        code: 'invalid_quota',
+        message: `Quota cell "${cell.id}" cannot be keyed by matrix question "${question.id}"`,
+        questionId: question.id,
+        path: `${path}.questionId`,
+      });
+      return;
+    }
+
+    const allowed = getAllowedValues(question);
+    const values = Array.isArray(cell.value) ? cell.value : [cell.value];
+    const invalid = allowed
+      ? values.filter((value) => !allowed.includes(value))
+      : [];
+    if (invalid.length > 0) {
+      report('error', {
+        code: 'invalid_quota',
+        message: `Quota cell "${cell.id}" matches ${invalid.map((v) => `'${String(v)}'`).join(', ')}, which ${invalid.length === 1 ? 'is not a possible answer' : 'are not possible answers'} to "${question.id}"`,
+        questionId: question.id,
+        path: `${path}.value`,
+      });
+    }
+
+    if (quotas.maxCompletes !== undefined && cell.limit > quotas.maxCompletes) {
+      report('warning', {
+        code: 'invalid_quota',
+        message: `Quota cell "${cell.id}" can never fill: its limit (${cell.limit}) is above maxCompletes (${quotas.maxCompletes})`,
+        path: `${path}.limit`,
+      });
+    }
+  });
+}
+
+/**
+ * Check sections: unique IDs, known questions listed in only one section,
+ * valid conditions that do not depend on the section's own questions, and
+ * questions left out of every section.
+ */
+function lintSections(
+  survey: SurveyDefinition,
+  questionsById: Map<string, QuestionDefinition>,
+  variableIds: ReadonlySet<string>,
+  report: ReportFn,
+): void {
+  if (!survey.sections) {
+    return;
+  }
+  const declared = new Set<string>();
+  const sectionOf = new Map<string, string>();
+
+  survey.sections.forEach((section, index) => {
+    const path = `sections.${index}`;
+    if (declared.has(section.id)) {
+      report('error', {
+        code: 'duplicate_section_id',
+        message: `Section ID "${section.id}" is used more than once`,
+        path: `${path}.id`,
+      });
+    }
+    declared.add(section.id);
+
+    section.questionIds.forEach((questionId, position) => {
+      const issue = { questionId, path: `${path}.questionIds.${position}` };
+      const owner = sectionOf.get(questionId);
+      if (!questionsById.has(questionId)) {
+        report('error', {
+          ...issue,
+          code: 'invalid_section',
+          message: `Section "${section.id}" lists unknown question "${questionId}"`,
+        });
+      } else if (owner !== undefined) {
+        report('error', {
+          ...issue,
+          code: 'invalid_section',
+          message: `Question "${questionId}" is listed in section "${owner}" and again in section "${section.id}"`,
+        });
+      } else {
+        sectionOf.set(questionId, section.id);
+      }
+    });
+
+    if (!section.conditional) {
+      return;
+    }
+    lintConditions(
+      section.conditional,
+      { owner: `Section "${section.id}"` },
+      `${path}.conditional`,
+      questionsById,
+      variableIds,
+      report,
+    );
+    for (const condition of collectConditions(section.conditional)) {
+      if (section.questionIds.includes(condition.dependsOn)) {
+        report('error', {
+          code: 'invalid_section',
+          message: `Section "${section.id}" depends on its own question "${condition.dependsOn}", which cannot be answered while the section is hidden`,
+          path: `${path}.conditional`,
+        });
+      }
+    }
+  });
+
+  survey.questions.forEach((question, index) => {
+    if (!sectionOf.has(question.id)) {
+      report('warning', {
+        code: 'invalid_section',
+        message: `Question "${question.id}" is not in any section, so it is suggested alongside every section`,
+        questionId: question.id,
+        path: `questions.${index}`,
+      });
+    }
+  });
+}
+
+/**
+ * Check rosters: unique IDs, a `multiple-select` or `free-form` source that
+ * is asked outside the roster and whose option values can key instance IDs,
+ * and known questions listed in only one roster.
+ */
+function lintRosters(
+  survey: SurveyDefinition,
+  questionsById: Map<string, QuestionDefinition>,
+  report: ReportFn,
+): void {
+  if (!survey.rosters) {
+    return;
+  }
+  const declared = new Set<string>();
+  const rosterOf = new Map<string, string>();
+
+  survey.rosters.forEach((roster, index) => {
+    const path = `rosters.${index}`;
+    if (declared.has(roster.id)) {
+      report('error', {
+        code: 'duplicate_roster_id',
+        message: `Roster ID "${roster.id}" is used more than once`,
+        path: `${path}.id`,
+      });
+    }
+    declared.add(roster.id);
+
+    const source = questionsById.get(roster.sourceQuestionId);
+    if (!source) {
+      report('error', {
+        code: 'invalid_roster',
+        message: `Roster "${roster.id}" repeats over unknown question "${roster.sourceQuestionId}"`,
+        path: `${path}.sourceQuestionId`,
+      });
+    } else if (
+      source.type !== 'multiple-select' &&
+      source.type !== 'free-form'
+    ) {
+      report('error', {
+        code: 'invalid_roster',
+        message: `Roster "${roster.id}" repeats over "${source.id}", a ${source.type} question (expected multiple-select or free-form)`,
+        questionId: source.id,
+        path: `${path}.sourceQuestionId`,
+      });
+    } else {
+      // Option values become the key in instance IDs such as q[value]
+      for (const option of source.options ?? []) {
+        if (/[[\]]/.test(option.value)) {
+          report('error', {
+            code: 'invalid_roster',
+            message: `Roster "${roster.id}" repeats over "${source.id}", whose option value "${option.value}" contains a square bracket and cannot key an instance ID`,
+            questionId: source.id,
+            path: `${path}.sourceQuestionId`,
+          });
+        }
+      }
+    }
+
+    roster.questionIds.forEach((questionId, position) => {
+      const issue = { questionId, path: `${path}.questionIds.${position}` };
+      const owner = rosterOf.get(questionId);
+      if (!questionsById.has(questionId)) {
+        report('error', {
+          ...issue,
+          code: 'invalid_roster',
+          message: `Roster "${roster.id}" lists unknown question "${questionId}"`,
+        });
+      } else if (owner !== undefined) {
+        report('error', {
+          ...issue,
+          code: 'invalid_roster',
+          message: `Question "${questionId}" is listed in roster "${owner}" and again in roster "${roster.id}"`,
+        });
+      } else {
+        rosterOf.set(questionId, roster.id);
+      }
+    });
+  });
+
+  survey.rosters.forEach((roster, index) => {
+    const owner = rosterOf.get(roster.sourceQuestionId);
+    if (owner !== undefined) {
+      report('error', {
+        code: 'invalid_roster',
+        message: `Roster "${roster.id}" repeats over "${roster.sourceQuestionId}", which is itself repeated in roster "${owner}"`,
+        questionId: roster.sourceQuestionId,
+        path: `rosters.${index}.sourceQuestionId`,
+      });
+    }
+  });
+}
+
+/**
+ * Check answer-piping templates in question text, help text, outcome,
+ * termination and quota messages, and section intros. Unresolvable templates still render (using their fallback), so
+ * these are warnings rather than errors.
+ */
+function lintTemplateReferences(
+  survey: SurveyDefinition,
+  questionsById: Map<string, QuestionDefinition>,
+  variableIds: ReadonlySet<string>,
+  report: ReportFn,
+): void {
+  const fields: Array<{
+    owner: string;
+    questionId?: string;
+    path: string;
+    text: string;
+  }> = [];
+  survey.questions.forEach((question, index) => {
+    fields.push({
+      owner: `"${question.id}"`,
+      questionId: question.id,
+      path: `questions.${index}.text`,
+      text: question.text,
+    });
+    if (question.helpText !== undefined) {
+      fields.push({
+        owner: `"${question.id}"`,
+        questionId: question.id,
+        path: `questions.${index}.helpText`,
+        text: question.helpText,
+      });
+    }
+  });
+  (survey.outcomes ?? []).forEach((outcome, index) => {
+    for (const field of ['message', 'recommendation'] as const) {
+      const text = outcome[field];
+      if (text !== undefined) {
+        fields.push({
+          owner: `outcome "${outcome.id}"`,
+          path: `outcomes.${index}.${field}`,
+          text,
+        });
+      }
+    }
+  });
+
+  (survey.terminationRules ?? []).forEach((rule, index) => {
+    if (rule.message !== undefined) {
+      fields.push({
+        owner: `termination rule "${rule.id}"`,
+        path: `terminationRules.${index}.message`,
+        text: rule.message,
+      });
+    }
+  });
+
+  survey.quotas?.cells.forEach((cell, index) => {
+    if (cell.message !== undefined) {
+      fields.push({
+        owner: `quota cell "${cell.id}"`,
+        path: `quotas.cells.${index}.message`,
+        text: cell.message,
+      });
+    }
+  });
+
+  (survey.sections ?? []).forEach((section, index) => {
+    if (section.intro !== undefined) {
+      fields.push({
+        owner: `section "${section.id}"`,
+        path: `sections.${index}.intro`,
+        text: section.intro,
+      });
+    }
+  });
+
+  const rosterQuestions = mapRosterQuestions(survey.rosters ?? []);
+  for (const { owner, questionId, path, text } of fields) {
+    for (const reference of extractTemplateReferences(text)) {
+      const issue = {
+        code: 'invalid_template_reference' as const,
+        ...(questionId !== undefined && { questionId }),
+        path,
+      };
+      const template = `Template "{{${reference.expression}}}" in ${owner}`;
+      if (reference.source === 'unknown') {
+        report('warning', {
+          ...issue,
+          message: `${template} must start with "answers.", "variables.", "metadata." or "item"`,
+        });
+      } else if (
+        reference.source === 'item' &&
+        (questionId === undefined || !rosterQuestions.has(questionId))
+      ) {
+        report('warning', {
+          ...issue,
+          message: `${template} is not in a roster question, so there is no item to refer to`,
+        });
+      } else if (
+        reference.source === 'variables' &&
+        !variableIds.has(reference.key)
+      ) {
+        report('warning', {
+          ...issue,
+          message: `${template} references unknown variable "${reference.key}"`,
+        });
+      } else if (
+        reference.source === 'answers' &&
+        !questionsById.has(
+          parseRosterInstanceId(reference.key)?.questionId ?? reference.key,
+        )
+      ) {
+        report('warning', {
+          ...issue,
+          message: `${template} references unknown question "${reference.key}"`,
+        });
+      } else if (
+        reference.property !== undefined &&
+        reference.property !== 'value' &&
+        reference.property !== 'label'
+      ) {
+        report('warning', {
+          ...issue,
+          message: `${template} uses unsupported property "${reference.property}" (expected "value" or "label")`,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Detect dependency cycles between questions.
+ *
+ * @returns IDs of every question that is part of a cycle
+ */
+function lintCircularDependencies(
+  survey: SurveyDefinition,
+  questionsById: Map<string, QuestionDefinition>,
+  report: ReportFn,
+): Set<string> {
+  const dependencies = new Map<string, string[]>();
+  for (const question of questionsById.values()) {
+    const targets = question.conditional
+      ? collectConditions(question.conditional)
+          .map((condition) => condition.dependsOn)
+          .filter((id) => questionsById.has(id))
+      : [];
+    dependencies.set(question.id, [...new Set(targets)]);
+  }
+
+  const cyclic = new Set<string>();
+  const reportedCycles = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (questionId: string): void => {
+    state.set(questionId, 'visiting');
+    stack.push(questionId);
+
+    for (const dependency of dependencies.get(questionId) ?? []) {
+      const dependencyState = state.get(dependency);
+      if (dependencyState === 'visiting') {
+        const cycle = stack.slice(stack.indexOf(dependency));
+        cycle.forEach((id) => cyclic.add(id));
+        const cycleKey = [...cycle].sort().join('|');
+        if (!reportedCycles.has(cycleKey)) {
+          reportedCycles.add(cycleKey);
+          report('error', {
+            code: 'circular_dependency',
+            message: `Circular dependency: ${[...cycle, dependency].join(' → ')}`,
+            questionId: dependency,
+            path: `questions.${survey.questions.findIndex((q) => q.id === dependency)}.conditional`,
+          });
+        }
+      } else if (dependencyState === undefined) {
+        visit(dependency);
+      }
+    }
+
+    stack.pop();
+    state.set(questionId, 'done');
+  };
+
+  for (const question of survey.questions) {
+    if (!state.has(question.id)) {
+      visit(question.id);
+    }
+  }
+
+  return cyclic;
+}
+
+/**
+ * Warn about questions whose conditions can never be satisfied, e.g. because
+ * they only match impossible values or depend on other unreachable questions.
+ * Questions in a dependency cycle are already reported as errors.
+ */
+function lintReachability(
+  survey: SurveyDefinition,
+  questionsById: Map<string, QuestionDefinition>,
+  variableIds: ReadonlySet<string>,
+  cyclic: Set<string>,
+  report: ReportFn,
+): void {
+  const unreachable = new Set(cyclic);
+
+  // Propagate until stable: a question becomes unreachable when its
+  // conditions only hold for questions already known to be unreachable.
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const question of survey.questions) {
+      if (
+        !question.conditional ||
+        unreachable.has(question.id) ||
+        canBeSatisfied(
+          question.conditional,
+          questionsById,
+          variableIds,
+          unreachable,
+        )
+      ) {
+        continue;
+      }
+      unreachable.add(question.id);
+      changed = true;
+    }
+  }
+
+  survey.questions.forEach((question, index) => {
+    if (unreachable.has(question.id) && !cyclic.has(question.id)) {
+      report('warning', {
+        code: 'unreachable_question',
+        message: `Question "${question.id}" can never become eligible because its conditions cannot be satisfied`,
+        questionId: question.id,
+        path: `questions.${index}.conditional`,
+      });
+    }
+  });
+}
+
+/**
+ * Conservative satisfiability check: returns false only when the condition
+ * can definitely never hold. NOT is always treated as satisfiable.
+ */
+function canBeSatisfied(
+  conditional: ConditionalLogic,
+  questionsById: Map<string, QuestionDefinition>,
+  variableIds: ReadonlySet<string>,
+  unreachable: Set<string>,
+): boolean {
+  if ('dependsOn' in conditional) {
+    if (variableIds.has(conditional.dependsOn)) {
+      return true;
+    }
+    const target = questionsById.get(conditional.dependsOn);
+    if (!target || unreachable.has(target.id)) {
+      // The target can never be answered
+      return conditional.op === 'notAnswered';
+    }
+    if (
+      conditional.op !== undefined &&
+      !MATCHING_OPERATORS.has(conditional.op)
+    ) {
+      return true;
+    }
+    const allowed = getAllowedValues(target, conditional.path);
+    if (!allowed) {
+      return true;
+    }
+    const compared = getComparedValues(conditional);
+    const requiresAll =
+      (conditional.op === 'eq' || conditional.op === 'contains') &&
+      Array.isArray(conditional.value);
+    return requiresAll
+      ? compared.every((value) => allowed.includes(value))
+      : compared.some((value) => allowed.includes(value));
+  }
+
+  if (conditional.operator === 'NOT') {
+    return true;
+  }
+
+  const results = conditional.conditions.map((cond) =>
+    canBeSatisfied(cond, questionsById, variableIds, unreachable),
+  );
+  return conditional.operator === 'AND'
+    ? results.every(Boolean)
+    : results.some(Boolean);
+}
+
+/**
+ * Values a question can produce as an answer, or null when unconstrained.
+ */
+function getAllowedValues(
+  question: QuestionDefinition,
+  path?: string,
+): ConditionPrimitive[] | null {
+  if (question.type === 'matrix') {
+    return path !== undefined && question.matrix
+      ? question.matrix.columns.map((column) => column.value)
+      : null;
+  }
+  if (CHOICE_TYPES.has(question.type)) {
+    return question.options?.map((option) => option.value) ?? null;
+  }
+  if (question.type === 'boolean') {
+    return [true, false];
+  }
+  if (question.type === 'rating-scale' && question.scale) {
+    const { min, max, step } = question.scale;
+    if (step <= 0 || min > max) {
+      return null;
+    }
+    const values: number[] = [];
+    for (let value = min; value <= max; value += step) {
+      values.push(value);
+    }
+    return values;
+  }
+  return null;
+}
+
+/**
+ * Values a condition compares the answer against (empty for ordering and
+ * presence operators, which are not checked against the allowed values).
+ */
+function getComparedValues(condition: SingleCondition): ConditionPrimitive[] {
+  if (condition.op === undefined) {
+    return condition.showIf ?? [];
+  }
+  if (
+    !VALUE_CHECKED_OPERATORS.has(condition.op) ||
+    condition.value === undefined
+  ) {
+    return [];
+  }
+  return Array.isArray(condition.value) ? condition.value : [condition.value];
+}
+
+function reportDuplicateValues(
+  values: string[],
+  questionId: string,
+  path: string,
+  report: ReportFn,
+): void {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const value of values) {
+    if (seen.has(value)) {
+      duplicates.add(value);
+    }
+    seen.add(value);
+  }
+  if (duplicates.size > 0) {
+    report('error', {
+      code: 'duplicate_option_value',
+      message: `Question "${questionId}" repeats option value(s): ${[...duplicates].join(', ')}`,
+      questionId,
+      path,
+    });
+  }
+}
+
+function reportUnused(
+  question: QuestionDefinition,
+  field: 'options' | 'scale' | 'matrix',
+  path: string,
+  report: ReportFn,
+): void {
+  report('warning', {
+    code: 'unused_configuration',
+    message: `"${field}" is ignored for ${question.type} question "${question.id}"`,
+    questionId: question.id,
+    path: `${path}.${field}`,
+  });
+}
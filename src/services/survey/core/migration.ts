@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Session migration between survey versions. Maps a session's
+ * answers onto another version using explicit rules (renamed questions,
+ * remapped option values, dropped questions) or matching question IDs, and
+ * reports every answer that would be lost. Roster instance answers follow the
+ * rules of their repeated question, and their item keys follow the option map
+ * of the roster's source question.
+ * @module src/services/survey/core/migration
+ */
+
+import type {
+  ParticipantSession,
+  QuestionAttempts,
+  RosterDefinition,
+  SessionMigrationReport,
+  SessionMigrationRules,
+  SurveyDefinition,
+  SurveyResponse,
+} from '../types.js';
+import {
+  mapRosterQuestions,
+  parseRosterInstanceId,
+  rosterInstanceId,
+} from './rosters.js';
+import { validateResponse } from './validation.js';
+
+/**
+ * Result of mapping one session onto a target version.
+ */
+export interface SessionMigrationPlan {
+  responses: Record<string, SurveyResponse>;
+  attempts: Record<string, QuestionAttempts>;
+  report: SessionMigrationReport;
+}
+
+/**
+ * Map a session's answers onto a target survey version. The session itself
+ * is not modified.
+ *
+ * @param session - Session pinned to the old version
+ * @param source - Survey definition the session is pinned to
+ * @param target - Survey definition to migrate to
+ * @param rules - Rename, option map and drop rules keyed by old question ID
+ * @returns Migrated responses and attempts, with a report of what was kept and lost
+ */
+export function planSessionMigration(
+  session: ParticipantSession,
+  source: SurveyDefinition,
+  target: SurveyDefinition,
+  rules: SessionMigrationRules,
+): SessionMigrationPlan {
+  const sourceRosters = mapRosterQuestions(source.rosters ?? []);
+  const responses: Record<string, SurveyResponse> = {};
+  const attempts: Record<string, QuestionAttempts> = {};
+  const report: SessionMigrationReport = {
+    sessionId: session.sessionId,
+    participantId: session.participantId,
+    migrated: [],
+    lost: [],
+  };
+
+  for (const [questionId, response] of Object.entries(session.responses)) {
+    const instance = parseRosterInstanceId(questionId);
+    const baseId = instance?.questionId ?? questionId;
+    if (rules.drop.includes(baseId)) {
+      report.lost.push({ questionId, reason: 'dropped' });
+      continue;
+    }
+
+    const targetBaseId =
+      ownRule(rules.renames, baseId) ?? (rules.matchById ? baseId : undefined);
+    const question = target.questions.find((q) => q.id === targetBaseId);
+    const targetId =
+      targetBaseId !== undefined && instance
+        ? rosterInstanceId(
+            targetBaseId,
+            remapRosterKey(instance, sourceRosters, rules),
+          )
+        : targetBaseId;
+    if (!targetId || !question) {
+      report.lost.push({ questionId, reason: 'unmatched' });
+      continue;
+    }
+    if (responses[targetId]) {
+      report.lost.push({
+        questionId,
+        reason: 'conflict',
+        detail: `Another answer already maps to ${targetId}`,
+      });
+      continue;
+    }
+
+    const optionMap = ownRule(rules.optionMaps, baseId);
+    const value =
+      response.skipped || !optionMap
+        ? response.value
+        : remapValue(response.value, optionMap);
+    const validation = validateResponse(question, value, {
+      allowSkip: target.settings.allowSkip,
+    });
+    if (!validation.valid) {
+      report.lost.push({
+        questionId,
+        reason: 'invalid',
+        ...(validation.errors[0] && { detail: validation.errors[0].message }),
+      });
+      continue;
+    }
+
+    const valueRemapped =
+      JSON.stringify(value) !== JSON.stringify(response.value);
+    const { score: _score, ...kept } = response;
+    responses[targetId] = { ...kept, questionId: targetId, value };
+    const questionAttempts = session.attempts?.[questionId];
+    if (questionAttempts) {
+      attempts[targetId] = questionAttempts;
+    }
+    report.migrated.push({
+      fromQuestionId: questionId,
+      toQuestionId: targetId,
+      ...(valueRemapped && { valueRemapped }),
+    });
+  }
+
+  return { responses, attempts, report };
+}
+
+/**
+ * Remap a roster instance's item key with the option map of the roster's
+ * source question, so instances follow their remapped source answer.
+ */
+function remapRosterKey(
+  instance: { questionId: string; key: string },
+  sourceRosters: Map<string, RosterDefinition>,
+  rules: SessionMigrationRules,
+): string {
+  const roster = sourceRosters.get(instance.questionId);
+  const optionMap =
+    roster && ownRule(rules.optionMaps, roster.sourceQuestionId);
+  return (optionMap && ownRule(optionMap, instance.key)) ?? instance.key;
+}
+
+/**
+ * Remap option values in a single or multiple-select answer.
+ */
+function remapValue(
+  value: unknown,
+  optionMap: Record<string, string>,
+): unknown {
+  const remap = (item: unknown) =>
+    typeof item === 'string' ? (ownRule(optionMap, item) ?? item) : item;
+  return Array.isArray(value) ? value.map(remap) : remap(value);
+}
+
+/**
+ * Look up a rule keyed by question ID or option value. Keys inherited from
+ * Object.prototype, such as `constructor`, are not rules.
+ */
+function ownRule<T>(rules: Record<string, T>, key: string): T | undefined {
+  return Object.hasOwn(rules, key) ? rules[key] : undefined;
+}
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Deterministic question ordering for surveys with `shuffleQuestions`.
+ * The same seed always yields the same order, so a session's order can be
+ * regenerated or verified, and is persisted on the session so resume is stable.
+ * @module src/services/survey/core/ordering
+ */
+
+import type { QuestionDefinition } from '../types.js';
+
+/**
+ * Shuffle question IDs with a seeded PRNG (Fisher-Yates).
+ *
+ * @param questionIds - Question IDs in definition order
+ * @param seed - Seed string (e.g. the session ID)
+ * @returns A new array with the IDs in shuffled order
+ */
+export function shuffleQuestionIds(
+  questionIds: readonly string[],
+  seed: string,
+): string[] {
+  const random = createSeededRandom(seed);
+  const shuffled = [...questionIds];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const current = shuffled[i];
+    const swap = shuffled[j];
+    if (current !== undefined && swap !== undefined) {
+      shuffled[i] = swap;
+      shuffled[j] = current;
+    }
+  }
+  return shuffled;
+}
+
+/**
+ * Arrange questions according to a persisted order.
+ * Questions missing from the order (e.g. added to the definition after the
+ * session started) keep their definition order and come last.
+ *
+ * @param questions - Questions in definition order
+ * @param order - Persisted question ID order, if any
+ * @returns Questions in session order
+ */
+export function orderQuestions(
+  questions: QuestionDefinition[],
+  order?: readonly string[],
+): QuestionDefinition[] {
+  if (!order || order.length === 0) {
+    return questions;
+  }
+  const position = new Map(order.map((id, index) => [id, index]));
+  return questions
+    .map((question, index) => ({
+      question,
+      rank: position.get(question.id) ?? order.length + index,
+    }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ question }) => question);
+}
+
+/**
+ * mulberry32 PRNG seeded from an FNV-1a hash of the seed string.
+ */
+function createSeededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 0x01000193);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
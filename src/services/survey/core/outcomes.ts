@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Outcome bands: classify a completed session by its total
+ * score and/or its answers (e.g. "score 0–10 → Beginner", "answered X →
+ * outcome Y") and attach the matching completion message and recommendation.
+ * @module src/services/survey/core/outcomes
+ */
+
+import type {
+  OutcomeCount,
+  OutcomeDefinition,
+  ParticipantSession,
+  SessionOutcome,
+  SurveyDefinition,
+} from '../types.js';
+import { evaluateCondition } from './conditions.js';
+import { interpolateTemplate } from './templating.js';
+
+/**
+ * Find the outcome for a session. Outcomes are checked in definition order
+ * and the first match wins.
+ *
+ * @param survey - Survey definition
+ * @param session - Session to classify; its score and variables should be current
+ * @returns The outcome with templates resolved, or undefined when none matches
+ */
+export function evaluateOutcome(
+  survey: SurveyDefinition,
+  session: ParticipantSession,
+): SessionOutcome | undefined {
+  const outcome = survey.outcomes?.find((candidate) =>
+    matchesOutcome(candidate, session),
+  );
+  if (!outcome) {
+    return undefined;
+  }
+
+  return {
+    id: outcome.id,
+    label: outcome.label,
+    ...(outcome.message !== undefined && {
+      message: interpolateTemplate(outcome.message, survey, session),
+    }),
+    ...(outcome.recommendation !== undefined && {
+      recommendation: interpolateTemplate(
+        outcome.recommendation,
+        survey,
+        session,
+      ),
+    }),
+  };
+}
+
+/**
+ * Whether every criterion of an outcome holds for a session. An outcome
+ * without criteria matches every session.
+ */
+export function matchesOutcome(
+  outcome: OutcomeDefinition,
+  session: ParticipantSession,
+): boolean {
+  const { min, max } = outcome.scoreRange ?? {};
+  if (min !== undefined && session.currentScore < min) {
+    return false;
+  }
+  if (max !== undefined && session.currentScore > max) {
+    return false;
+  }
+  return !outcome.when || evaluateCondition(outcome.when, session).eligible;
+}
+
+/**
+ * Count the outcomes recorded on completed sessions.
+ *
+ * @param survey - Survey definition
+ * @param sessions - Sessions to count (only completed ones are considered)
+ * @returns One entry per declared outcome, or undefined when the survey has none
+ */
+export function buildOutcomeDistribution(
+  survey: SurveyDefinition,
+  sessions: ParticipantSession[],
+): OutcomeCount[] | undefined {
+  if (!survey.outcomes || survey.outcomes.length === 0) {
+    return undefined;
+  }
+
+  const completed = sessions.filter((s) => s.status === 'completed');
+  return survey.outcomes.map((outcome) => {
+    const count = completed.filter((s) => s.outcome?.id === outcome.id).length;
+    return {
+      outcomeId: outcome.id,
+      label: outcome.label,
+      count,
+      percentage:
+        completed.length > 0
+          ? `${Math.round((count / completed.length) * 100)}%`
+          : '0%',
+    };
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Completion quotas: an overall cap on completed sessions and
+ * per-segment cells keyed by answer values. Fill is always derived from the
+ * stored sessions, so every server reads the same counts.
+ * @module src/services/survey/core/quotas
+ */
+
+import type {
+  ConditionPrimitive,
+  ParticipantSession,
+  QuotaCell,
+  QuotaStatus,
+  SessionScreenOut,
+  SurveyDefinition,
+} from '../types.js';
+import { interpolateTemplate } from './templating.js';
+
+/** `ruleId` recorded when the overall completion cap is full. */
+export const MAX_COMPLETES_QUOTA_ID = 'maxCompletes';
+
+/**
+ * Whether a session's answer places it in a quota cell. Skipped and
+ * unanswered questions never match.
+ *
+ * @param cell - Quota cell
+ * @param session - Session to check
+ */
+export function matchesQuotaCell(
+  cell: QuotaCell,
+  session: ParticipantSession,
+): boolean {
+  const response = session.responses[cell.questionId];
+  if (!response || response.skipped) {
+    return false;
+  }
+
+  const accepted: ConditionPrimitive[] = Array.isArray(cell.value)
+    ? cell.value
+    : [cell.value];
+  const answers: unknown[] = Array.isArray(response.value)
+    ? response.value
+    : [response.value];
+  return answers.some((answer) =>
+    accepted.includes(answer as ConditionPrimitive),
+  );
+}
+
+/**
+ * Compute live quota fill from a survey's sessions.
+ *
+ * @param survey - Survey definition
+ * @param sessions - All of the survey's sessions
+ * @returns Fill for the overall cap and every cell
+ */
+export function buildQuotaStatus(
+  survey: SurveyDefinition,
+  sessions: ParticipantSession[],
+): QuotaStatus {
+  const completed = sessions.filter((s) => s.status === 'completed');
+  const inProgress = sessions.filter((s) => s.status === 'in-progress');
+  const maxCompletes = survey.quotas?.maxCompletes;
+
+  return {
+    surveyId: survey.id,
+    completes: completed.length,
+    ...(maxCompletes !== undefined && {
+      maxCompletes,
+      remaining: Math.max(0, maxCompletes - completed.length),
+    }),
+    full: maxCompletes !== undefined && completed.length >= maxCompletes,
+    screenedOutByQuota: sessions.filter(
+      (s) => s.screenOut?.reason === 'quota-full',
+    ).length,
+    cells: (survey.quotas?.cells ?? []).map((cell) => {
+      const completes = completed.filter((s) =>
+        matchesQuotaCell(cell, s),
+      ).length;
+      return {
+        id: cell.id,
+        ...(cell.label !== undefined && { label: cell.label }),
+        questionId: cell.questionId,
+        limit: cell.limit,
+        completes,
+        inProgress: inProgress.filter((s) => matchesQuotaCell(cell, s)).length,
+        remaining: Math.max(0, cell.limit - completes),
+        full: completes >= cell.limit,
+      };
+    }),
+  };
+}
+
+/**
+ * Find a full quota that should screen out a session: the overall cap when
+ * `includeOverall` is set, then any full cell the session belongs to.
+ *
+ * @param survey - Survey definition
+ * @param session - Session being checked
+ * @param status - Current quota fill
+ * @param includeOverall - Also treat a full overall cap as a screen-out
+ * @returns The screen-out to record, or undefined when the session may continue
+ */
+export function findFullQuota(
+  survey: SurveyDefinition,
+  session: ParticipantSession,
+  status: QuotaStatus,
+  includeOverall = false,
+): SessionScreenOut | undefined {
+  const quotas = survey.quotas;
+  if (!quotas) {
+    return undefined;
+  }
+
+  if (includeOverall && status.full) {
+    return {
+      reason: 'quota-full',
+      ruleId: MAX_COMPLETES_QUOTA_ID,
+      ...(quotas.message !== undefined && { message: quotas.message }),
+    };
+  }
+
+  const cell = quotas.cells.find(
+    (candidate) =>
+      status.cells.find((fill) => fill.id === candidate.id)?.full &&
+      matchesQuotaCell(candidate, session),
+  );
+  if (!cell) {
+    return undefined;
+  }
+
+  return {
+    reason: 'quota-full',
+    ruleId: cell.id,
+    ...(cell.message !== undefined && {
+      message: interpolateTemplate(cell.message, survey, session),
+    }),
+  };
+}
@@ -0,0 +1,310 @@
+/**
+ * @fileoverview Roster (looping) question groups. A roster repeats its
+ * questions once per item of a source answer: the options selected in a
+ * `multiple-select` question, or the entries listed in a `free-form` answer.
+ * Each repeated instance has an instance-keyed ID such as
+ * `tool_rating[slack]`, under which its response is stored, so instances are
+ * answered, skipped, locked and suggested like any other question.
+ * @module src/services/survey/core/rosters
+ */
+
+import type {
+  ConditionalLogic,
+  ParticipantSession,
+  QuestionDefinition,
+  RosterDefinition,
+  RosterItem,
+  SurveyDefinition,
+  SurveyResponse,
+} from '../types.js';
+
+/**
+ * A question as asked in a session: a regular question, or one instance of a
+ * roster question with the item it asks about.
+ */
+export type ExpandedQuestion = QuestionDefinition & { roster?: RosterItem };
+
+/**
+ * Matches an instance-keyed question ID: `<questionId>[<itemKey>]`.
+ */
+const INSTANCE_ID_PATTERN = /^(.+)\[([^\]]+)\]$/;
+
+/**
+ * Build the ID of one roster question instance.
+ *
+ * @param questionId - ID of the repeated question
+ * @param key - Roster item key
+ * @returns The instance-keyed ID, e.g. `tool_rating[slack]`
+ */
+export function rosterInstanceId(questionId: string, key: string): string {
+  return `${questionId}[${key}]`;
+}
+
+/**
+ * Split an instance-keyed question ID into the repeated question's ID and
+ * the item key.
+ *
+ * @returns The parts, or undefined for a regular question ID
+ */
+export function parseRosterInstanceId(
+  id: string,
+): { questionId: string; key: string } | undefined {
+  const match = INSTANCE_ID_PATTERN.exec(id);
+  return match?.[1] !== undefined && match[2] !== undefined
+    ? { questionId: match[1], key: match[2] }
+    : undefined;
+}
+
+/**
+ * Map each repeated question ID to the roster listing it. A question listed
+ * in more than one roster belongs to the first.
+ */
+export function mapRosterQuestions(
+  rosters: readonly RosterDefinition[],
+): Map<string, RosterDefinition> {
+  const rosterQuestions = new Map<string, RosterDefinition>();
+  for (const roster of rosters) {
+    for (const questionId of roster.questionIds) {
+      if (!rosterQuestions.has(questionId)) {
+        rosterQuestions.set(questionId, roster);
+      }
+    }
+  }
+  return rosterQuestions;
+}
+
+/**
+ * Get a roster's items from the session's answer to its source question.
+ * Selected options keep their value as the key and their option label;
+ * free-form entries are split on new lines and commas and keyed by a slug.
+ * A skipped or missing source answer yields no items.
+ *
+ * @param roster - Roster definition
+ * @param survey - Survey definition, for the source question
+ * @param session - Session holding the source answer
+ * @returns Items in the order they were given, capped at `maxItems`
+ */
+export function getRosterItems(
+  roster: RosterDefinition,
+  survey: SurveyDefinition,
+  session: Pick<ParticipantSession, 'responses'>,
+): Array<{ key: string; label: string }> {
+  const source = survey.questions.find((q) => q.id === roster.sourceQuestionId);
+  const response = session.responses[roster.sourceQuestionId];
+  if (!source || !response || response.skipped) {
+    return [];
+  }
+
+  let items: Array<{ key: string; label: string }> = [];
+  if (source.type === 'multiple-select' && Array.isArray(response.value)) {
+    items = response.value
+      .filter((value): value is string => typeof value === 'string')
+      .map((value) => ({
+        key: value,
+        label:
+          source.options?.find((option) => option.value === value)?.label ??
+          value,
+      }));
+  } else if (
+    source.type === 'free-form' &&
+    typeof response.value === 'string'
+  ) {
+    const used = new Set<string>();
+    items = response.value
+      .split(/[\n,]/)
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0)
+      .map((entry) => {
+        const base = slugify(entry);
+        let key = base;
+        for (let n = 2; used.has(key); n++) {
+          key = `${base}_${n}`;
+        }
+        used.add(key);
+        return { key, label: entry };
+      });
+  }
+
+  return roster.maxItems !== undefined
+    ? items.slice(0, roster.maxItems)
+    : items;
+}
+
+/**
+ * Collect the item keys a roster has across several sessions, e.g. for one
+ * export column per item. Keys follow the source question's option order,
+ * or first appearance for free-form sources.
+ *
+ * @param roster - Roster definition
+ * @param survey - Survey definition the sessions are pinned to
+ * @param sessions - Sessions whose source answers give the items
+ * @returns Distinct item keys
+ */
+export function collectRosterItemKeys(
+  roster: RosterDefinition,
+  survey: SurveyDefinition,
+  sessions: ReadonlyArray<Pick<ParticipantSession, 'responses'>>,
+): string[] {
+  const keys = new Set<string>();
+  for (const session of sessions) {
+    for (const { key } of getRosterItems(roster, survey, session)) {
+      keys.add(key);
+    }
+  }
+
+  const options = survey.questions
+    .find((q) => q.id === roster.sourceQuestionId)
+    ?.options?.map((option) => option.value);
+  if (!options) {
+    return [...keys];
+  }
+  const rank = (key: string) => {
+    const index = options.indexOf(key);
+    return index === -1 ? options.length : index;
+  };
+  return [...keys].sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Collect a session's responses to a question as defined: its own response,
+ * or for a roster question the responses to every instance.
+ *
+ * @param questionId - ID of the question in the definition
+ * @param session - Session holding the responses
+ * @param rosterQuestions - Repeated question IDs mapped to their roster
+ * @returns The question's responses
+ */
+export function collectQuestionResponses(
+  questionId: string,
+  session: Pick<ParticipantSession, 'responses'>,
+  rosterQuestions: ReadonlyMap<string, RosterDefinition>,
+): SurveyResponse[] {
+  if (!rosterQuestions.has(questionId)) {
+    const response = session.responses[questionId];
+    return response ? [response] : [];
+  }
+  return Object.entries(session.responses).flatMap(([id, response]) =>
+    parseRosterInstanceId(id)?.questionId === questionId ? [response] : [],
+  );
+}
+
+/**
+ * Find stored responses to roster instances whose item is no longer listed,
+ * e.g. after the participant changed the source answer.
+ *
+ * @param survey - Survey definition with rosters
+ * @param session - Session holding the responses
+ * @returns IDs of the stale instance responses
+ */
+export function findStaleRosterResponses(
+  survey: SurveyDefinition,
+  session: Pick<ParticipantSession, 'responses'>,
+): string[] {
+  if (!survey.rosters?.length) {
+    return [];
+  }
+  const rosterQuestions = mapRosterQuestions(survey.rosters);
+  const itemKeys = new Map<RosterDefinition, Set<string>>(
+    survey.rosters.map((roster) => [
+      roster,
+      new Set(getRosterItems(roster, survey, session).map(({ key }) => key)),
+    ]),
+  );
+
+  return Object.keys(session.responses).filter((id) => {
+    const instance = parseRosterInstanceId(id);
+    const roster = instance && rosterQuestions.get(instance.questionId);
+    return !!roster && !itemKeys.get(roster)?.has(instance.key);
+  });
+}
+
+/**
+ * Replace roster questions with one instance per item. The instances of a
+ * roster take the place of its first question and are grouped by item, so
+ * all of one item's questions come before the next item's. Conditions on
+ * another question of the same roster point at that item's instance.
+ *
+ * @param questions - Questions in session order
+ * @param survey - Survey definition with rosters
+ * @param session - Session whose source answers give the items
+ * @returns The questions with roster questions expanded
+ */
+export function expandRosterQuestions(
+  questions: QuestionDefinition[],
+  survey: SurveyDefinition,
+  session: Pick<ParticipantSession, 'responses'>,
+): ExpandedQuestion[] {
+  if (!survey.rosters?.length) {
+    return questions;
+  }
+  const rosterQuestions = mapRosterQuestions(survey.rosters);
+  const expanded = new Set<RosterDefinition>();
+
+  return questions.flatMap((question): ExpandedQuestion[] => {
+    const roster = rosterQuestions.get(question.id);
+    if (!roster) {
+      return [question];
+    }
+    if (expanded.has(roster)) {
+      return [];
+    }
+    expanded.add(roster);
+
+    // The roster's questions in session order
+    const repeated = questions.filter(
+      (q) => rosterQuestions.get(q.id) === roster,
+    );
+    return getRosterItems(roster, survey, session).flatMap(({ key, label }) =>
+      repeated.map((q) => ({
+        ...q,
+        id: rosterInstanceId(q.id, key),
+        ...(q.conditional && {
+          conditional: scopeCondition(q.conditional, roster, key),
+        }),
+        roster: { rosterId: roster.id, questionId: q.id, key, label },
+      })),
+    );
+  });
+}
+
+/**
+ * Point conditions on questions of the same roster at one item's instances.
+ */
+function scopeCondition(
+  conditional: ConditionalLogic,
+  roster: RosterDefinition,
+  key: string,
+): ConditionalLogic {
+  if ('dependsOn' in conditional) {
+    return roster.questionIds.includes(conditional.dependsOn)
+      ? {
+          ...conditional,
+          dependsOn: rosterInstanceId(conditional.dependsOn, key),
+        }
+      : conditional;
+  }
+  if (conditional.operator === 'NOT') {
+    return {
+      operator: 'NOT',
+      condition: scopeCondition(conditional.condition, roster, key),
+    };
+  }
+  return {
+    operator: conditional.operator,
+    conditions: conditional.conditions.map((condition) =>
+      scopeCondition(condition, roster, key),
+    ),
+  };
+}
+
+/**
+ * Key for a free-form roster entry: lowercase letters, digits and
+ * underscores.
+ */
+function slugify(entry: string): string {
+  const slug = entry
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return slug || 'item';
+}
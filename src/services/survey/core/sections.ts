@@ -0,0 +1,247 @@
+/**
+ * @fileoverview Survey sections: topics that group questions. Sections are
+ * covered in order, a section whose condition fails hides all of its
+ * questions, and the current section is the first shown one with questions
+ * left to ask.
+ * @module src/services/survey/core/sections
+ */
+
+import type {
+  CurrentSection,
+  ParticipantSession,
+  QuestionDefinition,
+  SectionProgress,
+  SurveyDefinition,
+  SurveySection,
+} from '../types.js';
+import { type ConditionResult, evaluateCondition } from './conditions.js';
+import { type ExpandedQuestion, expandRosterQuestions } from './rosters.js';
+import { interpolateTemplate } from './templating.js';
+
+/**
+ * Per-section progress of a session.
+ */
+export interface SessionSectionProgress {
+  /** Section whose questions are being asked; absent once all are done */
+  currentSection?: CurrentSection;
+  /** Progress of every section, in survey order */
+  sections: SectionProgress[];
+}
+
+/**
+ * Map each question ID to the section listing it. A question listed in more
+ * than one section belongs to the first.
+ */
+export function mapQuestionSections(
+  sections: readonly SurveySection[],
+): Map<string, SurveySection> {
+  const questionSections = new Map<string, SurveySection>();
+  for (const section of sections) {
+    for (const questionId of section.questionIds) {
+      if (!questionSections.has(questionId)) {
+        questionSections.set(questionId, section);
+      }
+    }
+  }
+  return questionSections;
+}
+
+/**
+ * Evaluate whether a section is shown. Sections without a condition always are.
+ */
+export function evaluateSection(
+  section: SurveySection,
+  session: ParticipantSession,
+): ConditionResult {
+  return section.conditional
+    ? evaluateCondition(section.conditional, session)
+    : { eligible: true, reason: 'Always shown (no conditional logic)' };
+}
+
+/**
+ * Whether a question is shown to a session, and the section it belongs to.
+ */
+export interface QuestionVisibility extends ConditionResult {
+  section?: SurveySection;
+}
+
+/**
+ * Build a check of whether questions are shown to a session. A question in a
+ * hidden section is not shown, whatever its own condition; otherwise its
+ * conditional logic decides. Section conditions are evaluated once.
+ *
+ * @param survey - Survey definition
+ * @param session - Session the conditions are evaluated against
+ * @returns A function giving a question's visibility
+ */
+export function createVisibilityCheck(
+  survey: SurveyDefinition,
+  session: ParticipantSession,
+): (question: ExpandedQuestion) => QuestionVisibility {
+  const questionSections = mapQuestionSections(survey.sections ?? []);
+  const sectionResults = new Map(
+    (survey.sections ?? []).map((section) => [
+      section,
+      evaluateSection(section, session),
+    ]),
+  );
+
+  return (question) => {
+    const section = questionSections.get(
+      question.roster?.questionId ?? question.id,
+    );
+    const sectionResult = section && sectionResults.get(section);
+    const result: ConditionResult =
+      section && sectionResult && !sectionResult.eligible
+        ? {
+            eligible: false,
+            reason: `Section "${section.title}" not shown: ${sectionResult.reason}`,
+          }
+        : question.conditional
+          ? evaluateCondition(question.conditional, session)
+          : {
+              eligible: true,
+              reason: 'Always available (no conditional logic)',
+            };
+    return { ...result, ...(section && { section }) };
+  };
+}
+
+/**
+ * Arrange questions section by section. Within a section, questions follow
+ * its `questionIds` order, or their current order when the session shuffles
+ * questions. Questions in no section keep their order and come last.
+ *
+ * @param questions - Questions in definition (or shuffled) order
+ * @param sections - Survey sections
+ * @param shuffled - Whether the questions are in a shuffled session order
+ * @returns Questions in section order
+ */
+export function orderQuestionsBySection(
+  questions: QuestionDefinition[],
+  sections: readonly SurveySection[],
+  shuffled: boolean,
+): QuestionDefinition[] {
+  const sectionIndex = new Map<string, number>();
+  const positionInSection = new Map<string, number>();
+  sections.forEach((section, index) => {
+    section.questionIds.forEach((questionId, position) => {
+      if (!sectionIndex.has(questionId)) {
+        sectionIndex.set(questionId, index);
+        positionInSection.set(questionId, position);
+      }
+    });
+  });
+
+  return questions
+    .map((question, index) => ({
+      question,
+      section: sectionIndex.get(question.id) ?? sections.length,
+      position: shuffled
+        ? index
+        : (positionInSection.get(question.id) ?? index),
+    }))
+    .sort((a, b) => a.section - b.section || a.position - b.position)
+    .map(({ question }) => question);
+}
+
+/**
+ * Compute progress per section and the section the session is in.
+ *
+ * @param survey - Survey definition with sections
+ * @param session - Session whose responses and attempts are counted
+ * @returns Section progress, with the current section's intro piped in
+ */
+export function buildSectionProgress(
+  survey: SurveyDefinition,
+  session: ParticipantSession,
+): SessionSectionProgress {
+  const questions = expandRosterQuestions(survey.questions, survey, session);
+  const questionSections = mapQuestionSections(survey.sections ?? []);
+  const checkVisibility = createVisibilityCheck(survey, session);
+  let currentSection: CurrentSection | undefined;
+
+  const sections = (survey.sections ?? []).map((section): SectionProgress => {
+    // Roster questions count once per item; questions hidden by their
+    // condition count only if they were answered before being hidden
+    const sectionQuestions = questions.filter(
+      (q) =>
+        questionSections.get(q.roster?.questionId ?? q.id) === section &&
+        (session.responses[q.id] || checkVisibility(q).eligible),
+    );
+    const responses = sectionQuestions.flatMap((q) => {
+      const response = session.responses[q.id];
+      return response ? [response] : [];
+    });
+    const skippedQuestions = responses.filter((r) => r.skipped).length;
+    const answeredQuestions = responses.length - skippedQuestions;
+    const totalQuestions = sectionQuestions.length;
+
+    if (!evaluateSection(section, session).eligible) {
+      return {
+        sectionId: section.id,
+        title: section.title,
+        status: 'hidden',
+        totalQuestions,
+        answeredQuestions,
+        skippedQuestions,
+        requiredRemaining: 0,
+        percentComplete: 0,
+      };
+    }
+
+    const pending = sectionQuestions.filter((q) =>
+      isQuestionPending(q, session),
+    );
+    if (!currentSection && pending.length > 0) {
+      currentSection = {
+        id: section.id,
+        title: section.title,
+        ...(section.intro !== undefined && {
+          intro: interpolateTemplate(section.intro, survey, session),
+        }),
+      };
+    }
+
+    return {
+      sectionId: section.id,
+      title: section.title,
+      status:
+        pending.length === 0
+          ? 'completed'
+          : responses.length > 0
+            ? 'in-progress'
+            : 'not-started',
+      totalQuestions,
+      answeredQuestions,
+      skippedQuestions,
+      requiredRemaining: pending.filter((q) => q.required).length,
+      percentComplete:
+        pending.length === 0
+          ? 100
+          : Math.round((responses.length / totalQuestions) * 100),
+    };
+  });
+
+  return { ...(currentSection && { currentSection }), sections };
+}
+
+/**
+ * Whether a question in a shown section is still to be asked: not answered
+ * or skipped, not locked, and its own condition (if any) met.
+ */
+function isQuestionPending(
+  question: ExpandedQuestion,
+  session: ParticipantSession,
+): boolean {
+  if (
+    session.responses[question.id] ||
+    session.attempts?.[question.id]?.lockedAt
+  ) {
+    return false;
+  }
+  return (
+    !question.conditional ||
+    evaluateCondition(question.conditional, session).eligible
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Per-question response statistics for survey analytics.
+ * Providers collect the responses; this module turns them into distributions
+ * and descriptive statistics according to the question type, plus difficulty
+ * for quiz questions.
+ * @module src/services/survey/core/statistics
+ */
+
+import type {
+  NumericSummary,
+  QuestionDefinition,
+  QuestionStats,
+  SurveyResponse,
+} from '../types.js';
+import { SKIPPED_RESPONSE_CODE } from '../types.js';
+import { gradeResponse } from './grading.js';
+
+/**
+ * Compute statistics for one question from the responses recorded for it.
+ *
+ * @param question - Question definition
+ * @param recorded - Responses recorded for the question, including skips
+ * @returns Question statistics
+ */
+export function computeQuestionStats(
+  question: QuestionDefinition,
+  recorded: SurveyResponse[],
+): QuestionStats {
+  const responses = recorded.filter((r) => !r.skipped);
+  const values = responses.map((r) => r.value);
+  const skippedCount = recorded.length - responses.length;
+
+  const stats: QuestionStats = {
+    questionId: question.id,
+    ...(question.libraryRef !== undefined && {
+      libraryRef: question.libraryRef,
+    }),
+    responseCount: responses.length,
+    skippedCount,
+  };
+
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'rating-scale':
+      stats.responseDistribution = countValues(values);
+      break;
+    case 'multiple-select':
+      stats.responseDistribution = countValues(
+        values.flatMap((value): unknown[] =>
+          Array.isArray(value) ? value : [value],
+        ),
+      );
+      break;
+    case 'matrix':
+      stats.rowDistributions = countMatrixRows(question, values);
+      break;
+    case 'boolean':
+      stats.booleanSplit = {
+        true: values.filter((value) => value === true).length,
+        false: values.filter((value) => value === false).length,
+      };
+      break;
+    default:
+      break;
+  }
+
+  if (stats.responseDistribution && skippedCount > 0) {
+    stats.responseDistribution[SKIPPED_RESPONSE_CODE] = skippedCount;
+  }
+
+  if (question.type === 'number' || question.type === 'rating-scale') {
+    const numbers = values.filter(
+      (value): value is number =>
+        typeof value === 'number' && Number.isFinite(value),
+    );
+    const summary = summarizeNumbers(numbers);
+    if (summary) {
+      stats.numericSummary = summary;
+    }
+  }
+
+  const grades = responses.flatMap(
+    (response) => gradeResponse(question, response.value) ?? [],
+  );
+  if (grades.length > 0) {
+    const totalCredit = grades.reduce((total, g) => total + g.credit, 0);
+    stats.difficulty = {
+      correctCount: grades.filter((g) => g.correct).length,
+      partialCount: grades.filter((g) => g.credit > 0 && !g.correct).length,
+      percentCorrect: Math.round((totalCredit / grades.length) * 1000) / 10,
+    };
+  }
+
+  return stats;
+}
+
+/**
+ * Descriptive statistics for a list of numbers.
+ * Uses the population standard deviation and linearly interpolated
+ * percentiles; values are rounded to two decimals.
+ *
+ * @param values - Numeric values
+ * @returns Summary, or undefined when there are no values
+ */
+export function summarizeNumbers(values: number[]): NumericSummary | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const variance =
+    sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length;
+
+  return {
+    count: sorted.length,
+    mean: round(mean),
+    median: round(percentile(sorted, 50)),
+    stdDev: round(Math.sqrt(variance)),
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0,
+    percentiles: {
+      p25: round(percentile(sorted, 25)),
+      p75: round(percentile(sorted, 75)),
+      p90: round(percentile(sorted, 90)),
+    },
+  };
+}
+
+/**
+ * Count occurrences of each value, keyed by its string form.
+ */
+function countValues(values: unknown[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const value of values) {
+    const key = String(value);
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Count column selections per matrix row.
+ */
+function countMatrixRows(
+  question: QuestionDefinition,
+  values: unknown[],
+): Record<string, Record<string, number>> {
+  const rows: Record<string, Record<string, number>> = {};
+  for (const row of question.matrix?.rows ?? []) {
+    rows[row.id] = {};
+  }
+
+  for (const value of values) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      continue;
+    }
+    for (const [rowId, selection] of Object.entries(value)) {
+      const counts = (rows[rowId] ??= {});
+      const selected: unknown[] = Array.isArray(selection)
+        ? selection
+        : [selection];
+      for (const column of selected) {
+        const key = String(column);
+        counts[key] = (counts[key] ?? 0) + 1;
+      }
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Linearly interpolated percentile of a sorted, non-empty list.
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const lowerValue = sorted[lower] ?? 0;
+  const upperValue = sorted[upper] ?? lowerValue;
+  return lowerValue + (upperValue - lowerValue) * (rank - lower);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
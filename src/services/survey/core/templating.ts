@@ -0,0 +1,218 @@
+/**
+ * @fileoverview Answer piping for question text. Resolves `{{...}}` templates
+ * against the session's responses and metadata so questions can refer back to
+ * earlier answers (e.g. "How long have you worked as a {{answers.role.label}}?").
+ *
+ * Supported references:
+ * - `{{answers.<questionId>}}` / `{{answers.<questionId>.value}}` — the raw answer
+ * - `{{answers.<questionId>.label}}` — option labels for choice questions
+ * - `{{variables.<variableId>}}` — a computed variable
+ * - `{{metadata.<key>}}` — session metadata, with dots for nested keys
+ * - `{{item}}` / `{{item.label}}` and `{{item.value}}` — the roster item a
+ *   repeated question is asked about (roster questions only)
+ *
+ * In a roster question, answer references to another question of the same
+ * roster resolve to the same item's instance; other roster answers can be
+ * referenced by instance ID (`{{answers.tool_rating[slack]}}`).
+ *
+ * A fallback can follow a pipe (`{{metadata.companyName | your company}}`);
+ * without one, unresolved references render as an empty string.
+ * @module src/services/survey/core/templating
+ */
+
+import type {
+  ParticipantSession,
+  QuestionDefinition,
+  RosterItem,
+  SurveyDefinition,
+} from '../types.js';
+import { parseRosterInstanceId, rosterInstanceId } from './rosters.js';
+
+/**
+ * Matches `{{ reference }}` and `{{ reference | fallback }}`.
+ */
+const TEMPLATE_PATTERN = /\{\{\s*([^}|]+?)\s*(?:\|\s*([^}]*?)\s*)?\}\}/g;
+
+/**
+ * A parsed template reference.
+ */
+export interface TemplateReference {
+  /** The reference as written, without braces or fallback */
+  expression: string;
+  source: 'answers' | 'variables' | 'metadata' | 'item' | 'unknown';
+  /** Question ID (answers), variable ID, or dotted metadata key */
+  key: string;
+  /** `value` or `label` for answer and item references */
+  property?: string;
+}
+
+/**
+ * List the template references in a piece of text.
+ *
+ * @param text - Text that may contain templates
+ * @returns References in order of appearance
+ */
+export function extractTemplateReferences(text: string): TemplateReference[] {
+  return [...text.matchAll(TEMPLATE_PATTERN)].map((match) =>
+    parseReference(match[1] ?? ''),
+  );
+}
+
+/**
+ * Resolve the templates in a piece of text.
+ *
+ * @param text - Text that may contain templates
+ * @param survey - Survey definition, used for option labels
+ * @param session - Session whose answers and metadata are piped in
+ * @param item - Roster item, for text of a repeated question
+ * @returns Text with every template replaced
+ */
+export function interpolateTemplate(
+  text: string,
+  survey: SurveyDefinition,
+  session: ParticipantSession,
+  item?: RosterItem,
+): string {
+  if (!text.includes('{{')) {
+    return text;
+  }
+  return text.replace(
+    TEMPLATE_PATTERN,
+    (_match, expression: string, fallback: string | undefined) =>
+      resolveReference(parseReference(expression), survey, session, item) ??
+      unquote(fallback ?? ''),
+  );
+}
+
+/**
+ * Resolve templates in a question's text and help text. Repeated roster
+ * question instances also resolve their `{{item}}` references.
+ *
+ * @param question - Question definition
+ * @param survey - Survey definition
+ * @param session - Session providing answers and metadata
+ * @returns The question with piped text (the same object when nothing changed)
+ */
+export function interpolateQuestion<
+  T extends QuestionDefinition & { roster?: RosterItem },
+>(question: T, survey: SurveyDefinition, session: ParticipantSession): T {
+  const { roster } = question;
+  const text = interpolateTemplate(question.text, survey, session, roster);
+  const helpText =
+    question.helpText !== undefined
+      ? interpolateTemplate(question.helpText, survey, session, roster)
+      : undefined;
+
+  if (text === question.text && helpText === question.helpText) {
+    return question;
+  }
+  return {
+    ...question,
+    text,
+    ...(helpText !== undefined && { helpText }),
+  };
+}
+
+function parseReference(expression: string): TemplateReference {
+  const [source = '', ...rest] = expression.trim().split('.');
+
+  if (source === 'answers') {
+    const [key = '', property] = rest;
+    return {
+      expression,
+      source,
+      key,
+      ...(property !== undefined && { property }),
+    };
+  }
+  if (source === 'variables' || source === 'metadata') {
+    return { expression, source, key: rest.join('.') };
+  }
+  if (source === 'item') {
+    const [property = 'label'] = rest;
+    return { expression, source, key: '', property };
+  }
+  return { expression, source: 'unknown', key: expression };
+}
+
+function resolveReference(
+  reference: TemplateReference,
+  survey: SurveyDefinition,
+  session: ParticipantSession,
+  item: RosterItem | undefined,
+): string | undefined {
+  if (reference.source === 'item') {
+    return reference.property === 'value' ? item?.key : item?.label;
+  }
+
+  if (reference.source === 'metadata') {
+    let value: unknown = session.metadata;
+    for (const part of reference.key.split('.')) {
+      value =
+        typeof value === 'object' && value !== null
+          ? (value as Record<string, unknown>)[part]
+          : undefined;
+    }
+    return formatValue(value);
+  }
+
+  if (reference.source === 'variables') {
+    return formatValue(session.variables?.[reference.key]);
+  }
+
+  if (reference.source === 'answers') {
+    const sameRoster =
+      item &&
+      survey.rosters
+        ?.find((roster) => roster.id === item.rosterId)
+        ?.questionIds.includes(reference.key);
+    const response =
+      session.responses[
+        sameRoster ? rosterInstanceId(reference.key, item.key) : reference.key
+      ];
+    if (!response || response.skipped) {
+      return undefined;
+    }
+    if (reference.property === 'label') {
+      const questionId =
+        parseRosterInstanceId(reference.key)?.questionId ?? reference.key;
+      const question = survey.questions.find((q) => q.id === questionId);
+      return formatValue(toLabels(response.value, question));
+    }
+    return formatValue(response.value);
+  }
+
+  return undefined;
+}
+
+function toLabels(
+  value: unknown,
+  question: QuestionDefinition | undefined,
+): unknown {
+  const labelFor = (item: unknown): unknown =>
+    question?.options?.find((option) => option.value === item)?.label ?? item;
+  return Array.isArray(value) ? value.map(labelFor) : labelFor(value);
+}
+
+function formatValue(value: unknown): string | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  if (Array.isArray(value)) {
+    const items = value.flatMap((item: unknown) => formatValue(item) ?? []);
+    return items.length > 0 ? items.join(', ') : undefined;
+  }
+  if (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  ) {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+function unquote(text: string): string {
+  const quoted = /^(["'])(.*)\1$/.exec(text);
+  return quoted ? (quoted[2] ?? '') : text;
+}
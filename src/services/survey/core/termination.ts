@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Screen-out rules: end a session early when a participant
+ * does not qualify (e.g. `company_size` = "1-10" for an enterprise study).
+ * @module src/services/survey/core/termination
+ */
+
+import type {
+  ParticipantSession,
+  SessionScreenOut,
+  SurveyDefinition,
+} from '../types.js';
+import { evaluateCondition } from './conditions.js';
+import { interpolateTemplate } from './templating.js';
+
+/**
+ * Find the first termination rule that matches a session.
+ *
+ * @param survey - Survey definition
+ * @param session - Session with its latest responses and variables
+ * @returns The matched rule ID and message with templates resolved, or undefined
+ */
+export function evaluateTermination(
+  survey: SurveyDefinition,
+  session: ParticipantSession,
+): SessionScreenOut | undefined {
+  const rule = survey.terminationRules?.find(
+    (candidate) => evaluateCondition(candidate.when, session).eligible,
+  );
+  if (!rule) {
+    return undefined;
+  }
+
+  return {
+    reason: 'termination-rule',
+    ruleId: rule.id,
+    ...(rule.message !== undefined && {
+      message: interpolateTemplate(rule.message, survey, session),
+    }),
+  };
+}
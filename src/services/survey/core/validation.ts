@@ -48,11 +48,13 @@ const validatorMap: Record<QuestionType, ValidatorFn> = {
  *
  * @param question The question definition with validation rules
  * @param value The response value to validate
+ * @param options.allowSkip Whether an empty response may skip an optional question (default true)
  * @returns Validation result with errors if any
  */
 export function validateResponse(
   question: QuestionDefinition,
   value: unknown,
+  options: { allowSkip?: boolean } = {},
 ): ValidationResult {
   const errors: ValidationError[] = [];
 
@@ -69,8 +71,17 @@ export function validateResponse(
     return { valid: false, errors };
   }
 
-  // If value is empty and not required, validation passes
+  // If value is empty and not required, validation passes unless skipping is disabled
   if (value === null || value === undefined || value === '') {
+    if (options.allowSkip === false) {
+      errors.push({
+        field: 'value',
+        message:
+          'Skipping questions is not allowed in this survey; a response is required',
+        constraint: 'allowSkip',
+      });
+      return { valid: false, errors };
+    }
     return { valid: true, errors: [] };
   }
 
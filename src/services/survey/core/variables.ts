@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Computed variables: named formulas over a session's answers
+ * (weighted sums, scale averages with reverse-coded items, counts). Variables
+ * are evaluated in definition order, so later variables can build on earlier
+ * ones.
+ * @module src/services/survey/core/variables
+ */
+
+import type {
+  ParticipantSession,
+  QuestionDefinition,
+  SurveyDefinition,
+  VariableDefinition,
+  VariableItem,
+} from '../types.js';
+
+/**
+ * Compute every variable declared by a survey.
+ *
+ * @param survey - Survey definition
+ * @param session - Session whose responses feed the formulas
+ * @returns Values keyed by variable ID; variables with no usable items are omitted
+ */
+export function computeVariables(
+  survey: SurveyDefinition,
+  session: Pick<ParticipantSession, 'responses'>,
+): Record<string, number> {
+  const questionsById = new Map(survey.questions.map((q) => [q.id, q]));
+  const values: Record<string, number> = {};
+
+  for (const variable of survey.variables ?? []) {
+    const value = computeVariable(variable, questionsById, session, values);
+    if (value !== undefined) {
+      values[variable.id] = value;
+    }
+  }
+
+  return values;
+}
+
+function computeVariable(
+  variable: VariableDefinition,
+  questionsById: Map<string, QuestionDefinition>,
+  session: Pick<ParticipantSession, 'responses'>,
+  computed: Record<string, number>,
+): number | undefined {
+  if (variable.formula === 'count') {
+    let count = 0;
+    for (const item of variable.items) {
+      const answer = resolveAnswer(item.ref, session, computed);
+      if (answer === undefined) {
+        continue;
+      }
+      if (!variable.countValues || matchesAny(answer, variable.countValues)) {
+        count += item.weight;
+      }
+    }
+    return round(count, variable.decimals);
+  }
+
+  const terms: Array<{ value: number; weight: number }> = [];
+  for (const item of variable.items) {
+    const value = itemValue(item, questionsById, session, computed);
+    if (value !== undefined) {
+      terms.push({ value: value * item.weight, weight: item.weight });
+    }
+  }
+  if (terms.length === 0) {
+    return undefined;
+  }
+
+  const weighted = terms.map((term) => term.value);
+  switch (variable.formula) {
+    case 'sum':
+      return round(sum(weighted), variable.decimals);
+    case 'average': {
+      const totalWeight = sum(terms.map((term) => term.weight));
+      return totalWeight === 0
+        ? undefined
+        : round(sum(weighted) / totalWeight, variable.decimals);
+    }
+    case 'min':
+      return round(Math.min(...weighted), variable.decimals);
+    case 'max':
+      return round(Math.max(...weighted), variable.decimals);
+  }
+}
+
+/**
+ * Numeric value of one item before weighting, or undefined when it has no
+ * usable answer.
+ */
+function itemValue(
+  item: VariableItem,
+  questionsById: Map<string, QuestionDefinition>,
+  session: Pick<ParticipantSession, 'responses'>,
+  computed: Record<string, number>,
+): number | undefined {
+  if (item.use === 'score') {
+    const response = session.responses[item.ref];
+    return response && !response.skipped ? response.score : undefined;
+  }
+
+  const answer = resolveAnswer(item.ref, session, computed);
+  const value =
+    typeof answer === 'number'
+      ? answer
+      : typeof answer === 'boolean'
+        ? Number(answer)
+        : undefined;
+  if (value === undefined || !Number.isFinite(value)) {
+    return undefined;
+  }
+
+  const scale = questionsById.get(item.ref)?.scale;
+  return item.reverse && scale ? scale.min + scale.max - value : value;
+}
+
+/**
+ * Answer for a question, or the value of an earlier variable.
+ * Skipped questions count as unanswered.
+ */
+function resolveAnswer(
+  ref: string,
+  session: Pick<ParticipantSession, 'responses'>,
+  computed: Record<string, number>,
+): unknown {
+  if (Object.hasOwn(computed, ref)) {
+    return computed[ref];
+  }
+  const response = session.responses[ref];
+  return response && !response.skipped ? response.value : undefined;
+}
+
+function matchesAny(answer: unknown, values: unknown[]): boolean {
+  const answers: unknown[] = Array.isArray(answer) ? answer : [answer];
+  return answers.some((item) => values.includes(item));
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Survey version ordering. Versions are dotted strings such as
+ * "1.0" or "2.1.3"; numeric segments compare numerically, so "1.10" is newer
+ * than "1.9".
+ * @module src/services/survey/core/versions
+ */
+
+import type { SurveyDefinition } from '../types.js';
+
+/**
+ * Compare two survey versions.
+ *
+ * @returns A negative number when `a` is older, positive when newer, 0 when equal
+ */
+export function compareSurveyVersions(a: string, b: string): number {
+  const left = a.split('.');
+  const right = b.split('.');
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const x = left[i] ?? '0';
+    const y = right[i] ?? '0';
+    const numeric = /^\d+$/.test(x) && /^\d+$/.test(y);
+    const order = numeric
+      ? Number(x) - Number(y)
+      : x.localeCompare(y, undefined, { numeric: true });
+    if (order !== 0) {
+      return order;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Pick the newest definition from a survey's loaded versions.
+ *
+ * @param versions - Definitions sharing one survey ID
+ * @returns The latest version, or undefined when the list is empty
+ */
+export function latestSurveyVersion(
+  versions: Iterable<SurveyDefinition>,
+): SurveyDefinition | undefined {
+  let latest: SurveyDefinition | undefined;
+  for (const survey of versions) {
+    if (!latest || compareSurveyVersions(survey.version, latest.version) > 0) {
+      latest = survey;
+    }
+  }
+  return latest;
+}
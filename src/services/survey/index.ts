@@ -4,7 +4,24 @@
  */
 
 export * from './types.js';
+export * from './core/conditions.js';
+export * from './core/crosstab.js';
+export * from './core/formats.js';
+export * from './core/funnel.js';
+export * from './core/grading.js';
 export * from './core/ISurveyProvider.js';
+export * from './core/lifecycle.js';
+export * from './core/linter.js';
+export * from './core/migration.js';
+export * from './core/ordering.js';
+export * from './core/outcomes.js';
+export * from './core/quotas.js';
+export * from './core/statistics.js';
 export * from './core/SurveyService.js';
+export * from './core/templating.js';
+export * from './core/termination.js';
 export * from './core/validation.js';
+export * from './core/variables.js';
+export * from './core/versions.js';
 export * from './providers/filesystem.provider.js';
+export * from './providers/storage.provider.js';
@@ -1,14 +1,20 @@
 /**
  * @fileoverview Filesystem-based survey provider implementation.
- * Loads survey definitions from JSON files and stores session data in filesystem.
+ * Loads survey definitions from JSON, YAML or JSON5 files and stores session
+ * data in filesystem.
  *
  * ARCHITECTURE NOTE: This provider exists separately from StorageService
  * (/src/storage) because it has domain-specific storage requirements:
  *
- * 1. **Survey Definitions (Read-Only):**
- *    - Recursive directory scanning at startup
+ * 1. **Survey Definitions:**
+ *    - Recursive directory scanning at startup, and again on file changes
+ *      when hot reload is enabled (the reloaded set replaces the old one whole)
  *    - Loaded into in-memory Map for fast access
- *    - Static JSON files (no writes)
+ *    - JSON, YAML (.yaml/.yml) or JSON5 files, written back in place and in
+ *      their own format by the authoring tools (new surveys go to
+ *      {definitionsPath}/tenants/{tenantId}/{surveyId}/{version}.json)
+ *    - Question library files under {definitionsPath}/library, loaded first
+ *      so definitions can include shared questions with $ref and $include
  *
  * 2. **Session Responses (Dynamic):**
  *    - Direct filesystem access for domain-specific operations
@@ -18,38 +24,156 @@
  *
  * StorageService (generic key-value with TTL, metadata envelopes) doesn't fit
  * these specialized needs. This follows CLAUDE.md's Service Development Pattern
- * for domain-specific storage implementations.
+ * for domain-specific storage implementations. Deployments that need sessions in
+ * a generic backend (Supabase, Cloudflare KV/R2, in-memory) use
+ * StorageBackedSurveyProvider, which reuses the definition handling here.
  *
  * @module src/services/survey/providers/filesystem.provider
  */
 
-import { existsSync } from 'node:fs';
-import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
-import { join, parse } from 'node:path';
+import { existsSync, watch, type FSWatcher } from 'node:fs';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, join, parse } from 'node:path';
 import { inject, injectable } from 'tsyringe';
 
 import { parseConfig } from '@/config/index.js';
 import { AppConfig } from '@/container/tokens.js';
 import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
-import { logger } from '@/utils/index.js';
+import { logger, requestContextService, sanitization } from '@/utils/index.js';
 import { idGenerator } from '@/utils/security/idGenerator.js';
 import type { ISurveyProvider } from '../core/ISurveyProvider.js';
+import { lintSurveyDefinition } from '../core/linter.js';
+import { buildOutcomeDistribution } from '../core/outcomes.js';
+import { computeVariables } from '../core/variables.js';
+import { computeQuestionStats } from '../core/statistics.js';
+import {
+  definitionFormatFromPath,
+  parseQuestionLibrarySource,
+  parseSurveyDefinitionSource,
+  serializeDefinition,
+} from '../core/formats.js';
+import {
+  addToQuestionLibrary,
+  collapseQuestionReferences,
+  createQuestionLibrary,
+  type QuestionLibrary,
+} from '../core/library.js';
+import {
+  collectQuestionResponses,
+  collectRosterItemKeys,
+  mapRosterQuestions,
+  parseRosterInstanceId,
+  rosterInstanceId,
+} from '../core/rosters.js';
+import {
+  compareSurveyVersions,
+  latestSurveyVersion,
+} from '../core/versions.js';
 import type {
   ExportFilters,
   ExportFormat,
   ParticipantSession,
+  SessionStatusCounts,
   SurveyAnalytics,
   SurveyDefinition,
+  SurveyResponse,
 } from '../types.js';
-import { ParticipantSessionSchema, SurveyDefinitionSchema } from '../types.js';
+import { ParticipantSessionSchema, SKIPPED_RESPONSE_CODE } from '../types.js';
 
 type AppConfigType = ReturnType<typeof parseConfig>;
 
+/** Quiet period after the last file event before definitions are reloaded */
+const DEFINITIONS_RELOAD_DEBOUNCE_MS = 250;
+
+/** Response columns of the long (one row per response) CSV format */
+const LONG_FORMAT_HEADERS = ['questionId', 'rosterItem', 'value', 'answeredAt'];
+
+/** Directory under definitionsPath holding one catalog directory per tenant */
+const TENANT_DEFINITIONS_DIR = 'tenants';
+
+/** Directory under definitionsPath holding the shared question library */
+const QUESTION_LIBRARY_DIR = 'library';
+
+/** Survey definitions by survey ID, then version */
+type SurveyVersionsById = Map<string, Map<string, SurveyDefinition>>;
+
+/**
+ * Survey definitions loaded from disk, swapped into place as a whole.
+ */
+interface DefinitionCatalog {
+  /** Definitions outside the tenants directory, visible to every tenant */
+  shared: SurveyVersionsById;
+  /** Definitions under tenants/{tenantId}/, visible only to that tenant */
+  tenants: Map<string, SurveyVersionsById>;
+  /** File each survey version came from, keyed by definitionKey() */
+  files: Map<string, string>;
+  /** Files that could not be parsed, or were refused in strict mode */
+  failedFiles: Set<string>;
+  /** Questions and blocks that definitions reference with $ref and $include */
+  library: QuestionLibrary;
+}
+
+/**
+ * A survey definition kept outside definitionsPath, with the tenant catalog
+ * it belongs to (none for shared definitions).
+ */
+export interface StoredDefinition {
+  survey: SurveyDefinition;
+  tenantId?: string;
+}
+
+/**
+ * Create an empty definition catalog.
+ */
+function createCatalog(): DefinitionCatalog {
+  return {
+    shared: new Map(),
+    tenants: new Map(),
+    files: new Map(),
+    failedFiles: new Set(),
+    library: createQuestionLibrary(),
+  };
+}
+
+/**
+ * Key identifying a survey version within its catalog: `id@version` for
+ * shared definitions, `tenantId/id@version` for tenant definitions.
+ */
+function definitionKey(
+  surveyId: string,
+  version: string,
+  tenantId?: string,
+): string {
+  const key = `${surveyId}@${version}`;
+  return tenantId !== undefined ? `${tenantId}/${key}` : key;
+}
+
+/**
+ * Get the definitions of one catalog scope: a tenant's, or the shared ones.
+ */
+function catalogScope(
+  catalog: DefinitionCatalog,
+  tenantId?: string,
+): SurveyVersionsById {
+  if (tenantId === undefined) {
+    return catalog.shared;
+  }
+  const scope =
+    catalog.tenants.get(tenantId) ??
+    new Map<string, Map<string, SurveyDefinition>>();
+  catalog.tenants.set(tenantId, scope);
+  return scope;
+}
+
 /**
  * Filesystem-based survey provider.
  *
  * Storage Strategy:
- * - **Definitions:** config.survey.definitionsPath (recursive scan, read-only, in-memory cache)
+ * - **Definitions:** config.survey.definitionsPath (recursive scan, in-memory cache, written by authoring tools)
+ *   - definitionsPath/tenants/{tenantId}/... is visible only to that tenant
+ *   - everything else under definitionsPath is shared by all tenants
+ *   - a tenant survey replaces a shared survey with the same ID for that tenant
+ *   - definitionsPath/library/... holds the question library, not surveys
  * - **Sessions:** config.survey.responsesPath/{tenantId}/{sessionId}.json (direct filesystem R/W)
  *
  * Why not use StorageService?
@@ -63,15 +187,21 @@ type AppConfigType = ReturnType<typeof parseConfig>;
  */
 @injectable()
 export class FilesystemSurveyProvider implements ISurveyProvider {
-  /** In-memory cache of survey definitions (loaded at startup) */
-  private surveys: Map<string, SurveyDefinition> = new Map();
-  /** Path to survey definition JSON files (read-only, recursive scan) */
+  /** In-memory cache of shared and per-tenant survey definitions (loaded at startup, replaced on reload) */
+  private catalog: DefinitionCatalog = createCatalog();
+  /** Path to survey definition files (recursive scan) */
   private surveysPath: string;
   /** Path to session response files (read-write, per-tenant directories) */
   private responsesPath: string;
-  private initialized = false;
-
-  constructor(@inject(AppConfig) private config: AppConfigType) {
+  protected initialized = false;
+  /** Watcher on surveysPath while hot reload is enabled */
+  private watcher: FSWatcher | undefined;
+  /** Pending debounced reload */
+  private reloadTimer: NodeJS.Timeout | undefined;
+  /** Subscribers to definition changes */
+  private definitionListeners = new Set<() => void>();
+
+  constructor(@inject(AppConfig) protected config: AppConfigType) {
     this.surveysPath = this.config.survey.definitionsPath;
     this.responsesPath = this.config.survey.responsesPath;
   }
@@ -86,99 +216,705 @@ export class FilesystemSurveyProvider implements ISurveyProvider {
 
     logger.info('Initializing filesystem survey provider');
 
-    // Create responses directory if it doesn't exist
-    if (!existsSync(this.responsesPath)) {
-      await mkdir(this.responsesPath, { recursive: true });
-      logger.info('Created responses directory');
-    }
+    await this.prepareSessionStorage();
 
     // Check if surveys directory exists
     if (!existsSync(this.surveysPath)) {
       logger.warning('Survey definitions directory does not exist');
-      this.initialized = true;
-      return;
     }
 
-    // Recursively load all survey JSON files
-    await this.loadSurveysRecursive(this.surveysPath);
+    // Recursively load all survey definition files, plus stored definitions
+    this.swapCatalog(await this.loadCatalog());
 
     logger.info('Filesystem survey provider initialized');
 
     this.initialized = true;
   }
 
+  /**
+   * Re-read every definition file and swap the loaded set into place in one
+   * step, so readers never see a partially loaded directory. Files that fail
+   * to load are logged; definitions previously loaded from them are kept, so
+   * a file saved mid-edit does not make its survey disappear.
+   */
+  async reloadDefinitions(): Promise<void> {
+    this.ensureInitialized();
+
+    if (!existsSync(this.surveysPath)) {
+      logger.warning(
+        'Survey definitions directory is missing, keeping loaded definitions',
+      );
+      return;
+    }
+
+    const catalog = await this.loadCatalog();
+    this.keepPreviousDefinitions(catalog);
+    this.swapCatalog(catalog);
+    logger.info('Reloaded survey definitions', {
+      ...requestContextService.createRequestContext({
+        operation: 'FilesystemSurveyProvider.reloadDefinitions',
+      }),
+      sharedSurveyCount: this.catalog.shared.size,
+      tenantCatalogCount: this.catalog.tenants.size,
+    });
+    this.notifyDefinitionsChanged();
+  }
+
+  /**
+   * Watch definitionsPath and reload definitions after files change.
+   * Bursts of events (editors often write a file several times) are
+   * debounced into a single reload.
+   */
+  watchDefinitions(): void {
+    this.ensureInitialized();
+    if (this.watcher) {
+      return;
+    }
+    if (!existsSync(this.surveysPath)) {
+      logger.warning(
+        'Survey definitions directory does not exist, not watching for changes',
+      );
+      return;
+    }
+
+    this.watcher = watch(
+      this.surveysPath,
+      { recursive: true },
+      (_event, filename) => {
+        // Ignore non-definition files such as editor swap files; events for
+        // directories (no extension) can add or remove several definitions
+        if (
+          filename &&
+          parse(filename).ext &&
+          !definitionFormatFromPath(filename)
+        ) {
+          return;
+        }
+        this.scheduleReload();
+      },
+    );
+    this.watcher.on('error', (error) => {
+      logger.error('Survey definitions watcher failed', error);
+      this.unwatchDefinitions();
+    });
+    logger.info('Watching survey definitions for changes');
+  }
+
+  /**
+   * Stop watching definitionsPath and cancel any pending reload.
+   */
+  unwatchDefinitions(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = undefined;
+    }
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  /**
+   * Subscribe to changes in the loaded definitions (reloads from disk and
+   * saves or deletes through the authoring tools).
+   */
+  onDefinitionsChanged(listener: () => void): () => void {
+    this.definitionListeners.add(listener);
+    return () => {
+      this.definitionListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Call every definitions-changed listener. A failing listener is logged and
+   * does not stop the others.
+   */
+  protected notifyDefinitionsChanged(): void {
+    for (const listener of this.definitionListeners) {
+      try {
+        listener();
+      } catch (error) {
+        logger.error(
+          'Survey definitions listener failed',
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+    }
+  }
+
+  /**
+   * Debounce watcher events into a single reload.
+   */
+  private scheduleReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = undefined;
+      this.reloadDefinitions().catch((error: unknown) => {
+        logger.error(
+          'Failed to reload survey definitions',
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      });
+    }, DEFINITIONS_RELOAD_DEBOUNCE_MS);
+  }
+
+  /**
+   * Prepare the backing store for session data.
+   * Creates the responses directory if it doesn't exist.
+   */
+  protected async prepareSessionStorage(): Promise<void> {
+    if (!existsSync(this.responsesPath)) {
+      await mkdir(this.responsesPath, { recursive: true });
+      logger.info('Created responses directory');
+    }
+  }
+
+  /**
+   * Load every definition under definitionsPath into a fresh catalog, then
+   * the stored definitions, which replace file versions with the same key.
+   */
+  private async loadCatalog(): Promise<DefinitionCatalog> {
+    const catalog = createCatalog();
+    if (existsSync(this.surveysPath)) {
+      const libraryPath = join(this.surveysPath, QUESTION_LIBRARY_DIR);
+      if (existsSync(libraryPath)) {
+        await this.loadQuestionLibrary(libraryPath, catalog);
+      }
+      await this.loadSurveysRecursive(this.surveysPath, catalog);
+    }
+
+    for (const { survey, tenantId } of await this.loadStoredDefinitions()) {
+      const scope = catalogScope(catalog, tenantId);
+      const versions =
+        scope.get(survey.id) ?? new Map<string, SurveyDefinition>();
+      versions.set(survey.version, survey);
+      scope.set(survey.id, versions);
+    }
+    return catalog;
+  }
+
+  /**
+   * Load definitions kept outside definitionsPath. This provider keeps every
+   * definition in files, so there are none.
+   */
+  protected loadStoredDefinitions(): Promise<StoredDefinition[]> {
+    return Promise.resolve([]);
+  }
+
+  /**
+   * Recursively load every question library file into a catalog's library.
+   */
+  private async loadQuestionLibrary(
+    dirPath: string,
+    catalog: DefinitionCatalog,
+  ): Promise<void> {
+    const entries = await readdir(dirPath, { withFileTypes: true });
+    for (const entry of entries) {
+      const fullPath = join(dirPath, entry.name);
+      const format = definitionFormatFromPath(entry.name);
+      if (entry.isDirectory()) {
+        await this.loadQuestionLibrary(fullPath, catalog);
+      } else if (entry.isFile() && format) {
+        try {
+          const { document, library } = parseQuestionLibrarySource(
+            await readFile(fullPath, 'utf-8'),
+            format,
+          );
+          const duplicates = addToQuestionLibrary(
+            catalog.library,
+            document,
+            library,
+          );
+          if (duplicates.length > 0) {
+            logger.warning(
+              'Duplicate library question or block IDs detected, skipping',
+              requestContextService.createRequestContext({
+                operation: 'FilesystemSurveyProvider.loadQuestionLibrary',
+                filePath: fullPath,
+                duplicates,
+              }),
+            );
+          }
+        } catch (error) {
+          catalog.failedFiles.add(fullPath);
+          logger.error(
+            'Failed to load question library file',
+            error instanceof Error ? error : new Error(String(error)),
+            requestContextService.createRequestContext({
+              operation: 'FilesystemSurveyProvider.loadQuestionLibrary',
+              filePath: fullPath,
+              ...(error instanceof McpError &&
+                error.data?.issues !== undefined && {
+                  issues: error.data.issues,
+                }),
+            }),
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Carry definitions loaded from files that now fail to load over into a
+   * new catalog, unless the catalog already has that survey version.
+   */
+  private keepPreviousDefinitions(catalog: DefinitionCatalog): void {
+    const scopes: [string | undefined, SurveyVersionsById][] = [
+      [undefined, this.catalog.shared],
+      ...this.catalog.tenants,
+    ];
+    for (const [tenantId, surveys] of scopes) {
+      for (const [surveyId, versions] of surveys) {
+        for (const [version, survey] of versions) {
+          const key = definitionKey(surveyId, version, tenantId);
+          const filePath = this.catalog.files.get(key);
+          if (!filePath || !catalog.failedFiles.has(filePath)) {
+            continue;
+          }
+
+          const scope = catalogScope(catalog, tenantId);
+          const loaded =
+            scope.get(surveyId) ?? new Map<string, SurveyDefinition>();
+          if (loaded.has(version)) {
+            continue;
+          }
+          loaded.set(version, survey);
+          scope.set(surveyId, loaded);
+          catalog.files.set(key, filePath);
+          logger.warning(
+            'Keeping previously loaded survey definition',
+            requestContextService.createRequestContext({
+              operation: 'FilesystemSurveyProvider.reloadDefinitions',
+              surveyId,
+              version,
+              filePath,
+              ...(tenantId !== undefined && { catalogTenantId: tenantId }),
+            }),
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Replace the in-memory definitions with a newly loaded catalog.
+   */
+  private swapCatalog(catalog: DefinitionCatalog): void {
+    this.catalog = catalog;
+  }
+
   /**
    * Recursively scan directory for survey JSON files.
    * This is a specialized operation not available in generic StorageService.
    * Allows organizing surveys in subdirectories (e.g., by category, version).
+   * The top-level tenants directory holds one catalog per tenant instead,
+   * and the top-level library directory holds the question library.
    */
-  private async loadSurveysRecursive(dirPath: string): Promise<void> {
+  private async loadSurveysRecursive(
+    dirPath: string,
+    catalog: DefinitionCatalog,
+    tenantId?: string,
+  ): Promise<void> {
     try {
       const entries = await readdir(dirPath, { withFileTypes: true });
 
       for (const entry of entries) {
         const fullPath = join(dirPath, entry.name);
 
-        if (entry.isDirectory()) {
+        if (
+          entry.isDirectory() &&
+          dirPath === this.surveysPath &&
+          entry.name === TENANT_DEFINITIONS_DIR
+        ) {
+          await this.loadTenantCatalogs(fullPath, catalog);
+        } else if (
+          entry.isDirectory() &&
+          dirPath === this.surveysPath &&
+          entry.name === QUESTION_LIBRARY_DIR
+        ) {
+          // Loaded by loadQuestionLibrary()
+          continue;
+        } else if (entry.isDirectory()) {
           // Recurse into subdirectories
-          await this.loadSurveysRecursive(fullPath);
-        } else if (entry.isFile() && entry.name.endsWith('.json')) {
-          // Load JSON file
-          await this.loadSurveyFile(fullPath);
+          await this.loadSurveysRecursive(fullPath, catalog, tenantId);
+        } else if (entry.isFile() && definitionFormatFromPath(entry.name)) {
+          // Load JSON, YAML or JSON5 file
+          await this.loadSurveyFile(fullPath, catalog, tenantId);
         }
       }
     } catch (error) {
       logger.error(
         'Error scanning survey directory',
         error instanceof Error ? error : new Error(String(error)),
+        requestContextService.createRequestContext({
+          operation: 'FilesystemSurveyProvider.loadSurveysRecursive',
+          dirPath,
+        }),
       );
     }
   }
 
   /**
-   * Load and validate a single survey definition file.
+   * Load each tenants/{tenantId} directory as that tenant's catalog.
+   */
+  private async loadTenantCatalogs(
+    tenantsPath: string,
+    catalog: DefinitionCatalog,
+  ): Promise<void> {
+    const entries = await readdir(tenantsPath, { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        await this.loadSurveysRecursive(
+          join(tenantsPath, entry.name),
+          catalog,
+          entry.name,
+        );
+      } else {
+        logger.warning(
+          'Ignoring file outside a tenant directory',
+          requestContextService.createRequestContext({
+            operation: 'FilesystemSurveyProvider.loadTenantCatalogs',
+            filePath: join(tenantsPath, entry.name),
+          }),
+        );
+      }
+    }
+  }
+
+  /**
+   * Load and validate a single survey definition file into a catalog.
    */
-  private async loadSurveyFile(filePath: string): Promise<void> {
+  private async loadSurveyFile(
+    filePath: string,
+    catalog: DefinitionCatalog,
+    tenantId?: string,
+  ): Promise<void> {
     try {
       const content = await readFile(filePath, 'utf-8');
-      const parsed = JSON.parse(content) as unknown;
 
-      // Validate against schema
-      const survey = SurveyDefinitionSchema.parse(parsed);
+      // Parse in the file's format, expand library questions and validate
+      // against schema
+      const { survey } = parseSurveyDefinitionSource(
+        content,
+        definitionFormatFromPath(filePath) ?? 'json',
+        catalog.library,
+      );
 
-      // Check for duplicate IDs
-      if (this.surveys.has(survey.id)) {
-        logger.warning('Duplicate survey ID detected, skipping');
+      // Several versions of a survey can be loaded side by side, but each
+      // ID and version pair only once
+      const scope = catalogScope(catalog, tenantId);
+      const versions =
+        scope.get(survey.id) ?? new Map<string, SurveyDefinition>();
+      if (versions.has(survey.version)) {
+        logger.warning('Duplicate survey ID and version detected, skipping');
         return;
       }
 
-      this.surveys.set(survey.id, survey);
+      // Semantic checks beyond the schema
+      const lint = lintSurveyDefinition(survey);
+      const lintContext = requestContextService.createRequestContext({
+        operation: 'FilesystemSurveyProvider.loadSurveyFile',
+        surveyId: survey.id,
+        filePath,
+      });
+      if (lint.warnings.length > 0) {
+        logger.warning('Survey definition has lint warnings', {
+          ...lintContext,
+          warnings: lint.warnings.map((issue) => issue.message),
+        });
+      }
+      if (!lint.valid) {
+        const errorContext = {
+          ...lintContext,
+          errors: lint.errors.map((issue) => issue.message),
+        };
+        if (this.config.survey.strictValidation) {
+          logger.error(
+            'Survey definition failed linting, skipping (strict mode)',
+            errorContext,
+          );
+          catalog.failedFiles.add(filePath);
+          return;
+        }
+        logger.warning('Survey definition has lint errors', errorContext);
+      }
+
+      versions.set(survey.version, survey);
+      scope.set(survey.id, versions);
+      catalog.files.set(
+        definitionKey(survey.id, survey.version, tenantId),
+        filePath,
+      );
       logger.debug('Loaded survey definition');
     } catch (error) {
+      catalog.failedFiles.add(filePath);
       logger.error(
         'Failed to load survey file',
         error instanceof Error ? error : new Error(String(error)),
+        requestContextService.createRequestContext({
+          operation: 'FilesystemSurveyProvider.loadSurveyFile',
+          filePath,
+          // Syntax and schema errors, each with its line and column
+          ...(error instanceof McpError &&
+            error.data?.issues !== undefined && { issues: error.data.issues }),
+        }),
       );
     }
   }
 
   /**
-   * Get all available surveys.
+   * Get the surveys visible to a tenant (shared surveys plus the tenant's
+   * own, which replace shared surveys with the same ID), each at its latest
+   * version. Without a tenant, only shared surveys are returned.
    */
-  getAllSurveys(_tenantId?: string): Promise<SurveyDefinition[]> {
+  getAllSurveys(tenantId?: string): Promise<SurveyDefinition[]> {
     this.ensureInitialized();
-    return Promise.resolve(Array.from(this.surveys.values()));
+    const surveyIds = new Set([
+      ...this.catalog.shared.keys(),
+      ...(tenantId !== undefined
+        ? (this.catalog.tenants.get(tenantId)?.keys() ?? [])
+        : []),
+    ]);
+    return Promise.resolve(
+      Array.from(surveyIds)
+        .map((surveyId) =>
+          latestSurveyVersion(
+            this.visibleVersions(surveyId, tenantId)?.values() ?? [],
+          ),
+        )
+        .filter((survey) => survey !== undefined),
+    );
   }
 
   /**
-   * Get a specific survey by ID.
+   * Get a specific survey by ID, at the given version or the latest one.
+   * A specific version missing from a tenant's own survey falls back to the
+   * shared survey, so sessions started before the tenant override still
+   * resolve their pinned version.
    */
   getSurveyById(
     surveyId: string,
-    _tenantId?: string,
+    tenantId?: string,
+    version?: string,
   ): Promise<SurveyDefinition | null> {
     this.ensureInitialized();
-    return Promise.resolve(this.surveys.get(surveyId) || null);
+    const versions = this.visibleVersions(surveyId, tenantId);
+    const survey =
+      version !== undefined
+        ? (versions?.get(version) ??
+          this.catalog.shared.get(surveyId)?.get(version))
+        : versions && latestSurveyVersion(versions.values());
+    return Promise.resolve(survey ?? null);
+  }
+
+  /**
+   * Get every version of a survey visible to a tenant, oldest first.
+   */
+  getSurveyVersions(
+    surveyId: string,
+    tenantId?: string,
+  ): Promise<SurveyDefinition[]> {
+    this.ensureInitialized();
+    return Promise.resolve(
+      Array.from(this.visibleVersions(surveyId, tenantId)?.values() ?? []).sort(
+        (a, b) => compareSurveyVersions(a.version, b.version),
+      ),
+    );
+  }
+
+  /**
+   * Write a survey version to its definition file and refresh the in-memory
+   * cache. Existing versions are written back to the file they were loaded
+   * from. With a tenant, the version goes to the tenant's catalog
+   * ({definitionsPath}/tenants/{tenantId}/{surveyId}/{version}.json); without
+   * one, to the shared catalog ({definitionsPath}/{surveyId}/{version}.json).
+   * A tenant writing a shared survey never changes the shared files: the
+   * shared versions are first copied into the tenant's catalog, which then
+   * overrides the shared survey for that tenant only.
+   */
+  async saveSurvey(
+    survey: SurveyDefinition,
+    tenantId?: string,
+  ): Promise<SurveyDefinition> {
+    this.ensureInitialized();
+    if (tenantId !== undefined && !this.tenantOwnsSurvey(survey.id, tenantId)) {
+      for (const shared of this.catalog.shared.get(survey.id)?.values() ?? []) {
+        if (shared.version !== survey.version) {
+          await this.writeDefinition(shared, tenantId);
+        }
+      }
+    }
+    await this.writeDefinition(survey, tenantId);
+    this.notifyDefinitionsChanged();
+    return survey;
+  }
+
+  /**
+   * Write one survey version into a catalog and its cache entry.
+   */
+  private async writeDefinition(
+    survey: SurveyDefinition,
+    tenantId: string | undefined,
+  ): Promise<void> {
+    const key = definitionKey(survey.id, survey.version, tenantId);
+    const filePath = await this.persistDefinition(
+      survey,
+      tenantId,
+      this.catalog.files.get(key),
+    );
+
+    const scope = catalogScope(this.catalog, tenantId);
+    const versions =
+      scope.get(survey.id) ?? new Map<string, SurveyDefinition>();
+    versions.set(survey.version, survey);
+    scope.set(survey.id, versions);
+    if (filePath) {
+      this.catalog.files.set(key, filePath);
+    }
+  }
+
+  /**
+   * Persist a survey version to its definition file: the file it was loaded
+   * from, or a new one under its catalog's directory.
+   *
+   * @param survey - Survey version to persist
+   * @param tenantId - Tenant catalog, or undefined for the shared catalog
+   * @param loadedFrom - File the version was loaded from, if any
+   * @returns The file now holding the version, if it is kept in one
+   */
+  protected async persistDefinition(
+    survey: SurveyDefinition,
+    tenantId: string | undefined,
+    loadedFrom: string | undefined,
+  ): Promise<string | undefined> {
+    const relativePath = join(
+      ...(tenantId !== undefined ? [TENANT_DEFINITIONS_DIR, tenantId] : []),
+      survey.id,
+      `${survey.version}.json`,
+    );
+    const filePath =
+      loadedFrom ??
+      join(
+        this.surveysPath,
+        sanitization.sanitizePath(relativePath, {
+          rootDir: this.surveysPath,
+        }).sanitizedPath,
+      );
+
+    try {
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(
+        filePath,
+        // Library questions are written back as $ref entries
+        serializeDefinition(
+          collapseQuestionReferences(survey, this.catalog.library),
+          definitionFormatFromPath(filePath) ?? 'json',
+        ),
+        'utf-8',
+      );
+    } catch (error) {
+      throw new McpError(
+        JsonRpcErrorCode.InternalError,
+        'Failed to write survey definition',
+        {
+          surveyId: survey.id,
+          version: survey.version,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      );
+    }
+    return filePath;
+  }
+
+  /**
+   * Delete a survey version visible to a tenant: its definition file and its
+   * entry in the cache. Tenants can only delete their own surveys; shared
+   * surveys are deleted without a tenant.
+   */
+  async deleteSurvey(
+    surveyId: string,
+    version: string,
+    tenantId?: string,
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    if (
+      tenantId !== undefined &&
+      !this.tenantOwnsSurvey(surveyId, tenantId) &&
+      this.catalog.shared.has(surveyId)
+    ) {
+      throw new McpError(
+        JsonRpcErrorCode.Forbidden,
+        `Survey ${surveyId} is shared by all tenants and cannot be deleted by one tenant`,
+        { surveyId, version, tenantId },
+      );
+    }
+    const scope = catalogScope(this.catalog, tenantId);
+    const versions = scope.get(surveyId);
+    if (!versions?.has(version)) {
+      return false;
+    }
+
+    const key = definitionKey(surveyId, version, tenantId);
+    await this.removeDefinition(
+      surveyId,
+      version,
+      tenantId,
+      this.catalog.files.get(key),
+    );
+
+    versions.delete(version);
+    if (versions.size === 0) {
+      scope.delete(surveyId);
+    }
+    this.catalog.files.delete(key);
+    this.notifyDefinitionsChanged();
+    return true;
+  }
+
+  /**
+   * Remove a survey version's persisted definition: the file it was loaded
+   * from, if any.
+   */
+  protected async removeDefinition(
+    _surveyId: string,
+    _version: string,
+    _tenantId: string | undefined,
+    loadedFrom: string | undefined,
+  ): Promise<void> {
+    if (loadedFrom) {
+      await rm(loadedFrom, { force: true });
+    }
+  }
+
+  /**
+   * Get the question library loaded from definitionsPath/library.
+   */
+  getQuestionLibrary(): QuestionLibrary {
+    this.ensureInitialized();
+    return this.catalog.library;
+  }
+
+  /**
+   * Whether a tenant's own catalog has a survey with this ID.
+   */
+  private tenantOwnsSurvey(surveyId: string, tenantId?: string): boolean {
+    return (
+      tenantId !== undefined &&
+      (this.catalog.tenants.get(tenantId)?.has(surveyId) ?? false)
+    );
+  }
+
+  /**
+   * Versions of a survey as a tenant sees them: the tenant's own survey
+   * with that ID if it has one, otherwise the shared survey.
+   */
+  private visibleVersions(
+    surveyId: string,
+    tenantId?: string,
+  ): Map<string, SurveyDefinition> | undefined {
+    return tenantId !== undefined && this.tenantOwnsSurvey(surveyId, tenantId)
+      ? this.catalog.tenants.get(tenantId)?.get(surveyId)
+      : this.catalog.shared.get(surveyId);
   }
 
   /**
@@ -265,9 +1001,7 @@ export class FilesystemSurveyProvider implements ISurveyProvider {
 
   /**
    * Get all sessions for a survey (with optional filters and pagination).
-   * Scans tenant directory and filters by survey ID, status, date range, etc.
-   * This directory-level scanning with in-memory filtering is domain-specific
-   * and not suited to generic StorageService's key-based access pattern.
+   * Pages over the full scan from getAllSessionsBySurvey.
    */
   async getSessionsBySurvey(
     surveyId: string,
@@ -275,12 +1009,34 @@ export class FilesystemSurveyProvider implements ISurveyProvider {
     filters?: ExportFilters,
     pagination: { page: number; pageSize: number } = { page: 1, pageSize: 50 },
   ): Promise<{ sessions: ParticipantSession[]; total: number }> {
+    const sessions = await this.getAllSessionsBySurvey(
+      surveyId,
+      tenantId,
+      filters,
+    );
+    const start = (pagination.page - 1) * pagination.pageSize;
+    const end = start + pagination.pageSize;
+
+    return { sessions: sessions.slice(start, end), total: sessions.length };
+  }
+
+  /**
+   * Get every matching session for a survey, sorted, without pagination.
+   * Scans tenant directory and filters by survey ID, status, date range, etc.
+   * This directory-level scanning with in-memory filtering is domain-specific
+   * and not suited to generic StorageService's key-based access pattern.
+   */
+  async getAllSessionsBySurvey(
+    surveyId: string,
+    tenantId: string,
+    filters?: ExportFilters,
+  ): Promise<ParticipantSession[]> {
     this.ensureInitialized();
 
     const tenantDir = join(this.responsesPath, tenantId);
 
     if (!existsSync(tenantDir)) {
-      return { sessions: [], total: 0 };
+      return [];
     }
 
     const sessions: ParticipantSession[] = [];
@@ -301,25 +1057,7 @@ export class FilesystemSurveyProvider implements ISurveyProvider {
         }
 
         // Apply filters
-        if (filters?.status && session.status !== filters.status) {
-          continue;
-        }
-
-        if (filters?.dateRange) {
-          const sessionDate = new Date(
-            session.completedAt || session.startedAt,
-          );
-          const start = new Date(filters.dateRange.start);
-          const end = new Date(filters.dateRange.end);
-          if (sessionDate < start || sessionDate > end) {
-            continue;
-          }
-        }
-
-        if (
-          filters?.participantIds &&
-          !filters.participantIds.includes(session.participantId)
-        ) {
+        if (!this.matchesFilters(session, filters)) {
           continue;
         }
 
@@ -333,13 +1071,83 @@ export class FilesystemSurveyProvider implements ISurveyProvider {
       }
     }
 
-    // Apply pagination
-    const total = sessions.length;
-    const start = (pagination.page - 1) * pagination.pageSize;
-    const end = start + pagination.pageSize;
-    const paginatedSessions = sessions.slice(start, end);
+    this.sortSessions(sessions);
+    return sessions;
+  }
+
+  /**
+   * List tenants with a session directory under the responses path.
+   */
+  async listTenantIds(): Promise<string[]> {
+    this.ensureInitialized();
+
+    if (!existsSync(this.responsesPath)) {
+      return [];
+    }
+
+    const entries = await readdir(this.responsesPath, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name);
+  }
+
+  /**
+   * Check whether a session satisfies the export filters
+   * (status, survey version, date range, participant IDs, metadata).
+   */
+  protected matchesFilters(
+    session: ParticipantSession,
+    filters?: ExportFilters,
+  ): boolean {
+    if (filters?.status && session.status !== filters.status) {
+      return false;
+    }
+
+    if (
+      filters?.surveyVersion !== undefined &&
+      session.surveyVersion !== filters.surveyVersion
+    ) {
+      return false;
+    }
 
-    return { sessions: paginatedSessions, total };
+    if (filters?.dateRange) {
+      const sessionDate = new Date(session.completedAt || session.startedAt);
+      const start = new Date(filters.dateRange.start);
+      const end = new Date(filters.dateRange.end);
+      if (sessionDate < start || sessionDate > end) {
+        return false;
+      }
+    }
+
+    if (
+      filters?.participantIds &&
+      !filters.participantIds.includes(session.participantId)
+    ) {
+      return false;
+    }
+
+    if (
+      filters?.metadata &&
+      !Object.entries(filters.metadata).every(
+        ([key, value]) => session.metadata?.[key] === value,
+      )
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Order sessions by start time, then ID, so paginated listings are stable
+   * as new sessions arrive.
+   */
+  protected sortSessions(sessions: ParticipantSession[]): ParticipantSession[] {
+    return sessions.sort(
+      (a, b) =>
+        a.startedAt.localeCompare(b.startedAt) ||
+        a.sessionId.localeCompare(b.sessionId),
+    );
   }
 
   /**
@@ -353,79 +1161,165 @@ export class FilesystemSurveyProvider implements ISurveyProvider {
     tenantId: string,
     format: ExportFormat,
     filters?: ExportFilters,
-  ): Promise<{ data: string; recordCount: number }> {
+  ): Promise<{
+    data: string;
+    recordCount: number;
+    statusCounts: SessionStatusCounts;
+  }> {
     this.ensureInitialized();
 
-    // For export, fetch all sessions by using a large page size
-    const { sessions } = await this.getSessionsBySurvey(
+    const sessions = await this.getAllSessionsBySurvey(
       surveyId,
       tenantId,
       filters,
-      { page: 1, pageSize: 10000 },
     );
 
+    const statusCounts: SessionStatusCounts = {};
+    for (const session of sessions) {
+      statusCounts[session.status] = (statusCounts[session.status] ?? 0) + 1;
+    }
+
     if (format === 'json') {
       return {
         data: JSON.stringify(sessions, null, 2),
         recordCount: sessions.length,
+        statusCounts,
       };
     }
 
     // CSV export (domain-specific formatting with question-based columns)
+    const sessionHeaders = [
+      'sessionId',
+      'surveyId',
+      'surveyVersion',
+      'participantId',
+      'status',
+      'startedAt',
+      'completedAt',
+    ];
     if (sessions.length === 0) {
       return {
-        data: 'sessionId,surveyId,participantId,status,startedAt,completedAt',
+        data: (format === 'csv-long'
+          ? [...sessionHeaders, ...LONG_FORMAT_HEADERS]
+          : sessionHeaders
+        ).join(','),
         recordCount: 0,
+        statusCounts,
       };
     }
 
-    // Get survey to extract question IDs
-    const survey = await this.getSurveyById(surveyId, tenantId);
-    if (!survey) {
+    // Each session is read against the version it was pinned to
+    const versions = await this.getSurveyVersions(surveyId, tenantId);
+    const latest = versions[versions.length - 1];
+    if (!latest) {
       throw new McpError(
         JsonRpcErrorCode.NotFound,
         `Survey not found: ${surveyId}`,
       );
     }
+    const surveyFor = (session: ParticipantSession): SurveyDefinition =>
+      versions.find((v) => v.version === session.surveyVersion) ?? latest;
+    const exportedVersions = versions.filter((v) =>
+      sessions.some((session) => surveyFor(session) === v),
+    );
 
-    // Build CSV header
-    const questionIds = survey.questions.map((q) => q.id);
+    // Long format: one row per response, roster instances split into the
+    // repeated question and the item
+    if (format === 'csv-long') {
+      const rows = sessions.flatMap((session) => {
+        const survey = surveyFor(session);
+        const sessionFields = [
+          session.sessionId,
+          session.surveyId,
+          session.surveyVersion,
+          session.participantId,
+          session.status,
+          session.startedAt,
+          session.completedAt || '',
+        ];
+        return this.exportQuestionIds(survey, [session]).flatMap((qid) => {
+          const response = session.responses[qid];
+          if (!response) {
+            return [];
+          }
+          const instance = parseRosterInstanceId(qid);
+          return [
+            [
+              ...sessionFields,
+              instance?.questionId ?? qid,
+              instance?.key ?? '',
+              this.formatCsvResponse(response),
+              response.answeredAt,
+            ]
+              .map((field) => `"${field}"`)
+              .join(','),
+          ];
+        });
+      });
+
+      return {
+        data: [
+          [...sessionHeaders, ...LONG_FORMAT_HEADERS].join(','),
+          ...rows,
+        ].join('\n'),
+        recordCount: sessions.length,
+        statusCounts,
+      };
+    }
+
+    // Build CSV header; roster questions get one column per item
+    const versionQuestionIds = new Map<SurveyDefinition, string[]>(
+      exportedVersions.map((v) => [
+        v,
+        this.exportQuestionIds(
+          v,
+          sessions.filter((session) => surveyFor(session) === v),
+        ),
+      ]),
+    );
+    const questionColumns = this.buildVersionedColumns(
+      exportedVersions,
+      (v) => versionQuestionIds.get(v) ?? [],
+    );
+    const variableColumns = this.buildVersionedColumns(exportedVersions, (v) =>
+      (v.variables ?? []).map((variable) => variable.id),
+    );
+    const hasTerminationRules = exportedVersions.some(
+      (v) => !!v.terminationRules?.length,
+    );
     const headers = [
-      'sessionId',
-      'surveyId',
-      'participantId',
-      'status',
-      'startedAt',
-      'completedAt',
-      ...questionIds,
+      ...sessionHeaders,
+      ...(hasTerminationRules ? ['screenOutRule'] : []),
+      ...questionColumns.map((column) => column.header),
+      ...variableColumns.map((column) => column.header),
     ];
 
     // Build CSV rows
     const rows = sessions.map((session) => {
+      const survey = surveyFor(session);
       const baseFields = [
         session.sessionId,
         session.surveyId,
+        session.surveyVersion,
         session.participantId,
         session.status,
         session.startedAt,
         session.completedAt || '',
+        ...(hasTerminationRules ? [session.screenOut?.ruleId ?? ''] : []),
       ];
 
-      const responseFields = questionIds.map((qid) => {
+      const responseFields = questionColumns.map(({ id: qid }) => {
         const response = session.responses[qid];
-        if (!response) {
-          return '';
-        }
-        // Handle complex values (arrays, objects)
-        if (typeof response.value === 'object' && response.value !== null) {
-          return JSON.stringify(response.value).replace(/"/g, '""');
-        }
-        // For primitives (string, number, boolean)
-        const stringValue = String(response.value);
-        return stringValue.replace(/"/g, '""');
+        return response ? this.formatCsvResponse(response) : '';
       });
 
-      return [...baseFields, ...responseFields]
+      // Sessions recorded before the variables were defined have none stored
+      const variables = session.variables ?? computeVariables(survey, session);
+      const variableFields = variableColumns.map(({ id }) =>
+        variables[id] !== undefined ? String(variables[id]) : '',
+      );
+
+      return [...baseFields, ...responseFields, ...variableFields]
         .map((field) => `"${field}"`)
         .join(',');
     });
@@ -435,26 +1329,106 @@ export class FilesystemSurveyProvider implements ISurveyProvider {
     return {
       data: csv,
       recordCount: sessions.length,
+      statusCounts,
     };
   }
 
+  /**
+   * Question IDs to export for one survey version, in definition order. A
+   * roster question is replaced by its instances for every item the given
+   * sessions listed, e.g. `tool_rating[slack]`, `tool_rating[zoom]`.
+   */
+  private exportQuestionIds(
+    survey: SurveyDefinition,
+    sessions: ParticipantSession[],
+  ): string[] {
+    const rosterQuestions = mapRosterQuestions(survey.rosters ?? []);
+    const rosterKeys = new Map<string, string[]>(
+      (survey.rosters ?? []).map((roster) => [
+        roster.id,
+        collectRosterItemKeys(roster, survey, sessions),
+      ]),
+    );
+
+    return survey.questions.flatMap((q) => {
+      const roster = rosterQuestions.get(q.id);
+      return roster
+        ? (rosterKeys.get(roster.id) ?? []).map((key) =>
+            rosterInstanceId(q.id, key),
+          )
+        : [q.id];
+    });
+  }
+
+  /**
+   * Format a response for a quoted CSV field: the skipped code, JSON for
+   * arrays and objects, or the primitive as a string, with quotes doubled.
+   */
+  private formatCsvResponse(response: SurveyResponse): string {
+    if (response.skipped) {
+      return SKIPPED_RESPONSE_CODE;
+    }
+    // Handle complex values (arrays, objects)
+    if (typeof response.value === 'object' && response.value !== null) {
+      return JSON.stringify(response.value).replace(/"/g, '""');
+    }
+    // For primitives (string, number, boolean)
+    return String(response.value).replace(/"/g, '""');
+  }
+
+  /**
+   * Columns for an export spanning several survey versions: the newest
+   * version's IDs in order, then IDs only older versions have. Columns that
+   * not every exported version defines are labelled with the versions that do,
+   * e.g. `team_size (v1.0/v1.1)`.
+   */
+  private buildVersionedColumns(
+    versions: SurveyDefinition[],
+    idsOf: (survey: SurveyDefinition) => string[],
+  ): Array<{ id: string; header: string }> {
+    const ids: string[] = [];
+    for (const survey of [...versions].reverse()) {
+      for (const id of idsOf(survey)) {
+        if (!ids.includes(id)) {
+          ids.push(id);
+        }
+      }
+    }
+
+    return ids.map((id) => {
+      const definedIn = versions.filter((v) => idsOf(v).includes(id));
+      return {
+        id,
+        header:
+          definedIn.length === versions.length
+            ? id
+            : `${id} (${definedIn.map((v) => `v${v.version}`).join('/')})`,
+      };
+    });
+  }
+
   /**
    * Get analytics summary for a survey.
+   * Per-question statistics depend on the question type (see statistics.ts);
+   * surveys with outcomes also get the outcome distribution.
    */
   async getAnalytics(
     surveyId: string,
     tenantId: string,
+    filters?: ExportFilters,
   ): Promise<SurveyAnalytics> {
     this.ensureInitialized();
 
-    // Fetch all sessions for analytics (use large page size)
-    const { sessions } = await this.getSessionsBySurvey(
+    const sessions = await this.getAllSessionsBySurvey(
+      surveyId,
+      tenantId,
+      filters,
+    );
+    const survey = await this.getSurveyById(
       surveyId,
       tenantId,
-      undefined,
-      { page: 1, pageSize: 10000 },
+      filters?.surveyVersion,
     );
-    const survey = await this.getSurveyById(surveyId, tenantId);
 
     if (!survey) {
       throw new McpError(
@@ -474,6 +1448,12 @@ export class FilesystemSurveyProvider implements ISurveyProvider {
     const abandonedSessions = sessions.filter(
       (s) => s.status === 'abandoned',
     ).length;
+    const expiredSessions = sessions.filter(
+      (s) => s.status === 'expired',
+    ).length;
+    const screenedOutSessions = sessions.filter(
+      (s) => s.status === 'screened-out',
+    ).length;
 
     // Calculate average completion time
     const completed = sessions.filter((s) => s.status === 'completed');
@@ -491,41 +1471,37 @@ export class FilesystemSurveyProvider implements ISurveyProvider {
       averageCompletionTime = `${avgMinutes} minutes`;
     }
 
-    // Calculate question stats
+    // Calculate question stats; roster questions pool every item's answers
+    const rosterQuestions = mapRosterQuestions(survey.rosters ?? []);
     const questionStats = survey.questions.map((question) => {
-      const responses = sessions
-        .map((s) => s.responses[question.id])
-        .filter((r) => r !== undefined);
-
-      const responseCount = responses.length;
-
-      // For multiple-choice questions, calculate distribution
-      let responseDistribution: Record<string, number> | undefined;
-      if (
-        question.type === 'multiple-choice' ||
-        question.type === 'rating-scale'
-      ) {
-        responseDistribution = {};
-        for (const response of responses) {
-          const value = String(response.value);
-          responseDistribution[value] = (responseDistribution[value] || 0) + 1;
-        }
-      }
-
-      return {
-        questionId: question.id,
-        responseCount,
-        ...(responseDistribution && { responseDistribution }),
-      };
+      const sessionResponses = sessions.map((s) =>
+        collectQuestionResponses(question.id, s, rosterQuestions),
+      );
+      const stats = computeQuestionStats(question, sessionResponses.flat());
+      const roster = rosterQuestions.get(question.id);
+      return roster
+        ? {
+            ...stats,
+            rosterId: roster.id,
+            respondentCount: sessionResponses.filter((responses) =>
+              responses.some((r) => !r.skipped),
+            ).length,
+          }
+        : stats;
     });
 
+    const outcomeDistribution = buildOutcomeDistribution(survey, sessions);
+
     return {
       totalSessions,
       completedSessions,
       inProgressSessions,
       abandonedSessions,
+      expiredSessions,
+      screenedOutSessions,
       ...(averageCompletionTime && { averageCompletionTime }),
       questionStats,
+      ...(outcomeDistribution && { outcomeDistribution }),
     };
   }
 
@@ -556,7 +1532,7 @@ export class FilesystemSurveyProvider implements ISurveyProvider {
   /**
    * Throw error if provider not initialized.
    */
-  private ensureInitialized(): void {
+  protected ensureInitialized(): void {
     if (!this.initialized) {
       throw new McpError(
         JsonRpcErrorCode.InternalError,
@@ -0,0 +1,378 @@
+/**
+ * @fileoverview Survey provider that persists sessions and authored survey
+ * definitions through the generic StorageService (in-memory, filesystem,
+ * Supabase, Cloudflare KV/R2). Definition files under definitionsPath are
+ * still loaded when the directory exists, so deployments without a
+ * filesystem (Cloudflare Workers) rely on definitions saved with the
+ * authoring tools.
+ *
+ * Key layout (per tenant, enforced by StorageService):
+ * - `survey-sessions/{sessionId}` → ParticipantSession
+ * - `survey-index/{surveyId}/{sessionId}` → session ID marker used to enumerate
+ *   the sessions of a survey without scanning every session
+ *
+ * Under the reserved `survey-registry` tenant:
+ * - `survey-tenants/{tenantId}` records tenants that have sessions, so
+ *   maintenance jobs can find them
+ * - `survey-definitions/shared/{surveyId}/{version}` and
+ *   `survey-definitions/tenants/{tenantId}/{surveyId}/{version}` →
+ *   SurveyDefinition for the shared and per-tenant catalogs
+ *
+ * @module src/services/survey/providers/storage.provider
+ */
+
+import { inject, injectable } from 'tsyringe';
+
+import { parseConfig } from '@/config/index.js';
+import { AppConfig, StorageService } from '@/container/tokens.js';
+import type { StorageService as StorageServiceClass } from '@/storage/core/StorageService.js';
+import {
+  logger,
+  requestContextService,
+  type RequestContext,
+} from '@/utils/index.js';
+import { idGenerator } from '@/utils/security/idGenerator.js';
+import type {
+  ExportFilters,
+  ParticipantSession,
+  SurveyDefinition,
+} from '../types.js';
+import { ParticipantSessionSchema, SurveyDefinitionSchema } from '../types.js';
+import {
+  FilesystemSurveyProvider,
+  type StoredDefinition,
+} from './filesystem.provider.js';
+
+type AppConfigType = ReturnType<typeof parseConfig>;
+
+const SESSION_KEY_PREFIX = 'survey-sessions/';
+const SURVEY_INDEX_KEY_PREFIX = 'survey-index/';
+const TENANT_REGISTRY_KEY_PREFIX = 'survey-tenants/';
+const DEFINITION_KEY_PREFIX = 'survey-definitions/';
+const REGISTRY_TENANT_ID = 'survey-registry';
+
+/**
+ * Survey provider backed by StorageService.
+ *
+ * Storage Strategy:
+ * - **Definitions:** StorageService keys under the registry tenant, on top of
+ *   any files under definitionsPath (stored versions replace file versions)
+ * - **Sessions:** StorageService keys, isolated per tenant by the storage layer
+ *
+ * Export and analytics are inherited unchanged; they read sessions through
+ * `getAllSessionsBySurvey`, which this provider resolves from the survey
+ * index.
+ */
+@injectable()
+export class StorageBackedSurveyProvider extends FilesystemSurveyProvider {
+  constructor(
+    @inject(AppConfig) config: AppConfigType,
+    @inject(StorageService) private storage: StorageServiceClass,
+  ) {
+    super(config);
+  }
+
+  /**
+   * Sessions live in StorageService, so there is no local directory to prepare.
+   */
+  protected override prepareSessionStorage(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /**
+   * Stored definitions need no directory, so the provider is healthy once
+   * initialized.
+   */
+  override healthCheck(): Promise<boolean> {
+    return Promise.resolve(this.initialized);
+  }
+
+  /**
+   * Load the definitions saved in storage. Records that fail the schema are
+   * logged and skipped.
+   */
+  protected override async loadStoredDefinitions(): Promise<
+    StoredDefinition[]
+  > {
+    const context = this.createStorageContext(
+      REGISTRY_TENANT_ID,
+      'loadStoredDefinitions',
+    );
+
+    const keys: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.storage.list(DEFINITION_KEY_PREFIX, context, {
+        ...(cursor && { cursor }),
+      });
+      keys.push(...page.keys);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    const stored = await this.storage.getMany<unknown>(keys, context);
+
+    const definitions: StoredDefinition[] = [];
+    for (const key of keys) {
+      const parsed = SurveyDefinitionSchema.safeParse(stored.get(key));
+      if (!parsed.success) {
+        logger.warning('Skipping invalid stored survey definition', {
+          ...context,
+          key,
+        });
+        continue;
+      }
+      const [scope, tenantId] = key
+        .slice(DEFINITION_KEY_PREFIX.length)
+        .split('/');
+      definitions.push({
+        survey: parsed.data,
+        ...(scope === 'tenants' && tenantId !== undefined && { tenantId }),
+      });
+    }
+
+    if (definitions.length > 0) {
+      logger.info('Loaded stored survey definitions', {
+        ...context,
+        definitionCount: definitions.length,
+      });
+    }
+    return definitions;
+  }
+
+  /**
+   * Save a survey version to storage. A file it was loaded from is left as
+   * is and still removed when the version is deleted.
+   */
+  protected override async persistDefinition(
+    survey: SurveyDefinition,
+    tenantId: string | undefined,
+    loadedFrom: string | undefined,
+  ): Promise<string | undefined> {
+    await this.storage.set(
+      this.getDefinitionKey(survey.id, survey.version, tenantId),
+      survey,
+      this.createStorageContext(REGISTRY_TENANT_ID, 'persistDefinition'),
+    );
+    return loadedFrom;
+  }
+
+  /**
+   * Remove a survey version from storage, and the file it was loaded from.
+   */
+  protected override async removeDefinition(
+    surveyId: string,
+    version: string,
+    tenantId: string | undefined,
+    loadedFrom: string | undefined,
+  ): Promise<void> {
+    await super.removeDefinition(surveyId, version, tenantId, loadedFrom);
+    await this.storage.delete(
+      this.getDefinitionKey(surveyId, version, tenantId),
+      this.createStorageContext(REGISTRY_TENANT_ID, 'removeDefinition'),
+    );
+  }
+
+  /**
+   * Create a new participant session and register it in the survey index.
+   */
+  override async createSession(
+    session: ParticipantSession,
+  ): Promise<ParticipantSession> {
+    this.ensureInitialized();
+
+    const validatedSession = ParticipantSessionSchema.parse({
+      ...session,
+      sessionId: session.sessionId || `sess_${idGenerator.generate()}`,
+    });
+
+    const context = this.createStorageContext(
+      validatedSession.tenantId,
+      'createSession',
+    );
+    await this.storage.setMany(
+      new Map<string, unknown>([
+        [this.getSessionKey(validatedSession.sessionId), validatedSession],
+        [
+          this.getIndexKey(
+            validatedSession.surveyId,
+            validatedSession.sessionId,
+          ),
+          validatedSession.sessionId,
+        ],
+      ]),
+      context,
+    );
+    await this.storage.set(
+      `${TENANT_REGISTRY_KEY_PREFIX}${validatedSession.tenantId}`,
+      validatedSession.tenantId,
+      this.createStorageContext(REGISTRY_TENANT_ID, 'registerTenant'),
+    );
+
+    logger.debug('Created participant session', context);
+
+    return validatedSession;
+  }
+
+  /**
+   * Get an existing session.
+   */
+  override async getSession(
+    sessionId: string,
+    tenantId: string,
+  ): Promise<ParticipantSession | null> {
+    this.ensureInitialized();
+
+    const context = this.createStorageContext(tenantId, 'getSession');
+    const stored = await this.storage.get<unknown>(
+      this.getSessionKey(sessionId),
+      context,
+    );
+    if (stored === null) {
+      return null;
+    }
+
+    const parsed = ParticipantSessionSchema.safeParse(stored);
+    if (!parsed.success) {
+      logger.error('Failed to read session', {
+        ...context,
+        sessionId,
+        error: parsed.error.message,
+      });
+      return null;
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Update an existing session.
+   */
+  override async updateSession(
+    session: ParticipantSession,
+  ): Promise<ParticipantSession> {
+    this.ensureInitialized();
+
+    const validatedSession = ParticipantSessionSchema.parse(session);
+
+    const context = this.createStorageContext(
+      validatedSession.tenantId,
+      'updateSession',
+    );
+    await this.storage.set(
+      this.getSessionKey(validatedSession.sessionId),
+      validatedSession,
+      context,
+    );
+
+    logger.debug('Updated participant session', context);
+
+    return validatedSession;
+  }
+
+  /**
+   * Get every matching session for a survey, sorted, without pagination.
+   * Walks the survey index page by page, then batch-loads the sessions.
+   */
+  override async getAllSessionsBySurvey(
+    surveyId: string,
+    tenantId: string,
+    filters?: ExportFilters,
+  ): Promise<ParticipantSession[]> {
+    this.ensureInitialized();
+
+    const context = this.createStorageContext(
+      tenantId,
+      'getAllSessionsBySurvey',
+    );
+    const indexPrefix = `${SURVEY_INDEX_KEY_PREFIX}${surveyId}/`;
+
+    const sessionKeys: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.storage.list(indexPrefix, context, {
+        ...(cursor && { cursor }),
+      });
+      for (const key of page.keys) {
+        sessionKeys.push(this.getSessionKey(key.slice(indexPrefix.length)));
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    const stored = await this.storage.getMany<unknown>(sessionKeys, context);
+
+    const sessions: ParticipantSession[] = [];
+    for (const key of sessionKeys) {
+      const parsed = ParticipantSessionSchema.safeParse(stored.get(key));
+      if (!parsed.success) {
+        logger.warning('Skipping invalid session record', {
+          ...context,
+          key,
+        });
+        continue;
+      }
+      if (this.matchesFilters(parsed.data, filters)) {
+        sessions.push(parsed.data);
+      }
+    }
+
+    this.sortSessions(sessions);
+    return sessions;
+  }
+
+  /**
+   * List tenants recorded in the tenant registry.
+   */
+  override async listTenantIds(): Promise<string[]> {
+    this.ensureInitialized();
+
+    const context = this.createStorageContext(
+      REGISTRY_TENANT_ID,
+      'listTenantIds',
+    );
+
+    const tenantIds: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.storage.list(
+        TENANT_REGISTRY_KEY_PREFIX,
+        context,
+        { ...(cursor && { cursor }) },
+      );
+      for (const key of page.keys) {
+        tenantIds.push(key.slice(TENANT_REGISTRY_KEY_PREFIX.length));
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return tenantIds;
+  }
+
+  /**
+   * Build a tenant-scoped request context for StorageService calls.
+   */
+  private createStorageContext(
+    tenantId: string,
+    operation: string,
+  ): RequestContext {
+    return requestContextService.createRequestContext({
+      operation: `StorageBackedSurveyProvider.${operation}`,
+      tenantId,
+    });
+  }
+
+  private getSessionKey(sessionId: string): string {
+    return `${SESSION_KEY_PREFIX}${sessionId}`;
+  }
+
+  private getIndexKey(surveyId: string, sessionId: string): string {
+    return `${SURVEY_INDEX_KEY_PREFIX}${surveyId}/${sessionId}`;
+  }
+
+  private getDefinitionKey(
+    surveyId: string,
+    version: string,
+    tenantId: string | undefined,
+  ): string {
+    const scope = tenantId !== undefined ? `tenants/${tenantId}` : 'shared';
+    return `${DEFINITION_KEY_PREFIX}${scope}/${surveyId}/${version}`;
+  }
+}
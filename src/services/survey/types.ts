@@ -108,36 +108,230 @@ export const DateTimeValidationSchema = z.object({
 
 export type DateTimeValidation = z.infer<typeof DateTimeValidationSchema>;
 
+/**
+ * Primitive value a condition can compare an answer against.
+ */
+export const ConditionPrimitiveSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+]);
+
+export type ConditionPrimitive = z.infer<typeof ConditionPrimitiveSchema>;
+
+/**
+ * Comparison operators available to expression-based conditions.
+ * - `eq` / `neq`: strict equality (arrays compare as sets)
+ * - `gt` / `gte` / `lt` / `lte`: numeric comparison, or lexical for strings (ISO dates)
+ * - `in` / `notIn`: answer (or any selected value) is in the given list
+ * - `contains` / `notContains`: array answer includes the value, or string answer includes the substring
+ * - `answered` / `notAnswered`: presence check, no `value` required
+ */
+export const ConditionOperatorSchema = z.enum([
+  'eq',
+  'neq',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'notIn',
+  'contains',
+  'notContains',
+  'answered',
+  'notAnswered',
+]);
+
+export type ConditionOperator = z.infer<typeof ConditionOperatorSchema>;
+
+/**
+ * Operators that compare against a list of values.
+ */
+const LIST_OPERATORS: ReadonlySet<ConditionOperator> = new Set(['in', 'notIn']);
+
+/**
+ * Operators that only check whether the question has been answered.
+ */
+const PRESENCE_OPERATORS: ReadonlySet<ConditionOperator> = new Set([
+  'answered',
+  'notAnswered',
+]);
+
 /**
  * Single condition for conditional logic.
+ * Either the legacy `showIf` form (answer must match one of the listed values)
+ * or an expression using `op` and `value`.
  */
-export const SingleConditionSchema = z.object({
-  dependsOn: z.string().describe('Question ID this condition depends on'),
-  showIf: z
-    .array(z.union([z.string(), z.number(), z.boolean()]))
-    .describe('Values that trigger this question to be shown'),
-});
+export const SingleConditionSchema = z
+  .object({
+    dependsOn: z
+      .string()
+      .describe(
+        'Question ID (or computed variable ID) this condition depends on',
+      ),
+    showIf: z
+      .array(ConditionPrimitiveSchema)
+      .optional()
+      .describe(
+        'Values that trigger this question to be shown (legacy form, equivalent to op "in")',
+      ),
+    op: ConditionOperatorSchema.optional().describe(
+      'Comparison operator applied to the dependency answer',
+    ),
+    value: z
+      .union([ConditionPrimitiveSchema, z.array(ConditionPrimitiveSchema)])
+      .optional()
+      .describe('Value (or list of values for in/notIn) to compare against'),
+    path: z
+      .string()
+      .optional()
+      .describe(
+        'Dot-separated path into an object answer (e.g. a matrix row ID)',
+      ),
+  })
+  .superRefine((condition, ctx) => {
+    const hasShowIf = condition.showIf !== undefined;
+    const hasOp = condition.op !== undefined;
+    if (hasShowIf === hasOp) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Condition must define exactly one of "showIf" or "op"',
+      });
+      return;
+    }
+    if (!condition.op) {
+      return;
+    }
+    if (PRESENCE_OPERATORS.has(condition.op)) {
+      if (condition.value !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['value'],
+          message: `Operator "${condition.op}" does not take a value`,
+        });
+      }
+    } else if (condition.value === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['value'],
+        message: `Operator "${condition.op}" requires a value`,
+      });
+    } else if (
+      LIST_OPERATORS.has(condition.op) !== Array.isArray(condition.value)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['value'],
+        message: LIST_OPERATORS.has(condition.op)
+          ? `Operator "${condition.op}" requires an array value`
+          : `Operator "${condition.op}" requires a single value`,
+      });
+    }
+  });
+
+export type SingleCondition = z.infer<typeof SingleConditionSchema>;
+
+/**
+ * Group of conditions combined with AND/OR. Members may themselves be groups.
+ */
+export interface ConditionGroup {
+  operator: 'AND' | 'OR';
+  conditions: ConditionalLogic[];
+}
+
+/**
+ * Negation of a condition or group.
+ */
+export interface ConditionNegation {
+  operator: 'NOT';
+  condition: ConditionalLogic;
+}
+
+export type ConditionalLogic =
+  | SingleCondition
+  | ConditionGroup
+  | ConditionNegation;
 
 /**
  * Conditional logic for question display.
- * Supports both simple single-condition and complex multi-condition logic.
- */
-export const ConditionalLogicSchema = z.union([
-  // Simple single condition
-  SingleConditionSchema,
-  // Multi-condition with operator
-  z.object({
-    operator: z
-      .enum(['AND', 'OR'])
-      .describe('Logical operator for combining conditions'),
-    conditions: z
-      .array(SingleConditionSchema)
-      .min(2)
-      .describe('Array of conditions to evaluate'),
-  }),
-]);
+ * Supports single conditions, AND/OR groups, and NOT, nested to any depth.
+ */
+export const ConditionalLogicSchema: z.ZodType<
+  ConditionalLogic,
+  z.ZodTypeDef,
+  unknown
+> = z.lazy(() =>
+  z.union([
+    // Single condition (legacy showIf or expression)
+    SingleConditionSchema,
+    // Multi-condition with operator
+    z.object({
+      operator: z
+        .enum(['AND', 'OR'])
+        .describe('Logical operator for combining conditions'),
+      conditions: z
+        .array(ConditionalLogicSchema)
+        .min(1)
+        .describe('Conditions or nested groups to evaluate'),
+    }),
+    // Negation
+    z.object({
+      operator: z.literal('NOT').describe('Negates the nested condition'),
+      condition: ConditionalLogicSchema.describe('Condition to negate'),
+    }),
+  ]),
+);
+
+/**
+ * Correct-answer key for quiz questions.
+ */
+export const AnswerKeySchema = z.object({
+  correct: z
+    .union([ConditionPrimitiveSchema, z.array(ConditionPrimitiveSchema)])
+    .describe(
+      'The correct answer: an accepted value (or list of accepted values), or for multiple-select the full set of values to select',
+    ),
+  tolerance: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe(
+      'Number and rating-scale questions: also accept answers within ± this amount',
+    ),
+  partialCredit: z
+    .boolean()
+    .default(false)
+    .describe(
+      'Multiple-select: award (correct selections − incorrect selections) / correct values instead of all-or-nothing',
+    ),
+  caseSensitive: z
+    .boolean()
+    .default(false)
+    .describe('Text answers: compare case-sensitively'),
+  points: z
+    .number()
+    .positive()
+    .default(1)
+    .describe('Points for a fully correct answer'),
+  feedback: z
+    .object({
+      correct: z.string().optional().describe('Shown for a correct answer'),
+      incorrect: z
+        .string()
+        .optional()
+        .describe('Shown for an incorrect answer'),
+      partial: z
+        .string()
+        .optional()
+        .describe(
+          'Shown for a partially correct answer (falls back to incorrect)',
+        ),
+    })
+    .optional()
+    .describe('Feedback returned after the participant answers'),
+});
 
-export type ConditionalLogic = z.infer<typeof ConditionalLogicSchema>;
+export type AnswerKey = z.infer<typeof AnswerKeySchema>;
 
 /**
  * Validation rules for question responses.
@@ -183,12 +377,16 @@ export type ValidationRules = z.infer<typeof ValidationRulesSchema>;
 export const QuestionDefinitionSchema = z.object({
   id: z.string().describe('Unique question identifier within the survey'),
   type: QuestionTypeSchema.describe('Question type'),
-  text: z.string().describe('Question text displayed to participants'),
+  text: z
+    .string()
+    .describe(
+      'Question text displayed to participants; may pipe in earlier answers with {{answers.<questionId>}} / {{answers.<questionId>.label}}, computed variables with {{variables.<variableId>}}, or session metadata with {{metadata.<key>}}',
+    ),
   helpText: z
     .string()
     .optional()
     .describe(
-      'Optional help text providing additional context or instructions for the question',
+      'Optional help text providing additional context or instructions for the question (supports the same templates as text)',
     ),
   required: z
     .boolean()
@@ -210,10 +408,263 @@ export const QuestionDefinitionSchema = z.object({
   validation: ValidationRulesSchema.optional().describe(
     'Validation rules for responses',
   ),
+  answerKey: AnswerKeySchema.optional().describe(
+    'Quiz questions: the correct answer, used for grading and feedback (never shown to participants)',
+  ),
+  libraryRef: z
+    .string()
+    .optional()
+    .describe(
+      'Question library entry this question was included from (set when a $ref or $include is resolved); links the question across surveys in analytics',
+    ),
 });
 
 export type QuestionDefinition = z.infer<typeof QuestionDefinitionSchema>;
 
+/**
+ * One term of a computed variable.
+ */
+export const VariableItemSchema = z.object({
+  ref: z
+    .string()
+    .describe(
+      'Question ID, or the ID of a variable defined earlier in the list',
+    ),
+  weight: z
+    .number()
+    .default(1)
+    .describe('Multiplier applied to the item value'),
+  reverse: z
+    .boolean()
+    .default(false)
+    .describe(
+      'Reverse-code a rating-scale item (min + max - value) before weighting',
+    ),
+  use: z
+    .enum(['value', 'score'])
+    .default('value')
+    .describe(
+      'value: the numeric answer (booleans count as 1/0); score: the option score recorded for the answer',
+    ),
+});
+
+export type VariableItem = z.infer<typeof VariableItemSchema>;
+
+/**
+ * Named formula over answers, recomputed whenever a response changes.
+ */
+export const VariableDefinitionSchema = z.object({
+  id: z
+    .string()
+    .regex(
+      /^[A-Za-z_][A-Za-z0-9_]*$/,
+      'Variable IDs must start with a letter or underscore and contain only letters, digits and underscores',
+    )
+    .describe('Variable identifier, usable in conditions and templates'),
+  description: z.string().optional().describe('What the variable measures'),
+  formula: z
+    .enum(['sum', 'average', 'count', 'min', 'max'])
+    .describe(
+      'sum: weighted sum; average: weighted mean; count: answered items (or items matching countValues); min/max: extreme weighted value',
+    ),
+  items: z
+    .array(VariableItemSchema)
+    .min(1)
+    .describe('Questions or earlier variables the formula reads'),
+  countValues: z
+    .array(ConditionPrimitiveSchema)
+    .optional()
+    .describe(
+      'For count: only count items whose answer (or any selected value) is one of these',
+    ),
+  decimals: z
+    .number()
+    .int()
+    .min(0)
+    .max(10)
+    .default(2)
+    .describe('Decimal places to round the result to'),
+});
+
+export type VariableDefinition = z.infer<typeof VariableDefinitionSchema>;
+
+/**
+ * Outcome band assigned when a session completes. Outcomes are checked in
+ * order and the first one whose criteria all hold is assigned; an outcome
+ * without criteria matches every session, so it works as a final catch-all.
+ */
+export const OutcomeDefinitionSchema = z.object({
+  id: z.string().describe('Outcome identifier'),
+  label: z
+    .string()
+    .describe('Short outcome name shown to participants (e.g., "Beginner")'),
+  message: z
+    .string()
+    .optional()
+    .describe(
+      'Completion message for this outcome; may pipe in {{answers.<questionId>}}, {{variables.<variableId>}} or {{metadata.<key>}}',
+    ),
+  recommendation: z
+    .string()
+    .optional()
+    .describe('Suggested next step; supports the same templates as message'),
+  scoreRange: z
+    .object({
+      min: z.number().optional().describe('Lowest matching score (inclusive)'),
+      max: z.number().optional().describe('Highest matching score (inclusive)'),
+    })
+    .optional()
+    .describe("Bounds on the session's total score"),
+  when: ConditionalLogicSchema.optional().describe(
+    'Condition on answers or computed variables that must also hold',
+  ),
+});
+
+export type OutcomeDefinition = z.infer<typeof OutcomeDefinitionSchema>;
+
+/**
+ * Screen-out rule, checked after every response. When its condition matches,
+ * the session ends as `screened-out` (e.g. a participant who does not
+ * qualify for the study).
+ */
+export const TerminationRuleSchema = z.object({
+  id: z.string().describe('Rule identifier, recorded on screened-out sessions'),
+  when: ConditionalLogicSchema.describe(
+    'Condition on answers or computed variables that ends the session',
+  ),
+  message: z
+    .string()
+    .optional()
+    .describe(
+      'Message for the participant; may pipe in {{answers.<questionId>}}, {{variables.<variableId>}} or {{metadata.<key>}}',
+    ),
+});
+
+export type TerminationRule = z.infer<typeof TerminationRuleSchema>;
+
+/**
+ * Quota cell: caps completes among sessions whose answer to a question
+ * matches one of the given values (e.g. 50 completes per `user_role`).
+ */
+export const QuotaCellSchema = z.object({
+  id: z.string().describe('Quota cell identifier'),
+  label: z.string().optional().describe('Display name for operators'),
+  questionId: z.string().describe('Question whose answer places a session'),
+  value: z
+    .union([ConditionPrimitiveSchema, z.array(ConditionPrimitiveSchema)])
+    .describe(
+      'Answer value (or list of values) that places a session in this cell; for multiple-select, any selected value matches',
+    ),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .describe('Maximum completed sessions in this cell'),
+  message: z
+    .string()
+    .optional()
+    .describe(
+      'Message for participants screened out because the cell is full; supports the same templates as termination messages',
+    ),
+});
+
+export type QuotaCell = z.infer<typeof QuotaCellSchema>;
+
+/**
+ * Completion quotas: an overall cap and per-segment cells.
+ */
+export const QuotaDefinitionSchema = z.object({
+  maxCompletes: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Stop starting new sessions once this many have completed'),
+  message: z
+    .string()
+    .optional()
+    .describe(
+      'Message for participants when the survey is full (plain text, shown before any answers exist)',
+    ),
+  cells: z
+    .array(QuotaCellSchema)
+    .default([])
+    .describe(
+      'Segment quotas checked after each qualifying answer; a session in a full cell is screened out',
+    ),
+});
+
+export type QuotaDefinition = z.infer<typeof QuotaDefinitionSchema>;
+
+/**
+ * Section of a survey: a topic that groups questions, with an intro for the
+ * interviewer and an optional condition that shows or hides all of them.
+ */
+export const SurveySectionSchema = z.object({
+  id: z.string().describe('Unique section identifier'),
+  title: z.string().describe('Section title (e.g. "Pricing")'),
+  intro: z
+    .string()
+    .optional()
+    .describe(
+      'Transition for the interviewer when the section starts; may pipe in {{answers.<questionId>}}, {{variables.<variableId>}} or {{metadata.<key>}}',
+    ),
+  conditional: ConditionalLogicSchema.optional().describe(
+    'Condition for showing the section; when it fails, none of its questions are asked',
+  ),
+  questionIds: z
+    .array(z.string())
+    .min(1)
+    .describe('Questions in the section, in the order they are asked'),
+});
+
+export type SurveySection = z.infer<typeof SurveySectionSchema>;
+
+/**
+ * Roster: a group of questions asked once per item, where the items are the
+ * options selected in a `multiple-select` question or the entries listed in
+ * a `free-form` answer. Each instance's answer is stored under an
+ * instance-keyed ID such as `tool_rating[slack]`.
+ */
+export const RosterDefinitionSchema = z.object({
+  id: z.string().describe('Unique roster identifier'),
+  sourceQuestionId: z
+    .string()
+    .describe(
+      'multiple-select question whose selected options, or free-form question whose entries (one per line or comma-separated), are the roster items',
+    ),
+  questionIds: z
+    .array(z.string())
+    .min(1)
+    .describe(
+      'Questions repeated per item; their text may pipe in {{item.label}} or {{item.value}}',
+    ),
+  maxItems: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Only the first maxItems items are asked about'),
+});
+
+export type RosterDefinition = z.infer<typeof RosterDefinitionSchema>;
+
+/**
+ * The roster item a repeated question instance is asked about.
+ */
+export const RosterItemSchema = z.object({
+  rosterId: z.string().describe('Roster the instance belongs to'),
+  questionId: z.string().describe('ID of the repeated question'),
+  key: z
+    .string()
+    .describe(
+      'Item key: the selected option value, or a slug of the free-form entry',
+    ),
+  label: z.string().describe('Item label shown to the participant'),
+});
+
+export type RosterItem = z.infer<typeof RosterItemSchema>;
+
 /**
  * Survey settings and configuration.
  */
@@ -235,6 +686,34 @@ export const SurveySettingsSchema = z.object({
     .int()
     .optional()
     .describe('Maximum validation attempts per question'),
+  inactivityTimeoutMinutes: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe(
+      'Minutes of inactivity before an in-progress session is marked abandoned (0 disables; overrides the server default)',
+    ),
+  sessionDeadlineHours: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe(
+      'Hours after start when an unfinished session is marked expired (0 disables; overrides the server default)',
+    ),
+  revealCorrectness: z
+    .enum(['immediately', 'on-completion'])
+    .default('immediately')
+    .describe(
+      'Quiz questions: report correctness and feedback with each response, or only in the graded summary on completion',
+    ),
+  resumeAbandoned: z
+    .enum(['reopen', 'reject'])
+    .default('reopen')
+    .describe(
+      'What resuming an abandoned session does: reopen it as in-progress, or reject the resume',
+    ),
   suggestionStrategy: z
     .object({
       min: z
@@ -269,17 +748,65 @@ export const SurveyMetadataSchema = z.object({
 
 export type SurveyMetadata = z.infer<typeof SurveyMetadataSchema>;
 
+/**
+ * Authoring lifecycle of a survey version. Drafts are being edited, published
+ * versions accept new sessions, closed versions only let existing sessions
+ * finish, and archived versions are retired.
+ */
+export const SurveyStatusSchema = z.enum([
+  'draft',
+  'published',
+  'closed',
+  'archived',
+]);
+
+export type SurveyStatus = z.infer<typeof SurveyStatusSchema>;
+
 /**
  * Complete survey definition.
  */
 export const SurveyDefinitionSchema = z.object({
   id: z.string().describe('Unique survey identifier'),
   version: z.string().default('1.0').describe('Survey version'),
+  status: SurveyStatusSchema.default('published').describe(
+    'Authoring state; only published versions accept new sessions',
+  ),
   metadata: SurveyMetadataSchema.describe('Survey metadata'),
   questions: z
     .array(QuestionDefinitionSchema)
     .min(1)
     .describe('Survey questions'),
+  sections: z
+    .array(SurveySectionSchema)
+    .optional()
+    .describe(
+      'Sections in the order they are covered; questions not in any section can be asked at any point',
+    ),
+  rosters: z
+    .array(RosterDefinitionSchema)
+    .optional()
+    .describe('Question groups repeated once per item of a source answer'),
+  variables: z
+    .array(VariableDefinitionSchema)
+    .optional()
+    .describe(
+      'Computed variables (derived scores, scale averages, counts), evaluated in order',
+    ),
+  outcomes: z
+    .array(OutcomeDefinitionSchema)
+    .optional()
+    .describe(
+      'Outcome bands evaluated in order on completion; the first match is assigned',
+    ),
+  terminationRules: z
+    .array(TerminationRuleSchema)
+    .optional()
+    .describe(
+      'Screen-out rules checked after each response; the first match ends the session',
+    ),
+  quotas: QuotaDefinitionSchema.optional().describe(
+    'Completion quotas for the whole survey and per answer segment',
+  ),
   settings: SurveySettingsSchema.default({}).describe('Survey settings'),
 });
 
@@ -288,7 +815,9 @@ export type SurveyDefinition = z.infer<typeof SurveyDefinitionSchema>;
 /**
  * Question with runtime eligibility information.
  */
-export const EnrichedQuestionSchema = QuestionDefinitionSchema.extend({
+export const EnrichedQuestionSchema = QuestionDefinitionSchema.omit({
+  answerKey: true,
+}).extend({
   currentlyEligible: z
     .boolean()
     .describe('Whether the question is currently available to ask'),
@@ -300,6 +829,21 @@ export const EnrichedQuestionSchema = QuestionDefinitionSchema.extend({
     .boolean()
     .optional()
     .describe('Whether this question has already been answered'),
+  locked: z
+    .boolean()
+    .optional()
+    .describe('Whether the question is locked after too many failed attempts'),
+  skipped: z
+    .boolean()
+    .optional()
+    .describe('Whether the participant declined to answer this question'),
+  sectionId: z
+    .string()
+    .optional()
+    .describe('Section the question belongs to, if the survey has sections'),
+  roster: RosterItemSchema.optional().describe(
+    'Roster item this question instance asks about; its ID is instance-keyed (e.g. tool_rating[slack])',
+  ),
 });
 
 export type EnrichedQuestion = z.infer<typeof EnrichedQuestionSchema>;
@@ -317,49 +861,233 @@ export const SurveyResponseSchema = z.object({
     .default(1)
     .describe('Number of validation attempts'),
   score: z.number().optional().describe('Score awarded for this response'),
+  skipped: z
+    .boolean()
+    .optional()
+    .describe('True when the participant declined to answer (value is null)'),
+  skipReason: z
+    .string()
+    .optional()
+    .describe('Why the question was skipped, if given'),
 });
 
 export type SurveyResponse = z.infer<typeof SurveyResponseSchema>;
 
 /**
- * Session progress tracking.
+ * Code written in place of a value for skipped questions in CSV exports and
+ * analytics distributions, so declines are distinguishable from blanks.
  */
-export const SessionProgressSchema = z.object({
-  totalQuestions: z.number().int().describe('Total questions in survey'),
-  answeredQuestions: z.number().int().describe('Number of questions answered'),
-  requiredAnswered: z
+export const SKIPPED_RESPONSE_CODE = '__skipped__';
+
+/**
+ * Submission attempt tracking for a single question.
+ */
+export const QuestionAttemptsSchema = z.object({
+  total: z
     .number()
     .int()
+    .describe('Total submissions for the question, valid or not'),
+  failed: z.number().int().describe('Submissions that failed validation'),
+  lockedAt: z
+    .string()
+    .datetime()
     .optional()
-    .describe('Number of required questions answered'),
+    .describe('When the question was locked after reaching maxAttempts'),
+});
+
+export type QuestionAttempts = z.infer<typeof QuestionAttemptsSchema>;
+
+/**
+ * Progress through one survey section.
+ */
+export const SectionProgressSchema = z.object({
+  sectionId: z.string().describe('Section identifier'),
+  title: z.string().describe('Section title'),
+  status: z
+    .enum(['not-started', 'in-progress', 'completed', 'hidden'])
+    .describe(
+      'Section state; hidden sections failed their condition and are not asked',
+    ),
+  totalQuestions: z
+    .number()
+    .int()
+    .describe('Questions in the section that are currently shown'),
+  answeredQuestions: z
+    .number()
+    .int()
+    .describe('Questions in the section answered'),
+  skippedQuestions: z
+    .number()
+    .int()
+    .describe('Questions in the section declined'),
   requiredRemaining: z
     .number()
     .int()
-    .describe('Number of required questions remaining'),
+    .describe('Required questions in the section still to answer'),
   percentComplete: z
     .number()
     .min(0)
     .max(100)
-    .describe('Percentage of survey completed'),
-  estimatedTimeRemaining: z
-    .string()
-    .optional()
-    .describe('Estimated time to complete remaining questions'),
+    .describe('Percentage of the section completed'),
 });
 
-export type SessionProgress = z.infer<typeof SessionProgressSchema>;
+export type SectionProgress = z.infer<typeof SectionProgressSchema>;
 
 /**
- * Session status enum.
+ * The section a session is currently in.
+ */
+export const CurrentSectionSchema = z.object({
+  id: z.string().describe('Section identifier'),
+  title: z.string().describe('Section title'),
+  intro: z
+    .string()
+    .optional()
+    .describe('Section intro, with answers and variables piped in'),
+});
+
+export type CurrentSection = z.infer<typeof CurrentSectionSchema>;
+
+/**
+ * Session progress tracking.
+ */
+export const SessionProgressSchema = z.object({
+  totalQuestions: z.number().int().describe('Total questions in survey'),
+  answeredQuestions: z.number().int().describe('Number of questions answered'),
+  skippedQuestions: z
+    .number()
+    .int()
+    .optional()
+    .describe('Number of questions the participant declined to answer'),
+  requiredAnswered: z
+    .number()
+    .int()
+    .optional()
+    .describe('Number of required questions answered'),
+  requiredRemaining: z
+    .number()
+    .int()
+    .describe('Number of required questions remaining'),
+  percentComplete: z
+    .number()
+    .min(0)
+    .max(100)
+    .describe('Percentage of survey completed'),
+  estimatedTimeRemaining: z
+    .string()
+    .optional()
+    .describe('Estimated time to complete remaining questions'),
+  currentSection: CurrentSectionSchema.optional().describe(
+    'Section whose questions are being asked (surveys with sections only)',
+  ),
+  sections: z
+    .array(SectionProgressSchema)
+    .optional()
+    .describe('Progress per section (surveys with sections only)'),
+});
+
+export type SessionProgress = z.infer<typeof SessionProgressSchema>;
+
+/**
+ * Grade for one quiz question.
+ */
+export const QuestionGradeSchema = z.object({
+  questionId: z.string().describe('Question identifier'),
+  correct: z.boolean().describe('Whether the answer earned full credit'),
+  credit: z
+    .number()
+    .describe('Share of the points earned, from 0 to 1 (partial credit)'),
+  pointsEarned: z.number().describe('Points earned'),
+  pointsPossible: z.number().describe('Points available'),
+  feedback: z.string().optional().describe('Feedback for the answer given'),
+});
+
+export type QuestionGrade = z.infer<typeof QuestionGradeSchema>;
+
+/**
+ * Graded summary of a quiz session.
+ */
+export const QuizSummarySchema = z.object({
+  gradedQuestions: z
+    .number()
+    .int()
+    .describe('Quiz questions shown to the participant'),
+  correctCount: z.number().int().describe('Questions answered fully correctly'),
+  pointsEarned: z.number().describe('Total points earned'),
+  pointsPossible: z.number().describe('Total points available'),
+  percentCorrect: z
+    .number()
+    .describe('Points earned as a percentage of points available'),
+  questions: z
+    .array(
+      QuestionGradeSchema.extend({
+        answered: z
+          .boolean()
+          .describe('Whether the question was answered (not skipped)'),
+        correctAnswer: z
+          .union([ConditionPrimitiveSchema, z.array(ConditionPrimitiveSchema)])
+          .describe('The correct answer from the answer key'),
+      }),
+    )
+    .describe('Per-question grades'),
+});
+
+export type QuizSummary = z.infer<typeof QuizSummarySchema>;
+
+/**
+ * Session status enum.
  */
 export const SessionStatusSchema = z.enum([
   'in-progress',
   'completed',
   'abandoned',
+  'expired',
+  'screened-out',
 ]);
 
 export type SessionStatus = z.infer<typeof SessionStatusSchema>;
 
+/**
+ * Number of sessions per status; statuses with no sessions are omitted.
+ */
+export const SessionStatusCountsSchema = z.record(
+  SessionStatusSchema,
+  z.number().int(),
+);
+
+export type SessionStatusCounts = z.infer<typeof SessionStatusCountsSchema>;
+
+/**
+ * Outcome recorded on a completed session, with templates already resolved.
+ */
+export const SessionOutcomeSchema = z.object({
+  id: z.string().describe('Outcome identifier'),
+  label: z.string().describe('Outcome name'),
+  message: z.string().optional().describe('Completion message'),
+  recommendation: z.string().optional().describe('Suggested next step'),
+});
+
+export type SessionOutcome = z.infer<typeof SessionOutcomeSchema>;
+
+/**
+ * Termination rule or full quota recorded on a screened-out session.
+ */
+export const SessionScreenOutSchema = z.object({
+  reason: z
+    .enum(['termination-rule', 'quota-full'])
+    .describe('Whether a termination rule matched or a quota was full'),
+  ruleId: z
+    .string()
+    .describe(
+      'Termination rule or quota cell that matched (`maxCompletes` for the overall cap)',
+    ),
+  message: z
+    .string()
+    .optional()
+    .describe('Termination message, with templates resolved'),
+});
+
+export type SessionScreenOut = z.infer<typeof SessionScreenOutSchema>;
+
 /**
  * Complete participant session state.
  */
@@ -378,6 +1106,24 @@ export const ParticipantSessionSchema = z.object({
     .optional()
     .nullable()
     .describe('Completion timestamp'),
+  abandonedAt: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('When the session was marked abandoned for inactivity'),
+  expiredAt: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('When the session was marked expired past its deadline'),
+  screenedOutAt: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('When a termination rule ended the session'),
+  screenOut: SessionScreenOutSchema.optional().describe(
+    'Why the session was screened out',
+  ),
   metadata: z
     .record(z.unknown())
     .optional()
@@ -390,6 +1136,27 @@ export const ParticipantSessionSchema = z.object({
     .number()
     .default(0)
     .describe('Total accumulated score for the session'),
+  variables: z
+    .record(z.number())
+    .optional()
+    .describe(
+      'Computed variable values keyed by variable ID; variables that cannot be computed yet are omitted',
+    ),
+  outcome: SessionOutcomeSchema.optional().describe(
+    'Outcome assigned on completion (surveys that define outcomes)',
+  ),
+  attempts: z
+    .record(QuestionAttemptsSchema)
+    .optional()
+    .describe('Map of questionId to submission attempt tracking'),
+  questionOrder: z
+    .array(z.string())
+    .optional()
+    .describe('Persisted question order when the survey shuffles questions'),
+  shuffleSeed: z
+    .string()
+    .optional()
+    .describe('Seed used to generate questionOrder'),
 });
 
 export type ParticipantSession = z.infer<typeof ParticipantSessionSchema>;
@@ -417,6 +1184,129 @@ export const ValidationResultSchema = z.object({
 
 export type ValidationResult = z.infer<typeof ValidationResultSchema>;
 
+/**
+ * Issue codes reported by the survey definition linter.
+ */
+export const DefinitionIssueCodeSchema = z.enum([
+  'schema_error',
+  'duplicate_question_id',
+  'duplicate_variable_id',
+  'duplicate_outcome_id',
+  'duplicate_termination_rule_id',
+  'duplicate_quota_cell_id',
+  'duplicate_option_value',
+  'missing_options',
+  'missing_scale',
+  'invalid_scale',
+  'missing_matrix',
+  'invalid_selection_range',
+  'invalid_length_range',
+  'invalid_value_range',
+  'invalid_pattern',
+  'invalid_suggestion_strategy',
+  'missing_dependency',
+  'circular_dependency',
+  'invalid_condition_value',
+  'invalid_condition_path',
+  'invalid_template_reference',
+  'invalid_variable',
+  'invalid_outcome',
+  'invalid_answer_key',
+  'invalid_quota',
+  'unreachable_question',
+  'unused_configuration',
+  'unknown_library_reference',
+  'duplicate_section_id',
+  'invalid_section',
+  'duplicate_roster_id',
+  'invalid_roster',
+]);
+
+export type DefinitionIssueCode = z.infer<typeof DefinitionIssueCodeSchema>;
+
+/**
+ * A single problem found while linting a survey definition.
+ */
+export const DefinitionIssueSchema = z.object({
+  severity: z
+    .enum(['error', 'warning'])
+    .describe('Errors make a survey unusable; warnings are likely mistakes'),
+  code: DefinitionIssueCodeSchema.describe('Machine-readable issue code'),
+  message: z.string().describe('Human-readable description of the issue'),
+  questionId: z
+    .string()
+    .optional()
+    .describe('Question the issue relates to, if any'),
+  path: z
+    .string()
+    .optional()
+    .describe('Dot-separated location within the definition'),
+});
+
+export type DefinitionIssue = z.infer<typeof DefinitionIssueSchema>;
+
+/**
+ * Result of linting a survey definition.
+ */
+export const DefinitionLintResultSchema = z.object({
+  surveyId: z
+    .string()
+    .optional()
+    .describe('Survey ID, when the definition declares one'),
+  valid: z.boolean().describe('True when no errors were found'),
+  errors: z.array(DefinitionIssueSchema).describe('Blocking issues'),
+  warnings: z.array(DefinitionIssueSchema).describe('Non-blocking issues'),
+});
+
+export type DefinitionLintResult = z.infer<typeof DefinitionLintResultSchema>;
+
+/**
+ * Source format of a survey definition file.
+ */
+export const DefinitionFormatSchema = z
+  .enum(['json', 'yaml', 'json5'])
+  .describe('Definition file format');
+
+export type DefinitionFormat = z.infer<typeof DefinitionFormatSchema>;
+
+/**
+ * A syntax or schema error in survey definition source text.
+ */
+export const DefinitionSourceIssueSchema = z.object({
+  message: z.string().describe('Human-readable description of the error'),
+  path: z
+    .string()
+    .optional()
+    .describe('Dot-separated location within the definition'),
+  line: z.number().int().optional().describe('1-based line in the source text'),
+  column: z
+    .number()
+    .int()
+    .optional()
+    .describe('1-based column in the source text'),
+});
+
+export type DefinitionSourceIssue = z.infer<typeof DefinitionSourceIssueSchema>;
+
+/**
+ * Question library file: questions shared across surveys, and named blocks
+ * of them. Surveys include a question with `{ "$ref": "<questionId>" }`
+ * (other fields override the library question) and a block with
+ * `{ "$include": "<blockId>" }`.
+ */
+export const QuestionLibraryFileSchema = z.object({
+  questions: z
+    .array(QuestionDefinitionSchema)
+    .default([])
+    .describe('Library questions, referenced by ID'),
+  blocks: z
+    .record(z.array(z.string()).min(1))
+    .default({})
+    .describe('Map of block ID to the library question IDs it includes'),
+});
+
+export type QuestionLibraryFile = z.infer<typeof QuestionLibraryFileSchema>;
+
 /**
  * Eligibility change notification.
  */
@@ -436,6 +1326,7 @@ export type EligibilityChange = z.infer<typeof EligibilityChangeSchema>;
  */
 export const SurveySummarySchema = z.object({
   id: z.string().describe('Survey identifier'),
+  version: z.string().describe('Latest version, used for new sessions'),
   title: z.string().describe('Survey title'),
   description: z.string().describe('Survey description'),
   estimatedDuration: z
@@ -447,10 +1338,27 @@ export const SurveySummarySchema = z.object({
 
 export type SurveySummary = z.infer<typeof SurveySummarySchema>;
 
+/**
+ * Authoring view of one survey version.
+ */
+export const SurveyVersionInfoSchema = z.object({
+  surveyId: z.string().describe('Survey identifier'),
+  version: z.string().describe('Survey version'),
+  status: SurveyStatusSchema.describe('Authoring state of this version'),
+  title: z.string().describe('Survey title'),
+  questionCount: z.number().int().describe('Number of questions'),
+});
+
+export type SurveyVersionInfo = z.infer<typeof SurveyVersionInfoSchema>;
+
 /**
  * Export format options.
  */
-export const ExportFormatSchema = z.enum(['csv', 'json']);
+export const ExportFormatSchema = z
+  .enum(['csv', 'csv-long', 'json'])
+  .describe(
+    'csv: one row per session and one column per question (roster questions get one column per item); csv-long: one row per response; json: full session records',
+  );
 
 export type ExportFormat = z.infer<typeof ExportFormatSchema>;
 
@@ -459,6 +1367,12 @@ export type ExportFormat = z.infer<typeof ExportFormatSchema>;
  */
 export const ExportFiltersSchema = z.object({
   status: SessionStatusSchema.optional().describe('Filter by session status'),
+  surveyVersion: z
+    .string()
+    .optional()
+    .describe(
+      "Only sessions pinned to this survey version; analytics then use that version's questions",
+    ),
   dateRange: z
     .object({
       start: z.string().datetime().describe('Start date (ISO 8601)'),
@@ -470,10 +1384,133 @@ export const ExportFiltersSchema = z.object({
     .array(z.string())
     .optional()
     .describe('Filter by specific participants'),
+  metadata: z
+    .record(z.union([z.string(), z.number(), z.boolean()]))
+    .optional()
+    .describe('Filter by session metadata key/value pairs (all must match)'),
 });
 
 export type ExportFilters = z.infer<typeof ExportFiltersSchema>;
 
+/**
+ * Compact session row for session listings.
+ */
+export const SessionListEntrySchema = z.object({
+  sessionId: z.string().describe('Session identifier'),
+  participantId: z.string().describe('Participant identifier'),
+  status: SessionStatusSchema.describe('Current session status'),
+  percentComplete: z.number().describe('Progress percentage (0-100)'),
+  lastActivityAt: z.string().datetime().describe('Last activity timestamp'),
+  currentScore: z.number().describe('Total accumulated score'),
+});
+
+export type SessionListEntry = z.infer<typeof SessionListEntrySchema>;
+
+/**
+ * Descriptive statistics for numeric responses.
+ */
+export const NumericSummarySchema = z.object({
+  count: z.number().int().describe('Number of numeric responses'),
+  mean: z.number().describe('Arithmetic mean'),
+  median: z.number().describe('Median value'),
+  stdDev: z.number().describe('Population standard deviation'),
+  min: z.number().describe('Smallest response'),
+  max: z.number().describe('Largest response'),
+  percentiles: z
+    .object({
+      p25: z.number().describe('25th percentile'),
+      p75: z.number().describe('75th percentile'),
+      p90: z.number().describe('90th percentile'),
+    })
+    .describe('Percentiles (linear interpolation)'),
+});
+
+export type NumericSummary = z.infer<typeof NumericSummarySchema>;
+
+/**
+ * Per-question statistics computed from recorded responses.
+ */
+export const QuestionStatsSchema = z.object({
+  questionId: z.string().describe('Question identifier'),
+  libraryRef: z
+    .string()
+    .optional()
+    .describe('Question library entry the question was included from'),
+  responseCount: z
+    .number()
+    .int()
+    .describe('Number of responses (one per item for roster questions)'),
+  skippedCount: z
+    .number()
+    .int()
+    .describe('Number of sessions that skipped the question'),
+  rosterId: z
+    .string()
+    .optional()
+    .describe(
+      'Roster repeating the question; its counts and distributions cover every item instance',
+    ),
+  respondentCount: z
+    .number()
+    .int()
+    .optional()
+    .describe('Roster questions: sessions that answered at least one item'),
+  responseDistribution: z
+    .record(z.number().int())
+    .optional()
+    .describe(
+      'Distribution of response values (per-option counts for multiple-select)',
+    ),
+  rowDistributions: z
+    .record(z.record(z.number().int()))
+    .optional()
+    .describe('Matrix questions: map of row ID to column value counts'),
+  numericSummary: NumericSummarySchema.optional().describe(
+    'Number and rating-scale questions: descriptive statistics',
+  ),
+  booleanSplit: z
+    .object({
+      true: z.number().int().describe('Number of true responses'),
+      false: z.number().int().describe('Number of false responses'),
+    })
+    .optional()
+    .describe('Boolean questions: true/false counts'),
+  difficulty: z
+    .object({
+      correctCount: z
+        .number()
+        .int()
+        .describe('Responses that earned full credit'),
+      partialCount: z
+        .number()
+        .int()
+        .describe('Responses that earned partial credit'),
+      percentCorrect: z
+        .number()
+        .describe(
+          'Average credit across responses as a percentage (lower means harder)',
+        ),
+    })
+    .optional()
+    .describe('Quiz questions: how often participants answered correctly'),
+});
+
+export type QuestionStats = z.infer<typeof QuestionStatsSchema>;
+
+/**
+ * How many completed sessions were assigned one outcome.
+ */
+export const OutcomeCountSchema = z.object({
+  outcomeId: z.string().describe('Outcome identifier'),
+  label: z.string().describe('Outcome name'),
+  count: z.number().int().describe('Completed sessions with this outcome'),
+  percentage: z
+    .string()
+    .describe('Share of completed sessions with this outcome (e.g., "42%")'),
+});
+
+export type OutcomeCount = z.infer<typeof OutcomeCountSchema>;
+
 /**
  * Analytics summary for a survey.
  */
@@ -485,25 +1522,330 @@ export const SurveyAnalyticsSchema = z.object({
     .int()
     .describe('Number of in-progress sessions'),
   abandonedSessions: z.number().int().describe('Number of abandoned sessions'),
+  expiredSessions: z.number().int().describe('Number of expired sessions'),
+  screenedOutSessions: z
+    .number()
+    .int()
+    .describe('Number of sessions ended by a termination rule'),
   averageCompletionTime: z
     .string()
     .optional()
     .describe('Average time to complete survey'),
   questionStats: z
+    .array(QuestionStatsSchema)
+    .describe('Statistics for each question'),
+  outcomeDistribution: z
+    .array(OutcomeCountSchema)
+    .optional()
+    .describe(
+      'Surveys with outcomes: how completed sessions were classified, in definition order',
+    ),
+});
+
+export type SurveyAnalytics = z.infer<typeof SurveyAnalyticsSchema>;
+
+/**
+ * Analytics report returned to callers: the provider summary plus completion
+ * rate, question text and per-question response rates.
+ */
+export const SurveyAnalyticsReportSchema = SurveyAnalyticsSchema.extend({
+  completionRate: z
+    .string()
+    .describe('Share of sessions that completed (e.g., "42%")'),
+  questionStats: z
+    .array(
+      QuestionStatsSchema.extend({
+        questionText: z.string().describe('Question text'),
+        responseRate: z
+          .string()
+          .describe('Share of sessions that answered the question'),
+      }),
+    )
+    .describe('Statistics for each question'),
+});
+
+export type SurveyAnalyticsReport = z.infer<typeof SurveyAnalyticsReportSchema>;
+
+/**
+ * One library question's results across the surveys that include it.
+ */
+export const LibraryQuestionComparisonSchema = z.object({
+  libraryRef: z.string().describe('Question library entry compared'),
+  surveys: z
+    .array(
+      SurveyAnalyticsReportSchema.shape.questionStats.element.extend({
+        surveyId: z.string().describe('Survey including the question'),
+        surveyVersion: z
+          .string()
+          .describe('Survey version whose question definition was used'),
+        surveyTitle: z.string().describe('Survey title'),
+        totalSessions: z
+          .number()
+          .int()
+          .describe('Sessions analyzed for the survey'),
+      }),
+    )
+    .describe('Statistics for the question in each survey, by survey ID'),
+});
+
+export type LibraryQuestionComparison = z.infer<
+  typeof LibraryQuestionComparisonSchema
+>;
+
+/**
+ * One question's step in the drop-off funnel.
+ */
+export const FunnelStepSchema = z.object({
+  questionId: z.string().describe('Question identifier'),
+  questionText: z.string().describe('Question text'),
+  position: z
+    .number()
+    .int()
+    .describe('1-based position of the question in the survey definition'),
+  reachedCount: z
+    .number()
+    .int()
+    .describe('Sessions that answered or skipped this question'),
+  reachedRate: z
+    .string()
+    .describe('Share of analyzed sessions that reached this question'),
+  medianSecondsToAnswer: z
+    .number()
+    .optional()
+    .describe(
+      'Median seconds between the previous answer (or session start) and this answer',
+    ),
+  lastAnsweredBeforeAbandonment: z
+    .number()
+    .int()
+    .describe(
+      'Abandoned or expired sessions whose most recent answer was this question',
+    ),
+});
+
+export type FunnelStep = z.infer<typeof FunnelStepSchema>;
+
+/**
+ * Question-level drop-off funnel across sessions.
+ */
+export const DropOffFunnelSchema = z.object({
+  sessionCount: z.number().int().describe('Number of sessions analyzed'),
+  steps: z
+    .array(FunnelStepSchema)
+    .describe('Funnel steps in survey definition order'),
+  medianSecondsBetweenAnswers: z
+    .number()
+    .optional()
+    .describe('Median seconds between consecutive answers across all sessions'),
+  abandonedWithoutAnswers: z
+    .number()
+    .int()
+    .describe('Abandoned or expired sessions that never answered a question'),
+  completionCurve: z
     .array(
       z.object({
-        questionId: z.string().describe('Question identifier'),
-        responseCount: z.number().int().describe('Number of responses'),
-        responseDistribution: z
-          .record(z.number().int())
+        questionsAnswered: z
+          .number()
+          .int()
+          .describe('Number of questions answered or skipped'),
+        sessionCount: z
+          .number()
+          .int()
+          .describe('Sessions that handled at least this many questions'),
+        sessionRate: z
+          .string()
+          .describe('Share of analyzed sessions at or beyond this point'),
+      }),
+    )
+    .describe('Share of sessions still going after each number of answers'),
+});
+
+export type DropOffFunnel = z.infer<typeof DropOffFunnelSchema>;
+
+/**
+ * Cross-tabulation of two questions' responses.
+ */
+export const CrosstabSchema = z.object({
+  rowQuestionId: z.string().describe('Question whose categories form the rows'),
+  columnQuestionId: z
+    .string()
+    .describe('Question whose categories form the columns'),
+  rowCategories: z.array(z.string()).describe('Row category labels'),
+  columnCategories: z.array(z.string()).describe('Column category labels'),
+  counts: z
+    .array(z.array(z.number().int()))
+    .describe('Cell counts indexed [row][column]'),
+  rowTotals: z.array(z.number().int()).describe('Total count per row'),
+  columnTotals: z.array(z.number().int()).describe('Total count per column'),
+  grandTotal: z
+    .number()
+    .int()
+    .describe(
+      'Sum of all cell counts; counts selections, not respondents, when multiResponse',
+    ),
+  rowPercentages: z
+    .array(z.array(z.number()))
+    .describe('Cell counts as a percentage of their row total'),
+  columnPercentages: z
+    .array(z.array(z.number()))
+    .describe('Cell counts as a percentage of their column total'),
+  respondentCount: z
+    .number()
+    .int()
+    .describe('Sessions that answered both questions'),
+  multiResponse: z
+    .boolean()
+    .describe(
+      'True when either question is multiple-select, so one session can count in several cells',
+    ),
+  chiSquare: z
+    .object({
+      statistic: z.number().describe('Pearson chi-square statistic'),
+      degreesOfFreedom: z
+        .number()
+        .int()
+        .describe('(non-empty rows - 1) × (non-empty columns - 1)'),
+      pValue: z.number().describe('Probability of a statistic this large'),
+    })
+    .optional()
+    .describe(
+      'Pearson test of independence; omitted when fewer than two non-empty rows or columns, and for multiResponse tables, whose counts are not independent observations',
+    ),
+});
+
+export type Crosstab = z.infer<typeof CrosstabSchema>;
+
+/**
+ * Live fill of one quota cell.
+ */
+export const QuotaCellStatusSchema = z.object({
+  id: z.string().describe('Quota cell identifier'),
+  label: z.string().optional().describe('Display name'),
+  questionId: z.string().describe('Question whose answer places a session'),
+  limit: z.number().int().describe('Maximum completed sessions'),
+  completes: z.number().int().describe('Completed sessions in the cell'),
+  inProgress: z
+    .number()
+    .int()
+    .describe('In-progress sessions already placed in the cell'),
+  remaining: z.number().int().describe('Completes left before the cell fills'),
+  full: z.boolean().describe('Whether the cell has reached its limit'),
+});
+
+export type QuotaCellStatus = z.infer<typeof QuotaCellStatusSchema>;
+
+/**
+ * Live quota fill for a survey.
+ */
+export const QuotaStatusSchema = z.object({
+  surveyId: z.string().describe('Survey identifier'),
+  maxCompletes: z
+    .number()
+    .int()
+    .optional()
+    .describe('Overall completion cap, if any'),
+  completes: z.number().int().describe('Completed sessions'),
+  remaining: z
+    .number()
+    .int()
+    .optional()
+    .describe('Completes left before the survey is full'),
+  full: z
+    .boolean()
+    .describe(
+      'Whether the overall cap is reached and new sessions are refused',
+    ),
+  screenedOutByQuota: z
+    .number()
+    .int()
+    .describe('Sessions screened out because a quota was full'),
+  cells: z.array(QuotaCellStatusSchema).describe('Fill per quota cell'),
+});
+
+export type QuotaStatus = z.infer<typeof QuotaStatusSchema>;
+
+/**
+ * Rules for carrying a session's answers from one survey version to another.
+ * Keys are question IDs in the version the sessions are pinned to.
+ */
+export const SessionMigrationRulesSchema = z.object({
+  renames: z
+    .record(z.string())
+    .default({})
+    .describe('Map of old question ID to its ID in the target version'),
+  optionMaps: z
+    .record(z.record(z.string()))
+    .default({})
+    .describe(
+      'Per old question ID, a map of old option value to new option value',
+    ),
+  drop: z
+    .array(z.string())
+    .default([])
+    .describe('Old question IDs whose answers are deliberately discarded'),
+  matchById: z
+    .boolean()
+    .default(true)
+    .describe(
+      'Carry answers to a question with the same ID when no rename applies',
+    ),
+});
+
+export type SessionMigrationRules = z.infer<typeof SessionMigrationRulesSchema>;
+
+/**
+ * What one session keeps and loses when migrated to another version.
+ */
+export const SessionMigrationReportSchema = z.object({
+  sessionId: z.string().describe('Session identifier'),
+  participantId: z.string().describe('Participant identifier'),
+  migrated: z
+    .array(
+      z.object({
+        fromQuestionId: z.string().describe('Question ID in the old version'),
+        toQuestionId: z.string().describe('Question ID in the new version'),
+        valueRemapped: z
+          .boolean()
           .optional()
-          .describe('Distribution of response values'),
+          .describe('True when an option map changed the answer'),
       }),
     )
-    .describe('Statistics for each question'),
+    .describe('Answers carried to the new version'),
+  lost: z
+    .array(
+      z.object({
+        questionId: z.string().describe('Question ID in the old version'),
+        reason: z
+          .enum(['dropped', 'unmatched', 'conflict', 'invalid'])
+          .describe(
+            'dropped: a drop rule discarded it; unmatched: no target question; conflict: another answer already maps to the target; invalid: fails the target question',
+          ),
+        detail: z.string().optional().describe('Why the answer was rejected'),
+      }),
+    )
+    .describe('Answers that would be discarded'),
 });
 
-export type SurveyAnalytics = z.infer<typeof SurveyAnalyticsSchema>;
+export type SessionMigrationReport = z.infer<
+  typeof SessionMigrationReportSchema
+>;
+
+/**
+ * Migration history entry stored in `metadata.migrations` on a session.
+ */
+export const SessionMigrationRecordSchema = z.object({
+  fromVersion: z.string().describe('Version the session was pinned to'),
+  toVersion: z.string().describe('Version the session moved to'),
+  migratedAt: z.string().datetime().describe('When the session was migrated'),
+  migratedQuestions: z.number().int().describe('Answers carried over'),
+  lostQuestionIds: z
+    .array(z.string())
+    .describe('Old question IDs whose answers were discarded'),
+});
+
+export type SessionMigrationRecord = z.infer<
+  typeof SessionMigrationRecordSchema
+>;
 
 /**
  * Completion blocker information.
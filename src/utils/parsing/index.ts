@@ -1,12 +1,13 @@
 /**
  * @fileoverview Barrel file for parsing utility modules.
  * This file re-exports utilities related to parsing various data formats,
- * such as JSON, XML, YAML, and CSV.
+ * such as JSON, JSON5, XML, YAML, and CSV.
  * @module src/utils/parsing
  */
 
 export * from './dateParser.js';
 export * from './jsonParser.js';
+export * from './json5Parser.js';
 export * from './xmlParser.js';
 export * from './yamlParser.js';
 export * from './csvParser.js';
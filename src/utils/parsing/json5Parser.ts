@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Provides a utility class for parsing JSON5 strings.
+ * It wraps the 'json5' library and includes functionality to handle
+ * optional <think>...</think> blocks often found at the beginning of LLM outputs.
+ * JSON5 extends JSON with comments, trailing commas, unquoted keys and
+ * single-quoted strings, which makes hand-written documents less error-prone.
+ * @module src/utils/parsing/json5Parser
+ */
+import JSON5 from 'json5';
+
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+import {
+  type RequestContext,
+  logger,
+  requestContextService,
+} from '@/utils/index.js';
+
+/**
+ * Regular expression to find a <think> block at the start of a string.
+ * Captures content within <think>...</think> (Group 1) and the rest of the string (Group 2).
+ * @private
+ */
+const thinkBlockRegex = /^<think>([\s\S]*?)<\/think>\s*([\s\S]*)$/;
+
+/**
+ * Utility class for parsing JSON5 strings.
+ * Wraps the 'json5' library and handles optional <think> blocks from LLMs.
+ */
+export class Json5Parser {
+  /**
+   * Parses a JSON5 string, which may be prefixed with a <think> block.
+   * If a <think> block is present, its content is logged, and parsing proceeds on the
+   * remainder.
+   *
+   * @template T The expected type of the parsed JSON5 value. Defaults to `unknown`.
+   * @param json5String - The JSON5 string to parse.
+   * @param context - Optional `RequestContext` for logging and error correlation.
+   * @returns The parsed JavaScript value.
+   * @throws {McpError} If the string is empty after processing or if parsing fails.
+   *   Parse failures carry the 1-based `line` and `column` of the error, relative
+   *   to the trimmed content, in their data.
+   */
+  parse<T = unknown>(json5String: string, context?: RequestContext): T {
+    let stringToParse = json5String;
+    const match = json5String.match(thinkBlockRegex);
+
+    if (match) {
+      const thinkContent = match[1]?.trim() ?? '';
+      const restOfString = match[2] ?? '';
+
+      const logContext =
+        context ||
+        requestContextService.createRequestContext({
+          operation: 'Json5Parser.thinkBlock',
+        });
+      if (thinkContent) {
+        logger.debug('LLM <think> block detected and logged.', {
+          ...logContext,
+          thinkContent,
+        });
+      } else {
+        logger.debug('Empty LLM <think> block detected.', logContext);
+      }
+      stringToParse = restOfString;
+    }
+
+    stringToParse = stringToParse.trim();
+
+    if (!stringToParse) {
+      throw new McpError(
+        JsonRpcErrorCode.ValidationError,
+        'JSON5 string is empty after removing <think> block and trimming.',
+        context,
+      );
+    }
+
+    try {
+      return JSON5.parse<T>(stringToParse);
+    } catch (e: unknown) {
+      const error = e as Error & { lineNumber?: number; columnNumber?: number };
+      const errorLogContext =
+        context ||
+        requestContextService.createRequestContext({
+          operation: 'Json5Parser.parseError',
+        });
+      logger.error('Failed to parse JSON5 content.', {
+        ...errorLogContext,
+        errorDetails: error.message,
+        contentAttempted: stringToParse.substring(0, 200),
+      });
+
+      throw new McpError(
+        JsonRpcErrorCode.ValidationError,
+        `Failed to parse JSON5: ${error.message}`,
+        {
+          ...context,
+          ...(error.lineNumber !== undefined && { line: error.lineNumber }),
+          ...(error.columnNumber !== undefined && {
+            column: error.columnNumber,
+          }),
+          originalContentSample:
+            stringToParse.substring(0, 200) +
+            (stringToParse.length > 200 ? '...' : ''),
+          rawError: error instanceof Error ? error.stack : String(error),
+        },
+      );
+    }
+  }
+}
+
+/**
+ * Singleton instance of the `Json5Parser`.
+ * Use this instance to parse JSON5 strings, with support for <think> blocks.
+ * @example
+ * ```typescript
+ * import { json5Parser, requestContextService } from './utils';
+ * const context = requestContextService.createRequestContext({ operation: 'TestJson5Parsing' });
+ *
+ * const parsed = json5Parser.parse("{ key: 'value', // comment\n }", context);
+ * console.log(parsed); // Output: { key: 'value' }
+ * ```
+ */
+export const json5Parser = new Json5Parser();
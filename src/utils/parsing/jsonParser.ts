@@ -47,6 +47,21 @@ export const Allow = PartialJsonAllow;
  */
 const thinkBlockRegex = /^<think>([\s\S]*?)<\/think>\s*([\s\S]*)$/;
 
+/**
+ * Convert a character offset into a 1-based line and column.
+ * @private
+ */
+function offsetToLineColumn(
+  text: string,
+  offset: number,
+): { line: number; column: number } {
+  const before = text.slice(0, offset).split('\n');
+  return {
+    line: before.length,
+    column: (before[before.length - 1]?.length ?? 0) + 1,
+  };
+}
+
 /**
  * Utility class for parsing potentially partial JSON strings.
  * Wraps the 'partial-json' library for robust JSON parsing, handling
@@ -65,6 +80,8 @@ export class JsonParser {
    * @param context - Optional `RequestContext` for logging and error correlation.
    * @returns The parsed JavaScript value.
    * @throws {McpError} If the string is empty after processing or if `partial-json` fails.
+   *   Parse failures carry the 1-based `line` and `column` of the error, relative
+   *   to the trimmed content, in their data when the position is known.
    */
   parse<T = unknown>(
     jsonString: string,
@@ -113,6 +130,11 @@ export class JsonParser {
         requestContextService.createRequestContext({
           operation: 'JsonParser.parseError',
         });
+      // partial-json reports a character offset; convert it to line/column
+      const positionMatch = /at position (\d+)/.exec(error.message);
+      const location = positionMatch?.[1]
+        ? offsetToLineColumn(stringToParse, Number(positionMatch[1]))
+        : undefined;
       logger.error('Failed to parse JSON content.', {
         ...errorLogContext,
         errorDetails: error.message,
@@ -124,6 +146,7 @@ export class JsonParser {
         `Failed to parse JSON: ${error.message}`,
         {
           ...context,
+          ...location,
           originalContentSample:
             stringToParse.substring(0, 200) +
             (stringToParse.length > 200 ? '...' : ''),
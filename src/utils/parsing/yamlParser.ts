@@ -36,6 +36,8 @@ export class YamlParser {
    * @param context - Optional `RequestContext` for logging and error correlation.
    * @returns The parsed JavaScript object.
    * @throws {McpError} If the string is empty after processing or if parsing fails.
+   *   Parse failures carry the 1-based `line` and `column` of the error, relative
+   *   to the trimmed content, in their data.
    */
   parse<T = unknown>(yamlString: string, context?: RequestContext): T {
     let stringToParse = yamlString;
@@ -74,7 +76,7 @@ export class YamlParser {
     try {
       return yaml.load(stringToParse) as T;
     } catch (e: unknown) {
-      const error = e as Error;
+      const error = e as Error & { mark?: { line: number; column: number } };
       const errorLogContext =
         context ||
         requestContextService.createRequestContext({
@@ -91,6 +93,10 @@ export class YamlParser {
         `Failed to parse YAML: ${error.message}`,
         {
           ...context,
+          ...(error.mark && {
+            line: error.mark.line + 1,
+            column: error.mark.column + 1,
+          }),
           originalContentSample:
             stringToParse.substring(0, 200) +
             (stringToParse.length > 200 ? '...' : ''),
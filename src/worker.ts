@@ -14,9 +14,13 @@ import type {
   Ai,
 } from '@cloudflare/workers-types';
 
-import { composeContainer } from '@/container/index.js';
+import container, {
+  composeContainer,
+  SurveyServiceToken,
+} from '@/container/index.js';
 import { createMcpServerInstance } from '@/mcp-server/server.js';
 import { createHttpApp } from '@/mcp-server/transports/http/httpTransport.js';
+import type { SurveyService } from '@/services/survey/core/SurveyService.js';
 import {
   initializePerformance_Hrt,
   requestContextService,
@@ -50,6 +54,10 @@ export interface CloudflareBindings {
   SUPABASE_ANON_KEY?: string;
   SUPABASE_SERVICE_ROLE_KEY?: string;
   STORAGE_PROVIDER_TYPE?: string;
+  SURVEY_PROVIDER_TYPE?: string;
+  SURVEY_STRICT_VALIDATION?: string;
+  SURVEY_INACTIVITY_TIMEOUT_MINUTES?: string;
+  SURVEY_SESSION_DEADLINE_HOURS?: string;
   OAUTH_ISSUER_URL?: string;
   OAUTH_AUDIENCE?: string;
   OAUTH_JWKS_URI?: string;
@@ -93,6 +101,10 @@ function injectEnvVars(env: CloudflareBindings): void {
     ['SUPABASE_ANON_KEY', 'SUPABASE_ANON_KEY'],
     ['SUPABASE_SERVICE_ROLE_KEY', 'SUPABASE_SERVICE_ROLE_KEY'],
     ['STORAGE_PROVIDER_TYPE', 'STORAGE_PROVIDER_TYPE'],
+    ['SURVEY_PROVIDER_TYPE', 'SURVEY_PROVIDER_TYPE'],
+    ['SURVEY_STRICT_VALIDATION', 'SURVEY_STRICT_VALIDATION'],
+    ['SURVEY_INACTIVITY_TIMEOUT_MINUTES', 'SURVEY_INACTIVITY_TIMEOUT_MINUTES'],
+    ['SURVEY_SESSION_DEADLINE_HOURS', 'SURVEY_SESSION_DEADLINE_HOURS'],
     ['OAUTH_ISSUER_URL', 'OAUTH_ISSUER_URL'],
     ['OAUTH_AUDIENCE', 'OAUTH_AUDIENCE'],
     ['OAUTH_JWKS_URI', 'OAUTH_JWKS_URI'],
@@ -184,8 +196,14 @@ function initializeApp(env: CloudflareBindings): Promise<Hono<WorkerEnv>> {
         ...workerContext,
         environment: env.ENVIRONMENT ?? 'production',
         storageProvider: env.STORAGE_PROVIDER_TYPE ?? 'in-memory',
+        surveyProvider: env.SURVEY_PROVIDER_TYPE ?? 'filesystem',
       });
 
+      // Load survey definitions and prepare the session store.
+      const surveyService =
+        container.resolve<SurveyService>(SurveyServiceToken);
+      await surveyService.initialize();
+
       // Create the MCP Server instance.
       const mcpServer = await createMcpServerInstance();
 
@@ -309,11 +327,11 @@ export default {
   },
 
   /**
-   * Handles scheduled/cron events.
-   * Enable by adding cron triggers in wrangler.toml.
+   * Handles scheduled/cron events by sweeping survey sessions for
+   * inactivity and expiry. Enable by adding cron triggers in wrangler.toml.
    * @example
    * [triggers]
-   * crons = ["0 *\/6 * * *"]  # Run every 6 hours
+   * crons = ["*\/15 * * * *"]  # Run every 15 minutes
    */
   async scheduled(
     event: ScheduledEvent,
@@ -336,11 +354,18 @@ export default {
         scheduledTime: new Date(event.scheduledTime).toISOString(),
       });
 
-      // Add your scheduled task logic here
-      // Example: Cleanup expired sessions, send reports, etc.
-      // Use _ctx.waitUntil() for background operations if needed
+      // Mark inactive sessions abandoned and overdue sessions expired
+      const surveyService =
+        container.resolve<SurveyService>(SurveyServiceToken);
+      const result = await surveyService.sweepSessionLifecycle(
+        scheduledContext,
+        new Date(event.scheduledTime),
+      );
 
-      logger.info('Scheduled event completed.', scheduledContext);
+      logger.info('Scheduled event completed.', {
+        ...scheduledContext,
+        ...result,
+      });
     } catch (error) {
       const errorContext = requestContextService.createRequestContext({
         operation: 'WorkerScheduled',
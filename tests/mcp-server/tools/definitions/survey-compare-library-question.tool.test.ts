@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { surveyCompareLibraryQuestionTool } from '@/mcp-server/tools/definitions/survey-compare-library-question.tool.js';
+import type { SdkContext } from '@/mcp-server/tools/utils/toolDefinition.js';
+
+import {
+  createRequestContext,
+  createTenantlessRequestContext,
+  setupSurveyServiceMock,
+} from './test-utils.js';
+
+const sdkContext = {} as SdkContext;
+
+describe('surveyCompareLibraryQuestionTool', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the library question statistics for each survey', async () => {
+    const { mocks } = setupSurveyServiceMock({
+      compareLibraryQuestion: vi.fn().mockResolvedValue({
+        libraryRef: 'company_size',
+        surveys: [
+          {
+            surveyId: 'onboarding',
+            surveyVersion: '1.0',
+            surveyTitle: 'Onboarding',
+            totalSessions: 4,
+            questionId: 'company_size',
+            libraryRef: 'company_size',
+            questionText: 'How large is your company?',
+            responseCount: 3,
+            responseRate: '75%',
+            skippedCount: 1,
+            responseDistribution: { small: 2, large: 1 },
+          },
+        ],
+      }),
+    });
+
+    const result = await surveyCompareLibraryQuestionTool.logic(
+      { libraryRef: 'company_size', filters: { status: 'completed' } },
+      createRequestContext({ tenantId: 'tenant-4' }),
+      sdkContext,
+    );
+
+    expect(mocks.compareLibraryQuestion).toHaveBeenCalledWith(
+      'company_size',
+      'tenant-4',
+      { status: 'completed' },
+    );
+    expect(result.surveys).toHaveLength(1);
+    expect(result.generatedAt).toBeDefined();
+
+    const [block] = surveyCompareLibraryQuestionTool.responseFormatter!(result);
+    expect(block?.text).toContain('Library Question: company_size');
+    expect(block?.text).toContain('Onboarding (onboarding@1.0)');
+    expect(block?.text).toContain('small: 2, large: 1');
+  });
+
+  it('throws error when no tenant present in context', async () => {
+    setupSurveyServiceMock();
+
+    await expect(
+      surveyCompareLibraryQuestionTool.logic(
+        { libraryRef: 'company_size' },
+        createTenantlessRequestContext(),
+        sdkContext,
+      ),
+    ).rejects.toThrow('Tenant ID is required for this operation');
+  });
+});
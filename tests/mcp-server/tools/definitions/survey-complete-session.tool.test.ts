@@ -72,9 +72,68 @@ describe('surveyCompleteSessionTool', () => {
       },
       message:
         'Survey completed successfully! Thank you for your participation.',
+      guidanceForLLM:
+        'Thank the participant for their time and let them know their responses have been saved.',
     });
   });
 
+  it('returns the assigned outcome and uses its message', async () => {
+    setupSurveyServiceMock({
+      completeSession: vi.fn().mockResolvedValue({
+        success: true,
+        session: {
+          sessionId: 'sess-outcome',
+          surveyId: 'quiz',
+          surveyVersion: '1.0',
+          participantId: 'participant-10',
+          tenantId: 'tenant-9',
+          status: 'completed' as const,
+          startedAt: '2024-03-01T15:00:00.000Z',
+          lastActivityAt: '2024-03-01T15:10:00.000Z',
+          completedAt: '2024-03-01T15:10:00.000Z',
+          responses: {},
+          currentScore: 7,
+          progress: {
+            totalQuestions: 2,
+            answeredQuestions: 2,
+            requiredRemaining: 0,
+            percentComplete: 100,
+            requiredAnswered: 2,
+            estimatedTimeRemaining: '0 minutes',
+          },
+        },
+        summary: {
+          totalQuestions: 2,
+          answeredQuestions: 2,
+          duration: '10 minutes',
+        },
+        outcome: {
+          id: 'beginner',
+          label: 'Beginner',
+          message: 'You are just getting started.',
+          recommendation: 'Try the intro course.',
+        },
+      }),
+    });
+
+    const result = await surveyCompleteSessionTool.logic(
+      { sessionId: 'sess-outcome' },
+      createRequestContext({ tenantId: 'tenant-9' }),
+      sdkContext,
+    );
+
+    expect(result.outcome).toEqual({
+      id: 'beginner',
+      label: 'Beginner',
+      message: 'You are just getting started.',
+      recommendation: 'Try the intro course.',
+    });
+    expect(result.summary.finalScore).toBe(7);
+    expect(result.message).toBe('You are just getting started.');
+    expect(result.guidanceForLLM).toContain('("Beginner")');
+    expect(result.guidanceForLLM).toContain('recommended next step');
+  });
+
   it('throws error when no tenant present in context', async () => {
     setupSurveyServiceMock();
 
@@ -154,7 +213,21 @@ describe('surveyCompleteSessionTool', () => {
           answeredQuestions: 6,
           duration: '30 minutes',
         },
+        outcome: {
+          id: 'expert',
+          label: 'Expert',
+          recommendation: 'Mentor a colleague.',
+        },
+        quiz: {
+          gradedQuestions: 5,
+          correctCount: 4,
+          pointsEarned: 4,
+          pointsPossible: 5,
+          percentCorrect: 80,
+          questions: [],
+        },
         message: 'Thanks!',
+        guidanceForLLM: 'Share the outcome.',
       });
 
       const [block] = formatted;
@@ -162,6 +235,12 @@ describe('surveyCompleteSessionTool', () => {
       expect(block?.text).toContain('**Session ID:** `sess-123`');
       expect(block?.text).toContain('Mar 1, 2024');
       expect(block?.text).toContain('✅ Questions Answered: 6/6');
+      expect(block?.text).toContain('🏅 **Outcome:** Expert');
+      expect(block?.text).toContain('**Recommendation:** Mentor a colleague.');
+      expect(block?.text).toContain(
+        '📝 Quiz: 80% correct (4/5 questions, 4/5 points)',
+      );
+      expect(block?.text).toContain('💡 Share the outcome.');
 
       toLocaleSpy.mockRestore();
     });
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { surveyConvertDefinitionTool } from '@/mcp-server/tools/definitions/survey-convert-definition.tool.js';
+import { authContext } from '@/mcp-server/transports/auth/lib/authContext.js';
+import type { SdkContext } from '@/mcp-server/tools/utils/toolDefinition.js';
+
+import {
+  createRequestContext,
+  createTenantlessRequestContext,
+  setupSurveyServiceMock,
+} from './test-utils.js';
+
+const sdkContext = {} as SdkContext;
+
+describe('surveyConvertDefinitionTool', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('converts source text to the requested format', async () => {
+    const { mocks } = setupSurveyServiceMock({
+      convertDefinition: vi.fn().mockResolvedValue({
+        surveyId: 'onboarding',
+        version: '1.0',
+        content: 'id: onboarding\nversion: "1.0"\n',
+      }),
+    });
+
+    const result = await surveyConvertDefinitionTool.logic(
+      { content: '{"id": "onboarding"}', from: 'json', to: 'yaml' },
+      createRequestContext({ tenantId: 'tenant-4' }),
+      sdkContext,
+    );
+
+    expect(mocks.convertDefinition).toHaveBeenCalledWith(
+      {
+        surveyId: undefined,
+        version: undefined,
+        content: '{"id": "onboarding"}',
+        from: 'json',
+      },
+      'yaml',
+      'tenant-4',
+    );
+    expect(result).toEqual({
+      surveyId: 'onboarding',
+      version: '1.0',
+      format: 'yaml',
+      content: 'id: onboarding\nversion: "1.0"\n',
+    });
+
+    const [block] = surveyConvertDefinitionTool.responseFormatter!(result);
+    expect(block?.text).toContain('Survey Definition Converted: onboarding');
+    expect(block?.text).toContain('```yaml');
+  });
+
+  it('throws error when no tenant present in context', async () => {
+    setupSurveyServiceMock();
+
+    await expect(
+      surveyConvertDefinitionTool.logic(
+        { surveyId: 'onboarding', from: 'json', to: 'json5' },
+        createTenantlessRequestContext(),
+        sdkContext,
+      ),
+    ).rejects.toThrow('Tenant ID is required for this operation');
+  });
+
+  it('requires the admin scope, since definitions include answer keys', async () => {
+    const { mocks } = setupSurveyServiceMock({
+      convertDefinition: vi.fn(),
+    });
+
+    await authContext.run(
+      {
+        authInfo: {
+          clientId: 'test-client',
+          scopes: ['survey:definition:read'],
+          token: 'test-token',
+        },
+      },
+      async () => {
+        await expect(
+          surveyConvertDefinitionTool.logic(
+            { surveyId: 'onboarding', from: 'json', to: 'yaml' },
+            createRequestContext({ tenantId: 'tenant-4' }),
+            sdkContext,
+          ),
+        ).rejects.toThrow('Insufficient permissions');
+      },
+    );
+
+    expect(mocks.convertDefinition).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { surveyCreateTool } from '@/mcp-server/tools/definitions/survey-create.tool.js';
+import type { SdkContext } from '@/mcp-server/tools/utils/toolDefinition.js';
+import { SurveyDefinitionSchema } from '@/services/survey/types.js';
+
+import {
+  createRequestContext,
+  createTenantlessRequestContext,
+  setupSurveyServiceMock,
+} from './test-utils.js';
+
+const sdkContext = {} as SdkContext;
+
+const definition = {
+  id: 'onboarding',
+  version: '1.0',
+  status: 'draft',
+  metadata: { title: 'Onboarding', description: 'New hire survey' },
+  questions: [{ id: 'q1', type: 'free-form', text: 'How is it going?' }],
+};
+
+describe('surveyCreateTool', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('creates the survey and reports lint warnings', async () => {
+    const warning = {
+      severity: 'warning' as const,
+      code: 'unreachable_question' as const,
+      message: 'Question q1 can never be shown',
+    };
+    const { mocks } = setupSurveyServiceMock({
+      createSurvey: vi.fn().mockResolvedValue({
+        survey: SurveyDefinitionSchema.parse(definition),
+        lint: {
+          surveyId: 'onboarding',
+          valid: true,
+          errors: [],
+          warnings: [warning],
+        },
+      }),
+    });
+
+    const result = await surveyCreateTool.logic(
+      { definition },
+      createRequestContext({ tenantId: 'tenant-9' }),
+      sdkContext,
+    );
+
+    expect(mocks.createSurvey).toHaveBeenCalledWith(definition, 'tenant-9');
+    expect(result).toEqual({
+      surveyId: 'onboarding',
+      version: '1.0',
+      status: 'draft',
+      title: 'Onboarding',
+      questionCount: 1,
+      warnings: [warning],
+    });
+  });
+
+  it('throws error when no tenant present in context', async () => {
+    setupSurveyServiceMock();
+
+    await expect(
+      surveyCreateTool.logic(
+        { definition },
+        createTenantlessRequestContext(),
+        sdkContext,
+      ),
+    ).rejects.toThrow('Tenant ID is required for this operation');
+  });
+
+  describe('responseFormatter', () => {
+    it('reminds that drafts must be published', () => {
+      const [block] = surveyCreateTool.responseFormatter!({
+        surveyId: 'onboarding',
+        version: '1.0',
+        status: 'draft',
+        title: 'Onboarding',
+        questionCount: 1,
+        warnings: [],
+      });
+
+      expect(block?.text).toContain('Survey Created: Onboarding');
+      expect(block?.text).toContain('`onboarding`');
+      expect(block?.text).toContain('Publish it with survey_update');
+    });
+  });
+});
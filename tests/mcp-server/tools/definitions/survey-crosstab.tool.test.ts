@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { surveyCrosstabTool } from '@/mcp-server/tools/definitions/survey-crosstab.tool.js';
+import type { SdkContext } from '@/mcp-server/tools/utils/toolDefinition.js';
+
+import {
+  createRequestContext,
+  createTenantlessRequestContext,
+  setupSurveyServiceMock,
+} from './test-utils.js';
+
+const sdkContext = {} as SdkContext;
+
+const crosstab = {
+  rowQuestionId: 'department',
+  columnQuestionId: 'remote',
+  rowCategories: ['eng', 'sales'],
+  columnCategories: ['true', 'false'],
+  counts: [
+    [3, 1],
+    [1, 3],
+  ],
+  rowTotals: [4, 4],
+  columnTotals: [4, 4],
+  grandTotal: 8,
+  rowPercentages: [
+    [75, 25],
+    [25, 75],
+  ],
+  columnPercentages: [
+    [75, 25],
+    [25, 75],
+  ],
+  respondentCount: 8,
+  multiResponse: false,
+  chiSquare: { statistic: 2, degreesOfFreedom: 1, pValue: 0.1573 },
+};
+
+describe('surveyCrosstabTool', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('passes questions, binning and filters to the survey service', async () => {
+    const { mocks } = setupSurveyServiceMock({
+      getCrosstab: vi.fn().mockResolvedValue(crosstab),
+    });
+
+    const result = await surveyCrosstabTool.logic(
+      {
+        surveyId: 'team-survey',
+        rowQuestionId: 'department',
+        columnQuestionId: 'remote',
+        ratingBinSize: 2,
+        filters: { status: 'completed' },
+      },
+      createRequestContext({ tenantId: 'tenant-reporting' }),
+      sdkContext,
+    );
+
+    expect(mocks.getCrosstab).toHaveBeenCalledWith(
+      'team-survey',
+      'department',
+      'remote',
+      'tenant-reporting',
+      { filters: { status: 'completed' }, ratingBinSize: 2 },
+    );
+    expect(result).toMatchObject({ surveyId: 'team-survey', ...crosstab });
+    expect(result.generatedAt).toEqual(expect.any(String));
+  });
+
+  it('throws error when no tenant present in context', async () => {
+    setupSurveyServiceMock();
+
+    await expect(
+      surveyCrosstabTool.logic(
+        {
+          surveyId: 'team-survey',
+          rowQuestionId: 'department',
+          columnQuestionId: 'remote',
+        },
+        createTenantlessRequestContext(),
+        sdkContext,
+      ),
+    ).rejects.toThrow('Tenant ID is required for this operation');
+  });
+
+  describe('responseFormatter', () => {
+    it('renders counts, percentages and the chi-square test', () => {
+      const formatter = surveyCrosstabTool.responseFormatter!;
+      const [block] = formatter({
+        surveyId: 'team-survey',
+        ...crosstab,
+        generatedAt: '2024-04-15T09:00:00.000Z',
+      });
+
+      expect(block?.text).toContain('🧮 Crosstab: department × remote');
+      expect(block?.text).toContain('| eng | 3 | 1 | 4 |');
+      expect(block?.text).toContain('| Total | 4 | 4 | 8 |');
+      expect(block?.text).toContain('| sales | 25% | 75% |');
+      expect(block?.text).toContain('**p-value:** 0.1573');
+    });
+
+    it('explains when the chi-square test is not computed', () => {
+      const formatter = surveyCrosstabTool.responseFormatter!;
+      const { chiSquare: _chiSquare, ...withoutTest } = crosstab;
+      const [block] = formatter({
+        surveyId: 'team-survey',
+        ...withoutTest,
+        multiResponse: true,
+        generatedAt: '2024-04-15T09:00:00.000Z',
+      });
+
+      expect(block?.text).toContain(
+        'one respondent can count in several cells',
+      );
+      expect(block?.text).toContain(
+        'Not computed: a respondent can count in several cells',
+      );
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { surveyDeleteTool } from '@/mcp-server/tools/definitions/survey-delete.tool.js';
+import type { SdkContext } from '@/mcp-server/tools/utils/toolDefinition.js';
+
+import {
+  createRequestContext,
+  createTenantlessRequestContext,
+  setupSurveyServiceMock,
+} from './test-utils.js';
+
+const sdkContext = {} as SdkContext;
+
+describe('surveyDeleteTool', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('deletes the requested version', async () => {
+    const { mocks } = setupSurveyServiceMock({
+      deleteSurvey: vi.fn().mockResolvedValue({
+        surveyId: 'onboarding',
+        deletedVersions: ['2.0'],
+      }),
+    });
+
+    const result = await surveyDeleteTool.logic(
+      { surveyId: 'onboarding', version: '2.0' },
+      createRequestContext({ tenantId: 'tenant-9' }),
+      sdkContext,
+    );
+
+    expect(mocks.deleteSurvey).toHaveBeenCalledWith(
+      'onboarding',
+      'tenant-9',
+      '2.0',
+    );
+    expect(result).toEqual({
+      surveyId: 'onboarding',
+      deletedVersions: ['2.0'],
+    });
+
+    const [block] = surveyDeleteTool.responseFormatter!(result);
+    expect(block?.text).toContain('Survey Deleted: onboarding');
+    expect(block?.text).toContain('v2.0');
+  });
+
+  it('throws error when no tenant present in context', async () => {
+    setupSurveyServiceMock();
+
+    await expect(
+      surveyDeleteTool.logic(
+        { surveyId: 'onboarding' },
+        createTenantlessRequestContext(),
+        sdkContext,
+      ),
+    ).rejects.toThrow('Tenant ID is required for this operation');
+  });
+});
@@ -25,6 +25,7 @@ describe('surveyExportResultsTool', () => {
         format: 'csv' as const,
         data: csvData,
         recordCount: 2,
+        statusCounts: { completed: 1, 'in-progress': 1 },
         generatedAt,
       }),
     });
@@ -55,6 +56,7 @@ describe('surveyExportResultsTool', () => {
       format: 'csv',
       data: csvData,
       recordCount: 2,
+      statusCounts: { completed: 1, 'in-progress': 1 },
       generatedAt,
     });
   });
@@ -95,12 +97,16 @@ describe('surveyExportResultsTool', () => {
         format: 'csv',
         data: csv,
         recordCount: 6,
+        statusCounts: { completed: 3, 'in-progress': 2, 'screened-out': 1 },
         generatedAt: '2024-05-13T09:00:00.000Z',
       });
 
       const [block] = formatted;
       expect(block?.text).toContain('📊 Survey Export (CSV)');
       expect(block?.text).toContain('**Records Exported:** 6');
+      expect(block?.text).toContain(
+        '**By Status:** 3 completed, 2 in-progress, 1 screened-out',
+      );
       expect(block?.text).toContain('more rows');
 
       toLocaleSpy.mockRestore();
@@ -112,6 +118,7 @@ describe('surveyExportResultsTool', () => {
         format: 'json',
         data: '[{"sessionId":"sess-1"}]',
         recordCount: 1,
+        statusCounts: { completed: 1 },
         generatedAt: '2024-05-13T09:00:00.000Z',
       });
 
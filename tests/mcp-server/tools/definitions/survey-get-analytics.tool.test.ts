@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { surveyGetAnalyticsTool } from '@/mcp-server/tools/definitions/survey-get-analytics.tool.js';
+import type { SdkContext } from '@/mcp-server/tools/utils/toolDefinition.js';
+
+import {
+  createRequestContext,
+  createTenantlessRequestContext,
+  setupSurveyServiceMock,
+} from './test-utils.js';
+
+const sdkContext = {} as SdkContext;
+
+const report = {
+  totalSessions: 4,
+  completedSessions: 3,
+  inProgressSessions: 1,
+  abandonedSessions: 0,
+  expiredSessions: 0,
+  screenedOutSessions: 0,
+  completionRate: '75%',
+  averageCompletionTime: '6 minutes',
+  questionStats: [
+    {
+      questionId: 'team_size',
+      questionText: 'How big is your team?',
+      responseCount: 3,
+      skippedCount: 0,
+      responseRate: '75%',
+      numericSummary: {
+        count: 3,
+        mean: 6,
+        median: 5,
+        stdDev: 2.16,
+        min: 4,
+        max: 9,
+        percentiles: { p25: 4.5, p75: 7, p90: 8.2 },
+      },
+    },
+    {
+      questionId: 'remote',
+      questionText: 'Do you work remotely?',
+      responseCount: 3,
+      skippedCount: 1,
+      responseRate: '75%',
+      booleanSplit: { true: 2, false: 1 },
+    },
+  ],
+};
+
+const funnel = {
+  sessionCount: 4,
+  steps: [
+    {
+      questionId: 'team_size',
+      questionText: 'How big is your team?',
+      position: 1,
+      reachedCount: 4,
+      reachedRate: '100%',
+      medianSecondsToAnswer: 20,
+      lastAnsweredBeforeAbandonment: 0,
+    },
+    {
+      questionId: 'remote',
+      questionText: 'Do you work remotely?',
+      position: 2,
+      reachedCount: 3,
+      reachedRate: '75%',
+      medianSecondsToAnswer: 90,
+      lastAnsweredBeforeAbandonment: 1,
+    },
+  ],
+  medianSecondsBetweenAnswers: 90,
+  abandonedWithoutAnswers: 0,
+  completionCurve: [
+    { questionsAnswered: 1, sessionCount: 4, sessionRate: '100%' },
+    { questionsAnswered: 2, sessionCount: 3, sessionRate: '75%' },
+  ],
+};
+
+describe('surveyGetAnalyticsTool', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('passes filters to the survey service and returns the report', async () => {
+    const { mocks } = setupSurveyServiceMock({
+      getAnalytics: vi.fn().mockResolvedValue(report),
+    });
+
+    const result = await surveyGetAnalyticsTool.logic(
+      {
+        surveyId: 'team-survey',
+        filters: { status: 'completed' },
+        mode: 'summary',
+      },
+      createRequestContext({ tenantId: 'tenant-reporting' }),
+      sdkContext,
+    );
+
+    expect(mocks.getAnalytics).toHaveBeenCalledWith(
+      'team-survey',
+      'tenant-reporting',
+      { status: 'completed' },
+    );
+    expect(result).toMatchObject({ surveyId: 'team-survey', ...report });
+    expect(result.generatedAt).toEqual(expect.any(String));
+    expect(result.funnel).toBeUndefined();
+  });
+
+  it('adds the drop-off funnel in funnel mode', async () => {
+    const { mocks } = setupSurveyServiceMock({
+      getAnalytics: vi.fn().mockResolvedValue(report),
+      getDropOffFunnel: vi.fn().mockResolvedValue(funnel),
+    });
+
+    const result = await surveyGetAnalyticsTool.logic(
+      { surveyId: 'team-survey', mode: 'funnel' },
+      createRequestContext({ tenantId: 'tenant-reporting' }),
+      sdkContext,
+    );
+
+    expect(mocks.getDropOffFunnel).toHaveBeenCalledWith(
+      'team-survey',
+      'tenant-reporting',
+      undefined,
+    );
+    expect(result.funnel).toEqual(funnel);
+  });
+
+  it('throws error when no tenant present in context', async () => {
+    setupSurveyServiceMock();
+
+    await expect(
+      surveyGetAnalyticsTool.logic(
+        { surveyId: 'team-survey', mode: 'summary' },
+        createTenantlessRequestContext(),
+        sdkContext,
+      ),
+    ).rejects.toThrow('Tenant ID is required for this operation');
+  });
+
+  describe('responseFormatter', () => {
+    it('renders session totals and per-type statistics', () => {
+      const formatter = surveyGetAnalyticsTool.responseFormatter!;
+      const [block] = formatter({
+        surveyId: 'team-survey',
+        ...report,
+        generatedAt: '2024-04-15T09:00:00.000Z',
+      });
+
+      expect(block?.text).toContain('📈 Survey Analytics: team-survey');
+      expect(block?.text).toContain('**Completion Rate:** 75%');
+      expect(block?.text).toContain('Mean 6, median 5, std dev 2.16');
+      expect(block?.text).toContain('True: 2, False: 1');
+      expect(block?.text).not.toContain('Drop-off Funnel');
+      expect(block?.text).not.toContain('Outcomes');
+    });
+
+    it('renders the outcome distribution when present', () => {
+      const formatter = surveyGetAnalyticsTool.responseFormatter!;
+      const [block] = formatter({
+        surveyId: 'team-survey',
+        ...report,
+        outcomeDistribution: [
+          {
+            outcomeId: 'beginner',
+            label: 'Beginner',
+            count: 2,
+            percentage: '67%',
+          },
+          { outcomeId: 'expert', label: 'Expert', count: 1, percentage: '33%' },
+        ],
+        generatedAt: '2024-04-15T09:00:00.000Z',
+      });
+
+      expect(block?.text).toContain('## 🏅 Outcomes');
+      expect(block?.text).toContain('| Beginner (beginner) | 2 | 67% |');
+    });
+
+    it('renders the funnel as markdown tables', () => {
+      const formatter = surveyGetAnalyticsTool.responseFormatter!;
+      const [block] = formatter({
+        surveyId: 'team-survey',
+        ...report,
+        funnel,
+        generatedAt: '2024-04-15T09:00:00.000Z',
+      });
+
+      expect(block?.text).toContain('## 🔻 Drop-off Funnel');
+      expect(block?.text).toContain(
+        '| # | Question | Reached | Median Time | Last Before Abandonment |',
+      );
+      expect(block?.text).toContain('| 2 | remote | 3 (75%) | 1.5m | 1 |');
+      expect(block?.text).toContain('| ≥ 1 | 4 | 100% |');
+    });
+  });
+});
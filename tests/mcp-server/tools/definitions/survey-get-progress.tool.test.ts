@@ -184,6 +184,62 @@ describe('surveyGetProgressTool', () => {
       expect(block?.text).toContain('❌ Cannot complete yet');
     });
 
+    it('lists section progress for surveys with sections', () => {
+      const formatter = surveyGetProgressTool.responseFormatter!;
+      const formatted = formatter({
+        status: 'in-progress',
+        progress: {
+          totalQuestions: 4,
+          answeredQuestions: 2,
+          requiredRemaining: 1,
+          percentComplete: 50,
+          currentSection: { id: 'usage', title: 'Usage' },
+          sections: [
+            {
+              sectionId: 'about',
+              title: 'About you',
+              status: 'completed',
+              totalQuestions: 2,
+              answeredQuestions: 2,
+              skippedQuestions: 0,
+              requiredRemaining: 0,
+              percentComplete: 100,
+            },
+            {
+              sectionId: 'pricing',
+              title: 'Pricing',
+              status: 'hidden',
+              totalQuestions: 1,
+              answeredQuestions: 0,
+              skippedQuestions: 0,
+              requiredRemaining: 0,
+              percentComplete: 0,
+            },
+            {
+              sectionId: 'usage',
+              title: 'Usage',
+              status: 'not-started',
+              totalQuestions: 1,
+              answeredQuestions: 0,
+              skippedQuestions: 0,
+              requiredRemaining: 1,
+              percentComplete: 0,
+            },
+          ],
+        },
+        unansweredRequired: [],
+        unansweredOptional: [],
+        canComplete: false,
+        completionBlockers: [],
+        guidanceForLLM: 'Continue',
+      });
+
+      const [block] = formatted;
+      expect(block?.text).toContain('✅ About you: 2/2 (100%)');
+      expect(block?.text).toContain('🚫 Pricing: not shown');
+      expect(block?.text).toContain('⬜ Usage: 0/1 (0%) ← current');
+    });
+
     it('indicates completion readiness and optional remaining counts', () => {
       const formatter = surveyGetProgressTool.responseFormatter!;
       const formatted = formatter({
@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { surveyGetQuotaStatusTool } from '@/mcp-server/tools/definitions/survey-get-quota-status.tool.js';
+import type { SdkContext } from '@/mcp-server/tools/utils/toolDefinition.js';
+
+import {
+  createRequestContext,
+  createTenantlessRequestContext,
+  setupSurveyServiceMock,
+} from './test-utils.js';
+
+const sdkContext = {} as SdkContext;
+
+const status = {
+  surveyId: 'role-study',
+  completes: 180,
+  maxCompletes: 200,
+  remaining: 20,
+  full: false,
+  screenedOutByQuota: 12,
+  cells: [
+    {
+      id: 'managers',
+      label: 'Managers',
+      questionId: 'user_role',
+      limit: 50,
+      completes: 50,
+      inProgress: 0,
+      remaining: 0,
+      full: true,
+    },
+    {
+      id: 'engineers',
+      questionId: 'user_role',
+      limit: 50,
+      completes: 41,
+      inProgress: 3,
+      remaining: 9,
+      full: false,
+    },
+  ],
+};
+
+describe('surveyGetQuotaStatusTool', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns live quota fill from the survey service', async () => {
+    const { mocks } = setupSurveyServiceMock({
+      getQuotaStatus: vi.fn().mockResolvedValue(status),
+    });
+
+    const result = await surveyGetQuotaStatusTool.logic(
+      { surveyId: 'role-study' },
+      createRequestContext({ tenantId: 'tenant-ops' }),
+      sdkContext,
+    );
+
+    expect(mocks.getQuotaStatus).toHaveBeenCalledWith(
+      'role-study',
+      'tenant-ops',
+    );
+    expect(result).toMatchObject(status);
+    expect(result.generatedAt).toEqual(expect.any(String));
+  });
+
+  it('throws error when no tenant present in context', async () => {
+    setupSurveyServiceMock();
+
+    await expect(
+      surveyGetQuotaStatusTool.logic(
+        { surveyId: 'role-study' },
+        createTenantlessRequestContext(),
+        sdkContext,
+      ),
+    ).rejects.toThrow('Tenant ID is required for this operation');
+  });
+
+  describe('responseFormatter', () => {
+    it('renders overall fill and a row per cell', () => {
+      const formatter = surveyGetQuotaStatusTool.responseFormatter!;
+      const [block] = formatter({
+        ...status,
+        generatedAt: '2024-04-15T09:00:00.000Z',
+      });
+
+      expect(block?.text).toContain('Quota Status: role-study');
+      expect(block?.text).toContain('**Completes:** 180/200 (20 remaining)');
+      expect(block?.text).toContain(
+        '| Managers | user_role | 50 | 50 | 0 | 🔴 Full |',
+      );
+      expect(block?.text).toContain(
+        '| engineers | user_role | 41 | 50 | 3 | 🟢 9 left |',
+      );
+    });
+
+    it('notes when the survey has no quotas', () => {
+      const formatter = surveyGetQuotaStatusTool.responseFormatter!;
+      const [block] = formatter({
+        surveyId: 'plain',
+        completes: 4,
+        full: false,
+        screenedOutByQuota: 0,
+        cells: [],
+        generatedAt: '2024-04-15T09:00:00.000Z',
+      });
+
+      expect(block?.text).toContain('4 (no overall cap)');
+      expect(block?.text).toContain('does not define any quotas');
+    });
+  });
+});
@@ -3,11 +3,17 @@ import { afterEach, describe, expect, it, vi } from 'vitest';
 import { SurveyServiceToken } from '@/container/tokens.js';
 import { surveyListAvailableTool } from '@/mcp-server/tools/definitions/survey-list-available.tool.js';
 import type { SdkContext } from '@/mcp-server/tools/utils/toolDefinition.js';
+import { JsonRpcErrorCode } from '@/types-global/errors.js';
 
-import { createRequestContext, setupSurveyServiceMock } from './test-utils.js';
+import {
+  createRequestContext,
+  createTenantlessRequestContext,
+  setupSurveyServiceMock,
+} from './test-utils.js';
 
 type SurveySummary = {
   id: string;
+  version: string;
   title: string;
   description: string;
   estimatedDuration?: string;
@@ -25,6 +31,7 @@ describe('surveyListAvailableTool', () => {
     const surveySummaries: SurveySummary[] = [
       {
         id: 'survey-1',
+        version: '1.0',
         title: 'Survey One',
         description: 'First survey description',
         estimatedDuration: '5 minutes',
@@ -32,6 +39,7 @@ describe('surveyListAvailableTool', () => {
       },
       {
         id: 'survey-2',
+        version: '1.0',
         title: 'Survey Two',
         description: 'Second survey description',
         questionCount: 7,
@@ -44,7 +52,7 @@ describe('surveyListAvailableTool', () => {
 
     const result = await surveyListAvailableTool.logic(
       { tenantId: 'tenant-input' },
-      createRequestContext({ tenantId: 'tenant-context' }),
+      createTenantlessRequestContext(),
       sdkContext,
     );
 
@@ -60,6 +68,7 @@ describe('surveyListAvailableTool', () => {
     const surveySummaries: SurveySummary[] = [
       {
         id: 'survey-3',
+        version: '1.0',
         title: 'Survey Three',
         description: 'Third survey description',
         questionCount: 12,
@@ -81,6 +90,21 @@ describe('surveyListAvailableTool', () => {
     expect(result.surveys).toEqual(surveySummaries);
   });
 
+  it("rejects listing another tenant's surveys", async () => {
+    const { mocks } = setupSurveyServiceMock({
+      listAvailableSurveys: vi.fn(),
+    });
+
+    await expect(
+      surveyListAvailableTool.logic(
+        { tenantId: 'tenant-other' },
+        createRequestContext({ tenantId: 'tenant-context' }),
+        sdkContext,
+      ),
+    ).rejects.toMatchObject({ code: JsonRpcErrorCode.Forbidden });
+    expect(mocks.listAvailableSurveys).not.toHaveBeenCalled();
+  });
+
   describe('responseFormatter', () => {
     it('formats a list of surveys with descriptions', () => {
       const formatter = surveyListAvailableTool.responseFormatter!;
@@ -89,6 +113,7 @@ describe('surveyListAvailableTool', () => {
         surveys: [
           {
             id: 'survey-1',
+            version: '2.1',
             title: 'Customer Feedback',
             description: 'Collect feedback on the product',
             estimatedDuration: '5 minutes',
@@ -96,6 +121,7 @@ describe('surveyListAvailableTool', () => {
           },
           {
             id: 'survey-2',
+            version: '1.0',
             title: 'Employee Happiness',
             description: 'Understand team morale',
             questionCount: 8,
@@ -106,6 +132,7 @@ describe('surveyListAvailableTool', () => {
       const [block] = formatted;
       expect(block?.text).toContain('📋 Available Surveys (2)');
       expect(block?.text).toContain('**Customer Feedback**');
+      expect(block?.text).toContain('ID: `survey-1` (v2.1)');
       expect(block?.text).toContain('📝 8 questions');
     });
 
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { surveyListSessionsTool } from '@/mcp-server/tools/definitions/survey-list-sessions.tool.js';
+import type { SdkContext } from '@/mcp-server/tools/utils/toolDefinition.js';
+
+import {
+  createRequestContext,
+  createTenantlessRequestContext,
+  setupSurveyServiceMock,
+} from './test-utils.js';
+
+const sdkContext = {} as SdkContext;
+
+const page = {
+  sessions: [
+    {
+      sessionId: 'sess-1',
+      participantId: 'participant-1',
+      status: 'in-progress' as const,
+      percentComplete: 40,
+      lastActivityAt: '2024-04-15T09:00:00.000Z',
+      currentScore: 3,
+    },
+  ],
+  totalCount: 2,
+  nextCursor: 'cursor-2',
+};
+
+describe('surveyListSessionsTool', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('builds filters from the input and returns the page', async () => {
+    const { mocks } = setupSurveyServiceMock({
+      listSessions: vi.fn().mockResolvedValue(page),
+    });
+    const context = createRequestContext({ tenantId: 'tenant-interviews' });
+
+    const result = await surveyListSessionsTool.logic(
+      {
+        surveyId: 'team-survey',
+        participantId: 'participant-1',
+        status: 'in-progress',
+        metadata: { site: 'berlin' },
+        pageSize: 1,
+      },
+      context,
+      sdkContext,
+    );
+
+    expect(mocks.listSessions).toHaveBeenCalledWith(
+      'team-survey',
+      'tenant-interviews',
+      {
+        filters: {
+          participantIds: ['participant-1'],
+          status: 'in-progress',
+          metadata: { site: 'berlin' },
+        },
+        cursor: undefined,
+        pageSize: 1,
+      },
+      context,
+    );
+    expect(result).toEqual({ surveyId: 'team-survey', ...page });
+  });
+
+  it('throws error when no tenant present in context', async () => {
+    setupSurveyServiceMock();
+
+    await expect(
+      surveyListSessionsTool.logic(
+        { surveyId: 'team-survey' },
+        createTenantlessRequestContext(),
+        sdkContext,
+      ),
+    ).rejects.toThrow('Tenant ID is required for this operation');
+  });
+
+  describe('responseFormatter', () => {
+    it('renders a session table and the next cursor', () => {
+      const formatter = surveyListSessionsTool.responseFormatter!;
+      const [block] = formatter({ surveyId: 'team-survey', ...page });
+
+      expect(block?.text).toContain('**Showing:** 1 of 2 matching sessions');
+      expect(block?.text).toContain(
+        '| sess-1 | participant-1 | in-progress | 40% | 2024-04-15T09:00:00.000Z | 3 |',
+      );
+      expect(block?.text).toContain('**Next Cursor:** cursor-2');
+    });
+
+    it('notes when no sessions match', () => {
+      const formatter = surveyListSessionsTool.responseFormatter!;
+      const [block] = formatter({
+        surveyId: 'team-survey',
+        sessions: [],
+        totalCount: 0,
+      });
+
+      expect(block?.text).toContain('No sessions match these filters.');
+      expect(block?.text).not.toContain('Next Cursor');
+    });
+  });
+});
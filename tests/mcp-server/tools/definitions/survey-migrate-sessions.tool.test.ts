@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { surveyMigrateSessionsTool } from '@/mcp-server/tools/definitions/survey-migrate-sessions.tool.js';
+import type { SdkContext } from '@/mcp-server/tools/utils/toolDefinition.js';
+
+import {
+  createRequestContext,
+  createTenantlessRequestContext,
+  setupSurveyServiceMock,
+} from './test-utils.js';
+
+const sdkContext = {} as SdkContext;
+
+const report = {
+  sessionId: 'sess-1',
+  participantId: 'participant-1',
+  migrated: [
+    { fromQuestionId: 'role', toQuestionId: 'job_role', valueRemapped: true },
+  ],
+  lost: [{ questionId: 'legacy', reason: 'dropped' as const }],
+};
+
+describe('surveyMigrateSessionsTool', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('previews a migration by default', async () => {
+    const { mocks } = setupSurveyServiceMock({
+      migrateSessions: vi.fn().mockResolvedValue({
+        fromVersion: '1.0',
+        toVersion: '2.0',
+        sessions: [report],
+        migratedCount: 0,
+      }),
+    });
+
+    const input = surveyMigrateSessionsTool.inputSchema.parse({
+      surveyId: 'survey-1',
+      fromVersion: '1.0',
+      rules: { renames: { role: 'job_role' }, drop: ['legacy'] },
+    });
+    const result = await surveyMigrateSessionsTool.logic(
+      input,
+      createRequestContext({ tenantId: 'tenant-9' }),
+      sdkContext,
+    );
+
+    expect(mocks.migrateSessions).toHaveBeenCalledWith('survey-1', 'tenant-9', {
+      fromVersion: '1.0',
+      toVersion: undefined,
+      rules: {
+        renames: { role: 'job_role' },
+        optionMaps: {},
+        drop: ['legacy'],
+        matchById: true,
+      },
+      sessionIds: undefined,
+      dryRun: true,
+    });
+    expect(result).toEqual({
+      surveyId: 'survey-1',
+      fromVersion: '1.0',
+      toVersion: '2.0',
+      dryRun: true,
+      migratedCount: 0,
+      sessions: [report],
+    });
+  });
+
+  it('throws error when no tenant present in context', async () => {
+    setupSurveyServiceMock();
+
+    await expect(
+      surveyMigrateSessionsTool.logic(
+        { surveyId: 'survey-1', fromVersion: '1.0', dryRun: true },
+        createTenantlessRequestContext(),
+        sdkContext,
+      ),
+    ).rejects.toThrow('Tenant ID is required for this operation');
+  });
+
+  describe('responseFormatter', () => {
+    it('lists what each session keeps and loses', () => {
+      const formatter = surveyMigrateSessionsTool.responseFormatter!;
+      const [preview] = formatter({
+        surveyId: 'survey-1',
+        fromVersion: '1.0',
+        toVersion: '2.0',
+        dryRun: true,
+        migratedCount: 0,
+        sessions: [report],
+      });
+
+      expect(preview?.text).toContain('Migration Preview: survey-1');
+      expect(preview?.text).toContain('v1.0 → v2.0');
+      expect(preview?.text).toContain('1 would be migrated');
+      expect(preview?.text).toContain('legacy (dropped)');
+      expect(preview?.text).toContain('dryRun: false');
+
+      const [applied] = formatter({
+        surveyId: 'survey-1',
+        fromVersion: '1.0',
+        toVersion: '2.0',
+        dryRun: false,
+        migratedCount: 0,
+        sessions: [],
+      });
+      expect(applied?.text).toContain('Sessions Migrated: survey-1');
+      expect(applied?.text).toContain(
+        'No unfinished sessions are pinned to version 1.0.',
+      );
+    });
+  });
+});
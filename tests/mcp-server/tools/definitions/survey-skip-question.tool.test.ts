@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { surveySkipQuestionTool } from '@/mcp-server/tools/definitions/survey-skip-question.tool.js';
+import type { SdkContext } from '@/mcp-server/tools/utils/toolDefinition.js';
+
+import {
+  createRequestContext,
+  createTenantlessRequestContext,
+  setupSurveyServiceMock,
+} from './test-utils.js';
+
+const sdkContext = {} as SdkContext;
+
+const progress = {
+  totalQuestions: 5,
+  answeredQuestions: 2,
+  skippedQuestions: 1,
+  requiredRemaining: 1,
+  percentComplete: 60,
+  requiredAnswered: 1,
+  estimatedTimeRemaining: '2 minutes',
+};
+
+describe('surveySkipQuestionTool', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('records the skip and returns updated progress', async () => {
+    const nextSuggestedQuestions = [
+      {
+        id: 'q4',
+        type: 'free-form' as const,
+        text: 'Anything else?',
+        required: false,
+        currentlyEligible: true,
+        eligibilityReason: 'No conditions',
+        alreadyAnswered: false,
+      },
+    ];
+
+    const { mocks } = setupSurveyServiceMock({
+      skipQuestion: vi.fn().mockResolvedValue({
+        progress,
+        updatedEligibility: [],
+        nextSuggestedQuestions,
+      }),
+    });
+
+    const result = await surveySkipQuestionTool.logic(
+      {
+        sessionId: 'sess-1',
+        questionId: 'income',
+        reason: 'prefers not to say',
+      },
+      createRequestContext({ tenantId: 'tenant-1' }),
+      sdkContext,
+    );
+
+    expect(mocks.skipQuestion).toHaveBeenCalledWith(
+      'sess-1',
+      'income',
+      'tenant-1',
+      'prefers not to say',
+    );
+    expect(result.success).toBe(true);
+    expect(result.progress).toEqual(progress);
+    expect(result.nextSuggestedQuestions).toEqual(nextSuggestedQuestions);
+    expect(result.guidanceForLLM).toContain('marked as skipped');
+  });
+
+  it('ends the survey when the skip matches a screen-out rule', async () => {
+    setupSurveyServiceMock({
+      skipQuestion: vi.fn().mockResolvedValue({
+        progress,
+        updatedEligibility: [],
+        nextSuggestedQuestions: [],
+        screenOut: { reason: 'termination-rule', ruleId: 'consent_declined' },
+      }),
+    });
+
+    const result = await surveySkipQuestionTool.logic(
+      { sessionId: 'sess-1', questionId: 'consent' },
+      createRequestContext({ tenantId: 'tenant-1' }),
+      sdkContext,
+    );
+
+    expect(result.screenOut).toEqual({
+      reason: 'termination-rule',
+      ruleId: 'consent_declined',
+    });
+    expect(result.guidanceForLLM).toContain('ended the survey');
+    expect(result.guidanceForLLM).not.toContain('suggested questions');
+
+    const [block] = surveySkipQuestionTool.responseFormatter!(result);
+    expect(block?.text).toContain('🚫 Survey Ended (screened out)');
+  });
+
+  it('throws error when no tenant present in context', async () => {
+    setupSurveyServiceMock();
+
+    await expect(
+      surveySkipQuestionTool.logic(
+        { sessionId: 'sess-1', questionId: 'q1' },
+        createTenantlessRequestContext(),
+        sdkContext,
+      ),
+    ).rejects.toThrow('Tenant ID is required for this operation');
+  });
+
+  describe('responseFormatter', () => {
+    it('summarizes the skip and progress', () => {
+      const formatter = surveySkipQuestionTool.responseFormatter!;
+      const [block] = formatter({
+        success: true,
+        questionId: 'income',
+        progress,
+        updatedEligibility: [],
+        nextSuggestedQuestions: [],
+        guidanceForLLM: 'continue',
+      });
+
+      expect(block?.text).toContain('⏭️ Question Skipped: income');
+      expect(block?.text).toContain('2 answered, 1 skipped of 5');
+    });
+  });
+});
@@ -59,6 +59,36 @@ describe('surveySubmitResponseTool', () => {
     expect(result.guidanceForLLM).toContain('invalid');
   });
 
+  it('tells the LLM to move on once the question is locked', async () => {
+    setupSurveyServiceMock({
+      submitResponse: vi.fn().mockResolvedValue({
+        success: false,
+        validation: {
+          valid: false,
+          errors: [
+            {
+              field: 'value',
+              message: 'Invalid email address format',
+              constraint: 'pattern',
+            },
+          ],
+        },
+        attemptsRemaining: 0,
+        questionLocked: true,
+      }),
+    });
+
+    const result = await surveySubmitResponseTool.logic(
+      { sessionId: 'sess-1', questionId: 'email', value: 'nope' },
+      createRequestContext({ tenantId: 'tenant-1' }),
+      sdkContext,
+    );
+
+    expect(result.questionLocked).toBe(true);
+    expect(result.attemptsRemaining).toBe(0);
+    expect(result.guidanceForLLM).toContain('this question is now locked');
+  });
+
   it('returns progress, eligibility changes, and guidance on success', async () => {
     const validationResult = {
       valid: true,
@@ -131,6 +161,155 @@ describe('surveySubmitResponseTool', () => {
     );
   });
 
+  it('passes the quiz grade and feedback through to the LLM', async () => {
+    const grade = {
+      questionId: 'capital',
+      correct: false,
+      credit: 0,
+      pointsEarned: 0,
+      pointsPossible: 1,
+      feedback: 'The capital of France is Paris.',
+    };
+    setupSurveyServiceMock({
+      submitResponse: vi.fn().mockResolvedValue({
+        success: true,
+        validation: { valid: true, errors: [] },
+        progress: {
+          totalQuestions: 2,
+          answeredQuestions: 1,
+          requiredRemaining: 1,
+          percentComplete: 50,
+        },
+        updatedEligibility: [],
+        nextSuggestedQuestions: [],
+        grade,
+      }),
+    });
+
+    const result = await surveySubmitResponseTool.logic(
+      { sessionId: 'sess-quiz', questionId: 'capital', value: 'lyon' },
+      createRequestContext({ tenantId: 'tenant-abc' }),
+      sdkContext,
+    );
+
+    expect(result.grade).toEqual(grade);
+    expect(result.guidanceForLLM).toContain('The answer is incorrect.');
+    expect(result.guidanceForLLM).toContain(
+      '"The capital of France is Paris."',
+    );
+
+    const [block] = surveySubmitResponseTool.responseFormatter!(result);
+    expect(block?.text).toContain('❌ Incorrect (0/1 points)');
+  });
+
+  it('tells the LLM to transition when a new section begins', async () => {
+    const enteredSection = {
+      id: 'pricing',
+      title: 'Pricing',
+      intro: "Now let's talk about pricing.",
+    };
+    setupSurveyServiceMock({
+      submitResponse: vi.fn().mockResolvedValue({
+        success: true,
+        validation: { valid: true, errors: [] },
+        progress: {
+          totalQuestions: 4,
+          answeredQuestions: 2,
+          requiredRemaining: 2,
+          percentComplete: 50,
+          currentSection: enteredSection,
+        },
+        updatedEligibility: [],
+        nextSuggestedQuestions: [],
+        enteredSection,
+      }),
+    });
+
+    const result = await surveySubmitResponseTool.logic(
+      { sessionId: 'sess-1', questionId: 'plan', value: 'pro' },
+      createRequestContext({ tenantId: 'tenant-abc' }),
+      sdkContext,
+    );
+
+    expect(result.enteredSection).toEqual(enteredSection);
+    expect(result.guidanceForLLM).toContain(
+      'Suggestions now move on to the "Pricing" section; transition into it with: "Now let\'s talk about pricing."',
+    );
+
+    const [block] = surveySubmitResponseTool.responseFormatter!(result);
+    expect(block?.text).toContain('📂 Next Section: Pricing');
+  });
+
+  it('tells the LLM to end the conversation when a screen-out rule matches', async () => {
+    setupSurveyServiceMock({
+      submitResponse: vi.fn().mockResolvedValue({
+        success: true,
+        validation: { valid: true, errors: [] },
+        progress: {
+          totalQuestions: 4,
+          answeredQuestions: 1,
+          requiredRemaining: 2,
+          percentComplete: 25,
+        },
+        updatedEligibility: [],
+        nextSuggestedQuestions: [],
+        screenOut: {
+          reason: 'termination-rule',
+          ruleId: 'too_small',
+          message: 'This study is for larger companies.',
+        },
+      }),
+    });
+
+    const result = await surveySubmitResponseTool.logic(
+      { sessionId: 'sess-screen', questionId: 'company_size', value: '1-10' },
+      createRequestContext({ tenantId: 'tenant-abc' }),
+      sdkContext,
+    );
+
+    expect(result.screenOut).toEqual({
+      reason: 'termination-rule',
+      ruleId: 'too_small',
+      message: 'This study is for larger companies.',
+    });
+    expect(result.nextSuggestedQuestions).toBeUndefined();
+    expect(result.guidanceForLLM).toContain(
+      '"This study is for larger companies."',
+    );
+    expect(result.guidanceForLLM).toContain(
+      'do not ask any further survey questions',
+    );
+
+    const [block] = surveySubmitResponseTool.responseFormatter!(result);
+    expect(block?.text).toContain('🚫 Survey Ended (screened out)');
+    expect(block?.text).toContain('This study is for larger companies.');
+  });
+
+  it('explains quota screen-outs as a full group rather than disqualification', async () => {
+    setupSurveyServiceMock({
+      submitResponse: vi.fn().mockResolvedValue({
+        success: true,
+        validation: { valid: true, errors: [] },
+        updatedEligibility: [],
+        nextSuggestedQuestions: [],
+        screenOut: { reason: 'quota-full', ruleId: 'managers' },
+      }),
+    });
+
+    const result = await surveySubmitResponseTool.logic(
+      { sessionId: 'sess-quota', questionId: 'user_role', value: 'manager' },
+      createRequestContext({ tenantId: 'tenant-abc' }),
+      sdkContext,
+    );
+
+    expect(result.guidanceForLLM).toContain(
+      'the quota for their group is already full (quota "managers")',
+    );
+    expect(result.guidanceForLLM).toContain(
+      'Let them know the survey has ended.',
+    );
+  });
+
   it('throws error when no tenant present in context', async () => {
     setupSurveyServiceMock();
 
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { surveyUpdateTool } from '@/mcp-server/tools/definitions/survey-update.tool.js';
+import type { SdkContext } from '@/mcp-server/tools/utils/toolDefinition.js';
+import { SurveyDefinitionSchema } from '@/services/survey/types.js';
+
+import {
+  createRequestContext,
+  createTenantlessRequestContext,
+  setupSurveyServiceMock,
+} from './test-utils.js';
+
+const sdkContext = {} as SdkContext;
+
+describe('surveyUpdateTool', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('publishes a draft version', async () => {
+    const { mocks } = setupSurveyServiceMock({
+      updateSurvey: vi.fn().mockResolvedValue({
+        survey: SurveyDefinitionSchema.parse({
+          id: 'onboarding',
+          version: '1.1',
+          status: 'published',
+          metadata: { title: 'Onboarding', description: 'New hire survey' },
+          questions: [
+            { id: 'q1', type: 'free-form', text: 'How is it going?' },
+          ],
+        }),
+        previousStatus: 'draft',
+        lint: { valid: true, errors: [], warnings: [] },
+      }),
+    });
+
+    const result = await surveyUpdateTool.logic(
+      { surveyId: 'onboarding', version: '1.1', status: 'published' },
+      createRequestContext({ tenantId: 'tenant-9' }),
+      sdkContext,
+    );
+
+    expect(mocks.updateSurvey).toHaveBeenCalledWith('onboarding', 'tenant-9', {
+      version: '1.1',
+      definition: undefined,
+      status: 'published',
+    });
+    expect(result).toMatchObject({
+      surveyId: 'onboarding',
+      version: '1.1',
+      status: 'published',
+      previousStatus: 'draft',
+      questionCount: 1,
+    });
+  });
+
+  it('throws error when no tenant present in context', async () => {
+    setupSurveyServiceMock();
+
+    await expect(
+      surveyUpdateTool.logic(
+        { surveyId: 'onboarding', status: 'closed' },
+        createTenantlessRequestContext(),
+        sdkContext,
+      ),
+    ).rejects.toThrow('Tenant ID is required for this operation');
+  });
+
+  describe('responseFormatter', () => {
+    it('shows the status transition', () => {
+      const [block] = surveyUpdateTool.responseFormatter!({
+        surveyId: 'onboarding',
+        version: '1.1',
+        status: 'published',
+        previousStatus: 'draft',
+        title: 'Onboarding',
+        questionCount: 1,
+        warnings: [],
+      });
+
+      expect(block?.text).toContain('Survey Updated: Onboarding');
+      expect(block?.text).toContain('draft → published');
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { surveyValidateDefinitionTool } from '@/mcp-server/tools/definitions/survey-validate-definition.tool.js';
+import type { SdkContext } from '@/mcp-server/tools/utils/toolDefinition.js';
+
+import {
+  createRequestContext,
+  createTenantlessRequestContext,
+  setupSurveyServiceMock,
+} from './test-utils.js';
+
+const sdkContext = {} as SdkContext;
+
+describe('surveyValidateDefinitionTool', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('lints a loaded survey and reports issue counts', async () => {
+    const warning = {
+      severity: 'warning' as const,
+      code: 'unreachable_question' as const,
+      message: 'Question "q3" can never become eligible',
+      questionId: 'q3',
+      path: 'questions.2.conditional',
+    };
+
+    const { mocks } = setupSurveyServiceMock({
+      validateDefinition: vi.fn().mockResolvedValue({
+        surveyId: 'survey-1',
+        valid: true,
+        errors: [],
+        warnings: [warning],
+      }),
+    });
+
+    const result = await surveyValidateDefinitionTool.logic(
+      { surveyId: 'survey-1' },
+      createRequestContext({ tenantId: 'tenant-authoring' }),
+      sdkContext,
+    );
+
+    expect(mocks.validateDefinition).toHaveBeenCalledWith(
+      { surveyId: 'survey-1', definition: undefined },
+      'tenant-authoring',
+    );
+    expect(result).toEqual({
+      surveyId: 'survey-1',
+      valid: true,
+      errorCount: 0,
+      warningCount: 1,
+      errors: [],
+      warnings: [warning],
+    });
+  });
+
+  it('throws error when no tenant present in context', async () => {
+    setupSurveyServiceMock();
+
+    await expect(
+      surveyValidateDefinitionTool.logic(
+        { surveyId: 'survey-1' },
+        createTenantlessRequestContext(),
+        sdkContext,
+      ),
+    ).rejects.toThrow('Tenant ID is required for this operation');
+  });
+
+  describe('responseFormatter', () => {
+    it('lists errors with their codes and locations', () => {
+      const formatter = surveyValidateDefinitionTool.responseFormatter!;
+      const [block] = formatter({
+        surveyId: 'draft',
+        valid: false,
+        errorCount: 1,
+        warningCount: 0,
+        errors: [
+          {
+            severity: 'error',
+            code: 'missing_dependency',
+            message: 'Question "q2" depends on unknown question "q9"',
+            questionId: 'q2',
+            path: 'questions.1.conditional',
+          },
+        ],
+        warnings: [],
+      });
+
+      expect(block?.text).toContain('❌ Survey Definition Invalid — draft');
+      expect(block?.text).toContain(
+        '- **missing_dependency** (`questions.1.conditional`)',
+      );
+    });
+  });
+});
@@ -38,10 +38,23 @@ type SurveyServiceMethod =
   | 'startSession'
   | 'getQuestion'
   | 'submitResponse'
+  | 'skipQuestion'
   | 'getProgress'
   | 'completeSession'
   | 'resumeSession'
+  | 'listSessions'
   | 'exportResults'
+  | 'getAnalytics'
+  | 'getDropOffFunnel'
+  | 'getCrosstab'
+  | 'compareLibraryQuestion'
+  | 'getQuotaStatus'
+  | 'migrateSessions'
+  | 'validateDefinition'
+  | 'convertDefinition'
+  | 'createSurvey'
+  | 'updateSurvey'
+  | 'deleteSurvey'
   | 'healthCheck';
 
 type MethodMocks = Record<SurveyServiceMethod, MockInstance>;
@@ -57,10 +70,23 @@ export function setupSurveyServiceMock(overrides: Partial<MethodMocks> = {}): {
     startSession: vi.fn(),
     getQuestion: vi.fn(),
     submitResponse: vi.fn(),
+    skipQuestion: vi.fn(),
     getProgress: vi.fn(),
     completeSession: vi.fn(),
     resumeSession: vi.fn(),
+    listSessions: vi.fn(),
     exportResults: vi.fn(),
+    getAnalytics: vi.fn(),
+    getDropOffFunnel: vi.fn(),
+    getCrosstab: vi.fn(),
+    compareLibraryQuestion: vi.fn(),
+    getQuotaStatus: vi.fn(),
+    migrateSessions: vi.fn(),
+    validateDefinition: vi.fn(),
+    convertDefinition: vi.fn(),
+    createSurvey: vi.fn(),
+    updateSurvey: vi.fn(),
+    deleteSurvey: vi.fn(),
     healthCheck: vi.fn(),
     ...overrides,
   } satisfies MethodMocks;
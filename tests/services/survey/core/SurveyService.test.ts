@@ -0,0 +1,1758 @@
+/**
+ * @fileoverview Tests for SurveyService session behavior driven by survey settings.
+ * @module tests/services/survey/core/SurveyService.test
+ */
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { AppConfig } from '@/config/index.js';
+import { SurveyService } from '@/services/survey/core/SurveyService.js';
+import { shuffleQuestionIds } from '@/services/survey/core/ordering.js';
+import { StorageBackedSurveyProvider } from '@/services/survey/providers/storage.provider.js';
+import {
+  SessionMigrationRulesSchema,
+  SKIPPED_RESPONSE_CODE,
+} from '@/services/survey/types.js';
+import { StorageService } from '@/storage/core/StorageService.js';
+import { InMemoryProvider } from '@/storage/providers/inMemory/inMemoryProvider.js';
+import { requestContextService } from '@/utils/index.js';
+
+const TENANT = 'tenant-a';
+
+function createRequestContext() {
+  return requestContextService.createRequestContext({
+    operation: 'SessionSweepTest',
+  });
+}
+
+function buildDefinition(id: string, settings: Record<string, unknown>) {
+  return {
+    id,
+    metadata: { title: id, description: 'Settings test survey' },
+    questions: [
+      { id: 'email', type: 'email', text: 'Email?', required: true },
+      { id: 'q2', type: 'free-form', text: 'Second?' },
+      { id: 'q3', type: 'free-form', text: 'Third?' },
+      { id: 'q4', type: 'free-form', text: 'Fourth?' },
+      { id: 'q5', type: 'free-form', text: 'Fifth?' },
+      { id: 'q6', type: 'free-form', text: 'Sixth?' },
+    ],
+    settings,
+  };
+}
+
+function buildQuiz(id: string, revealCorrectness: string) {
+  return {
+    id,
+    metadata: { title: id, description: 'Quiz test survey' },
+    questions: [
+      {
+        id: 'capital',
+        type: 'multiple-choice',
+        text: 'Capital of France?',
+        required: true,
+        options: [
+          { value: 'paris', label: 'Paris' },
+          { value: 'lyon', label: 'Lyon' },
+        ],
+        answerKey: {
+          correct: 'paris',
+          feedback: { incorrect: 'It is Paris.' },
+        },
+      },
+      {
+        id: 'pi',
+        type: 'number',
+        text: 'Pi to two decimals?',
+        required: true,
+        answerKey: { correct: 3.14, tolerance: 0.005, points: 2 },
+      },
+    ],
+    settings: { revealCorrectness },
+  };
+}
+
+describe('SurveyService settings enforcement', () => {
+  let definitionsPath: string;
+  let service: SurveyService;
+
+  beforeEach(async () => {
+    definitionsPath = mkdtempSync(join(tmpdir(), 'survey-defs-'));
+    const definitions = [
+      buildDefinition('limited', { maxAttempts: 2 }),
+      buildDefinition('no-resume', { allowResume: false }),
+      buildDefinition('shuffled', { shuffleQuestions: true }),
+      buildDefinition('no-skip', { allowSkip: false }),
+      buildDefinition('skippable', {}),
+      buildDefinition('idle', {
+        inactivityTimeoutMinutes: 30,
+        sessionDeadlineHours: 24,
+      }),
+      buildDefinition('idle-no-reopen', {
+        inactivityTimeoutMinutes: 30,
+        resumeAbandoned: 'reject',
+      }),
+      {
+        id: 'scored',
+        metadata: {
+          title: 'scored',
+          description: 'Variables and outcomes test survey',
+        },
+        questions: [
+          {
+            id: 'energy',
+            type: 'rating-scale',
+            text: 'Energy?',
+            scale: { min: 1, max: 5 },
+          },
+          {
+            id: 'tired',
+            type: 'rating-scale',
+            text: 'Tired?',
+            scale: { min: 1, max: 5 },
+          },
+          {
+            id: 'support',
+            type: 'free-form',
+            text: 'What would help?',
+            conditional: { dependsOn: 'wellbeing', op: 'lt', value: 3 },
+          },
+        ],
+        variables: [
+          {
+            id: 'wellbeing',
+            formula: 'average',
+            items: [{ ref: 'energy' }, { ref: 'tired', reverse: true }],
+          },
+        ],
+        outcomes: [
+          {
+            id: 'struggling',
+            label: 'Struggling',
+            message: 'Your wellbeing score is {{variables.wellbeing}}.',
+            recommendation: 'Take a break.',
+            when: { dependsOn: 'wellbeing', op: 'lt', value: 3 },
+          },
+          { id: 'thriving', label: 'Thriving' },
+        ],
+      },
+      buildQuiz('quiz', 'immediately'),
+      buildQuiz('quiz-hidden', 'on-completion'),
+      {
+        id: 'screener',
+        metadata: { title: 'screener', description: 'Screen-out test survey' },
+        questions: [
+          {
+            id: 'company_size',
+            type: 'multiple-choice',
+            text: 'Company size?',
+            options: [
+              { value: '1-10', label: '1-10 employees' },
+              { value: '500+', label: '500+ employees' },
+            ],
+          },
+          { id: 'tools', type: 'free-form', text: 'Which tools do you use?' },
+        ],
+        terminationRules: [
+          {
+            id: 'too_small',
+            when: { dependsOn: 'company_size', op: 'eq', value: '1-10' },
+            message:
+              'Thanks! This study is for companies larger than {{answers.company_size.label}}.',
+          },
+        ],
+      },
+      {
+        id: 'quota',
+        metadata: { title: 'quota', description: 'Quota test survey' },
+        questions: [
+          {
+            id: 'user_role',
+            type: 'multiple-choice',
+            text: 'Your role?',
+            options: [
+              { value: 'engineer', label: 'Engineer' },
+              { value: 'manager', label: 'Manager' },
+            ],
+          },
+        ],
+        quotas: {
+          maxCompletes: 2,
+          message: 'This survey is closed.',
+          cells: [
+            {
+              id: 'managers',
+              questionId: 'user_role',
+              value: 'manager',
+              limit: 1,
+              message: 'We have enough {{answers.user_role.label}} responses.',
+            },
+          ],
+        },
+      },
+    ];
+    for (const definition of definitions) {
+      writeFileSync(
+        join(definitionsPath, `${definition.id}.json`),
+        JSON.stringify(definition),
+      );
+    }
+
+    const provider = new StorageBackedSurveyProvider(
+      {
+        survey: {
+          providerType: 'storage',
+          definitionsPath,
+          responsesPath: join(definitionsPath, 'responses'),
+        },
+      } as AppConfig,
+      new StorageService(new InMemoryProvider()),
+    );
+    service = new SurveyService(provider, {
+      survey: { inactivityTimeoutMinutes: 0, sessionDeadlineHours: 0 },
+    } as AppConfig);
+    await service.initialize();
+  });
+
+  afterEach(() => {
+    rmSync(definitionsPath, { recursive: true, force: true });
+  });
+
+  it('locks a question after maxAttempts failed validations', async () => {
+    const { session } = await service.startSession('limited', 'p1', TENANT);
+
+    const first = await service.submitResponse(
+      session.sessionId,
+      'email',
+      'not-an-email',
+      TENANT,
+    );
+    expect(first).toMatchObject({
+      success: false,
+      attemptsRemaining: 1,
+      questionLocked: false,
+    });
+
+    const second = await service.submitResponse(
+      session.sessionId,
+      'email',
+      'still-not-an-email',
+      TENANT,
+    );
+    expect(second).toMatchObject({
+      success: false,
+      attemptsRemaining: 0,
+      questionLocked: true,
+    });
+
+    await expect(
+      service.submitResponse(
+        session.sessionId,
+        'email',
+        'valid@example.com',
+        TENANT,
+      ),
+    ).rejects.toThrow('Question locked after 2 failed attempts');
+
+    const question = await service.getQuestion(
+      session.sessionId,
+      'email',
+      TENANT,
+    );
+    expect(question).toMatchObject({ currentlyEligible: false, locked: true });
+
+    // A locked required question no longer blocks completion
+    const progress = await service.getProgress(session.sessionId, TENANT);
+    expect(progress.canComplete).toBe(true);
+  });
+
+  it('counts failed attempts in the recorded attemptCount', async () => {
+    const { session } = await service.startSession('limited', 'p1', TENANT);
+
+    await service.submitResponse(session.sessionId, 'email', 'bad', TENANT);
+    await service.submitResponse(
+      session.sessionId,
+      'email',
+      'ok@example.com',
+      TENANT,
+    );
+
+    const { session: resumed } = await service.resumeSession(
+      session.sessionId,
+      TENANT,
+    );
+    expect(resumed.responses.email?.attemptCount).toBe(2);
+  });
+
+  it('rejects resume when allowResume is false', async () => {
+    const { session } = await service.startSession('no-resume', 'p1', TENANT);
+
+    await expect(
+      service.resumeSession(session.sessionId, TENANT),
+    ).rejects.toThrow('Resuming sessions is disabled for this survey');
+  });
+
+  it('persists a seeded question order for shuffled surveys', async () => {
+    const { session, allQuestions } = await service.startSession(
+      'shuffled',
+      'p1',
+      TENANT,
+    );
+
+    const expectedOrder = shuffleQuestionIds(
+      ['email', 'q2', 'q3', 'q4', 'q5', 'q6'],
+      session.sessionId,
+    );
+    expect(session.shuffleSeed).toBe(session.sessionId);
+    expect(session.questionOrder).toEqual(expectedOrder);
+    expect(allQuestions.map((q) => q.id)).toEqual(expectedOrder);
+
+    const progress = await service.getProgress(session.sessionId, TENANT);
+    expect(progress.unansweredOptional.map((q) => q.id)).toEqual(
+      expectedOrder.filter((id) => id !== 'email'),
+    );
+  });
+
+  it('blocks skipping when allowSkip is false', async () => {
+    const { session } = await service.startSession('no-skip', 'p1', TENANT);
+
+    const skipped = await service.submitResponse(
+      session.sessionId,
+      'q2',
+      '',
+      TENANT,
+    );
+    expect(skipped.success).toBe(false);
+    expect(skipped.validation.errors[0]?.constraint).toBe('allowSkip');
+
+    await service.submitResponse(
+      session.sessionId,
+      'email',
+      'ok@example.com',
+      TENANT,
+    );
+    const progress = await service.getProgress(session.sessionId, TENANT);
+    expect(progress.canComplete).toBe(false);
+    expect(progress.completionBlockers).toContain(
+      'Optional question q2 has not been answered (skipping is disabled for this survey)',
+    );
+  });
+
+  it('rejects explicit skips when allowSkip is false', async () => {
+    const { session } = await service.startSession('no-skip', 'p1', TENANT);
+
+    await expect(
+      service.skipQuestion(session.sessionId, 'q2', TENANT),
+    ).rejects.toThrow('Skipping questions is disabled for this survey');
+  });
+
+  it('records explicit skips as handled but not answered', async () => {
+    const { session } = await service.startSession('skippable', 'p1', TENANT);
+
+    await expect(
+      service.skipQuestion(session.sessionId, 'email', TENANT),
+    ).rejects.toThrow('Required questions cannot be skipped: email');
+
+    const result = await service.skipQuestion(
+      session.sessionId,
+      'q2',
+      TENANT,
+      'prefers not to say',
+    );
+    expect(result.progress).toMatchObject({
+      answeredQuestions: 0,
+      skippedQuestions: 1,
+      percentComplete: 17,
+    });
+    expect(result.nextSuggestedQuestions.map((q) => q.id)).not.toContain('q2');
+
+    const question = await service.getQuestion(session.sessionId, 'q2', TENANT);
+    expect(question).toMatchObject({ alreadyAnswered: false, skipped: true });
+
+    const { session: resumed } = await service.resumeSession(
+      session.sessionId,
+      TENANT,
+    );
+    expect(resumed.responses.q2).toMatchObject({
+      value: null,
+      skipped: true,
+      skipReason: 'prefers not to say',
+    });
+
+    const exported = await service.exportResults('skippable', TENANT, 'csv');
+    expect(exported.data).toContain(SKIPPED_RESPONSE_CODE);
+  });
+
+  it('abandons idle sessions and reopens them on resume', async () => {
+    const { session } = await service.startSession('idle', 'p1', TENANT);
+    const { session: other } = await service.startSession(
+      'skippable',
+      'p2',
+      TENANT,
+    );
+    const later = new Date(Date.now() + 31 * 60_000);
+
+    const result = await service.sweepSessionLifecycle(
+      createRequestContext(),
+      later,
+    );
+    expect(result).toEqual({ scanned: 1, abandoned: 1, expired: 0 });
+
+    await expect(
+      service.submitResponse(session.sessionId, 'q2', 'late', TENANT),
+    ).rejects.toThrow('Session was abandoned after inactivity');
+
+    const { session: resumed } = await service.resumeSession(
+      session.sessionId,
+      TENANT,
+    );
+    expect(resumed.status).toBe('in-progress');
+    expect(resumed.abandonedAt).toBeUndefined();
+
+    const untouched = await service.getProgress(other.sessionId, TENANT);
+    expect(untouched.session.status).toBe('in-progress');
+  });
+
+  it('expires sessions past the deadline and refuses to resume them', async () => {
+    const { session } = await service.startSession('idle', 'p1', TENANT);
+
+    const result = await service.sweepSessionLifecycle(
+      createRequestContext(),
+      new Date(Date.now() + 25 * 3_600_000),
+    );
+    expect(result).toEqual({ scanned: 1, abandoned: 0, expired: 1 });
+
+    await expect(
+      service.resumeSession(session.sessionId, TENANT),
+    ).rejects.toThrow('Cannot resume expired session');
+  });
+
+  it('rejects resuming abandoned sessions when resumeAbandoned is reject', async () => {
+    const { session } = await service.startSession(
+      'idle-no-reopen',
+      'p1',
+      TENANT,
+    );
+    await service.sweepSessionLifecycle(
+      createRequestContext(),
+      new Date(Date.now() + 31 * 60_000),
+    );
+
+    await expect(
+      service.resumeSession(session.sessionId, TENANT),
+    ).rejects.toThrow(
+      'Resuming abandoned sessions is disabled for this survey',
+    );
+  });
+
+  it('recomputes variables on submit for conditions and CSV export', async () => {
+    const { session } = await service.startSession('scored', 'p1', TENANT);
+
+    await service.submitResponse(session.sessionId, 'energy', 4, TENANT);
+    const result = await service.submitResponse(
+      session.sessionId,
+      'tired',
+      5,
+      TENANT,
+    );
+
+    expect(result.updatedEligibility).toContainEqual(
+      expect.objectContaining({ questionId: 'support', nowEligible: true }),
+    );
+    const { session: stored } = await service.getProgress(
+      session.sessionId,
+      TENANT,
+    );
+    expect(stored.variables).toEqual({ wellbeing: 2.5 });
+
+    const exported = await service.exportResults('scored', TENANT, 'csv');
+    const [header, row] = exported.data.split('\n');
+    expect(header?.endsWith(',energy,tired,support,wellbeing')).toBe(true);
+    expect(row?.endsWith(',"4","5","","2.5"')).toBe(true);
+  });
+
+  it('assigns outcomes on completion and reports their distribution', async () => {
+    const answers = [
+      { participant: 'p1', energy: 4, tired: 5 },
+      { participant: 'p2', energy: 5, tired: 1 },
+      { participant: 'p3', energy: 5, tired: 2 },
+    ];
+    const completions = [];
+    for (const { participant, energy, tired } of answers) {
+      const { session } = await service.startSession(
+        'scored',
+        participant,
+        TENANT,
+      );
+      await service.submitResponse(session.sessionId, 'energy', energy, TENANT);
+      await service.submitResponse(session.sessionId, 'tired', tired, TENANT);
+      completions.push(
+        await service.completeSession(session.sessionId, TENANT),
+      );
+    }
+
+    const [struggling, thriving] = completions;
+    expect(struggling?.outcome).toEqual({
+      id: 'struggling',
+      label: 'Struggling',
+      message: 'Your wellbeing score is 2.5.',
+      recommendation: 'Take a break.',
+    });
+    expect(struggling?.session.outcome?.id).toBe('struggling');
+    expect(thriving?.outcome).toEqual({ id: 'thriving', label: 'Thriving' });
+
+    const analytics = await service.getAnalytics('scored', TENANT);
+    expect(analytics.outcomeDistribution).toEqual([
+      {
+        outcomeId: 'struggling',
+        label: 'Struggling',
+        count: 1,
+        percentage: '33%',
+      },
+      { outcomeId: 'thriving', label: 'Thriving', count: 2, percentage: '67%' },
+    ]);
+
+    const plain = await service.getAnalytics('skippable', TENANT);
+    expect(plain.outcomeDistribution).toBeUndefined();
+  });
+
+  it('grades quiz answers immediately and on completion', async () => {
+    const { session, allQuestions } = await service.startSession(
+      'quiz',
+      'p1',
+      TENANT,
+    );
+    expect(allQuestions[0]).not.toHaveProperty('answerKey');
+
+    const wrong = await service.submitResponse(
+      session.sessionId,
+      'capital',
+      'lyon',
+      TENANT,
+    );
+    expect(wrong.grade).toEqual({
+      questionId: 'capital',
+      correct: false,
+      credit: 0,
+      pointsEarned: 0,
+      pointsPossible: 1,
+      feedback: 'It is Paris.',
+    });
+    await service.submitResponse(session.sessionId, 'pi', 3.14159, TENANT);
+
+    const { quiz } = await service.completeSession(session.sessionId, TENANT);
+    expect(quiz).toMatchObject({
+      gradedQuestions: 2,
+      correctCount: 1,
+      pointsEarned: 2,
+      pointsPossible: 3,
+      percentCorrect: 66.7,
+    });
+
+    const analytics = await service.getAnalytics('quiz', TENANT);
+    expect(analytics.questionStats.map((stat) => stat.difficulty)).toEqual([
+      { correctCount: 0, partialCount: 0, percentCorrect: 0 },
+      { correctCount: 1, partialCount: 0, percentCorrect: 100 },
+    ]);
+  });
+
+  it('holds correctness until completion when configured', async () => {
+    const { session } = await service.startSession('quiz-hidden', 'p1', TENANT);
+
+    const result = await service.submitResponse(
+      session.sessionId,
+      'capital',
+      'paris',
+      TENANT,
+    );
+    expect(result.success).toBe(true);
+    expect(result.grade).toBeUndefined();
+
+    await service.submitResponse(session.sessionId, 'pi', 3, TENANT);
+    const { quiz } = await service.completeSession(session.sessionId, TENANT);
+    expect(quiz?.percentCorrect).toBe(33.3);
+  });
+
+  it('screens out sessions that match a termination rule', async () => {
+    const { session: qualified } = await service.startSession(
+      'screener',
+      'p1',
+      TENANT,
+    );
+    const kept = await service.submitResponse(
+      qualified.sessionId,
+      'company_size',
+      '500+',
+      TENANT,
+    );
+    expect(kept.screenOut).toBeUndefined();
+
+    const { session } = await service.startSession('screener', 'p2', TENANT);
+    const result = await service.submitResponse(
+      session.sessionId,
+      'company_size',
+      '1-10',
+      TENANT,
+    );
+    expect(result.screenOut).toEqual({
+      reason: 'termination-rule',
+      ruleId: 'too_small',
+      message:
+        'Thanks! This study is for companies larger than 1-10 employees.',
+    });
+    expect(result.nextSuggestedQuestions).toEqual([]);
+
+    const { session: stored } = await service.getProgress(
+      session.sessionId,
+      TENANT,
+    );
+    expect(stored.status).toBe('screened-out');
+    expect(stored.screenedOutAt).toBeDefined();
+
+    await expect(
+      service.submitResponse(session.sessionId, 'tools', 'Figma', TENANT),
+    ).rejects.toThrow('Session was screened out and can no longer be changed');
+    await expect(
+      service.completeSession(session.sessionId, TENANT),
+    ).rejects.toThrow('screened out');
+    await expect(
+      service.resumeSession(session.sessionId, TENANT),
+    ).rejects.toThrow('Cannot resume screened-out session');
+
+    const analytics = await service.getAnalytics('screener', TENANT);
+    expect(analytics.screenedOutSessions).toBe(1);
+    expect(analytics.inProgressSessions).toBe(1);
+
+    const exported = await service.exportResults('screener', TENANT, 'csv');
+    expect(exported.statusCounts).toEqual({
+      'in-progress': 1,
+      'screened-out': 1,
+    });
+    expect(exported.data).toContain(',screenOutRule,');
+    expect(exported.data).toContain(',"too_small","1-10",');
+  });
+
+  it('screens out sessions whose quota cell is full, even when completing concurrently', async () => {
+    const sessionIds = [];
+    for (const participant of ['p1', 'p2']) {
+      const { session } = await service.startSession(
+        'quota',
+        participant,
+        TENANT,
+      );
+      const result = await service.submitResponse(
+        session.sessionId,
+        'user_role',
+        'manager',
+        TENANT,
+      );
+      expect(result.screenOut).toBeUndefined();
+      sessionIds.push(session.sessionId);
+    }
+
+    const results = await Promise.allSettled(
+      sessionIds.map((sessionId) => service.completeSession(sessionId, TENANT)),
+    );
+    expect(results.map((result) => result.status).sort()).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+    const rejected = results.find((result) => result.status === 'rejected');
+    expect(String(rejected?.reason)).toContain('Quota "managers" is full');
+
+    const { session: late } = await service.startSession('quota', 'p3', TENANT);
+    const result = await service.submitResponse(
+      late.sessionId,
+      'user_role',
+      'manager',
+      TENANT,
+    );
+    expect(result.screenOut).toEqual({
+      reason: 'quota-full',
+      ruleId: 'managers',
+      message: 'We have enough Manager responses.',
+    });
+
+    const status = await service.getQuotaStatus('quota', TENANT);
+    expect(status).toMatchObject({
+      completes: 1,
+      maxCompletes: 2,
+      remaining: 1,
+      full: false,
+      screenedOutByQuota: 2,
+    });
+    expect(status.cells).toEqual([
+      {
+        id: 'managers',
+        questionId: 'user_role',
+        limit: 1,
+        completes: 1,
+        inProgress: 0,
+        remaining: 0,
+        full: true,
+      },
+    ]);
+  });
+
+  it('refuses new sessions once the overall quota is full', async () => {
+    for (const participant of ['p1', 'p2']) {
+      const { session } = await service.startSession(
+        'quota',
+        participant,
+        TENANT,
+      );
+      await service.submitResponse(
+        session.sessionId,
+        'user_role',
+        'engineer',
+        TENANT,
+      );
+      await service.completeSession(session.sessionId, TENANT);
+    }
+
+    await expect(service.startSession('quota', 'p3', TENANT)).rejects.toThrow(
+      'Survey has reached its completion quota',
+    );
+  });
+
+  it('pages through sessions with cursors and filters by metadata', async () => {
+    for (const participant of ['p1', 'p2', 'p3']) {
+      await service.startSession('skippable', participant, TENANT, {
+        site: participant === 'p2' ? 'berlin' : 'paris',
+      });
+    }
+    const context = createRequestContext();
+
+    const first = await service.listSessions(
+      'skippable',
+      TENANT,
+      { pageSize: 2 },
+      context,
+    );
+    expect(first.sessions).toHaveLength(2);
+    expect(first.totalCount).toBe(3);
+    expect(first.nextCursor).toEqual(expect.any(String));
+
+    const second = await service.listSessions(
+      'skippable',
+      TENANT,
+      { cursor: first.nextCursor },
+      context,
+    );
+    expect(second.sessions).toHaveLength(1);
+    expect(second.nextCursor).toBeUndefined();
+    expect(
+      [...first.sessions, ...second.sessions].map((s) => s.participantId),
+    ).toEqual(expect.arrayContaining(['p1', 'p2', 'p3']));
+
+    const berlin = await service.listSessions(
+      'skippable',
+      TENANT,
+      { filters: { metadata: { site: 'berlin' } } },
+      context,
+    );
+    expect(berlin.sessions.map((s) => s.participantId)).toEqual(['p2']);
+
+    await expect(
+      service.listSessions(
+        'limited',
+        TENANT,
+        { cursor: first.nextCursor },
+        context,
+      ),
+    ).rejects.toThrow(
+      'Pagination cursor belongs to a different survey listing',
+    );
+
+    await expect(
+      service.listSessions(
+        'skippable',
+        TENANT,
+        { cursor: first.nextCursor, filters: { status: 'completed' } },
+        context,
+      ),
+    ).rejects.toThrow('Pagination cursor was issued for different filters');
+  });
+});
+
+describe('SurveyService survey versions', () => {
+  let definitionsPath: string;
+  let storage: StorageService;
+
+  function writeVersion(version: string, questionIds: string[]) {
+    writeFileSync(
+      join(definitionsPath, `versioned-${version}.json`),
+      JSON.stringify({
+        id: 'versioned',
+        version,
+        metadata: { title: 'Versioned', description: 'Versioning test survey' },
+        questions: questionIds.map((id) => ({
+          id,
+          type: 'free-form',
+          text: `${id}?`,
+        })),
+      }),
+    );
+  }
+
+  async function createService(): Promise<SurveyService> {
+    const provider = new StorageBackedSurveyProvider(
+      {
+        survey: {
+          providerType: 'storage',
+          definitionsPath,
+          responsesPath: join(definitionsPath, 'responses'),
+        },
+      } as AppConfig,
+      storage,
+    );
+    const service = new SurveyService(provider, {
+      survey: { inactivityTimeoutMinutes: 0, sessionDeadlineHours: 0 },
+    } as AppConfig);
+    await service.initialize();
+    return service;
+  }
+
+  beforeEach(() => {
+    definitionsPath = mkdtempSync(join(tmpdir(), 'survey-defs-'));
+    storage = new StorageService(new InMemoryProvider());
+  });
+
+  afterEach(() => {
+    rmSync(definitionsPath, { recursive: true, force: true });
+  });
+
+  it('keeps sessions on the version they started on', async () => {
+    writeVersion('1.0', ['q1', 'legacy']);
+    const before = await createService();
+    const { session: pinned } = await before.startSession(
+      'versioned',
+      'p1',
+      TENANT,
+    );
+
+    writeVersion('2.0', ['q1', 'q2', 'q3']);
+    const service = await createService();
+    const { session: fresh } = await service.startSession(
+      'versioned',
+      'p2',
+      TENANT,
+    );
+    expect(pinned.surveyVersion).toBe('1.0');
+    expect(fresh.surveyVersion).toBe('2.0');
+
+    const { session: resumed } = await service.getProgress(
+      pinned.sessionId,
+      TENANT,
+    );
+    expect(resumed.progress.totalQuestions).toBe(2);
+    await service.submitResponse(pinned.sessionId, 'legacy', 'old', TENANT);
+    await expect(
+      service.submitResponse(pinned.sessionId, 'q3', 'new', TENANT),
+    ).rejects.toThrow('Question not found: q3');
+
+    const exported = await service.exportResults('versioned', TENANT, 'csv');
+    const [header] = exported.data.split('\n');
+    expect(header).toContain('surveyVersion');
+    expect(header).toContain(',q1,');
+    expect(header).toContain('legacy (v1.0)');
+    expect(header).toContain('q3 (v2.0)');
+
+    const summaries = await service.listAvailableSurveys(TENANT);
+    expect(summaries).toEqual([
+      expect.objectContaining({ id: 'versioned', version: '2.0' }),
+    ]);
+  });
+
+  it('migrates unfinished sessions after a dry run and records the history', async () => {
+    writeVersion('1.0', ['q1', 'legacy']);
+    const before = await createService();
+    const { session } = await before.startSession('versioned', 'p1', TENANT);
+    await before.submitResponse(session.sessionId, 'q1', 'kept', TENANT);
+    await before.submitResponse(session.sessionId, 'legacy', 'old', TENANT);
+
+    writeVersion('2.0', ['q1', 'q2', 'q3']);
+    const service = await createService();
+    const rules = SessionMigrationRulesSchema.parse({
+      renames: { legacy: 'q2' },
+    });
+
+    await expect(
+      service.migrateSessions('versioned', TENANT, {
+        fromVersion: '1.0',
+        rules: SessionMigrationRulesSchema.parse({
+          renames: { legacy: 'missing' },
+        }),
+        dryRun: true,
+      }),
+    ).rejects.toThrow(
+      'Migration rules rename to missing, which is not a question in version 2.0',
+    );
+
+    const preview = await service.migrateSessions('versioned', TENANT, {
+      fromVersion: '1.0',
+      dryRun: true,
+    });
+    expect(preview.toVersion).toBe('2.0');
+    expect(preview.migratedCount).toBe(0);
+    expect(preview.sessions[0]?.lost).toEqual([
+      { questionId: 'legacy', reason: 'unmatched' },
+    ]);
+    const { session: unchanged } = await service.getProgress(
+      session.sessionId,
+      TENANT,
+    );
+    expect(unchanged.surveyVersion).toBe('1.0');
+
+    const applied = await service.migrateSessions('versioned', TENANT, {
+      fromVersion: '1.0',
+      rules,
+      dryRun: false,
+    });
+    expect(applied.migratedCount).toBe(1);
+    expect(applied.sessions[0]?.lost).toEqual([]);
+
+    const { session: migrated } = await service.getProgress(
+      session.sessionId,
+      TENANT,
+    );
+    expect(migrated.surveyVersion).toBe('2.0');
+    expect(migrated.responses['q2']?.value).toBe('old');
+    expect(migrated.progress).toMatchObject({
+      totalQuestions: 3,
+      answeredQuestions: 2,
+    });
+    expect(migrated.metadata?.['migrations']).toEqual([
+      expect.objectContaining({
+        fromVersion: '1.0',
+        toVersion: '2.0',
+        migratedQuestions: 2,
+        lostQuestionIds: [],
+      }),
+    ]);
+
+    await service.submitResponse(session.sessionId, 'q3', 'new', TENANT);
+    await expect(
+      service.migrateSessions('versioned', TENANT, {
+        fromVersion: '2.0',
+        dryRun: true,
+      }),
+    ).rejects.toThrow('Sessions are already on version 2.0');
+  });
+
+  it('keeps roster answers whose source option was remapped by a migration', async () => {
+    const writeRosterVersion = (version: string, slackValue: string) =>
+      writeFileSync(
+        join(definitionsPath, `versioned-${version}.json`),
+        JSON.stringify({
+          id: 'versioned',
+          version,
+          metadata: { title: 'Versioned', description: 'Roster migration' },
+          questions: [
+            {
+              id: 'tools',
+              type: 'multiple-select',
+              text: 'Tools?',
+              options: [
+                { value: slackValue, label: 'Slack' },
+                { value: 'zoom', label: 'Zoom' },
+              ],
+            },
+            { id: 'tool_rating', type: 'number', text: 'Rate {{item}}' },
+            { id: 'notes', type: 'free-form', text: 'Notes?' },
+          ],
+          rosters: [
+            {
+              id: 'tool_ratings',
+              sourceQuestionId: 'tools',
+              questionIds: ['tool_rating'],
+            },
+          ],
+        }),
+      );
+    writeRosterVersion('1.0', 'slack');
+    const before = await createService();
+    const { session } = await before.startSession('versioned', 'p1', TENANT);
+    await before.submitResponse(session.sessionId, 'tools', ['slack'], TENANT);
+    await before.submitResponse(
+      session.sessionId,
+      'tool_rating[slack]',
+      4,
+      TENANT,
+    );
+
+    writeRosterVersion('2.0', 'slack_app');
+    const service = await createService();
+    const rules = SessionMigrationRulesSchema.parse({
+      optionMaps: { tools: { slack: 'slack_app' } },
+    });
+    const preview = await service.migrateSessions('versioned', TENANT, {
+      fromVersion: '1.0',
+      rules,
+      dryRun: true,
+    });
+    expect(preview.sessions[0]?.migrated).toContainEqual({
+      fromQuestionId: 'tool_rating[slack]',
+      toQuestionId: 'tool_rating[slack_app]',
+    });
+
+    await service.migrateSessions('versioned', TENANT, {
+      fromVersion: '1.0',
+      rules,
+      dryRun: false,
+    });
+    // Submitting another answer recalculates the session again
+    await service.submitResponse(session.sessionId, 'notes', 'none', TENANT);
+
+    const { session: migrated } = await service.getProgress(
+      session.sessionId,
+      TENANT,
+    );
+    expect(migrated.responses['tools']?.value).toEqual(['slack_app']);
+    expect(migrated.responses['tool_rating[slack_app]']?.value).toBe(4);
+    expect(migrated.responses['tool_rating[slack]']).toBeUndefined();
+  });
+
+  it('authors drafts and only offers published versions', async () => {
+    writeVersion('1.0', ['q1']);
+    const service = await createService();
+    const draft = {
+      id: 'versioned',
+      version: '1.1',
+      metadata: { title: 'Versioned', description: 'Draft version' },
+      questions: [
+        { id: 'q1', type: 'free-form', text: 'q1?' },
+        { id: 'q2', type: 'free-form', text: 'q2?' },
+      ],
+    };
+
+    await expect(
+      service.createSurvey(
+        {
+          ...draft,
+          questions: [
+            {
+              id: 'q1',
+              type: 'free-form',
+              text: 'q1?',
+              conditional: { dependsOn: 'missing', showIf: ['yes'] },
+            },
+          ],
+        },
+        TENANT,
+      ),
+    ).rejects.toThrow('depends on unknown question "missing"');
+
+    const { survey: created } = await service.createSurvey(draft, TENANT);
+    expect(created.status).toBe('draft');
+    await expect(service.createSurvey(draft, TENANT)).rejects.toThrow(
+      'Survey version already exists: versioned@1.1',
+    );
+
+    // The draft is stored but new sessions still use the published version
+    const { session } = await service.startSession('versioned', 'p1', TENANT);
+    expect(session.surveyVersion).toBe('1.0');
+    expect(await service.listAvailableSurveys(TENANT)).toEqual([
+      expect.objectContaining({ version: '1.0' }),
+    ]);
+
+    await service.updateSurvey('versioned', TENANT, {
+      definition: {
+        ...draft,
+        questions: [
+          ...draft.questions,
+          { id: 'q3', type: 'free-form', text: 'q3?' },
+        ],
+      },
+    });
+    const { survey: published } = await service.updateSurvey(
+      'versioned',
+      TENANT,
+      { status: 'published' },
+    );
+    expect(published.questions).toHaveLength(3);
+    expect(
+      (await service.startSession('versioned', 'p2', TENANT)).session
+        .surveyVersion,
+    ).toBe('1.1');
+
+    await expect(
+      service.updateSurvey('versioned', TENANT, { definition: draft }),
+    ).rejects.toThrow('Only draft versions can be edited');
+    await expect(
+      service.updateSurvey('versioned', TENANT, { status: 'draft' }),
+    ).rejects.toThrow('Cannot change survey status from published to draft');
+
+    // A reloaded provider sees the persisted definition
+    const reloaded = await createService();
+    await reloaded.updateSurvey('versioned', TENANT, {
+      version: '1.0',
+      status: 'closed',
+    });
+    await reloaded.updateSurvey('versioned', TENANT, { status: 'closed' });
+    await expect(
+      reloaded.startSession('versioned', 'p3', TENANT),
+    ).rejects.toThrow('Survey is not accepting new sessions (status: closed)');
+    expect(await reloaded.listAvailableSurveys(TENANT)).toEqual([]);
+  });
+
+  it('deletes only versions no session is pinned to', async () => {
+    writeVersion('1.0', ['q1']);
+    const service = await createService();
+    await service.startSession('versioned', 'p1', TENANT);
+    await service.createSurvey(
+      {
+        id: 'versioned',
+        version: '2.0',
+        metadata: { title: 'Versioned', description: 'Unused draft' },
+        questions: [{ id: 'q1', type: 'free-form', text: 'q1?' }],
+      },
+      TENANT,
+    );
+
+    await expect(service.deleteSurvey('versioned', TENANT)).rejects.toThrow(
+      'Survey version versioned@1.0 has sessions and cannot be deleted',
+    );
+    await expect(
+      service.deleteSurvey('versioned', TENANT, '2.0'),
+    ).resolves.toEqual({ surveyId: 'versioned', deletedVersions: ['2.0'] });
+    await expect(
+      service.updateSurvey('versioned', TENANT, {
+        version: '2.0',
+        status: 'published',
+      }),
+    ).rejects.toThrow('Survey version not found: versioned@2.0');
+  });
+});
+
+describe('SurveyService tenant catalogs', () => {
+  let definitionsPath: string;
+
+  beforeEach(() => {
+    definitionsPath = mkdtempSync(join(tmpdir(), 'survey-defs-'));
+    mkdirSync(join(definitionsPath, 'tenants', TENANT), { recursive: true });
+    writeFileSync(
+      join(definitionsPath, 'tenants', TENANT, 'private.json'),
+      JSON.stringify({
+        id: 'private',
+        version: '1.0',
+        metadata: { title: 'Private', description: 'Tenant-only survey' },
+        questions: [{ id: 'q1', type: 'free-form', text: 'First?' }],
+      }),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(definitionsPath, { recursive: true, force: true });
+  });
+
+  it("only starts sessions on surveys in the tenant's catalog", async () => {
+    const provider = new StorageBackedSurveyProvider(
+      {
+        survey: {
+          providerType: 'storage',
+          definitionsPath,
+          responsesPath: join(definitionsPath, 'responses'),
+        },
+      } as AppConfig,
+      new StorageService(new InMemoryProvider()),
+    );
+    const service = new SurveyService(provider, {
+      survey: { inactivityTimeoutMinutes: 0, sessionDeadlineHours: 0 },
+    } as AppConfig);
+    await service.initialize();
+
+    await expect(
+      service.startSession('private', 'p1', TENANT),
+    ).resolves.toBeDefined();
+    await expect(
+      service.startSession('private', 'p2', 'tenant-b'),
+    ).rejects.toThrow('Survey not found: private');
+    expect(await service.listAvailableSurveys('tenant-b')).toEqual([]);
+  });
+
+  it("converts definitions from the tenant's catalog or from source text", async () => {
+    const provider = new StorageBackedSurveyProvider(
+      {
+        survey: {
+          providerType: 'storage',
+          definitionsPath,
+          responsesPath: join(definitionsPath, 'responses'),
+        },
+      } as AppConfig,
+      new StorageService(new InMemoryProvider()),
+    );
+    const service = new SurveyService(provider, {
+      survey: { inactivityTimeoutMinutes: 0, sessionDeadlineHours: 0 },
+    } as AppConfig);
+    await service.initialize();
+
+    const converted = await service.convertDefinition(
+      { surveyId: 'private', from: 'json' },
+      'yaml',
+      TENANT,
+    );
+    expect(converted).toMatchObject({ surveyId: 'private', version: '1.0' });
+    expect(converted.content).toContain('title: Private');
+
+    const fromSource = await service.convertDefinition(
+      { content: converted.content, from: 'yaml' },
+      'json',
+      TENANT,
+    );
+    expect(JSON.parse(fromSource.content)).toMatchObject({ id: 'private' });
+
+    await expect(
+      service.convertDefinition(
+        { surveyId: 'private', from: 'json' },
+        'yaml',
+        'tenant-b',
+      ),
+    ).rejects.toThrow('Survey not found: private');
+    await expect(
+      service.convertDefinition({ from: 'json' }, 'yaml', TENANT),
+    ).rejects.toThrow('Provide exactly one of surveyId or content');
+  });
+});
+
+describe('SurveyService question library', () => {
+  let definitionsPath: string;
+  let service: SurveyService;
+
+  const defineSurvey = (id: string, questions: unknown[]) =>
+    JSON.stringify({
+      id,
+      metadata: { title: id, description: 'Uses the question library' },
+      questions,
+    });
+
+  beforeEach(async () => {
+    definitionsPath = mkdtempSync(join(tmpdir(), 'survey-defs-'));
+    mkdirSync(join(definitionsPath, 'library'));
+    writeFileSync(
+      join(definitionsPath, 'library', 'demographics.json'),
+      JSON.stringify({
+        questions: [
+          {
+            id: 'company_size',
+            type: 'multiple-choice',
+            text: 'How large is your company?',
+            options: [
+              { value: 'small', label: '1-50' },
+              { value: 'large', label: '51+' },
+            ],
+          },
+        ],
+      }),
+    );
+    writeFileSync(
+      join(definitionsPath, 'alpha.json'),
+      defineSurvey('alpha', [{ $ref: 'company_size' }]),
+    );
+    writeFileSync(
+      join(definitionsPath, 'beta.json'),
+      defineSurvey('beta', [
+        { $ref: 'company_size', id: 'size', text: 'Company size?' },
+      ]),
+    );
+    writeFileSync(
+      join(definitionsPath, 'gamma.json'),
+      defineSurvey('gamma', [{ id: 'q1', type: 'free-form', text: 'Hi?' }]),
+    );
+
+    const provider = new StorageBackedSurveyProvider(
+      {
+        survey: {
+          providerType: 'storage',
+          definitionsPath,
+          responsesPath: join(definitionsPath, 'responses'),
+        },
+      } as AppConfig,
+      new StorageService(new InMemoryProvider()),
+    );
+    service = new SurveyService(provider, {
+      survey: { inactivityTimeoutMinutes: 0, sessionDeadlineHours: 0 },
+    } as AppConfig);
+    await service.initialize();
+  });
+
+  afterEach(() => {
+    rmSync(definitionsPath, { recursive: true, force: true });
+  });
+
+  it('compares a library question across the surveys that include it', async () => {
+    const answers: [string, string, string][] = [
+      ['alpha', 'company_size', 'small'],
+      ['alpha', 'company_size', 'large'],
+      ['beta', 'size', 'large'],
+    ];
+    for (const [surveyId, questionId, value] of answers) {
+      const { session } = await service.startSession(surveyId, 'p1', TENANT);
+      await service.submitResponse(
+        session.sessionId,
+        questionId,
+        value,
+        TENANT,
+      );
+    }
+
+    const comparison = await service.compareLibraryQuestion(
+      'company_size',
+      TENANT,
+    );
+
+    expect(comparison.surveys).toEqual([
+      expect.objectContaining({
+        surveyId: 'alpha',
+        questionId: 'company_size',
+        responseDistribution: { small: 1, large: 1 },
+      }),
+      expect.objectContaining({
+        surveyId: 'beta',
+        questionId: 'size',
+        questionText: 'Company size?',
+        responseDistribution: { large: 1 },
+      }),
+    ]);
+    await expect(
+      service.compareLibraryQuestion('tenure', TENANT),
+    ).rejects.toThrow('Library question not found: tenure');
+  });
+
+  it('expands library references in authored definitions', async () => {
+    const { survey } = await service.createSurvey(
+      {
+        id: 'delta',
+        metadata: { title: 'Delta', description: 'Authored with a reference' },
+        questions: [{ $ref: 'company_size', required: true }],
+      },
+      TENANT,
+    );
+
+    expect(survey.questions[0]).toMatchObject({
+      id: 'company_size',
+      libraryRef: 'company_size',
+      required: true,
+    });
+    await expect(
+      service.createSurvey(
+        {
+          id: 'epsilon',
+          metadata: { title: 'Epsilon', description: 'Unknown reference' },
+          questions: [{ $ref: 'tenure' }],
+        },
+        TENANT,
+      ),
+    ).rejects.toThrow('Unknown library question: tenure');
+  });
+});
+
+describe('SurveyService sections', () => {
+  let definitionsPath: string;
+  let service: SurveyService;
+
+  beforeEach(async () => {
+    definitionsPath = mkdtempSync(join(tmpdir(), 'survey-defs-'));
+    writeFileSync(
+      join(definitionsPath, 'sectioned.json'),
+      JSON.stringify({
+        id: 'sectioned',
+        metadata: { title: 'Sectioned', description: 'Survey with sections' },
+        questions: [
+          { id: 'notes', type: 'free-form', text: 'Anything else?' },
+          {
+            id: 'plan',
+            type: 'multiple-choice',
+            text: 'Which plan?',
+            required: true,
+            options: [
+              { value: 'free', label: 'Free' },
+              { value: 'pro', label: 'Pro' },
+            ],
+          },
+          { id: 'role', type: 'free-form', text: 'Role?', required: true },
+          {
+            id: 'price_fair',
+            type: 'boolean',
+            text: 'Is the price fair?',
+            required: true,
+          },
+          {
+            id: 'upgrade',
+            type: 'free-form',
+            text: 'Why upgrade?',
+            required: true,
+          },
+        ],
+        sections: [
+          {
+            id: 'about',
+            title: 'About you',
+            intro: 'First, a bit about you.',
+            questionIds: ['role', 'plan'],
+          },
+          {
+            id: 'pricing',
+            title: 'Pricing',
+            conditional: { dependsOn: 'plan', op: 'eq', value: 'pro' },
+            questionIds: ['price_fair'],
+          },
+          {
+            id: 'growth',
+            title: 'Growth',
+            intro: 'Since you are on {{answers.plan.label}}...',
+            questionIds: ['upgrade'],
+          },
+        ],
+      }),
+    );
+
+    const provider = new StorageBackedSurveyProvider(
+      {
+        survey: {
+          providerType: 'storage',
+          definitionsPath,
+          responsesPath: join(definitionsPath, 'responses'),
+        },
+      } as AppConfig,
+      new StorageService(new InMemoryProvider()),
+    );
+    service = new SurveyService(provider, {
+      survey: { inactivityTimeoutMinutes: 0, sessionDeadlineHours: 0 },
+    } as AppConfig);
+    await service.initialize();
+  });
+
+  afterEach(() => {
+    rmSync(definitionsPath, { recursive: true, force: true });
+  });
+
+  it('suggests questions from the current section and unsectioned questions', async () => {
+    const { session, nextSuggestedQuestions, allQuestions } =
+      await service.startSession('sectioned', 'p1', TENANT);
+
+    expect(session.progress.currentSection).toEqual({
+      id: 'about',
+      title: 'About you',
+      intro: 'First, a bit about you.',
+    });
+    expect(nextSuggestedQuestions.map((q) => q.id)).toEqual([
+      'role',
+      'plan',
+      'notes',
+    ]);
+    expect(allQuestions.map((q) => q.id)).toEqual([
+      'role',
+      'plan',
+      'price_fair',
+      'upgrade',
+      'notes',
+    ]);
+    expect(allQuestions.find((q) => q.id === 'price_fair')).toMatchObject({
+      sectionId: 'pricing',
+      currentlyEligible: false,
+      eligibilityReason: expect.stringContaining('Section "Pricing" not shown'),
+    });
+  });
+
+  it('reports entering the next shown section and skips hidden ones', async () => {
+    const { session } = await service.startSession('sectioned', 'p1', TENANT);
+    const first = await service.submitResponse(
+      session.sessionId,
+      'role',
+      'PM',
+      TENANT,
+    );
+    expect(first.enteredSection).toBeUndefined();
+
+    const second = await service.submitResponse(
+      session.sessionId,
+      'plan',
+      'free',
+      TENANT,
+    );
+    expect(second.enteredSection).toEqual({
+      id: 'growth',
+      title: 'Growth',
+      intro: 'Since you are on Free...',
+    });
+    expect(second.nextSuggestedQuestions?.map((q) => q.id)).toEqual([
+      'upgrade',
+      'notes',
+    ]);
+    expect(second.progress?.sections?.map((s) => s.status)).toEqual([
+      'completed',
+      'hidden',
+      'not-started',
+    ]);
+
+    await service.submitResponse(session.sessionId, 'upgrade', 'SSO', TENANT);
+    const progress = await service.getProgress(session.sessionId, TENANT);
+    expect(progress.canComplete).toBe(true);
+    expect(progress.session.progress.currentSection).toBeUndefined();
+  });
+});
+
+describe('SurveyService rosters', () => {
+  let definitionsPath: string;
+  let service: SurveyService;
+
+  beforeEach(async () => {
+    definitionsPath = mkdtempSync(join(tmpdir(), 'survey-defs-'));
+    writeFileSync(
+      join(definitionsPath, 'tooling.json'),
+      JSON.stringify({
+        id: 'tooling',
+        metadata: { title: 'Tooling', description: 'Survey with a roster' },
+        questions: [
+          {
+            id: 'tools',
+            type: 'multiple-select',
+            text: 'Which tools do you use?',
+            required: true,
+            options: [
+              { value: 'slack', label: 'Slack' },
+              { value: 'zoom', label: 'Zoom' },
+              { value: 'jira', label: 'Jira' },
+            ],
+          },
+          {
+            id: 'tool_rating',
+            type: 'rating-scale',
+            text: 'How would you rate {{item}}?',
+            required: true,
+            scale: { min: 1, max: 5 },
+          },
+        ],
+        rosters: [
+          {
+            id: 'tool_ratings',
+            sourceQuestionId: 'tools',
+            questionIds: ['tool_rating'],
+          },
+        ],
+      }),
+    );
+
+    const provider = new StorageBackedSurveyProvider(
+      {
+        survey: {
+          providerType: 'storage',
+          definitionsPath,
+          responsesPath: join(definitionsPath, 'responses'),
+        },
+      } as AppConfig,
+      new StorageService(new InMemoryProvider()),
+    );
+    service = new SurveyService(provider, {
+      survey: { inactivityTimeoutMinutes: 0, sessionDeadlineHours: 0 },
+    } as AppConfig);
+    await service.initialize();
+  });
+
+  afterEach(() => {
+    rmSync(definitionsPath, { recursive: true, force: true });
+  });
+
+  it('asks roster questions once per selected item', async () => {
+    const { session, allQuestions } = await service.startSession(
+      'tooling',
+      'p1',
+      TENANT,
+    );
+    expect(allQuestions.map((q) => q.id)).toEqual(['tools']);
+
+    const selected = await service.submitResponse(
+      session.sessionId,
+      'tools',
+      ['slack', 'zoom'],
+      TENANT,
+    );
+    expect(selected.updatedEligibility?.map((c) => c.questionId)).toEqual([
+      'tool_rating[slack]',
+      'tool_rating[zoom]',
+    ]);
+    expect(selected.nextSuggestedQuestions?.map((q) => q.id)).toEqual([
+      'tool_rating[slack]',
+      'tool_rating[zoom]',
+    ]);
+    expect(selected.nextSuggestedQuestions?.[0]).toMatchObject({
+      text: 'How would you rate Slack?',
+      roster: { rosterId: 'tool_ratings', key: 'slack', label: 'Slack' },
+    });
+    expect(selected.progress).toMatchObject({
+      totalQuestions: 3,
+      answeredQuestions: 1,
+      requiredRemaining: 2,
+    });
+
+    const rated = await service.submitResponse(
+      session.sessionId,
+      'tool_rating[slack]',
+      4,
+      TENANT,
+    );
+    expect(rated.success).toBe(true);
+    expect(rated.progress).toMatchObject({
+      answeredQuestions: 2,
+      requiredRemaining: 1,
+    });
+
+    await service.submitResponse(
+      session.sessionId,
+      'tool_rating[zoom]',
+      2,
+      TENANT,
+    );
+    const progress = await service.getProgress(session.sessionId, TENANT);
+    expect(progress.canComplete).toBe(true);
+  });
+
+  it('drops answers for items removed from the source answer', async () => {
+    const { session } = await service.startSession('tooling', 'p1', TENANT);
+    await service.submitResponse(
+      session.sessionId,
+      'tools',
+      ['slack', 'zoom'],
+      TENANT,
+    );
+    await service.submitResponse(
+      session.sessionId,
+      'tool_rating[zoom]',
+      2,
+      TENANT,
+    );
+
+    const changed = await service.submitResponse(
+      session.sessionId,
+      'tools',
+      ['slack'],
+      TENANT,
+    );
+    expect(changed.progress).toMatchObject({
+      totalQuestions: 2,
+      answeredQuestions: 1,
+    });
+
+    const { session: resumed } = await service.resumeSession(
+      session.sessionId,
+      TENANT,
+    );
+    expect(Object.keys(resumed.responses)).toEqual(['tools']);
+    const exported = await service.exportResults('tooling', TENANT, 'csv-long');
+    expect(exported.data).not.toContain('"zoom"');
+  });
+
+  it('points at instance IDs when a roster question is addressed directly', async () => {
+    const { session } = await service.startSession('tooling', 'p1', TENANT);
+
+    await expect(
+      service.submitResponse(session.sessionId, 'tool_rating', 3, TENANT),
+    ).rejects.toThrow(/tool_rating\[<item>\]/);
+  });
+
+  it('exports one column per item, or one row per response', async () => {
+    const first = await service.startSession('tooling', 'p1', TENANT);
+    await service.submitResponse(
+      first.session.sessionId,
+      'tools',
+      ['zoom'],
+      TENANT,
+    );
+    await service.submitResponse(
+      first.session.sessionId,
+      'tool_rating[zoom]',
+      3,
+      TENANT,
+    );
+    const second = await service.startSession('tooling', 'p2', TENANT);
+    await service.submitResponse(
+      second.session.sessionId,
+      'tools',
+      ['slack'],
+      TENANT,
+    );
+    await service.submitResponse(
+      second.session.sessionId,
+      'tool_rating[slack]',
+      5,
+      TENANT,
+    );
+
+    const wide = await service.exportResults('tooling', TENANT, 'csv');
+    const [header] = wide.data.split('\n');
+    expect(header).toContain('tools,tool_rating[slack],tool_rating[zoom]');
+
+    const long = await service.exportResults('tooling', TENANT, 'csv-long');
+    const lines = long.data.split('\n');
+    expect(lines[0]).toBe(
+      'sessionId,surveyId,surveyVersion,participantId,status,startedAt,completedAt,questionId,rosterItem,value,answeredAt',
+    );
+    expect(lines).toHaveLength(5);
+    expect(
+      lines.some((line) => line.includes('"tool_rating","zoom","3"')),
+    ).toBe(true);
+    expect(
+      lines.some((line) => line.includes('"tool_rating","slack","5"')),
+    ).toBe(true);
+    expect(long.recordCount).toBe(2);
+  });
+
+  it('pools every item in analytics and keeps roster questions out of crosstabs', async () => {
+    const first = await service.startSession('tooling', 'p1', TENANT);
+    await service.submitResponse(
+      first.session.sessionId,
+      'tools',
+      ['slack', 'zoom'],
+      TENANT,
+    );
+    for (const [item, rating] of [
+      ['slack', 4],
+      ['zoom', 2],
+    ] as const) {
+      await service.submitResponse(
+        first.session.sessionId,
+        `tool_rating[${item}]`,
+        rating,
+        TENANT,
+      );
+    }
+    await service.startSession('tooling', 'p2', TENANT);
+
+    const analytics = await service.getAnalytics('tooling', TENANT);
+    expect(
+      analytics.questionStats.find((stat) => stat.questionId === 'tool_rating'),
+    ).toMatchObject({
+      rosterId: 'tool_ratings',
+      responseCount: 2,
+      respondentCount: 1,
+      responseRate: '50%',
+      responseDistribution: { '2': 1, '4': 1 },
+    });
+
+    const funnel = await service.getDropOffFunnel('tooling', TENANT);
+    expect(funnel.steps[1]).toMatchObject({
+      questionId: 'tool_rating',
+      reachedCount: 1,
+      reachedRate: '50%',
+    });
+
+    await expect(
+      service.getCrosstab('tooling', 'tools', 'tool_rating', TENANT),
+    ).rejects.toThrow(
+      'Question tool_rating is asked once per item of roster tool_ratings and cannot be cross-tabulated',
+    );
+  });
+});
+
+describe('shuffleQuestionIds', () => {
+  it('is deterministic for a seed and keeps every ID', () => {
+    const ids = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+    const first = shuffleQuestionIds(ids, 'seed-1');
+
+    expect(shuffleQuestionIds(ids, 'seed-1')).toEqual(first);
+    expect([...first].sort()).toEqual(ids);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Tests for the survey conditional logic engine.
+ * @module tests/services/survey/core/conditions.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import {
+  describeCondition,
+  evaluateCondition,
+  type ConditionSessionState,
+} from '@/services/survey/core/conditions.js';
+import { ConditionalLogicSchema } from '@/services/survey/types.js';
+
+function sessionWith(answers: Record<string, unknown>): ConditionSessionState {
+  return {
+    responses: Object.fromEntries(
+      Object.entries(answers).map(([questionId, value]) => [
+        questionId,
+        {
+          questionId,
+          value,
+          answeredAt: '2025-01-01T00:00:00.000Z',
+          attemptCount: 1,
+        },
+      ]),
+    ),
+  };
+}
+
+describe('evaluateCondition', () => {
+  describe('legacy showIf conditions', () => {
+    it('keeps the existing reason strings', () => {
+      const condition = { dependsOn: 'role', showIf: ['manager'] };
+
+      expect(evaluateCondition(condition, sessionWith({}))).toEqual({
+        eligible: false,
+        reason: 'Conditional: depends on unanswered question role',
+      });
+      expect(
+        evaluateCondition(condition, sessionWith({ role: 'engineer' })),
+      ).toEqual({
+        eligible: false,
+        reason: 'Conditional: role answer does not match required values',
+      });
+      expect(
+        evaluateCondition(condition, sessionWith({ role: 'manager' })),
+      ).toEqual({
+        eligible: true,
+        reason: "Conditional logic satisfied (role = 'manager')",
+      });
+    });
+
+    it('evaluates flat AND/OR groups', () => {
+      const session = sessionWith({ role: 'manager', remote: false });
+
+      const and = evaluateCondition(
+        {
+          operator: 'AND',
+          conditions: [
+            { dependsOn: 'role', showIf: ['manager'] },
+            { dependsOn: 'remote', showIf: [true] },
+          ],
+        },
+        session,
+      );
+      expect(and.eligible).toBe(false);
+      expect(and.reason).toBe(
+        'AND condition failed: Conditional: remote answer does not match required values',
+      );
+
+      const or = evaluateCondition(
+        {
+          operator: 'OR',
+          conditions: [
+            { dependsOn: 'role', showIf: ['manager'] },
+            { dependsOn: 'remote', showIf: [true] },
+          ],
+        },
+        session,
+      );
+      expect(or).toEqual({
+        eligible: true,
+        reason:
+          "OR condition satisfied: Conditional logic satisfied (role = 'manager')",
+      });
+    });
+  });
+
+  describe('operator expressions', () => {
+    it.each([
+      ['eq', 5, 5, true],
+      ['neq', 5, 4, true],
+      ['gt', 5, 4, true],
+      ['gte', 5, 5, true],
+      ['lt', 5, 5, false],
+      ['lte', 5, 5, true],
+      ['gt', '2025-06-01', '2025-01-01', true],
+      ['in', 'b', ['a', 'b'], true],
+      ['notIn', 'c', ['a', 'b'], true],
+      ['contains', ['slack', 'zoom'], 'zoom', true],
+      ['contains', 'hello world', 'world', true],
+      ['notContains', ['slack'], 'zoom', true],
+      ['eq', ['b', 'a'], ['a', 'b'], true],
+      ['gt', '5', 4, false],
+    ] as const)('%s(%j, %j) → %s', (op, answer, value, expected) => {
+      const result = evaluateCondition(
+        { dependsOn: 'q', op, value: value as never },
+        sessionWith({ q: answer }),
+      );
+      expect(result.eligible).toBe(expected);
+    });
+
+    it('handles presence operators without a value', () => {
+      expect(
+        evaluateCondition(
+          { dependsOn: 'q', op: 'answered' },
+          sessionWith({ q: 'x' }),
+        ),
+      ).toEqual({
+        eligible: true,
+        reason: 'Conditional logic satisfied (q is answered)',
+      });
+      expect(
+        evaluateCondition(
+          { dependsOn: 'q', op: 'notAnswered' },
+          sessionWith({}),
+        ).eligible,
+      ).toBe(true);
+    });
+
+    it('describes failed comparisons with the actual answer', () => {
+      expect(
+        evaluateCondition(
+          { dependsOn: 'rating', op: 'lte', value: 3 },
+          sessionWith({ rating: 5 }),
+        ).reason,
+      ).toBe("Conditional: requires that rating <= 3 (answer: '5')");
+    });
+
+    it('follows a path into object answers', () => {
+      const session = sessionWith({ matrix: { speed: 'good' } });
+      expect(
+        evaluateCondition(
+          { dependsOn: 'matrix', path: 'speed', op: 'eq', value: 'good' },
+          session,
+        ).eligible,
+      ).toBe(true);
+      expect(
+        evaluateCondition(
+          { dependsOn: 'matrix', path: 'price', op: 'eq', value: 'good' },
+          session,
+        ).reason,
+      ).toBe('Conditional: depends on unanswered question matrix.price');
+    });
+
+    it('compares computed variables like answers', () => {
+      const session = { ...sessionWith({}), variables: { burnout: 3.5 } };
+      expect(
+        evaluateCondition(
+          { dependsOn: 'burnout', op: 'gte', value: 3 },
+          session,
+        ).eligible,
+      ).toBe(true);
+      expect(
+        evaluateCondition(
+          { dependsOn: 'engagement', op: 'gte', value: 3 },
+          session,
+        ).eligible,
+      ).toBe(false);
+    });
+  });
+
+  describe('nested groups and NOT', () => {
+    const conditional = {
+      operator: 'AND' as const,
+      conditions: [
+        { dependsOn: 'role', op: 'in' as const, value: ['manager', 'lead'] },
+        {
+          operator: 'NOT' as const,
+          condition: {
+            operator: 'OR' as const,
+            conditions: [
+              { dependsOn: 'tenure', op: 'lt' as const, value: 1 },
+              { dependsOn: 'contractor', op: 'eq' as const, value: true },
+            ],
+          },
+        },
+      ],
+    };
+
+    it('evaluates arbitrarily nested groups', () => {
+      expect(
+        evaluateCondition(
+          conditional,
+          sessionWith({ role: 'lead', tenure: 3, contractor: false }),
+        ).eligible,
+      ).toBe(true);
+
+      const failed = evaluateCondition(
+        conditional,
+        sessionWith({ role: 'lead', tenure: 0, contractor: false }),
+      );
+      expect(failed.eligible).toBe(false);
+      expect(failed.reason).toBe(
+        'AND condition failed: NOT condition failed: (tenure < 1 OR contractor = true) is met',
+      );
+    });
+
+    it('renders a readable description', () => {
+      expect(describeCondition(conditional)).toBe(
+        '(role is one of [manager, lead] AND NOT (tenure < 1 OR contractor = true))',
+      );
+    });
+  });
+});
+
+describe('ConditionalLogicSchema', () => {
+  it('accepts legacy and nested expression conditions', () => {
+    expect(
+      ConditionalLogicSchema.safeParse({ dependsOn: 'q', showIf: [1, 2] })
+        .success,
+    ).toBe(true);
+    expect(
+      ConditionalLogicSchema.safeParse({
+        operator: 'NOT',
+        condition: {
+          operator: 'OR',
+          conditions: [{ dependsOn: 'q', op: 'answered' }],
+        },
+      }).success,
+    ).toBe(true);
+  });
+
+  it.each([
+    [{ dependsOn: 'q' }],
+    [{ dependsOn: 'q', showIf: ['a'], op: 'eq', value: 'a' }],
+    [{ dependsOn: 'q', op: 'gt' }],
+    [{ dependsOn: 'q', op: 'in', value: 'a' }],
+    [{ dependsOn: 'q', op: 'answered', value: 'a' }],
+  ])('rejects malformed condition %j', (condition) => {
+    expect(ConditionalLogicSchema.safeParse(condition).success).toBe(false);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Tests for the crosstab builder and chi-square p-values.
+ * @module tests/services/survey/core/crosstab.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildCrosstab,
+  chiSquarePValue,
+} from '@/services/survey/core/crosstab.js';
+import {
+  type ParticipantSession,
+  type QuestionDefinition,
+  SurveyDefinitionSchema,
+} from '@/services/survey/types.js';
+
+const survey = SurveyDefinitionSchema.parse({
+  id: 'crosstab-survey',
+  metadata: { title: 'Crosstab', description: 'Survey for tests' },
+  questions: [
+    {
+      id: 'department',
+      type: 'multiple-choice',
+      text: 'Department?',
+      options: [
+        { value: 'eng', label: 'Engineering' },
+        { value: 'sales', label: 'Sales' },
+      ],
+    },
+    { id: 'remote', type: 'boolean', text: 'Remote?' },
+    {
+      id: 'tools',
+      type: 'multiple-select',
+      text: 'Tools?',
+      options: [
+        { value: 'slack', label: 'Slack' },
+        { value: 'jira', label: 'Jira' },
+      ],
+    },
+    {
+      id: 'satisfaction',
+      type: 'rating-scale',
+      text: 'Satisfaction?',
+      scale: { min: 1, max: 5, step: 1 },
+    },
+  ],
+});
+
+function question(id: string): QuestionDefinition {
+  const found = survey.questions.find((q) => q.id === id);
+  if (!found) {
+    throw new Error(`Unknown question ${id}`);
+  }
+  return found;
+}
+
+function buildSession(
+  sessionId: string,
+  answers: Record<string, unknown>,
+  skipped: string[] = [],
+): ParticipantSession {
+  const now = '2025-01-01T00:00:00.000Z';
+  return {
+    sessionId,
+    surveyId: 'crosstab-survey',
+    surveyVersion: '1.0',
+    participantId: sessionId,
+    tenantId: 'tenant-a',
+    status: 'completed',
+    startedAt: now,
+    lastActivityAt: now,
+    responses: Object.fromEntries([
+      ...Object.entries(answers).map(([questionId, value]) => [
+        questionId,
+        { questionId, value, answeredAt: now, attemptCount: 1 },
+      ]),
+      ...skipped.map((questionId) => [
+        questionId,
+        {
+          questionId,
+          value: null,
+          answeredAt: now,
+          attemptCount: 0,
+          skipped: true,
+        },
+      ]),
+    ]),
+    progress: {
+      totalQuestions: 4,
+      answeredQuestions: Object.keys(answers).length,
+      requiredRemaining: 0,
+      percentComplete: 100,
+    },
+    currentScore: 0,
+  };
+}
+
+describe('buildCrosstab', () => {
+  it('counts, percentages and chi-square for two single-response questions', () => {
+    const sessions = [
+      ...[1, 2, 3].map((n) =>
+        buildSession(`e${n}`, { department: 'eng', remote: true }),
+      ),
+      buildSession('e4', { department: 'eng', remote: false }),
+      buildSession('s1', { department: 'sales', remote: true }),
+      ...[2, 3, 4].map((n) =>
+        buildSession(`s${n}`, { department: 'sales', remote: false }),
+      ),
+    ];
+
+    const crosstab = buildCrosstab(
+      question('department'),
+      question('remote'),
+      sessions,
+    );
+
+    expect(crosstab.rowCategories).toEqual(['eng', 'sales']);
+    expect(crosstab.columnCategories).toEqual(['true', 'false']);
+    expect(crosstab.counts).toEqual([
+      [3, 1],
+      [1, 3],
+    ]);
+    expect(crosstab.rowTotals).toEqual([4, 4]);
+    expect(crosstab.columnTotals).toEqual([4, 4]);
+    expect(crosstab.grandTotal).toBe(8);
+    expect(crosstab.rowPercentages).toEqual([
+      [75, 25],
+      [25, 75],
+    ]);
+    expect(crosstab.respondentCount).toBe(8);
+    expect(crosstab.multiResponse).toBe(false);
+    expect(crosstab.chiSquare).toEqual({
+      statistic: 2,
+      degreesOfFreedom: 1,
+      pValue: 0.1573,
+    });
+  });
+
+  it('counts each multiple-select option and ignores skipped answers', () => {
+    const sessions = [
+      buildSession('a', { department: 'eng', tools: ['slack', 'jira'] }),
+      buildSession('b', { department: 'sales', tools: ['slack'] }),
+      buildSession('c', { department: 'sales', tools: ['notion'] }),
+      buildSession('d', { department: 'eng' }, ['tools']),
+      buildSession('e', { tools: ['jira'] }),
+    ];
+
+    const crosstab = buildCrosstab(
+      question('department'),
+      question('tools'),
+      sessions,
+    );
+
+    expect(crosstab.columnCategories).toEqual(['slack', 'jira', 'notion']);
+    expect(crosstab.counts).toEqual([
+      [1, 1, 0],
+      [1, 0, 1],
+    ]);
+    expect(crosstab.respondentCount).toBe(3);
+    expect(crosstab.grandTotal).toBe(4);
+    expect(crosstab.multiResponse).toBe(true);
+    expect(crosstab.chiSquare).toBeUndefined();
+    expect(crosstab.columnPercentages).toEqual([
+      [50, 100, 0],
+      [50, 0, 100],
+    ]);
+  });
+
+  it('bins rating-scale answers', () => {
+    const sessions = [
+      buildSession('a', { satisfaction: 1, remote: true }),
+      buildSession('b', { satisfaction: 2, remote: true }),
+      buildSession('c', { satisfaction: 4, remote: false }),
+      buildSession('d', { satisfaction: 5, remote: false }),
+    ];
+
+    const crosstab = buildCrosstab(
+      question('satisfaction'),
+      question('remote'),
+      sessions,
+      { ratingBinSize: 2 },
+    );
+
+    expect(crosstab.rowCategories).toEqual(['1–2', '3–4', '5']);
+    expect(crosstab.counts).toEqual([
+      [2, 0],
+      [0, 1],
+      [0, 1],
+    ]);
+    expect(crosstab.chiSquare?.degreesOfFreedom).toBe(2);
+  });
+
+  it('omits chi-square when there is only one non-empty row', () => {
+    const sessions = [
+      buildSession('a', { department: 'eng', remote: true }),
+      buildSession('b', { department: 'eng', remote: false }),
+    ];
+
+    const crosstab = buildCrosstab(
+      question('department'),
+      question('remote'),
+      sessions,
+    );
+
+    expect(crosstab.counts).toEqual([
+      [1, 1],
+      [0, 0],
+    ]);
+    expect(crosstab.rowPercentages[1]).toEqual([0, 0]);
+    expect(crosstab.chiSquare).toBeUndefined();
+  });
+});
+
+describe('chiSquarePValue', () => {
+  it.each([
+    [3.841, 1, 0.05],
+    [5.991, 2, 0.05],
+    [6.635, 1, 0.01],
+    [18.307, 10, 0.05],
+    [0.455, 1, 0.5],
+  ])('chi-square %d with %d df has p ≈ %d', (statistic, df, expected) => {
+    expect(chiSquarePValue(statistic, df)).toBeCloseTo(expected, 3);
+  });
+
+  it('returns 1 for a zero statistic', () => {
+    expect(chiSquarePValue(0, 3)).toBe(1);
+  });
+});
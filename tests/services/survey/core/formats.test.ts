@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Tests for survey definition file formats.
+ * @module tests/services/survey/core/formats.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import {
+  definitionFormatFromPath,
+  parseSurveyDefinitionSource,
+  serializeDefinition,
+} from '@/services/survey/core/formats.js';
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+
+const definition = {
+  id: 'formats',
+  version: '1.0',
+  metadata: { title: 'Formats', description: 'Survey for tests' },
+  questions: [{ id: 'name', type: 'free-form', text: 'Name?' }],
+  settings: {},
+};
+
+const yamlSource = `id: formats
+version: "1.0"
+metadata:
+  title: Formats
+  description: Survey for tests
+questions:
+  - id: name
+    type: free-form
+    text: Name?
+settings: {}
+`;
+
+const json5Source = `{
+  // Written by hand
+  id: 'formats',
+  version: '1.0',
+  metadata: { title: 'Formats', description: 'Survey for tests' },
+  questions: [{ id: 'name', type: 'free-form', text: 'Name?' }],
+  settings: {},
+}
+`;
+
+function catchError(fn: () => unknown): McpError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(McpError);
+    return error as McpError;
+  }
+  throw new Error('Expected an McpError');
+}
+
+describe('definitionFormatFromPath', () => {
+  it('maps definition extensions to formats', () => {
+    expect(definitionFormatFromPath('surveys/a/1.0.json')).toBe('json');
+    expect(definitionFormatFromPath('surveys/a/1.0.yaml')).toBe('yaml');
+    expect(definitionFormatFromPath('surveys/a/1.0.YML')).toBe('yaml');
+    expect(definitionFormatFromPath('surveys/a/1.0.json5')).toBe('json5');
+  });
+
+  it('ignores other files', () => {
+    expect(definitionFormatFromPath('surveys/README.md')).toBeUndefined();
+    expect(definitionFormatFromPath('surveys/LICENSE')).toBeUndefined();
+  });
+});
+
+describe('parseSurveyDefinitionSource', () => {
+  it('parses YAML and JSON5 definitions', () => {
+    const fromYaml = parseSurveyDefinitionSource(yamlSource, 'yaml');
+    const fromJson5 = parseSurveyDefinitionSource(json5Source, 'json5');
+
+    expect(fromYaml.document).toEqual(definition);
+    expect(fromJson5.document).toEqual(definition);
+    expect(fromYaml.survey).toEqual(fromJson5.survey);
+    expect(fromYaml.survey.questions[0]?.id).toBe('name');
+  });
+
+  it('reports schema errors with their YAML location', () => {
+    const source = yamlSource.replace('type: free-form', 'type: essay');
+
+    const error = catchError(() => parseSurveyDefinitionSource(source, 'yaml'));
+
+    expect(error.code).toBe(JsonRpcErrorCode.ValidationError);
+    expect(error.message).toContain('questions.0.type (line 7, column 5)');
+    expect(error.data).toMatchObject({
+      format: 'yaml',
+      issues: [expect.objectContaining({ path: 'questions.0.type', line: 7 })],
+    });
+  });
+
+  it('reports schema errors with their JSON location', () => {
+    const source = serializeDefinition(
+      { ...definition, metadata: { title: 'Formats' } },
+      'json',
+    );
+
+    const error = catchError(() => parseSurveyDefinitionSource(source, 'json'));
+
+    expect(error.message).toContain('metadata.description (line 4, column 15)');
+  });
+
+  it('reports syntax errors with their line and column', () => {
+    const error = catchError(() =>
+      parseSurveyDefinitionSource('\n{\n  "id": formats\n}', 'json'),
+    );
+
+    expect(error.message).toContain('Survey definition is not valid JSON');
+    expect(error.data).toMatchObject({
+      format: 'json',
+      issues: [expect.objectContaining({ line: 4, column: 1 })],
+    });
+  });
+
+  it('reports JSON5 syntax errors with their line and column', () => {
+    const error = catchError(() =>
+      parseSurveyDefinitionSource(
+        "{\n  id: 'formats'\n  version: '1.0'\n}",
+        'json5',
+      ),
+    );
+
+    expect(error.message).toContain('Survey definition is not valid JSON5');
+    expect(error.data).toMatchObject({
+      issues: [expect.objectContaining({ line: 3, column: 3 })],
+    });
+  });
+});
+
+describe('serializeDefinition', () => {
+  it('round-trips a definition through every format', () => {
+    const yamlText = serializeDefinition(definition, 'yaml');
+    const json5Text = serializeDefinition(
+      parseSurveyDefinitionSource(yamlText, 'yaml').document,
+      'json5',
+    );
+    const jsonText = serializeDefinition(
+      parseSurveyDefinitionSource(json5Text, 'json5').document,
+      'json',
+    );
+
+    expect(JSON.parse(jsonText)).toEqual(definition);
+    expect(jsonText.endsWith('\n')).toBe(true);
+  });
+});
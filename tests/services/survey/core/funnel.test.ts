@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Tests for the drop-off funnel builder.
+ * @module tests/services/survey/core/funnel.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import { buildDropOffFunnel } from '@/services/survey/core/funnel.js';
+import {
+  type ParticipantSession,
+  SurveyDefinitionSchema,
+} from '@/services/survey/types.js';
+
+const survey = SurveyDefinitionSchema.parse({
+  id: 'funnel-survey',
+  metadata: { title: 'Funnel', description: 'Survey for tests' },
+  questions: [
+    { id: 'q1', type: 'free-form', text: 'First?' },
+    { id: 'q2', type: 'free-form', text: 'Second?' },
+    { id: 'q3', type: 'free-form', text: 'Third?' },
+  ],
+});
+
+function buildSession(
+  sessionId: string,
+  status: ParticipantSession['status'],
+  answers: Array<[string, number]>,
+): ParticipantSession {
+  const start = Date.parse('2025-01-01T00:00:00.000Z');
+  return {
+    sessionId,
+    surveyId: 'funnel-survey',
+    surveyVersion: '1.0',
+    participantId: sessionId,
+    tenantId: 'tenant-a',
+    status,
+    startedAt: new Date(start).toISOString(),
+    lastActivityAt: new Date(start).toISOString(),
+    responses: Object.fromEntries(
+      answers.map(([questionId, seconds]) => [
+        questionId,
+        {
+          questionId,
+          value: 'answer',
+          answeredAt: new Date(start + seconds * 1000).toISOString(),
+          attemptCount: 1,
+        },
+      ]),
+    ),
+    progress: {
+      totalQuestions: 3,
+      answeredQuestions: answers.length,
+      requiredRemaining: 0,
+      percentComplete: 0,
+    },
+    currentScore: 0,
+  };
+}
+
+describe('buildDropOffFunnel', () => {
+  it('reports reach, answer timing and where abandoned sessions stopped', () => {
+    const funnel = buildDropOffFunnel(survey, [
+      buildSession('s1', 'completed', [
+        ['q1', 10],
+        ['q2', 40],
+        ['q3', 100],
+      ]),
+      buildSession('s2', 'abandoned', [
+        ['q1', 20],
+        ['q2', 40],
+      ]),
+      buildSession('s3', 'expired', [['q1', 30]]),
+      buildSession('s4', 'abandoned', []),
+    ]);
+
+    expect(funnel.sessionCount).toBe(4);
+    expect(
+      funnel.steps.map((step) => [
+        step.questionId,
+        step.reachedCount,
+        step.reachedRate,
+        step.medianSecondsToAnswer,
+        step.lastAnsweredBeforeAbandonment,
+      ]),
+    ).toEqual([
+      ['q1', 3, '75%', 20, 1],
+      ['q2', 2, '50%', 25, 1],
+      ['q3', 1, '25%', 60, 0],
+    ]);
+    expect(funnel.medianSecondsBetweenAnswers).toBe(30);
+    expect(funnel.abandonedWithoutAnswers).toBe(1);
+    expect(funnel.completionCurve.map((p) => p.sessionCount)).toEqual([
+      3, 2, 1,
+    ]);
+  });
+
+  it('counts roster instance answers toward the question they repeat', () => {
+    const rosterSurvey = SurveyDefinitionSchema.parse({
+      ...survey,
+      rosters: [
+        { id: 'per_item', sourceQuestionId: 'q1', questionIds: ['q2'] },
+      ],
+    });
+
+    const funnel = buildDropOffFunnel(rosterSurvey, [
+      buildSession('s1', 'abandoned', [
+        ['q1', 10],
+        ['q2[a]', 20],
+        ['q2[b]', 40],
+      ]),
+      buildSession('s2', 'completed', [
+        ['q1', 10],
+        ['q2[a]', 30],
+        ['q3', 40],
+      ]),
+    ]);
+
+    expect(
+      funnel.steps.map((step) => [
+        step.questionId,
+        step.reachedCount,
+        step.medianSecondsToAnswer,
+        step.lastAnsweredBeforeAbandonment,
+      ]),
+    ).toEqual([
+      ['q1', 2, 10, 0],
+      ['q2', 2, 20, 1],
+      ['q3', 1, 10, 0],
+    ]);
+    expect(funnel.completionCurve.map((p) => p.sessionCount)).toEqual([
+      2, 2, 1,
+    ]);
+  });
+});
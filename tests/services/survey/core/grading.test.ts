@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Tests for quiz grading.
+ * @module tests/services/survey/core/grading.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import { gradeResponse, gradeSession } from '@/services/survey/core/grading.js';
+import {
+  type ParticipantSession,
+  QuestionDefinitionSchema,
+  SurveyDefinitionSchema,
+} from '@/services/survey/types.js';
+
+const capital = QuestionDefinitionSchema.parse({
+  id: 'capital',
+  type: 'multiple-choice',
+  text: 'Capital of France?',
+  options: [
+    { value: 'paris', label: 'Paris' },
+    { value: 'lyon', label: 'Lyon' },
+  ],
+  answerKey: {
+    correct: 'paris',
+    feedback: { correct: 'Right!', incorrect: 'It is Paris.' },
+  },
+});
+
+const primes = QuestionDefinitionSchema.parse({
+  id: 'primes',
+  type: 'multiple-select',
+  text: 'Pick the primes',
+  options: [
+    { value: '2', label: '2' },
+    { value: '3', label: '3' },
+    { value: '4', label: '4' },
+    { value: '5', label: '5' },
+  ],
+  answerKey: {
+    correct: ['2', '3', '5'],
+    partialCredit: true,
+    points: 3,
+    feedback: { partial: 'Close.', incorrect: 'Not quite.' },
+  },
+});
+
+const pi = QuestionDefinitionSchema.parse({
+  id: 'pi',
+  type: 'number',
+  text: 'Value of pi?',
+  answerKey: { correct: 3.14, tolerance: 0.01 },
+});
+
+describe('gradeResponse', () => {
+  it('grades single answers with feedback', () => {
+    expect(gradeResponse(capital, 'paris')).toEqual({
+      questionId: 'capital',
+      correct: true,
+      credit: 1,
+      pointsEarned: 1,
+      pointsPossible: 1,
+      feedback: 'Right!',
+    });
+    expect(gradeResponse(capital, 'lyon')).toMatchObject({
+      correct: false,
+      credit: 0,
+      feedback: 'It is Paris.',
+    });
+  });
+
+  it('awards partial credit for multiple-select, penalizing wrong picks', () => {
+    expect(gradeResponse(primes, ['2', '3', '5'])).toMatchObject({
+      correct: true,
+      pointsEarned: 3,
+    });
+    expect(gradeResponse(primes, ['2', '3'])).toMatchObject({
+      correct: false,
+      credit: 0.6667,
+      pointsEarned: 2,
+      feedback: 'Close.',
+    });
+    expect(gradeResponse(primes, ['2', '4'])).toMatchObject({
+      credit: 0,
+      feedback: 'Not quite.',
+    });
+
+    const strict = QuestionDefinitionSchema.parse({
+      ...primes,
+      answerKey: { correct: ['2', '3', '5'] },
+    });
+    expect(gradeResponse(strict, ['2', '3'])?.credit).toBe(0);
+  });
+
+  it('accepts numeric answers within the tolerance', () => {
+    expect(gradeResponse(pi, 3.149)?.correct).toBe(true);
+    expect(gradeResponse(pi, 3.2)?.correct).toBe(false);
+  });
+
+  it('compares text case-insensitively by default', () => {
+    const text = QuestionDefinitionSchema.parse({
+      id: 'element',
+      type: 'free-form',
+      text: 'Symbol for gold?',
+      answerKey: { correct: ['Au', 'gold'] },
+    });
+    expect(gradeResponse(text, ' au ')?.correct).toBe(true);
+
+    const strict = QuestionDefinitionSchema.parse({
+      ...text,
+      answerKey: { correct: 'Au', caseSensitive: true },
+    });
+    expect(gradeResponse(strict, 'au')?.correct).toBe(false);
+  });
+
+  it('ignores questions without an answer key', () => {
+    const plain = QuestionDefinitionSchema.parse({
+      id: 'notes',
+      type: 'free-form',
+      text: 'Notes?',
+    });
+    expect(gradeResponse(plain, 'anything')).toBeUndefined();
+  });
+});
+
+describe('gradeSession', () => {
+  const survey = SurveyDefinitionSchema.parse({
+    id: 'quiz',
+    metadata: { title: 'Quiz', description: 'Quiz for tests' },
+    questions: [
+      capital,
+      primes,
+      {
+        ...pi,
+        conditional: { dependsOn: 'capital', op: 'eq', value: 'paris' },
+      },
+      { id: 'notes', type: 'free-form', text: 'Notes?' },
+    ],
+  });
+
+  function sessionWith(answers: Record<string, unknown>): ParticipantSession {
+    const now = '2025-01-01T00:00:00.000Z';
+    return {
+      responses: Object.fromEntries(
+        Object.entries(answers).map(([questionId, value]) => [
+          questionId,
+          { questionId, value, answeredAt: now, attemptCount: 1 },
+        ]),
+      ),
+    } as ParticipantSession;
+  }
+
+  it('totals points and percent correct across shown questions', () => {
+    const summary = gradeSession(
+      survey,
+      sessionWith({ capital: 'paris', primes: ['2', '3'], notes: 'hi' }),
+    );
+
+    expect(summary).toMatchObject({
+      gradedQuestions: 3,
+      correctCount: 1,
+      pointsEarned: 3,
+      pointsPossible: 5,
+      percentCorrect: 60,
+    });
+    expect(summary?.questions.map((q) => [q.questionId, q.answered])).toEqual([
+      ['capital', true],
+      ['primes', true],
+      ['pi', false],
+    ]);
+    expect(summary?.questions[2]?.correctAnswer).toBe(3.14);
+  });
+
+  it('leaves out quiz questions hidden by conditional logic', () => {
+    const summary = gradeSession(survey, sessionWith({ capital: 'lyon' }));
+    expect(summary?.questions.map((q) => q.questionId)).toEqual([
+      'capital',
+      'primes',
+    ]);
+    expect(summary?.percentCorrect).toBe(0);
+  });
+
+  it('leaves out quiz questions in a hidden section', () => {
+    const sectioned = SurveyDefinitionSchema.parse({
+      ...survey,
+      questions: [capital, primes, pi],
+      sections: [
+        { id: 'basics', title: 'Basics', questionIds: ['capital'] },
+        {
+          id: 'advanced',
+          title: 'Advanced',
+          conditional: { dependsOn: 'capital', op: 'eq', value: 'paris' },
+          questionIds: ['primes', 'pi'],
+        },
+      ],
+    });
+
+    const summary = gradeSession(sectioned, sessionWith({ capital: 'lyon' }));
+    expect(summary?.questions.map((q) => q.questionId)).toEqual(['capital']);
+    expect(summary?.pointsPossible).toBe(1);
+  });
+
+  it('grades roster quiz questions once per item', () => {
+    const rostered = SurveyDefinitionSchema.parse({
+      ...survey,
+      questions: [
+        {
+          id: 'countries',
+          type: 'multiple-select',
+          text: 'Countries?',
+          options: [
+            { value: 'fr', label: 'France' },
+            { value: 'de', label: 'Germany' },
+          ],
+        },
+        { ...capital, text: 'Capital of {{item}}?' },
+      ],
+      rosters: [
+        {
+          id: 'capitals',
+          sourceQuestionId: 'countries',
+          questionIds: ['capital'],
+        },
+      ],
+    });
+
+    const summary = gradeSession(
+      rostered,
+      sessionWith({ countries: ['fr', 'de'], 'capital[fr]': 'paris' }),
+    );
+    expect(summary?.questions.map((q) => [q.questionId, q.correct])).toEqual([
+      ['capital[fr]', true],
+      ['capital[de]', false],
+    ]);
+    expect(summary?.percentCorrect).toBe(50);
+  });
+
+  it('is undefined for surveys without answer keys', () => {
+    const plain = SurveyDefinitionSchema.parse({
+      ...survey,
+      questions: [{ id: 'notes', type: 'free-form', text: 'Notes?' }],
+    });
+    expect(gradeSession(plain, sessionWith({}))).toBeUndefined();
+  });
+});
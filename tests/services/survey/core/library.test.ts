@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Tests for question library references.
+ * @module tests/services/survey/core/library.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import { parseSurveyDefinitionSource } from '@/services/survey/core/formats.js';
+import {
+  addToQuestionLibrary,
+  collapseQuestionReferences,
+  createQuestionLibrary,
+  resolveQuestionReferences,
+} from '@/services/survey/core/library.js';
+import {
+  QuestionLibraryFileSchema,
+  SurveyDefinitionSchema,
+} from '@/services/survey/types.js';
+import { McpError } from '@/types-global/errors.js';
+
+const libraryDocument = {
+  questions: [
+    {
+      id: 'role',
+      type: 'multiple-choice',
+      text: 'What is your role?',
+      options: [
+        { value: 'engineer', label: 'Engineer' },
+        { value: 'manager', label: 'Manager' },
+      ],
+    },
+    {
+      id: 'company_size',
+      type: 'multiple-choice',
+      text: 'How large is your company?',
+      options: [
+        { value: 'small', label: '1-50' },
+        { value: 'large', label: '51+' },
+      ],
+    },
+  ],
+  blocks: { demographics: ['role', 'company_size'] },
+};
+
+function buildLibrary() {
+  const library = createQuestionLibrary();
+  addToQuestionLibrary(
+    library,
+    libraryDocument,
+    QuestionLibraryFileSchema.parse(libraryDocument),
+  );
+  return library;
+}
+
+function surveyWith(questions: unknown[]) {
+  return {
+    id: 'library-survey',
+    metadata: { title: 'Library Survey', description: 'Uses the library' },
+    questions,
+  };
+}
+
+describe('addToQuestionLibrary', () => {
+  it('keeps the first definition of duplicate questions and blocks', () => {
+    const library = buildLibrary();
+    const duplicate = {
+      questions: [{ id: 'role', type: 'free-form', text: 'Role?' }],
+      blocks: { demographics: ['role'] },
+    };
+
+    const skipped = addToQuestionLibrary(
+      library,
+      duplicate,
+      QuestionLibraryFileSchema.parse(duplicate),
+    );
+
+    expect(skipped).toEqual(['role', 'demographics']);
+    expect(library.questions.get('role')?.type).toBe('multiple-choice');
+    expect(library.blocks.get('demographics')).toEqual([
+      'role',
+      'company_size',
+    ]);
+  });
+});
+
+describe('resolveQuestionReferences', () => {
+  it('expands $ref entries with overrides and records the library ID', () => {
+    const resolved = resolveQuestionReferences(
+      surveyWith([
+        { id: 'intro', type: 'free-form', text: 'Hello?' },
+        { $ref: 'company_size', required: true, text: 'Company size?' },
+      ]),
+      buildLibrary(),
+    );
+
+    expect(resolved.issues).toEqual([]);
+    expect(resolved.questionSources).toEqual([0, 1]);
+    const survey = SurveyDefinitionSchema.parse(resolved.document);
+    expect(survey.questions[1]).toMatchObject({
+      id: 'company_size',
+      libraryRef: 'company_size',
+      required: true,
+      text: 'Company size?',
+    });
+    expect(survey.questions[1]?.options).toHaveLength(2);
+  });
+
+  it('expands $include blocks with per-question overrides', () => {
+    const resolved = resolveQuestionReferences(
+      surveyWith([
+        {
+          $include: 'demographics',
+          overrides: { role: { required: true } },
+        },
+        { id: 'feedback', type: 'free-form', text: 'Anything else?' },
+      ]),
+      buildLibrary(),
+    );
+
+    const survey = SurveyDefinitionSchema.parse(resolved.document);
+    expect(survey.questions.map((q) => q.id)).toEqual([
+      'role',
+      'company_size',
+      'feedback',
+    ]);
+    expect(survey.questions.map((q) => q.required)).toEqual([
+      true,
+      false,
+      false,
+    ]);
+    expect(resolved.questionSources).toEqual([0, 0, 1]);
+  });
+
+  it('reports unknown questions, blocks and overrides', () => {
+    const resolved = resolveQuestionReferences(
+      surveyWith([
+        { $ref: 'region' },
+        { $include: 'firmographics' },
+        { $include: 'demographics', overrides: { region: { text: 'x' } } },
+      ]),
+      buildLibrary(),
+    );
+
+    expect(resolved.issues).toEqual([
+      { message: 'Unknown library question: region', path: 'questions.0.$ref' },
+      {
+        message: 'Unknown library block: firmographics',
+        path: 'questions.1.$include',
+      },
+      {
+        message: 'Library block demographics does not include question region',
+        path: 'questions.2.overrides.region',
+      },
+    ]);
+  });
+});
+
+describe('collapseQuestionReferences', () => {
+  it('writes library questions back as $ref entries with their overrides', () => {
+    const library = buildLibrary();
+    const survey = SurveyDefinitionSchema.parse(
+      resolveQuestionReferences(
+        surveyWith([
+          { $ref: 'role' },
+          { $ref: 'company_size', required: true },
+          { id: 'feedback', type: 'free-form', text: 'Anything else?' },
+        ]),
+        library,
+      ).document,
+    );
+
+    const collapsed = collapseQuestionReferences(survey, library);
+
+    expect(collapsed.questions).toEqual([
+      { $ref: 'role' },
+      { $ref: 'company_size', required: true },
+      expect.objectContaining({ id: 'feedback' }),
+    ]);
+  });
+});
+
+describe('parseSurveyDefinitionSource with a library', () => {
+  it('locates unresolved references in the source text', () => {
+    const source = JSON.stringify(
+      surveyWith([
+        { id: 'intro', type: 'free-form', text: 'Hi?' },
+        { $ref: 'region' },
+      ]),
+      null,
+      2,
+    );
+
+    try {
+      parseSurveyDefinitionSource(source, 'json', buildLibrary());
+      throw new Error('Expected parseSurveyDefinitionSource to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).message).toContain(
+        'Survey definition has unresolved library references: questions.1.$ref (line 14, column 15): Unknown library question: region',
+      );
+    }
+  });
+
+  it('locates schema errors in included questions at the including entry', () => {
+    const source = [
+      'id: library-survey',
+      'metadata:',
+      '  title: Library Survey',
+      '  description: Uses the library',
+      'questions:',
+      '  - $include: demographics',
+      '    overrides:',
+      '      role:',
+      '        type: essay',
+      '',
+    ].join('\n');
+
+    expect(() =>
+      parseSurveyDefinitionSource(source, 'yaml', buildLibrary()),
+    ).toThrow('questions.0.type (line 6, column 5)');
+  });
+});
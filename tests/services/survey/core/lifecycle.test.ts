@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Tests for session abandonment and expiry rules.
+ * @module tests/services/survey/core/lifecycle.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import {
+  evaluateSessionLifecycle,
+  resolveLifecyclePolicy,
+} from '@/services/survey/core/lifecycle.js';
+import { SurveyDefinitionSchema } from '@/services/survey/types.js';
+
+function buildSurvey(settings: Record<string, unknown>) {
+  return SurveyDefinitionSchema.parse({
+    id: 'lifecycle-survey',
+    metadata: { title: 'Lifecycle', description: 'Survey for tests' },
+    questions: [{ id: 'q1', type: 'free-form', text: 'Anything?' }],
+    settings,
+  });
+}
+
+const started = '2025-01-01T00:00:00.000Z';
+
+describe('resolveLifecyclePolicy', () => {
+  it('falls back to server defaults and lets surveys disable rules', () => {
+    const defaults = { inactivityTimeoutMinutes: 60, sessionDeadlineHours: 0 };
+
+    expect(resolveLifecyclePolicy(buildSurvey({}), defaults)).toEqual({
+      inactivityTimeoutMs: 3_600_000,
+    });
+    expect(
+      resolveLifecyclePolicy(
+        buildSurvey({ inactivityTimeoutMinutes: 0, sessionDeadlineHours: 2 }),
+        defaults,
+      ),
+    ).toEqual({ deadlineMs: 7_200_000 });
+  });
+});
+
+describe('evaluateSessionLifecycle', () => {
+  const policy = { inactivityTimeoutMs: 60_000, deadlineMs: 3_600_000 };
+
+  it('abandons idle in-progress sessions', () => {
+    const session = {
+      status: 'in-progress' as const,
+      startedAt: started,
+      lastActivityAt: started,
+    };
+
+    expect(
+      evaluateSessionLifecycle(
+        session,
+        policy,
+        new Date('2025-01-01T00:00:30.000Z'),
+      ),
+    ).toBeNull();
+    expect(
+      evaluateSessionLifecycle(
+        session,
+        policy,
+        new Date('2025-01-01T00:01:00.000Z'),
+      ),
+    ).toBe('abandoned');
+  });
+
+  it('expires abandoned sessions past the deadline but never completed ones', () => {
+    const now = new Date('2025-01-01T01:00:00.000Z');
+
+    expect(
+      evaluateSessionLifecycle(
+        { status: 'abandoned', startedAt: started, lastActivityAt: started },
+        policy,
+        now,
+      ),
+    ).toBe('expired');
+    expect(
+      evaluateSessionLifecycle(
+        { status: 'completed', startedAt: started, lastActivityAt: started },
+        policy,
+        now,
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,687 @@
+/**
+ * @fileoverview Tests for the survey definition linter.
+ * @module tests/services/survey/core/linter.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import {
+  lintRawSurveyDefinition,
+  lintSurveyDefinition,
+} from '@/services/survey/core/linter.js';
+import { createQuestionLibrary } from '@/services/survey/core/library.js';
+import { SurveyDefinitionSchema } from '@/services/survey/types.js';
+
+function buildSurvey(questions: unknown[], settings: unknown = {}) {
+  return SurveyDefinitionSchema.parse({
+    id: 'lint-survey',
+    metadata: { title: 'Lint Survey', description: 'Survey for tests' },
+    questions,
+    settings,
+  });
+}
+
+const roleQuestion = {
+  id: 'role',
+  type: 'multiple-choice',
+  text: 'Role?',
+  options: [
+    { value: 'engineer', label: 'Engineer' },
+    { value: 'manager', label: 'Manager' },
+  ],
+};
+
+function codes(issues: Array<{ code: string }>): string[] {
+  return issues.map((issue) => issue.code);
+}
+
+describe('lintSurveyDefinition', () => {
+  it('accepts a well-formed survey', () => {
+    const result = lintSurveyDefinition(
+      buildSurvey([
+        roleQuestion,
+        {
+          id: 'team_size',
+          type: 'number',
+          text: 'Team size?',
+          conditional: { dependsOn: 'role', showIf: ['manager'] },
+        },
+      ]),
+    );
+
+    expect(result).toEqual({
+      surveyId: 'lint-survey',
+      valid: true,
+      errors: [],
+      warnings: [],
+    });
+  });
+
+  it('reports structural question errors', () => {
+    const result = lintSurveyDefinition(
+      buildSurvey([
+        roleQuestion,
+        { ...roleQuestion, text: 'Duplicate' },
+        { id: 'rating', type: 'rating-scale', text: 'Rate' },
+        { id: 'pick', type: 'multiple-select', text: 'Pick' },
+        {
+          id: 'tools',
+          type: 'multiple-select',
+          text: 'Tools?',
+          options: [
+            { value: 'a', label: 'A' },
+            { value: 'b', label: 'B' },
+          ],
+          validation: { minSelections: 2, maxSelections: 1 },
+        },
+        {
+          id: 'code',
+          type: 'free-form',
+          text: 'Code?',
+          validation: { pattern: '[unclosed' },
+        },
+      ]),
+    );
+
+    expect(result.valid).toBe(false);
+    expect(codes(result.errors)).toEqual([
+      'duplicate_question_id',
+      'missing_scale',
+      'missing_options',
+      'invalid_selection_range',
+      'invalid_pattern',
+    ]);
+  });
+
+  it('reports broken and impossible conditions', () => {
+    const result = lintSurveyDefinition(
+      buildSurvey([
+        roleQuestion,
+        {
+          id: 'missing_dep',
+          type: 'free-form',
+          text: 'Missing?',
+          conditional: { dependsOn: 'nope', showIf: ['x'] },
+        },
+        {
+          id: 'bad_value',
+          type: 'free-form',
+          text: 'Director?',
+          conditional: { dependsOn: 'role', showIf: ['director'] },
+        },
+        {
+          id: 'downstream',
+          type: 'free-form',
+          text: 'Follow-up?',
+          conditional: { dependsOn: 'bad_value', op: 'answered' },
+        },
+      ]),
+    );
+
+    expect(codes(result.errors)).toEqual([
+      'missing_dependency',
+      'invalid_condition_value',
+    ]);
+    expect(result.warnings.map((w) => w.questionId)).toEqual([
+      'missing_dep',
+      'bad_value',
+      'downstream',
+    ]);
+    expect(codes(result.warnings)).toEqual([
+      'unreachable_question',
+      'unreachable_question',
+      'unreachable_question',
+    ]);
+  });
+
+  it('reports circular dependencies once per cycle', () => {
+    const result = lintSurveyDefinition(
+      buildSurvey([
+        {
+          id: 'a',
+          type: 'free-form',
+          text: 'A',
+          conditional: { dependsOn: 'b', op: 'answered' },
+        },
+        {
+          id: 'b',
+          type: 'free-form',
+          text: 'B',
+          conditional: { dependsOn: 'a', op: 'answered' },
+        },
+      ]),
+    );
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      code: 'circular_dependency',
+      message: 'Circular dependency: a → b → a',
+    });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('does not flag questions reachable through OR or NOT', () => {
+    const result = lintSurveyDefinition(
+      buildSurvey([
+        roleQuestion,
+        {
+          id: 'either',
+          type: 'free-form',
+          text: 'Either?',
+          conditional: {
+            operator: 'OR',
+            conditions: [
+              { dependsOn: 'role', showIf: ['director'] },
+              { dependsOn: 'role', op: 'eq', value: 'manager' },
+            ],
+          },
+        },
+      ]),
+    );
+
+    expect(codes(result.errors)).toEqual(['invalid_condition_value']);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('warns about templates that cannot be resolved', () => {
+    const result = lintSurveyDefinition(
+      buildSurvey([
+        roleQuestion,
+        {
+          id: 'tenure',
+          type: 'number',
+          text: 'How long at {{metadata.companyName}} as a {{answers.role.label}}?',
+          helpText: 'Years since {{answers.start_date}} ({{session.id}})',
+        },
+        {
+          id: 'team',
+          type: 'free-form',
+          text: 'Which team, {{answers.role.title}}?',
+        },
+      ]),
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({
+        code: 'invalid_template_reference',
+        path: 'questions.1.helpText',
+        message: expect.stringContaining('unknown question "start_date"'),
+      }),
+      expect.objectContaining({
+        code: 'invalid_template_reference',
+        path: 'questions.1.helpText',
+        message: expect.stringContaining('must start with "answers."'),
+      }),
+      expect.objectContaining({
+        code: 'invalid_template_reference',
+        path: 'questions.2.text',
+        message: expect.stringContaining('unsupported property "title"'),
+      }),
+    ]);
+  });
+});
+
+describe('lintSurveyDefinition answer keys', () => {
+  it('reports answer keys that can never match', () => {
+    const result = lintSurveyDefinition(
+      buildSurvey([
+        { ...roleQuestion, answerKey: { correct: 'director' } },
+        {
+          id: 'years',
+          type: 'number',
+          text: 'Years?',
+          answerKey: { correct: '5', partialCredit: true },
+        },
+        {
+          id: 'remote',
+          type: 'boolean',
+          text: 'Remote?',
+          answerKey: { correct: true, tolerance: 1 },
+        },
+        {
+          id: 'grid',
+          type: 'matrix',
+          text: 'Rate',
+          matrix: {
+            rows: [{ id: 'a', label: 'A' }],
+            columns: [
+              { value: 'x', label: 'X' },
+              { value: 'y', label: 'Y' },
+            ],
+          },
+          answerKey: { correct: 'x' },
+        },
+        {
+          id: 'pi',
+          type: 'number',
+          text: 'Pi?',
+          answerKey: { correct: 3.14, tolerance: 0.01 },
+        },
+      ]),
+    );
+
+    expect(result.errors.map((issue) => [issue.code, issue.path])).toEqual([
+      ['invalid_answer_key', 'questions.0.answerKey.correct'],
+      ['invalid_answer_key', 'questions.1.answerKey.correct'],
+      ['invalid_answer_key', 'questions.3.answerKey'],
+    ]);
+    expect(result.warnings.map((issue) => [issue.code, issue.path])).toEqual([
+      ['unused_configuration', 'questions.1.answerKey.partialCredit'],
+      ['unused_configuration', 'questions.2.answerKey.tolerance'],
+    ]);
+  });
+});
+
+describe('lintSurveyDefinition variables', () => {
+  const questions = [
+    roleQuestion,
+    {
+      id: 'energy',
+      type: 'rating-scale',
+      text: 'Energy?',
+      scale: { min: 1, max: 5 },
+    },
+    { id: 'notes', type: 'free-form', text: 'Notes?' },
+  ];
+
+  function lintWithVariables(variables: unknown[], extra: unknown[] = []) {
+    return lintSurveyDefinition(
+      SurveyDefinitionSchema.parse({
+        id: 'lint-survey',
+        metadata: { title: 'Lint Survey', description: 'Survey for tests' },
+        questions: [...questions, ...extra],
+        variables,
+      }),
+    );
+  }
+
+  it('accepts variables used in conditions and templates', () => {
+    const result = lintWithVariables(
+      [
+        { id: 'energy_avg', formula: 'average', items: [{ ref: 'energy' }] },
+        {
+          id: 'energy_pct',
+          formula: 'sum',
+          items: [{ ref: 'energy_avg', weight: 20 }],
+        },
+      ],
+      [
+        {
+          id: 'follow_up',
+          type: 'free-form',
+          text: 'You scored {{variables.energy_pct}}%. Why?',
+          conditional: { dependsOn: 'energy_avg', op: 'lt', value: 3 },
+        },
+      ],
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('reports broken variable definitions', () => {
+    const result = lintWithVariables([
+      { id: 'role', formula: 'count', items: [{ ref: 'role' }] },
+      {
+        id: 'score',
+        formula: 'sum',
+        items: [{ ref: 'later' }, { ref: 'notes', reverse: true }],
+        countValues: ['x'],
+      },
+      { id: 'score', formula: 'sum', items: [{ ref: 'role', use: 'score' }] },
+      { id: 'later', formula: 'count', items: [{ ref: 'energy' }] },
+    ]);
+
+    expect(result.errors.map((issue) => [issue.code, issue.path])).toEqual([
+      ['invalid_variable', 'variables.0.id'],
+      ['invalid_variable', 'variables.1.items.0.ref'],
+      ['invalid_variable', 'variables.1.items.1.reverse'],
+      ['duplicate_variable_id', 'variables.2.id'],
+    ]);
+    expect(result.warnings.map((issue) => [issue.code, issue.path])).toEqual([
+      ['unused_configuration', 'variables.1.countValues'],
+      ['invalid_variable', 'variables.1.items.1'],
+      ['invalid_variable', 'variables.2.items.0.use'],
+    ]);
+  });
+});
+
+describe('lintSurveyDefinition outcomes', () => {
+  function lintWithOutcomes(outcomes: unknown[]) {
+    return lintSurveyDefinition(
+      SurveyDefinitionSchema.parse({
+        id: 'lint-survey',
+        metadata: { title: 'Lint Survey', description: 'Survey for tests' },
+        questions: [roleQuestion],
+        outcomes,
+      }),
+    );
+  }
+
+  it('accepts score bands, answer conditions and a final catch-all', () => {
+    const result = lintWithOutcomes([
+      {
+        id: 'lead',
+        label: 'Lead',
+        message: 'As a {{answers.role.label}}, try the leadership track.',
+        when: { dependsOn: 'role', op: 'eq', value: 'manager' },
+      },
+      { id: 'beginner', label: 'Beginner', scoreRange: { min: 0, max: 10 } },
+      { id: 'other', label: 'Other' },
+    ]);
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('reports broken outcome definitions', () => {
+    const result = lintWithOutcomes([
+      {
+        id: 'director',
+        label: 'Director',
+        when: { dependsOn: 'role', op: 'eq', value: 'director' },
+      },
+      { id: 'band', label: 'Band', scoreRange: { min: 10, max: 0 } },
+      {
+        id: 'band',
+        label: 'Ghost',
+        recommendation: 'See {{variables.missing}}',
+        when: { dependsOn: 'tenure', op: 'answered' },
+      },
+      { id: 'fallback', label: 'Fallback' },
+      { id: 'never', label: 'Never', scoreRange: { min: 50 } },
+    ]);
+
+    expect(result.errors.map((issue) => [issue.code, issue.path])).toEqual([
+      ['invalid_condition_value', 'outcomes.0.when'],
+      ['invalid_outcome', 'outcomes.1.scoreRange'],
+      ['duplicate_outcome_id', 'outcomes.2.id'],
+      ['missing_dependency', 'outcomes.2.when'],
+    ]);
+    expect(result.errors[3]?.message).toBe(
+      'Outcome "band" depends on unknown question "tenure"',
+    );
+    expect(result.warnings.map((issue) => [issue.code, issue.path])).toEqual([
+      ['invalid_outcome', 'outcomes.4'],
+      ['invalid_template_reference', 'outcomes.2.recommendation'],
+    ]);
+  });
+});
+
+describe('lintSurveyDefinition termination rules', () => {
+  it('reports duplicate IDs, bad conditions and unknown template references', () => {
+    const result = lintSurveyDefinition(
+      SurveyDefinitionSchema.parse({
+        id: 'lint-survey',
+        metadata: { title: 'Lint Survey', description: 'Survey for tests' },
+        questions: [roleQuestion],
+        terminationRules: [
+          {
+            id: 'not_engineer',
+            when: { dependsOn: 'role', op: 'eq', value: 'manager' },
+            message: 'This study is for engineers, not {{answers.role.label}}.',
+          },
+          {
+            id: 'not_engineer',
+            when: { dependsOn: 'role', op: 'eq', value: 'intern' },
+            message: 'Sorry, {{answers.team}}.',
+          },
+        ],
+      }),
+    );
+
+    expect(result.errors.map((issue) => [issue.code, issue.path])).toEqual([
+      ['duplicate_termination_rule_id', 'terminationRules.1.id'],
+      ['invalid_condition_value', 'terminationRules.1.when'],
+    ]);
+    expect(result.errors[1]?.message).toContain(
+      'Termination rule "not_engineer" compares "role"',
+    );
+    expect(result.warnings.map((issue) => [issue.code, issue.path])).toEqual([
+      ['invalid_template_reference', 'terminationRules.1.message'],
+    ]);
+  });
+});
+
+describe('lintSurveyDefinition quotas', () => {
+  it('reports broken quota cells', () => {
+    const result = lintSurveyDefinition(
+      SurveyDefinitionSchema.parse({
+        id: 'lint-survey',
+        metadata: { title: 'Lint Survey', description: 'Survey for tests' },
+        questions: [roleQuestion],
+        quotas: {
+          maxCompletes: 100,
+          cells: [
+            { id: 'managers', questionId: 'role', value: 'manager', limit: 50 },
+            {
+              id: 'managers',
+              questionId: 'role',
+              value: ['engineer', 'intern'],
+              limit: 200,
+              message: 'Thanks, {{answers.team}}.',
+            },
+            { id: 'teams', questionId: 'team', value: 'core', limit: 5 },
+          ],
+        },
+      }),
+    );
+
+    expect(result.errors.map((issue) => [issue.code, issue.path])).toEqual([
+      ['duplicate_quota_cell_id', 'quotas.cells.1.id'],
+      ['invalid_quota', 'quotas.cells.1.value'],
+      ['missing_dependency', 'quotas.cells.2.questionId'],
+    ]);
+    expect(result.errors[1]?.message).toBe(
+      'Quota cell "managers" matches \'intern\', which is not a possible answer to "role"',
+    );
+    expect(result.warnings.map((issue) => [issue.code, issue.path])).toEqual([
+      ['invalid_quota', 'quotas.cells.1.limit'],
+      ['invalid_template_reference', 'quotas.cells.1.message'],
+    ]);
+  });
+});
+
+describe('lintSurveyDefinition sections', () => {
+  it('reports broken sections and unsectioned questions', () => {
+    const result = lintSurveyDefinition(
+      SurveyDefinitionSchema.parse({
+        id: 'lint-survey',
+        metadata: { title: 'Lint Survey', description: 'Survey for tests' },
+        questions: [
+          roleQuestion,
+          { id: 'team_size', type: 'number', text: 'Team size?' },
+          { id: 'notes', type: 'free-form', text: 'Notes?' },
+        ],
+        sections: [
+          { id: 'about', title: 'About', questionIds: ['role', 'team'] },
+          {
+            id: 'about',
+            title: 'Team',
+            intro: 'About your {{answers.team}}.',
+            conditional: { dependsOn: 'team_size', op: 'gt', value: 1 },
+            questionIds: ['team_size', 'role'],
+          },
+        ],
+      }),
+    );
+
+    expect(result.errors.map((issue) => [issue.code, issue.path])).toEqual([
+      ['invalid_section', 'sections.0.questionIds.1'],
+      ['duplicate_section_id', 'sections.1.id'],
+      ['invalid_section', 'sections.1.questionIds.1'],
+      ['invalid_section', 'sections.1.conditional'],
+    ]);
+    expect(result.errors[3]?.message).toContain(
+      'depends on its own question "team_size"',
+    );
+    expect(result.warnings.map((issue) => [issue.code, issue.path])).toEqual([
+      ['invalid_section', 'questions.2'],
+      ['invalid_template_reference', 'sections.1.intro'],
+    ]);
+  });
+});
+
+describe('lintSurveyDefinition rosters', () => {
+  it('reports broken rosters and misplaced item references', () => {
+    const result = lintSurveyDefinition(
+      SurveyDefinitionSchema.parse({
+        id: 'lint-survey',
+        metadata: { title: 'Lint Survey', description: 'Survey for tests' },
+        questions: [
+          roleQuestion,
+          {
+            id: 'tools',
+            type: 'multiple-select',
+            text: 'Tools?',
+            options: [
+              { value: 'git', label: 'Git' },
+              { value: 'ci', label: 'CI' },
+            ],
+          },
+          { id: 'tool_rating', type: 'number', text: 'Rate {{item}}' },
+          {
+            id: 'tool_notes',
+            type: 'free-form',
+            text: 'Notes on {{item.name}}?',
+            conditional: {
+              dependsOn: 'tool_rating',
+              op: 'lt',
+              value: 3,
+            },
+          },
+          {
+            id: 'summary',
+            type: 'free-form',
+            text: 'You gave Git {{answers.tool_rating[git]}}; why {{item}}?',
+            conditional: { dependsOn: 'tool_rating[git]', op: 'gt', value: 3 },
+          },
+        ],
+        rosters: [
+          {
+            id: 'ratings',
+            sourceQuestionId: 'tools',
+            questionIds: ['tool_rating', 'tool_notes'],
+          },
+          {
+            id: 'ratings',
+            sourceQuestionId: 'role',
+            questionIds: ['tool_notes', 'missing'],
+          },
+          {
+            id: 'nested',
+            sourceQuestionId: 'tool_rating',
+            questionIds: ['tool_notes'],
+          },
+        ],
+      }),
+    );
+
+    expect(result.errors.map((issue) => [issue.code, issue.path])).toEqual([
+      ['duplicate_roster_id', 'rosters.1.id'],
+      ['invalid_roster', 'rosters.1.sourceQuestionId'],
+      ['invalid_roster', 'rosters.1.questionIds.0'],
+      ['invalid_roster', 'rosters.1.questionIds.1'],
+      ['invalid_roster', 'rosters.2.sourceQuestionId'],
+      ['invalid_roster', 'rosters.2.questionIds.0'],
+      ['invalid_roster', 'rosters.2.sourceQuestionId'],
+    ]);
+    expect(result.errors[6]?.message).toContain(
+      'which is itself repeated in roster "ratings"',
+    );
+    expect(
+      result.warnings
+        .filter((issue) => issue.code === 'invalid_template_reference')
+        .map((issue) => issue.message),
+    ).toEqual([
+      'Template "{{item.name}}" in "tool_notes" uses unsupported property "name" (expected "value" or "label")',
+      'Template "{{item}}" in "summary" is not in a roster question, so there is no item to refer to',
+    ]);
+  });
+});
+
+describe('lintSurveyDefinition roster option values', () => {
+  it('rejects source option values that cannot key an instance ID', () => {
+    const result = lintSurveyDefinition(
+      SurveyDefinitionSchema.parse({
+        id: 'lint-survey',
+        metadata: { title: 'Lint Survey', description: 'Survey for tests' },
+        questions: [
+          {
+            id: 'tools',
+            type: 'multiple-select',
+            text: 'Tools?',
+            options: [
+              { value: 'git', label: 'Git' },
+              { value: 'ci[beta]', label: 'CI (beta)' },
+            ],
+          },
+          { id: 'tool_rating', type: 'number', text: 'Rate {{item}}' },
+        ],
+        rosters: [
+          {
+            id: 'ratings',
+            sourceQuestionId: 'tools',
+            questionIds: ['tool_rating'],
+          },
+        ],
+      }),
+    );
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        code: 'invalid_roster',
+        path: 'rosters.0.sourceQuestionId',
+        message: expect.stringContaining(
+          '"ci[beta]" contains a square bracket',
+        ),
+      }),
+    ]);
+  });
+});
+
+describe('lintRawSurveyDefinition', () => {
+  it('reports schema errors with their paths', () => {
+    const { definition, result } = lintRawSurveyDefinition({
+      id: 'broken',
+      metadata: { title: 'Broken', description: 'Broken' },
+      questions: [{ id: 'q1', type: 'unknown-type', text: 'Q1' }],
+    });
+
+    expect(definition).toBeNull();
+    expect(result.surveyId).toBe('broken');
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatchObject({
+      code: 'schema_error',
+      path: 'questions.0.type',
+    });
+  });
+
+  it('expands library references and reports unknown ones', () => {
+    const library = createQuestionLibrary();
+    library.questions.set('role', roleQuestion);
+    const metadata = { title: 'Library', description: 'Library' };
+
+    const { definition } = lintRawSurveyDefinition(
+      { id: 'library', metadata, questions: [{ $ref: 'role' }] },
+      library,
+    );
+    expect(definition?.questions[0]?.libraryRef).toBe('role');
+
+    const { result } = lintRawSurveyDefinition(
+      {
+        id: 'library',
+        metadata,
+        questions: [roleQuestion, { $ref: 'tenure' }],
+      },
+      library,
+    );
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        code: 'unknown_library_reference',
+        path: 'questions.1.$ref',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Tests for mapping session answers between survey versions.
+ * @module tests/services/survey/core/migration.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import { planSessionMigration } from '@/services/survey/core/migration.js';
+import {
+  type ParticipantSession,
+  SessionMigrationRulesSchema,
+  SurveyDefinitionSchema,
+} from '@/services/survey/types.js';
+
+const target = SurveyDefinitionSchema.parse({
+  id: 'feedback',
+  version: '2.0',
+  metadata: { title: 'Feedback', description: 'Migration target' },
+  questions: [
+    {
+      id: 'job_role',
+      type: 'multiple-choice',
+      text: 'Your role?',
+      options: [
+        { value: 'engineer', label: 'Engineer' },
+        { value: 'people_manager', label: 'People manager' },
+      ],
+    },
+    {
+      id: 'tools',
+      type: 'multiple-select',
+      text: 'Tools you use?',
+      options: [
+        { value: 'git', label: 'Git' },
+        { value: 'ci', label: 'CI' },
+      ],
+    },
+    { id: 'rating', type: 'number', text: 'Rating?', required: true },
+    { id: 'comments', type: 'free-form', text: 'Comments?' },
+  ],
+});
+
+const source = SurveyDefinitionSchema.parse({
+  id: 'feedback',
+  version: '1.0',
+  metadata: { title: 'Feedback', description: 'Migration source' },
+  questions: [
+    {
+      id: 'tools',
+      type: 'multiple-select',
+      text: 'Tools you use?',
+      options: [
+        { value: 'git', label: 'Git' },
+        { value: 'jenkins', label: 'Jenkins' },
+      ],
+    },
+    { id: 'score', type: 'number', text: 'How do you score {{item}}?' },
+  ],
+  rosters: [
+    { id: 'tool_scores', sourceQuestionId: 'tools', questionIds: ['score'] },
+  ],
+});
+
+function sessionWith(answers: Record<string, unknown>): ParticipantSession {
+  const now = '2025-01-01T00:00:00.000Z';
+  return {
+    sessionId: 'sess-1',
+    surveyId: 'feedback',
+    surveyVersion: '1.0',
+    participantId: 'p1',
+    tenantId: 'tenant-a',
+    status: 'in-progress',
+    startedAt: now,
+    lastActivityAt: now,
+    progress: {
+      totalQuestions: 4,
+      answeredQuestions: 0,
+      requiredRemaining: 1,
+      percentComplete: 0,
+    },
+    currentScore: 0,
+    responses: Object.fromEntries(
+      Object.entries(answers).map(([questionId, value]) => [
+        questionId,
+        {
+          questionId,
+          value,
+          answeredAt: now,
+          attemptCount: 1,
+          ...(value === null && { skipped: true }),
+        },
+      ]),
+    ),
+    attempts: { role: { total: 2, failed: 1 } },
+  };
+}
+
+const rules = (input: Record<string, unknown>) =>
+  SessionMigrationRulesSchema.parse(input);
+
+describe('planSessionMigration', () => {
+  it('carries answers by ID and reports questions missing from the target', () => {
+    const plan = planSessionMigration(
+      sessionWith({ comments: 'Great', legacy: 'old' }),
+      source,
+      target,
+      rules({}),
+    );
+
+    expect(plan.responses['comments']?.value).toBe('Great');
+    expect(plan.report.migrated).toEqual([
+      { fromQuestionId: 'comments', toQuestionId: 'comments' },
+    ]);
+    expect(plan.report.lost).toEqual([
+      { questionId: 'legacy', reason: 'unmatched' },
+    ]);
+  });
+
+  it('applies renames, option maps and drop rules', () => {
+    const plan = planSessionMigration(
+      sessionWith({
+        role: 'manager',
+        tools: ['git', 'jenkins'],
+        comments: 'x',
+      }),
+      source,
+      target,
+      rules({
+        renames: { role: 'job_role' },
+        optionMaps: {
+          role: { manager: 'people_manager' },
+          tools: { jenkins: 'ci' },
+        },
+        drop: ['comments'],
+      }),
+    );
+
+    expect(plan.responses['job_role']).toMatchObject({
+      questionId: 'job_role',
+      value: 'people_manager',
+    });
+    expect(plan.responses['tools']?.value).toEqual(['git', 'ci']);
+    expect(plan.attempts).toEqual({ job_role: { total: 2, failed: 1 } });
+    expect(plan.report.migrated).toEqual([
+      { fromQuestionId: 'role', toQuestionId: 'job_role', valueRemapped: true },
+      { fromQuestionId: 'tools', toQuestionId: 'tools', valueRemapped: true },
+    ]);
+    expect(plan.report.lost).toEqual([
+      { questionId: 'comments', reason: 'dropped' },
+    ]);
+  });
+
+  it('migrates roster instances under the renamed repeated question', () => {
+    const plan = planSessionMigration(
+      sessionWith({ 'score[git]': 4, 'score[ci]': 2 }),
+      source,
+      target,
+      rules({ renames: { score: 'rating' } }),
+    );
+
+    expect(plan.responses['rating[git]']).toMatchObject({
+      questionId: 'rating[git]',
+      value: 4,
+    });
+    expect(plan.report.migrated).toEqual([
+      { fromQuestionId: 'score[git]', toQuestionId: 'rating[git]' },
+      { fromQuestionId: 'score[ci]', toQuestionId: 'rating[ci]' },
+    ]);
+  });
+
+  it('re-keys roster instances with the option map of their source question', () => {
+    const plan = planSessionMigration(
+      sessionWith({
+        tools: ['git', 'jenkins'],
+        'score[git]': 4,
+        'score[jenkins]': 2,
+      }),
+      source,
+      target,
+      rules({
+        renames: { score: 'rating' },
+        optionMaps: { tools: { jenkins: 'ci' } },
+      }),
+    );
+
+    expect(plan.responses['tools']?.value).toEqual(['git', 'ci']);
+    expect(Object.keys(plan.responses)).toEqual([
+      'tools',
+      'rating[git]',
+      'rating[ci]',
+    ]);
+    expect(plan.report.migrated).toContainEqual({
+      fromQuestionId: 'score[jenkins]',
+      toQuestionId: 'rating[ci]',
+    });
+  });
+
+  it('discards answers that fail the target question or collide', () => {
+    const plan = planSessionMigration(
+      sessionWith({
+        job_role: 'intern',
+        rating: null,
+        notes: 'b',
+        comments: 'a',
+      }),
+      source,
+      target,
+      rules({ renames: { notes: 'comments' } }),
+    );
+
+    expect(Object.keys(plan.responses)).toEqual(['comments']);
+    expect(plan.report.lost).toEqual([
+      expect.objectContaining({ questionId: 'job_role', reason: 'invalid' }),
+      expect.objectContaining({ questionId: 'rating', reason: 'invalid' }),
+      expect.objectContaining({ questionId: 'comments', reason: 'conflict' }),
+    ]);
+  });
+
+  it('ignores rules inherited from Object.prototype', () => {
+    const plan = planSessionMigration(
+      sessionWith({ comments: 'toString', constructor: 'x' }),
+      source,
+      target,
+      rules({ optionMaps: { comments: { other: 'value' } } }),
+    );
+
+    expect(plan.responses['comments']?.value).toBe('toString');
+    expect(plan.report.lost).toEqual([
+      { questionId: 'constructor', reason: 'unmatched' },
+    ]);
+  });
+
+  it('leaves automatic matching off when matchById is false', () => {
+    const plan = planSessionMigration(
+      sessionWith({ comments: 'Great' }),
+      source,
+      target,
+      rules({ matchById: false }),
+    );
+    expect(plan.report.lost).toEqual([
+      { questionId: 'comments', reason: 'unmatched' },
+    ]);
+  });
+});
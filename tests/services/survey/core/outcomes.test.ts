@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Tests for outcome bands assigned on completion.
+ * @module tests/services/survey/core/outcomes.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildOutcomeDistribution,
+  evaluateOutcome,
+} from '@/services/survey/core/outcomes.js';
+import {
+  type ParticipantSession,
+  SurveyDefinitionSchema,
+} from '@/services/survey/types.js';
+
+const survey = SurveyDefinitionSchema.parse({
+  id: 'outcomes-survey',
+  metadata: { title: 'Outcomes', description: 'Survey for tests' },
+  questions: [
+    {
+      id: 'goal',
+      type: 'multiple-choice',
+      text: 'Goal?',
+      options: [
+        { value: 'learn', label: 'Learn the basics' },
+        { value: 'lead', label: 'Lead a team' },
+      ],
+    },
+  ],
+  outcomes: [
+    {
+      id: 'aspiring_lead',
+      label: 'Aspiring Lead',
+      message:
+        'You want to {{answers.goal.label}}, {{metadata.name | friend}}.',
+      when: { dependsOn: 'goal', op: 'eq', value: 'lead' },
+    },
+    {
+      id: 'beginner',
+      label: 'Beginner',
+      recommendation: 'Start with the intro course.',
+      scoreRange: { min: 0, max: 10 },
+    },
+    { id: 'advanced', label: 'Advanced' },
+  ],
+});
+
+function buildSession(
+  overrides: Partial<ParticipantSession> & { goal?: string } = {},
+): ParticipantSession {
+  const { goal, ...rest } = overrides;
+  const now = '2025-01-01T00:00:00.000Z';
+  return {
+    sessionId: 'sess-1',
+    surveyId: survey.id,
+    surveyVersion: survey.version,
+    participantId: 'p1',
+    tenantId: 'tenant-a',
+    status: 'completed',
+    startedAt: now,
+    lastActivityAt: now,
+    responses: goal
+      ? {
+          goal: {
+            questionId: 'goal',
+            value: goal,
+            answeredAt: now,
+            attemptCount: 1,
+          },
+        }
+      : {},
+    progress: {
+      totalQuestions: 1,
+      answeredQuestions: goal ? 1 : 0,
+      requiredAnswered: 0,
+      requiredRemaining: 0,
+      percentComplete: goal ? 100 : 0,
+    },
+    currentScore: 0,
+    ...rest,
+  } as ParticipantSession;
+}
+
+describe('evaluateOutcome', () => {
+  it('assigns the first outcome whose answer condition holds', () => {
+    expect(
+      evaluateOutcome(
+        survey,
+        buildSession({ goal: 'lead', metadata: { name: 'Sam' } }),
+      ),
+    ).toEqual({
+      id: 'aspiring_lead',
+      label: 'Aspiring Lead',
+      message: 'You want to Lead a team, Sam.',
+    });
+  });
+
+  it('matches score ranges inclusively and falls through to a catch-all', () => {
+    expect(
+      evaluateOutcome(
+        survey,
+        buildSession({ goal: 'learn', currentScore: 10 }),
+      ),
+    ).toEqual({
+      id: 'beginner',
+      label: 'Beginner',
+      recommendation: 'Start with the intro course.',
+    });
+    expect(
+      evaluateOutcome(
+        survey,
+        buildSession({ goal: 'learn', currentScore: 11 }),
+      ),
+    ).toEqual({ id: 'advanced', label: 'Advanced' });
+  });
+
+  it('returns undefined when no outcome matches', () => {
+    const ranged = SurveyDefinitionSchema.parse({
+      ...survey,
+      outcomes: [{ id: 'high', label: 'High', scoreRange: { min: 50 } }],
+    });
+    expect(evaluateOutcome(ranged, buildSession())).toBeUndefined();
+  });
+});
+
+describe('buildOutcomeDistribution', () => {
+  it('counts completed sessions per declared outcome', () => {
+    const sessions = [
+      buildSession({ outcome: { id: 'beginner', label: 'Beginner' } }),
+      buildSession({ outcome: { id: 'beginner', label: 'Beginner' } }),
+      buildSession({ outcome: { id: 'advanced', label: 'Advanced' } }),
+      buildSession({ status: 'in-progress' }),
+      buildSession(),
+    ];
+
+    expect(buildOutcomeDistribution(survey, sessions)).toEqual([
+      {
+        outcomeId: 'aspiring_lead',
+        label: 'Aspiring Lead',
+        count: 0,
+        percentage: '0%',
+      },
+      { outcomeId: 'beginner', label: 'Beginner', count: 2, percentage: '50%' },
+      { outcomeId: 'advanced', label: 'Advanced', count: 1, percentage: '25%' },
+    ]);
+  });
+
+  it('is undefined for surveys without outcomes', () => {
+    const { outcomes: _outcomes, ...rest } = survey;
+    expect(buildOutcomeDistribution(rest, [])).toBeUndefined();
+  });
+});
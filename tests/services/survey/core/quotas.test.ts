@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Tests for completion quotas.
+ * @module tests/services/survey/core/quotas.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildQuotaStatus,
+  findFullQuota,
+  matchesQuotaCell,
+} from '@/services/survey/core/quotas.js';
+import {
+  type ParticipantSession,
+  SurveyDefinitionSchema,
+} from '@/services/survey/types.js';
+
+const survey = SurveyDefinitionSchema.parse({
+  id: 'quota-survey',
+  metadata: { title: 'Quotas', description: 'Survey for tests' },
+  questions: [
+    {
+      id: 'user_role',
+      type: 'multiple-choice',
+      text: 'Role?',
+      options: [
+        { value: 'engineer', label: 'Engineer' },
+        { value: 'designer', label: 'Designer' },
+        { value: 'manager', label: 'Manager' },
+      ],
+    },
+    {
+      id: 'tools',
+      type: 'multiple-select',
+      text: 'Tools?',
+      options: [
+        { value: 'figma', label: 'Figma' },
+        { value: 'vim', label: 'Vim' },
+      ],
+    },
+  ],
+  quotas: {
+    maxCompletes: 3,
+    message: 'The survey is full.',
+    cells: [
+      {
+        id: 'makers',
+        label: 'Engineers and designers',
+        questionId: 'user_role',
+        value: ['engineer', 'designer'],
+        limit: 2,
+        message: 'Enough {{answers.user_role.label}} responses, thanks!',
+      },
+      { id: 'figma', questionId: 'tools', value: 'figma', limit: 1 },
+    ],
+  },
+});
+
+function buildSession(
+  status: ParticipantSession['status'],
+  answers: Record<string, unknown>,
+): ParticipantSession {
+  const now = '2025-01-01T00:00:00.000Z';
+  return {
+    status,
+    responses: Object.fromEntries(
+      Object.entries(answers).map(([questionId, value]) => [
+        questionId,
+        { questionId, value, answeredAt: now, attemptCount: 1 },
+      ]),
+    ),
+  } as ParticipantSession;
+}
+
+const [makers, figma] = survey.quotas!.cells;
+
+describe('matchesQuotaCell', () => {
+  it('matches any listed value and any selected option', () => {
+    expect(
+      matchesQuotaCell(
+        makers!,
+        buildSession('in-progress', { user_role: 'designer' }),
+      ),
+    ).toBe(true);
+    expect(
+      matchesQuotaCell(
+        makers!,
+        buildSession('in-progress', { user_role: 'manager' }),
+      ),
+    ).toBe(false);
+    expect(
+      matchesQuotaCell(
+        figma!,
+        buildSession('in-progress', { tools: ['vim', 'figma'] }),
+      ),
+    ).toBe(true);
+  });
+
+  it('ignores unanswered and skipped questions', () => {
+    const skipped = buildSession('in-progress', {});
+    skipped.responses.user_role = {
+      questionId: 'user_role',
+      value: null,
+      answeredAt: '2025-01-01T00:00:00.000Z',
+      attemptCount: 0,
+      skipped: true,
+    };
+    expect(matchesQuotaCell(makers!, skipped)).toBe(false);
+    expect(matchesQuotaCell(makers!, buildSession('in-progress', {}))).toBe(
+      false,
+    );
+  });
+});
+
+describe('buildQuotaStatus', () => {
+  it('counts completes per cell and in-progress sessions already placed', () => {
+    const status = buildQuotaStatus(survey, [
+      buildSession('completed', { user_role: 'engineer', tools: ['figma'] }),
+      buildSession('completed', { user_role: 'designer' }),
+      buildSession('in-progress', { user_role: 'engineer' }),
+      buildSession('abandoned', { user_role: 'engineer' }),
+    ]);
+
+    expect(status).toEqual({
+      surveyId: 'quota-survey',
+      completes: 2,
+      maxCompletes: 3,
+      remaining: 1,
+      full: false,
+      screenedOutByQuota: 0,
+      cells: [
+        {
+          id: 'makers',
+          label: 'Engineers and designers',
+          questionId: 'user_role',
+          limit: 2,
+          completes: 2,
+          inProgress: 1,
+          remaining: 0,
+          full: true,
+        },
+        {
+          id: 'figma',
+          questionId: 'tools',
+          limit: 1,
+          completes: 1,
+          inProgress: 0,
+          remaining: 0,
+          full: true,
+        },
+      ],
+    });
+  });
+});
+
+describe('findFullQuota', () => {
+  const status = buildQuotaStatus(survey, [
+    buildSession('completed', { user_role: 'engineer' }),
+    buildSession('completed', { user_role: 'designer' }),
+    buildSession('completed', { user_role: 'manager' }),
+  ]);
+
+  it('screens out sessions placed in a full cell, with the message resolved', () => {
+    expect(
+      findFullQuota(
+        survey,
+        buildSession('in-progress', { user_role: 'designer' }),
+        status,
+      ),
+    ).toEqual({
+      reason: 'quota-full',
+      ruleId: 'makers',
+      message: 'Enough Designer responses, thanks!',
+    });
+    expect(
+      findFullQuota(
+        survey,
+        buildSession('in-progress', { user_role: 'manager' }),
+        status,
+      ),
+    ).toBeUndefined();
+  });
+
+  it('applies the overall cap only when asked', () => {
+    expect(
+      findFullQuota(
+        survey,
+        buildSession('in-progress', { user_role: 'manager' }),
+        status,
+        true,
+      ),
+    ).toEqual({
+      reason: 'quota-full',
+      ruleId: 'maxCompletes',
+      message: 'The survey is full.',
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Tests for roster question groups: items, instance IDs and
+ * per-item expansion.
+ * @module tests/services/survey/core/rosters.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import {
+  collectRosterItemKeys,
+  expandRosterQuestions,
+  findStaleRosterResponses,
+  getRosterItems,
+  parseRosterInstanceId,
+  rosterInstanceId,
+} from '@/services/survey/core/rosters.js';
+import { interpolateQuestion } from '@/services/survey/core/templating.js';
+import {
+  type ParticipantSession,
+  SurveyDefinitionSchema,
+} from '@/services/survey/types.js';
+
+const survey = SurveyDefinitionSchema.parse({
+  id: 'tools',
+  metadata: { title: 'Tooling', description: 'Survey for tests' },
+  questions: [
+    {
+      id: 'tools',
+      type: 'multiple-select',
+      text: 'Which tools do you use?',
+      options: [
+        { value: 'slack', label: 'Slack' },
+        { value: 'zoom', label: 'Zoom' },
+        { value: 'jira', label: 'Jira' },
+      ],
+    },
+    {
+      id: 'tool_rating',
+      type: 'rating-scale',
+      text: 'How would you rate {{item}}?',
+      scale: { min: 1, max: 5 },
+    },
+    {
+      id: 'tool_issue',
+      type: 'free-form',
+      text: 'What is wrong with {{item}}?',
+      helpText: 'You rated it {{answers.tool_rating}}.',
+      conditional: { dependsOn: 'tool_rating', op: 'lte', value: 2 },
+    },
+    { id: 'hobbies', type: 'free-form', text: 'Your hobbies?' },
+    { id: 'hobby_hours', type: 'number', text: 'Hours a week on {{item}}?' },
+  ],
+  rosters: [
+    {
+      id: 'tool_ratings',
+      sourceQuestionId: 'tools',
+      questionIds: ['tool_rating', 'tool_issue'],
+    },
+    {
+      id: 'hobby_time',
+      sourceQuestionId: 'hobbies',
+      questionIds: ['hobby_hours'],
+      maxItems: 3,
+    },
+  ],
+});
+
+function sessionWith(answers: Record<string, unknown>): ParticipantSession {
+  const now = '2025-01-01T00:00:00.000Z';
+  return {
+    responses: Object.fromEntries(
+      Object.entries(answers).map(([questionId, value]) => [
+        questionId,
+        { questionId, value, answeredAt: now, attemptCount: 1 },
+      ]),
+    ),
+    metadata: {},
+  } as unknown as ParticipantSession;
+}
+
+const [toolRoster, hobbyRoster] = survey.rosters ?? [];
+
+describe('roster instance IDs', () => {
+  it('builds and parses instance-keyed IDs', () => {
+    expect(rosterInstanceId('tool_rating', 'slack')).toBe('tool_rating[slack]');
+    expect(parseRosterInstanceId('tool_rating[slack]')).toEqual({
+      questionId: 'tool_rating',
+      key: 'slack',
+    });
+    expect(parseRosterInstanceId('tool_rating')).toBeUndefined();
+  });
+});
+
+describe('getRosterItems', () => {
+  it('uses selected options, keeping their labels', () => {
+    expect(
+      getRosterItems(
+        toolRoster!,
+        survey,
+        sessionWith({ tools: ['zoom', 'slack'] }),
+      ),
+    ).toEqual([
+      { key: 'zoom', label: 'Zoom' },
+      { key: 'slack', label: 'Slack' },
+    ]);
+  });
+
+  it('splits free-form lists into slugged, de-duplicated keys up to maxItems', () => {
+    expect(
+      getRosterItems(
+        hobbyRoster!,
+        survey,
+        sessionWith({ hobbies: 'Rock climbing, chess\nChess, piano' }),
+      ),
+    ).toEqual([
+      { key: 'rock_climbing', label: 'Rock climbing' },
+      { key: 'chess', label: 'chess' },
+      { key: 'chess_2', label: 'Chess' },
+    ]);
+  });
+
+  it('has no items until the source is answered', () => {
+    expect(getRosterItems(toolRoster!, survey, sessionWith({}))).toEqual([]);
+  });
+});
+
+describe('collectRosterItemKeys', () => {
+  it('merges keys across sessions in option order', () => {
+    expect(
+      collectRosterItemKeys(toolRoster!, survey, [
+        sessionWith({ tools: ['jira'] }),
+        sessionWith({ tools: ['zoom', 'slack'] }),
+      ]),
+    ).toEqual(['slack', 'zoom', 'jira']);
+  });
+});
+
+describe('findStaleRosterResponses', () => {
+  it('lists instance answers whose item is no longer selected', () => {
+    const session = sessionWith({
+      tools: ['zoom'],
+      'tool_rating[slack]': 4,
+      'tool_issue[slack]': 'Too noisy',
+      'tool_rating[zoom]': 2,
+      hobbies: 'chess',
+    });
+
+    expect(findStaleRosterResponses(survey, session)).toEqual([
+      'tool_rating[slack]',
+      'tool_issue[slack]',
+    ]);
+  });
+});
+
+describe('expandRosterQuestions', () => {
+  it('repeats roster questions per item, item by item, with scoped conditions', () => {
+    const expanded = expandRosterQuestions(
+      survey.questions,
+      survey,
+      sessionWith({ tools: ['slack', 'zoom'] }),
+    );
+
+    expect(expanded.map((q) => q.id)).toEqual([
+      'tools',
+      'tool_rating[slack]',
+      'tool_issue[slack]',
+      'tool_rating[zoom]',
+      'tool_issue[zoom]',
+      'hobbies',
+    ]);
+    expect(expanded[4]).toMatchObject({
+      conditional: { dependsOn: 'tool_rating[zoom]', op: 'lte', value: 2 },
+      roster: {
+        rosterId: 'tool_ratings',
+        questionId: 'tool_issue',
+        key: 'zoom',
+        label: 'Zoom',
+      },
+    });
+  });
+
+  it('pipes the item and same-item answers into instance text', () => {
+    const session = sessionWith({ tools: ['slack'], 'tool_rating[slack]': 2 });
+    const issue = expandRosterQuestions(survey.questions, survey, session).find(
+      (q) => q.id === 'tool_issue[slack]',
+    )!;
+
+    expect(interpolateQuestion(issue, survey, session)).toMatchObject({
+      text: 'What is wrong with Slack?',
+      helpText: 'You rated it 2.',
+    });
+  });
+});
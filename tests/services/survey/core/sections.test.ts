@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Tests for survey sections: ordering and per-section progress.
+ * @module tests/services/survey/core/sections.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildSectionProgress,
+  orderQuestionsBySection,
+} from '@/services/survey/core/sections.js';
+import {
+  type ParticipantSession,
+  SurveyDefinitionSchema,
+} from '@/services/survey/types.js';
+
+const survey = SurveyDefinitionSchema.parse({
+  id: 'product',
+  metadata: { title: 'Product feedback', description: 'Survey for tests' },
+  questions: [
+    { id: 'notes', type: 'free-form', text: 'Anything else?' },
+    {
+      id: 'plan',
+      type: 'multiple-choice',
+      text: 'Which plan are you on?',
+      required: true,
+      options: [
+        { value: 'free', label: 'Free' },
+        { value: 'pro', label: 'Pro' },
+      ],
+    },
+    { id: 'role', type: 'free-form', text: 'Your role?', required: true },
+    { id: 'price_fair', type: 'boolean', text: 'Is the price fair?' },
+    {
+      id: 'upgrade',
+      type: 'free-form',
+      text: 'What would make you upgrade?',
+      required: true,
+    },
+  ],
+  sections: [
+    {
+      id: 'about',
+      title: 'About you',
+      intro: "Let's start with a bit about you.",
+      questionIds: ['role', 'plan'],
+    },
+    {
+      id: 'pricing',
+      title: 'Pricing',
+      intro: 'Now some questions about the {{answers.plan.label}} plan.',
+      conditional: { dependsOn: 'plan', op: 'eq', value: 'pro' },
+      questionIds: ['price_fair'],
+    },
+    { id: 'growth', title: 'Growth', questionIds: ['upgrade'] },
+  ],
+});
+
+function sessionWith(
+  answers: Record<string, unknown>,
+  skipped: string[] = [],
+): ParticipantSession {
+  const now = '2025-01-01T00:00:00.000Z';
+  return {
+    responses: Object.fromEntries([
+      ...Object.entries(answers).map(([questionId, value]) => [
+        questionId,
+        { questionId, value, answeredAt: now, attemptCount: 1 },
+      ]),
+      ...skipped.map((questionId) => [
+        questionId,
+        {
+          questionId,
+          value: null,
+          answeredAt: now,
+          attemptCount: 0,
+          skipped: true,
+        },
+      ]),
+    ]),
+    metadata: {},
+  } as unknown as ParticipantSession;
+}
+
+describe('orderQuestionsBySection', () => {
+  const sections = survey.sections ?? [];
+
+  it("orders questions by section, then by each section's question order", () => {
+    expect(
+      orderQuestionsBySection(survey.questions, sections, false).map(
+        (q) => q.id,
+      ),
+    ).toEqual(['role', 'plan', 'price_fair', 'upgrade', 'notes']);
+  });
+
+  it('keeps the given order within a section for shuffled sessions', () => {
+    const shuffled = ['upgrade', 'plan', 'notes', 'price_fair', 'role'].map(
+      (id) => survey.questions.find((q) => q.id === id)!,
+    );
+
+    expect(
+      orderQuestionsBySection(shuffled, sections, true).map((q) => q.id),
+    ).toEqual(['plan', 'role', 'price_fair', 'upgrade', 'notes']);
+  });
+});
+
+describe('buildSectionProgress', () => {
+  it('starts in the first section with its intro', () => {
+    const progress = buildSectionProgress(survey, sessionWith({}));
+
+    expect(progress.currentSection).toEqual({
+      id: 'about',
+      title: 'About you',
+      intro: "Let's start with a bit about you.",
+    });
+    expect(progress.sections.map((s) => s.status)).toEqual([
+      'not-started',
+      'hidden',
+      'not-started',
+    ]);
+  });
+
+  it('moves to the next shown section once a section is done', () => {
+    const progress = buildSectionProgress(
+      survey,
+      sessionWith({ role: 'PM', plan: 'pro' }),
+    );
+
+    expect(progress.currentSection).toEqual({
+      id: 'pricing',
+      title: 'Pricing',
+      intro: 'Now some questions about the Pro plan.',
+    });
+    expect(progress.sections[0]).toEqual({
+      sectionId: 'about',
+      title: 'About you',
+      status: 'completed',
+      totalQuestions: 2,
+      answeredQuestions: 2,
+      skippedQuestions: 0,
+      requiredRemaining: 0,
+      percentComplete: 100,
+    });
+  });
+
+  it('passes over hidden sections and counts skipped questions as handled', () => {
+    const hidden = buildSectionProgress(
+      survey,
+      sessionWith({ role: 'PM', plan: 'free' }),
+    );
+    expect(hidden.currentSection?.id).toBe('growth');
+    expect(hidden.sections[1]?.status).toBe('hidden');
+
+    const skipped = buildSectionProgress(
+      survey,
+      sessionWith({ role: 'PM', plan: 'pro' }, ['price_fair']),
+    );
+    expect(skipped.currentSection?.id).toBe('growth');
+    expect(skipped.sections[1]).toMatchObject({
+      status: 'completed',
+      skippedQuestions: 1,
+      percentComplete: 100,
+    });
+  });
+
+  it('reports a section in progress and has no current section when all are done', () => {
+    const partial = buildSectionProgress(survey, sessionWith({ role: 'PM' }));
+    expect(partial.sections[0]).toMatchObject({
+      status: 'in-progress',
+      requiredRemaining: 1,
+      percentComplete: 50,
+    });
+
+    const done = buildSectionProgress(
+      survey,
+      sessionWith({ role: 'PM', plan: 'free', upgrade: 'SSO' }),
+    );
+    expect(done.currentSection).toBeUndefined();
+  });
+
+  it('leaves questions hidden by their own condition out of the section total', () => {
+    const conditional = SurveyDefinitionSchema.parse({
+      ...survey,
+      questions: [
+        ...survey.questions,
+        {
+          id: 'team_size',
+          type: 'number',
+          text: 'How big is your team?',
+          conditional: { dependsOn: 'role', op: 'eq', value: 'Manager' },
+        },
+      ],
+      sections: [
+        {
+          id: 'about',
+          title: 'About you',
+          questionIds: ['role', 'plan', 'team_size'],
+        },
+      ],
+    });
+
+    const hiddenQuestion = buildSectionProgress(
+      conditional,
+      sessionWith({ role: 'PM' }),
+    );
+    expect(hiddenQuestion.sections[0]).toMatchObject({
+      status: 'in-progress',
+      totalQuestions: 2,
+      answeredQuestions: 1,
+      percentComplete: 50,
+    });
+
+    const shownQuestion = buildSectionProgress(
+      conditional,
+      sessionWith({ role: 'Manager', plan: 'pro' }),
+    );
+    expect(shownQuestion.sections[0]).toMatchObject({
+      status: 'in-progress',
+      totalQuestions: 3,
+      answeredQuestions: 2,
+      percentComplete: 67,
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Tests for per-question analytics statistics.
+ * @module tests/services/survey/core/statistics.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import {
+  computeQuestionStats,
+  summarizeNumbers,
+} from '@/services/survey/core/statistics.js';
+import {
+  QuestionDefinitionSchema,
+  type SurveyResponse,
+} from '@/services/survey/types.js';
+
+function response(value: unknown, skipped = false): SurveyResponse {
+  return {
+    questionId: 'q',
+    value,
+    answeredAt: '2025-01-01T00:00:00.000Z',
+    attemptCount: 1,
+    ...(skipped && { skipped }),
+  };
+}
+
+describe('summarizeNumbers', () => {
+  it('computes mean, median, standard deviation and percentiles', () => {
+    expect(summarizeNumbers([2, 4, 4, 4, 5, 5, 7, 9])).toEqual({
+      count: 8,
+      mean: 5,
+      median: 4.5,
+      stdDev: 2,
+      min: 2,
+      max: 9,
+      percentiles: { p25: 4, p75: 5.5, p90: 7.6 },
+    });
+  });
+
+  it('returns undefined for no values', () => {
+    expect(summarizeNumbers([])).toBeUndefined();
+  });
+});
+
+describe('computeQuestionStats', () => {
+  it('counts each selected option for multiple-select questions', () => {
+    const question = QuestionDefinitionSchema.parse({
+      id: 'tools',
+      type: 'multiple-select',
+      text: 'Tools?',
+      options: [
+        { value: 'git', label: 'Git' },
+        { value: 'vim', label: 'Vim' },
+      ],
+    });
+
+    const stats = computeQuestionStats(question, [
+      response(['git', 'vim']),
+      response(['git']),
+      response(null, true),
+    ]);
+
+    expect(stats).toEqual({
+      questionId: 'tools',
+      responseCount: 2,
+      skippedCount: 1,
+      responseDistribution: { git: 2, vim: 1, __skipped__: 1 },
+    });
+  });
+
+  it('builds per-row distributions for matrix questions', () => {
+    const question = QuestionDefinitionSchema.parse({
+      id: 'grid',
+      type: 'matrix',
+      text: 'Rate',
+      matrix: {
+        rows: [
+          { id: 'speed', label: 'Speed' },
+          { id: 'cost', label: 'Cost' },
+        ],
+        columns: [
+          { value: 'good', label: 'Good' },
+          { value: 'bad', label: 'Bad' },
+        ],
+      },
+    });
+
+    const stats = computeQuestionStats(question, [
+      response({ speed: 'good', cost: 'bad' }),
+      response({ speed: 'good' }),
+    ]);
+
+    expect(stats.rowDistributions).toEqual({
+      speed: { good: 2 },
+      cost: { bad: 1 },
+    });
+  });
+
+  it('splits boolean answers and summarizes rating scales', () => {
+    const boolean = QuestionDefinitionSchema.parse({
+      id: 'remote',
+      type: 'boolean',
+      text: 'Remote?',
+    });
+    expect(
+      computeQuestionStats(boolean, [
+        response(true),
+        response(false),
+        response(true),
+      ]).booleanSplit,
+    ).toEqual({ true: 2, false: 1 });
+
+    const rating = QuestionDefinitionSchema.parse({
+      id: 'score',
+      type: 'rating-scale',
+      text: 'Score?',
+      scale: { min: 1, max: 5 },
+    });
+    const stats = computeQuestionStats(rating, [response(1), response(5)]);
+    expect(stats.responseDistribution).toEqual({ '1': 1, '5': 1 });
+    expect(stats.numericSummary).toMatchObject({ mean: 3, median: 3 });
+  });
+
+  it('reports difficulty for quiz questions', () => {
+    const question = QuestionDefinitionSchema.parse({
+      id: 'tools',
+      type: 'multiple-select',
+      text: 'Which are version control systems?',
+      options: [
+        { value: 'git', label: 'Git' },
+        { value: 'hg', label: 'Mercurial' },
+        { value: 'vim', label: 'Vim' },
+      ],
+      answerKey: { correct: ['git', 'hg'], partialCredit: true },
+    });
+
+    const stats = computeQuestionStats(question, [
+      response(['git', 'hg']),
+      response(['git']),
+      response(['vim']),
+      response(null, true),
+    ]);
+
+    expect(stats.difficulty).toEqual({
+      correctCount: 1,
+      partialCount: 1,
+      percentCorrect: 50,
+    });
+  });
+});
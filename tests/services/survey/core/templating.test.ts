@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Tests for answer piping in question text.
+ * @module tests/services/survey/core/templating.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import {
+  extractTemplateReferences,
+  interpolateQuestion,
+  interpolateTemplate,
+} from '@/services/survey/core/templating.js';
+import {
+  type ParticipantSession,
+  SurveyDefinitionSchema,
+} from '@/services/survey/types.js';
+
+const survey = SurveyDefinitionSchema.parse({
+  id: 'piping-survey',
+  metadata: { title: 'Piping', description: 'Survey for tests' },
+  questions: [
+    {
+      id: 'role',
+      type: 'multiple-choice',
+      text: 'Role?',
+      options: [
+        { value: 'eng', label: 'Engineer' },
+        { value: 'pm', label: 'Product Manager' },
+      ],
+    },
+    {
+      id: 'tools',
+      type: 'multiple-select',
+      text: 'Tools?',
+      options: [
+        { value: 'slack', label: 'Slack' },
+        { value: 'jira', label: 'Jira' },
+      ],
+    },
+    { id: 'nickname', type: 'free-form', text: 'Nickname?' },
+    {
+      id: 'tenure',
+      type: 'number',
+      text: 'How long have you been a {{answers.role.label}} at {{metadata.company.name}}?',
+      helpText: 'Ask {{answers.nickname | "them"}} casually.',
+    },
+  ],
+});
+
+function buildSession(
+  responses: Record<string, unknown>,
+  skipped: string[] = [],
+): ParticipantSession {
+  const now = '2025-01-01T00:00:00.000Z';
+  return {
+    sessionId: 'sess-1',
+    surveyId: 'piping-survey',
+    surveyVersion: '1.0',
+    participantId: 'p1',
+    tenantId: 'tenant-a',
+    status: 'in-progress',
+    startedAt: now,
+    lastActivityAt: now,
+    metadata: { company: { name: 'Acme' } },
+    responses: Object.fromEntries([
+      ...Object.entries(responses).map(([questionId, value]) => [
+        questionId,
+        { questionId, value, answeredAt: now, attemptCount: 1 },
+      ]),
+      ...skipped.map((questionId) => [
+        questionId,
+        {
+          questionId,
+          value: null,
+          answeredAt: now,
+          attemptCount: 0,
+          skipped: true,
+        },
+      ]),
+    ]),
+    progress: {
+      totalQuestions: 4,
+      answeredQuestions: 0,
+      requiredRemaining: 0,
+      percentComplete: 0,
+    },
+    currentScore: 0,
+  };
+}
+
+describe('interpolateTemplate', () => {
+  it('pipes in answers, option labels and nested metadata', () => {
+    const session = buildSession({ role: 'pm', tools: ['slack', 'jira'] });
+
+    expect(
+      interpolateTemplate(
+        '{{answers.role}} / {{ answers.role.label }} / {{answers.tools.label}} @ {{metadata.company.name}}',
+        survey,
+        session,
+      ),
+    ).toBe('pm / Product Manager / Slack, Jira @ Acme');
+  });
+
+  it('uses the fallback for missing, skipped or unknown references', () => {
+    const session = buildSession({}, ['role']);
+
+    expect(
+      interpolateTemplate(
+        "[{{answers.role.label | a team member}}] [{{answers.nickname}}] [{{metadata.missing | 'you'}}] [{{other.thing}}]",
+        survey,
+        session,
+      ),
+    ).toBe('[a team member] [] [you] []');
+  });
+});
+
+describe('interpolateQuestion', () => {
+  it('resolves text and help text', () => {
+    const question = survey.questions[3]!;
+    const piped = interpolateQuestion(
+      question,
+      survey,
+      buildSession({ role: 'eng', nickname: 'Sam' }),
+    );
+
+    expect(piped.text).toBe('How long have you been a Engineer at Acme?');
+    expect(piped.helpText).toBe('Ask Sam casually.');
+  });
+
+  it('returns the same question when there is nothing to resolve', () => {
+    const question = survey.questions[0]!;
+    expect(interpolateQuestion(question, survey, buildSession({}))).toBe(
+      question,
+    );
+  });
+});
+
+describe('extractTemplateReferences', () => {
+  it('parses answer and metadata references', () => {
+    expect(
+      extractTemplateReferences(
+        '{{answers.role.label}} {{metadata.a.b | x}} {{oops}}',
+      ),
+    ).toEqual([
+      {
+        expression: 'answers.role.label',
+        source: 'answers',
+        key: 'role',
+        property: 'label',
+      },
+      { expression: 'metadata.a.b', source: 'metadata', key: 'a.b' },
+      { expression: 'oops', source: 'unknown', key: 'oops' },
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Tests for screen-out termination rules.
+ * @module tests/services/survey/core/termination.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import { evaluateTermination } from '@/services/survey/core/termination.js';
+import {
+  type ParticipantSession,
+  SurveyDefinitionSchema,
+} from '@/services/survey/types.js';
+
+const survey = SurveyDefinitionSchema.parse({
+  id: 'screener',
+  metadata: { title: 'Screener', description: 'Survey for tests' },
+  questions: [
+    {
+      id: 'company_size',
+      type: 'multiple-choice',
+      text: 'Company size?',
+      options: [
+        { value: '1-10', label: '1-10 employees' },
+        { value: '11-500', label: '11-500 employees' },
+        { value: '500+', label: '500+ employees' },
+      ],
+    },
+    { id: 'age', type: 'number', text: 'Age?' },
+  ],
+  terminationRules: [
+    {
+      id: 'too_small',
+      when: { dependsOn: 'company_size', op: 'eq', value: '1-10' },
+      message:
+        'This study is for companies larger than {{answers.company_size.label}}.',
+    },
+    { id: 'minor', when: { dependsOn: 'age', op: 'lt', value: 18 } },
+  ],
+});
+
+function sessionWith(answers: Record<string, unknown>): ParticipantSession {
+  const now = '2025-01-01T00:00:00.000Z';
+  return {
+    responses: Object.fromEntries(
+      Object.entries(answers).map(([questionId, value]) => [
+        questionId,
+        { questionId, value, answeredAt: now, attemptCount: 1 },
+      ]),
+    ),
+  } as ParticipantSession;
+}
+
+describe('evaluateTermination', () => {
+  it('returns the first matching rule with its message resolved', () => {
+    expect(
+      evaluateTermination(
+        survey,
+        sessionWith({ company_size: '1-10', age: 16 }),
+      ),
+    ).toEqual({
+      reason: 'termination-rule',
+      ruleId: 'too_small',
+      message: 'This study is for companies larger than 1-10 employees.',
+    });
+  });
+
+  it('omits the message when the rule has none', () => {
+    expect(
+      evaluateTermination(
+        survey,
+        sessionWith({ company_size: '500+', age: 16 }),
+      ),
+    ).toEqual({ reason: 'termination-rule', ruleId: 'minor' });
+  });
+
+  it('is undefined while no rule matches', () => {
+    expect(evaluateTermination(survey, sessionWith({}))).toBeUndefined();
+    expect(
+      evaluateTermination(survey, sessionWith({ company_size: '11-500' })),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Tests for computed survey variables.
+ * @module tests/services/survey/core/variables.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import { computeVariables } from '@/services/survey/core/variables.js';
+import {
+  type ParticipantSession,
+  SurveyDefinitionSchema,
+} from '@/services/survey/types.js';
+
+const rating = (id: string) => ({
+  id,
+  type: 'rating-scale',
+  text: `${id}?`,
+  scale: { min: 1, max: 5 },
+});
+
+function buildSurvey(variables: unknown[]) {
+  return SurveyDefinitionSchema.parse({
+    id: 'variables-survey',
+    metadata: { title: 'Variables', description: 'Survey for tests' },
+    questions: [
+      rating('energy'),
+      rating('tired'),
+      rating('focus'),
+      { id: 'remote', type: 'boolean', text: 'Remote?' },
+      {
+        id: 'tools',
+        type: 'multiple-select',
+        text: 'Tools?',
+        options: [
+          { value: 'slack', label: 'Slack', score: 2 },
+          { value: 'jira', label: 'Jira', score: 1 },
+        ],
+      },
+    ],
+    variables,
+  });
+}
+
+function responsesOf(
+  answers: Record<string, unknown>,
+  scores: Record<string, number> = {},
+  skipped: string[] = [],
+): Pick<ParticipantSession, 'responses'> {
+  const now = '2025-01-01T00:00:00.000Z';
+  return {
+    responses: Object.fromEntries([
+      ...Object.entries(answers).map(([questionId, value]) => [
+        questionId,
+        {
+          questionId,
+          value,
+          answeredAt: now,
+          attemptCount: 1,
+          ...(scores[questionId] !== undefined && {
+            score: scores[questionId],
+          }),
+        },
+      ]),
+      ...skipped.map((questionId) => [
+        questionId,
+        {
+          questionId,
+          value: null,
+          answeredAt: now,
+          attemptCount: 0,
+          skipped: true,
+        },
+      ]),
+    ]),
+  };
+}
+
+describe('computeVariables', () => {
+  it('averages rating items with reverse coding and skips unanswered items', () => {
+    const survey = buildSurvey([
+      {
+        id: 'wellbeing',
+        formula: 'average',
+        items: [
+          { ref: 'energy' },
+          { ref: 'tired', reverse: true },
+          { ref: 'focus' },
+        ],
+      },
+    ]);
+
+    // energy 4, tired 2 → reversed 4; focus skipped
+    expect(
+      computeVariables(
+        survey,
+        responsesOf({ energy: 4, tired: 2 }, {}, ['focus']),
+      ),
+    ).toEqual({ wellbeing: 4 });
+  });
+
+  it('computes weighted sums, option scores, min and max', () => {
+    const survey = buildSurvey([
+      {
+        id: 'weighted',
+        formula: 'sum',
+        items: [
+          { ref: 'energy', weight: 2 },
+          { ref: 'remote', weight: 10 },
+        ],
+      },
+      {
+        id: 'tool_score',
+        formula: 'sum',
+        items: [{ ref: 'tools', use: 'score' }],
+      },
+      {
+        id: 'lowest',
+        formula: 'min',
+        items: [{ ref: 'energy' }, { ref: 'focus' }],
+      },
+      {
+        id: 'highest',
+        formula: 'max',
+        items: [{ ref: 'energy' }, { ref: 'focus' }],
+      },
+    ]);
+
+    expect(
+      computeVariables(
+        survey,
+        responsesOf(
+          { energy: 3, focus: 5, remote: true, tools: ['slack', 'jira'] },
+          { tools: 3 },
+        ),
+      ),
+    ).toEqual({ weighted: 16, tool_score: 3, lowest: 3, highest: 5 });
+  });
+
+  it('counts answered or matching items', () => {
+    const survey = buildSurvey([
+      {
+        id: 'answered',
+        formula: 'count',
+        items: [{ ref: 'energy' }, { ref: 'tired' }, { ref: 'focus' }],
+      },
+      {
+        id: 'uses_slack',
+        formula: 'count',
+        items: [{ ref: 'tools' }],
+        countValues: ['slack'],
+      },
+    ]);
+
+    expect(
+      computeVariables(
+        survey,
+        responsesOf({ energy: 1, focus: 2, tools: ['slack'] }),
+      ),
+    ).toEqual({ answered: 2, uses_slack: 1 });
+  });
+
+  it('lets later variables build on earlier ones and rounds results', () => {
+    const survey = buildSurvey([
+      {
+        id: 'mood',
+        formula: 'average',
+        items: [{ ref: 'energy' }, { ref: 'tired' }, { ref: 'focus' }],
+      },
+      {
+        id: 'mood_pct',
+        formula: 'sum',
+        items: [{ ref: 'mood', weight: 20 }],
+        decimals: 0,
+      },
+    ]);
+
+    expect(
+      computeVariables(survey, responsesOf({ energy: 1, tired: 2, focus: 2 })),
+    ).toEqual({ mood: 1.67, mood_pct: 33 });
+  });
+
+  it('reads answers to questions named like Object.prototype members', () => {
+    const survey = SurveyDefinitionSchema.parse({
+      id: 'variables-survey',
+      metadata: { title: 'Variables', description: 'Survey for tests' },
+      questions: [{ id: 'constructor', type: 'number', text: 'How many?' }],
+      variables: [
+        { id: 'total', formula: 'sum', items: [{ ref: 'constructor' }] },
+      ],
+    });
+
+    expect(computeVariables(survey, responsesOf({ constructor: 3 }))).toEqual({
+      total: 3,
+    });
+  });
+
+  it('omits variables with no usable items', () => {
+    const survey = buildSurvey([
+      { id: 'empty', formula: 'average', items: [{ ref: 'energy' }] },
+    ]);
+
+    expect(computeVariables(survey, responsesOf({}))).toEqual({});
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Tests for survey version ordering.
+ * @module tests/services/survey/core/versions.test
+ */
+import { describe, expect, it } from 'vitest';
+
+import {
+  compareSurveyVersions,
+  latestSurveyVersion,
+} from '@/services/survey/core/versions.js';
+import { SurveyDefinitionSchema } from '@/services/survey/types.js';
+
+describe('compareSurveyVersions', () => {
+  it('compares numeric segments numerically', () => {
+    expect(compareSurveyVersions('1.10', '1.9')).toBeGreaterThan(0);
+    expect(compareSurveyVersions('1.9', '2.0')).toBeLessThan(0);
+    expect(compareSurveyVersions('2.0.1', '2.0')).toBeGreaterThan(0);
+  });
+
+  it('treats missing segments as zero', () => {
+    expect(compareSurveyVersions('2', '2.0')).toBe(0);
+  });
+
+  it('falls back to natural ordering for non-numeric segments', () => {
+    expect(compareSurveyVersions('1.0-beta2', '1.0-beta10')).toBeLessThan(0);
+  });
+});
+
+describe('latestSurveyVersion', () => {
+  const define = (version: string) =>
+    SurveyDefinitionSchema.parse({
+      id: 'versioned',
+      version,
+      metadata: { title: 'Versioned', description: 'Versioned survey' },
+      questions: [{ id: 'q1', type: 'free-form', text: 'Anything?' }],
+    });
+
+  it('picks the newest definition', () => {
+    const latest = latestSurveyVersion([
+      define('1.9'),
+      define('1.10'),
+      define('1.2'),
+    ]);
+    expect(latest?.version).toBe('1.10');
+  });
+
+  it('is undefined when there are no versions', () => {
+    expect(latestSurveyVersion([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,608 @@
+/**
+ * @fileoverview Tests for survey definition loading in the filesystem provider.
+ * @module tests/services/survey/providers/filesystem.provider.test
+ */
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { AppConfig } from '@/config/index.js';
+import { FilesystemSurveyProvider } from '@/services/survey/providers/filesystem.provider.js';
+import { SurveyDefinitionSchema } from '@/services/survey/types.js';
+
+const lintFailingDefinition = {
+  id: 'broken-survey',
+  version: '1.0',
+  metadata: { title: 'Broken Survey', description: 'Fails linting' },
+  questions: [
+    { id: 'q1', type: 'free-form', text: 'First?' },
+    {
+      id: 'q2',
+      type: 'free-form',
+      text: 'Second?',
+      conditional: { dependsOn: 'missing', showIf: ['yes'] },
+    },
+  ],
+};
+
+describe('FilesystemSurveyProvider definition loading', () => {
+  let definitionsPath: string;
+
+  beforeEach(() => {
+    definitionsPath = mkdtempSync(join(tmpdir(), 'survey-defs-'));
+    writeFileSync(
+      join(definitionsPath, 'broken.json'),
+      JSON.stringify(lintFailingDefinition),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(definitionsPath, { recursive: true, force: true });
+  });
+
+  async function createProvider(
+    strictValidation: boolean,
+  ): Promise<FilesystemSurveyProvider> {
+    const provider = new FilesystemSurveyProvider({
+      survey: {
+        providerType: 'filesystem',
+        definitionsPath,
+        responsesPath: join(definitionsPath, 'responses'),
+        strictValidation,
+      },
+    } as AppConfig);
+    await provider.initialize();
+    return provider;
+  }
+
+  it('loads surveys with lint errors when strict validation is off', async () => {
+    const provider = await createProvider(false);
+    await expect(provider.getSurveyById('broken-survey')).resolves.not.toBe(
+      null,
+    );
+  });
+
+  it('refuses surveys with lint errors in strict mode', async () => {
+    const provider = await createProvider(true);
+    await expect(provider.getSurveyById('broken-survey')).resolves.toBe(null);
+  });
+});
+
+describe('FilesystemSurveyProvider survey versions', () => {
+  let definitionsPath: string;
+
+  const define = (version: string, questionIds: string[]) => ({
+    id: 'versioned',
+    version,
+    metadata: {
+      title: `Versioned ${version}`,
+      description: 'Survey with several versions',
+    },
+    questions: questionIds.map((id) => ({
+      id,
+      type: 'free-form',
+      text: `${id}?`,
+    })),
+  });
+
+  beforeEach(async () => {
+    definitionsPath = mkdtempSync(join(tmpdir(), 'survey-defs-'));
+    writeFileSync(
+      join(definitionsPath, 'v1.json'),
+      JSON.stringify(define('1.9', ['q1'])),
+    );
+    writeFileSync(
+      join(definitionsPath, 'v2.json'),
+      JSON.stringify(define('1.10', ['q1', 'q2'])),
+    );
+    writeFileSync(
+      join(definitionsPath, 'v2-copy.json'),
+      JSON.stringify(define('1.10', ['other'])),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(definitionsPath, { recursive: true, force: true });
+  });
+
+  async function createProvider(): Promise<FilesystemSurveyProvider> {
+    const provider = new FilesystemSurveyProvider({
+      survey: {
+        providerType: 'filesystem',
+        definitionsPath,
+        responsesPath: join(definitionsPath, 'responses'),
+        strictValidation: false,
+      },
+    } as AppConfig);
+    await provider.initialize();
+    return provider;
+  }
+
+  it('loads every version side by side and serves the latest by default', async () => {
+    const provider = await createProvider();
+
+    const versions = await provider.getSurveyVersions('versioned');
+    expect(versions.map((survey) => survey.version)).toEqual(['1.9', '1.10']);
+
+    const latest = await provider.getSurveyById('versioned');
+    expect(latest?.version).toBe('1.10');
+    expect(await provider.getAllSurveys()).toHaveLength(1);
+  });
+
+  it('resolves a specific version when asked', async () => {
+    const provider = await createProvider();
+
+    const pinned = await provider.getSurveyById('versioned', undefined, '1.9');
+    expect(pinned?.questions.map((question) => question.id)).toEqual(['q1']);
+    await expect(
+      provider.getSurveyById('versioned', undefined, '3.0'),
+    ).resolves.toBe(null);
+  });
+
+  it('persists saved versions to disk and deletes them', async () => {
+    const provider = await createProvider();
+    const draft = SurveyDefinitionSchema.parse({
+      ...define('2.0', ['q1']),
+      status: 'draft',
+    });
+
+    await provider.saveSurvey(draft);
+    expect(existsSync(join(definitionsPath, 'versioned', '2.0.json'))).toBe(
+      true,
+    );
+    const reloaded = await createProvider();
+    expect((await reloaded.getSurveyById('versioned'))?.status).toBe('draft');
+
+    await expect(reloaded.deleteSurvey('versioned', '2.0')).resolves.toBe(true);
+    expect(existsSync(join(definitionsPath, 'versioned', '2.0.json'))).toBe(
+      false,
+    );
+    await expect(reloaded.deleteSurvey('versioned', '2.0')).resolves.toBe(
+      false,
+    );
+    expect((await reloaded.getSurveyById('versioned'))?.version).toBe('1.10');
+  });
+
+  it('refuses to write definitions outside the definitions directory', async () => {
+    const provider = await createProvider();
+    await expect(
+      provider.saveSurvey(
+        SurveyDefinitionSchema.parse({
+          ...define('1.0', ['q1']),
+          id: '../escape',
+        }),
+      ),
+    ).rejects.toThrow('Path traversal detected');
+  });
+});
+
+describe('FilesystemSurveyProvider definition formats', () => {
+  let definitionsPath: string;
+
+  beforeEach(() => {
+    definitionsPath = mkdtempSync(join(tmpdir(), 'survey-defs-'));
+    writeFileSync(
+      join(definitionsPath, 'yaml-survey.yaml'),
+      [
+        'id: yaml-survey',
+        'version: "1.0"',
+        'metadata:',
+        '  title: YAML Survey',
+        '  description: Written in YAML',
+        'questions:',
+        '  - id: q1',
+        '    type: free-form',
+        '    text: First?',
+        '',
+      ].join('\n'),
+    );
+    writeFileSync(
+      join(definitionsPath, 'json5-survey.json5'),
+      [
+        '{',
+        '  // Written in JSON5',
+        "  id: 'json5-survey',",
+        "  metadata: { title: 'JSON5 Survey', description: 'Written in JSON5' },",
+        "  questions: [{ id: 'q1', type: 'free-form', text: 'First?' }],",
+        '}',
+        '',
+      ].join('\n'),
+    );
+    writeFileSync(join(definitionsPath, 'notes.txt'), 'not a definition');
+  });
+
+  afterEach(() => {
+    rmSync(definitionsPath, { recursive: true, force: true });
+  });
+
+  async function createProvider(): Promise<FilesystemSurveyProvider> {
+    const provider = new FilesystemSurveyProvider({
+      survey: {
+        providerType: 'filesystem',
+        definitionsPath,
+        responsesPath: join(definitionsPath, 'responses'),
+        strictValidation: false,
+      },
+    } as AppConfig);
+    await provider.initialize();
+    return provider;
+  }
+
+  it('loads YAML and JSON5 definitions alongside JSON', async () => {
+    const provider = await createProvider();
+
+    const surveys = await provider.getAllSurveys();
+    expect(surveys.map((survey) => survey.id).sort()).toEqual([
+      'json5-survey',
+      'yaml-survey',
+    ]);
+  });
+
+  it('saves a definition back in the format of its file', async () => {
+    const provider = await createProvider();
+    const survey = await provider.getSurveyById('yaml-survey');
+
+    await provider.saveSurvey({ ...survey!, status: 'archived' });
+
+    const content = readFileSync(
+      join(definitionsPath, 'yaml-survey.yaml'),
+      'utf-8',
+    );
+    expect(content).toContain('status: archived');
+    const reloaded = await createProvider();
+    expect((await reloaded.getSurveyById('yaml-survey'))?.status).toBe(
+      'archived',
+    );
+  });
+});
+
+describe('FilesystemSurveyProvider question library', () => {
+  let definitionsPath: string;
+
+  beforeEach(() => {
+    definitionsPath = mkdtempSync(join(tmpdir(), 'survey-defs-'));
+    mkdirSync(join(definitionsPath, 'library'));
+    writeFileSync(
+      join(definitionsPath, 'library', 'demographics.yaml'),
+      [
+        'questions:',
+        '  - id: company_size',
+        '    type: multiple-choice',
+        '    text: How large is your company?',
+        '    options:',
+        '      - { value: small, label: 1-50 }',
+        '      - { value: large, label: 51+ }',
+        '  - id: region',
+        '    type: free-form',
+        '    text: Where are you based?',
+        'blocks:',
+        '  demographics: [company_size, region]',
+        '',
+      ].join('\n'),
+    );
+    writeFileSync(
+      join(definitionsPath, 'uses-library.json'),
+      JSON.stringify({
+        id: 'uses-library',
+        metadata: { title: 'Uses Library', description: 'Includes a block' },
+        questions: [
+          { $include: 'demographics' },
+          { $ref: 'company_size', id: 'parent_size', required: true },
+        ],
+      }),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(definitionsPath, { recursive: true, force: true });
+  });
+
+  async function createProvider(): Promise<FilesystemSurveyProvider> {
+    const provider = new FilesystemSurveyProvider({
+      survey: {
+        providerType: 'filesystem',
+        definitionsPath,
+        responsesPath: join(definitionsPath, 'responses'),
+        strictValidation: false,
+      },
+    } as AppConfig);
+    await provider.initialize();
+    return provider;
+  }
+
+  it('expands library references and does not load library files as surveys', async () => {
+    const provider = await createProvider();
+
+    expect((await provider.getAllSurveys()).map((s) => s.id)).toEqual([
+      'uses-library',
+    ]);
+    const survey = await provider.getSurveyById('uses-library');
+    expect(
+      survey?.questions.map((question) => [question.id, question.libraryRef]),
+    ).toEqual([
+      ['company_size', 'company_size'],
+      ['region', 'region'],
+      ['parent_size', 'company_size'],
+    ]);
+  });
+
+  it('skips definitions with unknown references', async () => {
+    writeFileSync(
+      join(definitionsPath, 'broken-ref.json'),
+      JSON.stringify({
+        id: 'broken-ref',
+        metadata: { title: 'Broken', description: 'Unknown reference' },
+        questions: [{ $ref: 'tenure' }],
+      }),
+    );
+
+    const provider = await createProvider();
+
+    await expect(provider.getSurveyById('broken-ref')).resolves.toBe(null);
+  });
+
+  it('writes library questions back as references', async () => {
+    const provider = await createProvider();
+    const survey = await provider.getSurveyById('uses-library');
+
+    await provider.saveSurvey({ ...survey!, status: 'closed' });
+
+    const saved = JSON.parse(
+      readFileSync(join(definitionsPath, 'uses-library.json'), 'utf-8'),
+    ) as { status: string; questions: unknown[] };
+    expect(saved.status).toBe('closed');
+    expect(saved.questions).toEqual([
+      { $ref: 'company_size' },
+      { $ref: 'region' },
+      { $ref: 'company_size', id: 'parent_size', required: true },
+    ]);
+  });
+});
+
+describe('FilesystemSurveyProvider definition reloading', () => {
+  let definitionsPath: string;
+  let provider: FilesystemSurveyProvider;
+
+  const define = (id: string, title: string) => ({
+    id,
+    version: '1.0',
+    metadata: { title, description: 'Reloadable survey' },
+    questions: [{ id: 'q1', type: 'free-form', text: 'First?' }],
+  });
+
+  beforeEach(async () => {
+    definitionsPath = mkdtempSync(join(tmpdir(), 'survey-defs-'));
+    writeFileSync(
+      join(definitionsPath, 'alpha.json'),
+      JSON.stringify(define('alpha', 'Alpha')),
+    );
+    writeFileSync(
+      join(definitionsPath, 'beta.json'),
+      JSON.stringify(define('beta', 'Beta')),
+    );
+    provider = new FilesystemSurveyProvider({
+      survey: {
+        providerType: 'filesystem',
+        definitionsPath,
+        responsesPath: join(definitionsPath, 'responses'),
+        strictValidation: false,
+      },
+    } as AppConfig);
+    await provider.initialize();
+  });
+
+  afterEach(() => {
+    provider.unwatchDefinitions();
+    rmSync(definitionsPath, { recursive: true, force: true });
+  });
+
+  it('picks up added, changed and removed files and notifies listeners', async () => {
+    const listener = vi.fn();
+    provider.onDefinitionsChanged(listener);
+
+    writeFileSync(
+      join(definitionsPath, 'alpha.json'),
+      JSON.stringify(define('alpha', 'Alpha Revised')),
+    );
+    writeFileSync(
+      join(definitionsPath, 'gamma.json'),
+      JSON.stringify(define('gamma', 'Gamma')),
+    );
+    rmSync(join(definitionsPath, 'beta.json'));
+    await provider.reloadDefinitions();
+
+    const surveys = await provider.getAllSurveys();
+    expect(surveys.map((survey) => survey.id).sort()).toEqual([
+      'alpha',
+      'gamma',
+    ]);
+    expect((await provider.getSurveyById('alpha'))?.metadata.title).toBe(
+      'Alpha Revised',
+    );
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the last good definition of a file that no longer loads', async () => {
+    writeFileSync(join(definitionsPath, 'alpha.json'), '{ "id": "alpha",');
+    await provider.reloadDefinitions();
+
+    expect((await provider.getSurveyById('alpha'))?.metadata.title).toBe(
+      'Alpha',
+    );
+    expect(await provider.getAllSurveys()).toHaveLength(2);
+  });
+
+  it('stops notifying a listener once it unsubscribes', async () => {
+    const listener = vi.fn();
+    const unsubscribe = provider.onDefinitionsChanged(listener);
+    unsubscribe();
+
+    await provider.reloadDefinitions();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('reloads definitions when a watched file changes', async () => {
+    const listener = vi.fn();
+    provider.onDefinitionsChanged(listener);
+    provider.watchDefinitions();
+
+    writeFileSync(
+      join(definitionsPath, 'gamma.json'),
+      JSON.stringify(define('gamma', 'Gamma')),
+    );
+
+    await vi.waitFor(
+      async () => {
+        expect(await provider.getSurveyById('gamma')).not.toBe(null);
+      },
+      { timeout: 5000, interval: 50 },
+    );
+    expect(listener).toHaveBeenCalled();
+  });
+});
+
+describe('FilesystemSurveyProvider tenant catalogs', () => {
+  let definitionsPath: string;
+  let provider: FilesystemSurveyProvider;
+
+  const writeDefinition = (
+    relativePath: string,
+    id: string,
+    title: string,
+    version = '1.0',
+  ) => {
+    const filePath = join(definitionsPath, relativePath);
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(
+      filePath,
+      JSON.stringify({
+        id,
+        version,
+        metadata: { title, description: 'Tenant catalog survey' },
+        questions: [{ id: 'q1', type: 'free-form', text: 'First?' }],
+      }),
+    );
+  };
+
+  beforeEach(async () => {
+    definitionsPath = mkdtempSync(join(tmpdir(), 'survey-defs-'));
+    writeDefinition('shared.json', 'shared-survey', 'Shared');
+    writeDefinition('common.json', 'common', 'Common');
+    writeDefinition('tenants/acme/common.json', 'common', 'Acme Common', '2.0');
+    writeDefinition('tenants/acme/nested/private.json', 'acme-only', 'Acme');
+    writeDefinition('tenants/globex/private.json', 'globex-only', 'Globex');
+    provider = new FilesystemSurveyProvider({
+      survey: {
+        providerType: 'filesystem',
+        definitionsPath,
+        responsesPath: join(definitionsPath, 'responses'),
+        strictValidation: false,
+      },
+    } as AppConfig);
+    await provider.initialize();
+  });
+
+  afterEach(() => {
+    rmSync(definitionsPath, { recursive: true, force: true });
+  });
+
+  const titles = async (tenantId?: string) =>
+    (await provider.getAllSurveys(tenantId))
+      .map((survey) => survey.metadata.title)
+      .sort();
+
+  it("lists shared surveys plus the tenant's own, with tenant overrides", async () => {
+    expect(await titles('acme')).toEqual(['Acme', 'Acme Common', 'Shared']);
+    expect(await titles('globex')).toEqual(['Common', 'Globex', 'Shared']);
+    expect(await titles()).toEqual(['Common', 'Shared']);
+  });
+
+  it("hides other tenants' surveys", async () => {
+    await expect(provider.getSurveyById('acme-only', 'globex')).resolves.toBe(
+      null,
+    );
+    await expect(provider.getSurveyVersions('acme-only')).resolves.toEqual([]);
+  });
+
+  it('resolves shared versions pinned before a tenant override', async () => {
+    const versions = await provider.getSurveyVersions('common', 'acme');
+    expect(versions.map((survey) => survey.version)).toEqual(['2.0']);
+
+    const pinned = await provider.getSurveyById('common', 'acme', '1.0');
+    expect(pinned?.metadata.title).toBe('Common');
+  });
+
+  it("saves new surveys into the tenant's catalog", async () => {
+    const survey = SurveyDefinitionSchema.parse({
+      id: 'authored',
+      version: '1.0',
+      metadata: { title: 'Authored', description: 'Created by acme' },
+      questions: [{ id: 'q1', type: 'free-form', text: 'First?' }],
+    });
+
+    await provider.saveSurvey(survey, 'acme');
+
+    expect(
+      existsSync(
+        join(definitionsPath, 'tenants', 'acme', 'authored', '1.0.json'),
+      ),
+    ).toBe(true);
+    await expect(provider.getSurveyById('authored', 'acme')).resolves.not.toBe(
+      null,
+    );
+    await expect(provider.getSurveyById('authored', 'globex')).resolves.toBe(
+      null,
+    );
+  });
+  it("copies a shared survey into the tenant's catalog instead of changing it", async () => {
+    const shared = await provider.getSurveyById('shared-survey', 'acme');
+    const edited = {
+      ...shared!,
+      metadata: { ...shared!.metadata, title: 'Acme Shared' },
+    };
+    await provider.saveSurvey(edited, 'acme');
+    await provider.saveSurvey({ ...edited, version: '1.1' }, 'acme');
+
+    expect(await titles('acme')).toEqual([
+      'Acme',
+      'Acme Common',
+      'Acme Shared',
+    ]);
+    expect(await titles('globex')).toEqual(['Common', 'Globex', 'Shared']);
+    expect(
+      (await provider.getSurveyVersions('shared-survey', 'acme')).map(
+        (survey) => survey.version,
+      ),
+    ).toEqual(['1.0', '1.1']);
+    expect(
+      (await provider.getSurveyVersions('shared-survey', 'globex')).map(
+        (survey) => survey.version,
+      ),
+    ).toEqual(['1.0']);
+    expect(
+      JSON.parse(readFileSync(join(definitionsPath, 'shared.json'), 'utf-8')),
+    ).toMatchObject({ metadata: { title: 'Shared' } });
+  });
+
+  it('refuses to let a tenant delete a shared survey', async () => {
+    await expect(
+      provider.deleteSurvey('shared-survey', '1.0', 'acme'),
+    ).rejects.toThrow('cannot be deleted by one tenant');
+    await expect(provider.deleteSurvey('common', '2.0', 'acme')).resolves.toBe(
+      true,
+    );
+
+    expect(existsSync(join(definitionsPath, 'shared.json'))).toBe(true);
+    expect(await titles('globex')).toEqual(['Common', 'Globex', 'Shared']);
+    expect(await titles('acme')).toEqual(['Acme', 'Common', 'Shared']);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * @fileoverview Tests for the StorageService-backed survey provider.
+ * @module tests/services/survey/providers/storage.provider.test
+ */
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { AppConfig } from '@/config/index.js';
+import { StorageBackedSurveyProvider } from '@/services/survey/providers/storage.provider.js';
+import {
+  type ParticipantSession,
+  SurveyDefinitionSchema,
+} from '@/services/survey/types.js';
+import { StorageService } from '@/storage/core/StorageService.js';
+import { InMemoryProvider } from '@/storage/providers/inMemory/inMemoryProvider.js';
+
+const surveyDefinition = {
+  id: 'storage-survey',
+  version: '1.0',
+  metadata: { title: 'Storage Survey', description: 'Survey for tests' },
+  questions: [{ id: 'q1', type: 'free-form', text: 'Anything?' }],
+};
+
+function buildSession(
+  overrides: Partial<ParticipantSession> = {},
+): ParticipantSession {
+  const now = '2025-01-01T00:00:00.000Z';
+  return {
+    sessionId: 'sess_ONE',
+    surveyId: 'storage-survey',
+    surveyVersion: '1.0',
+    participantId: 'participant-1',
+    tenantId: 'tenant-a',
+    status: 'in-progress',
+    startedAt: now,
+    lastActivityAt: now,
+    completedAt: null,
+    metadata: {},
+    responses: {},
+    progress: {
+      totalQuestions: 1,
+      answeredQuestions: 0,
+      requiredRemaining: 0,
+      percentComplete: 0,
+    },
+    currentScore: 0,
+    ...overrides,
+  };
+}
+
+describe('StorageBackedSurveyProvider', () => {
+  let definitionsPath: string;
+  let provider: StorageBackedSurveyProvider;
+
+  beforeEach(async () => {
+    definitionsPath = mkdtempSync(join(tmpdir(), 'survey-defs-'));
+    writeFileSync(
+      join(definitionsPath, 'survey.json'),
+      JSON.stringify(surveyDefinition),
+    );
+
+    const config = {
+      survey: {
+        providerType: 'storage',
+        definitionsPath,
+        responsesPath: join(definitionsPath, 'unused-responses'),
+      },
+    } as AppConfig;
+
+    provider = new StorageBackedSurveyProvider(
+      config,
+      new StorageService(new InMemoryProvider()),
+    );
+    await provider.initialize();
+  });
+
+  afterEach(() => {
+    rmSync(definitionsPath, { recursive: true, force: true });
+  });
+
+  it('loads survey definitions from the definitions path', async () => {
+    const survey = await provider.getSurveyById('storage-survey');
+    expect(survey?.metadata.title).toBe('Storage Survey');
+  });
+
+  it('persists and updates sessions through storage', async () => {
+    await provider.createSession(buildSession());
+
+    const stored = await provider.getSession('sess_ONE', 'tenant-a');
+    expect(stored?.status).toBe('in-progress');
+
+    await provider.updateSession({ ...stored!, status: 'completed' });
+    const updated = await provider.getSession('sess_ONE', 'tenant-a');
+    expect(updated?.status).toBe('completed');
+  });
+
+  it('isolates sessions per tenant', async () => {
+    await provider.createSession(buildSession());
+
+    await expect(provider.getSession('sess_ONE', 'tenant-b')).resolves.toBe(
+      null,
+    );
+  });
+
+  it('records tenants with sessions in the tenant registry', async () => {
+    await provider.createSession(buildSession({ sessionId: 'sess_A' }));
+    await provider.createSession(buildSession({ sessionId: 'sess_B' }));
+    await provider.createSession(
+      buildSession({ sessionId: 'sess_C', tenantId: 'tenant-b' }),
+    );
+
+    await expect(provider.listTenantIds()).resolves.toEqual([
+      'tenant-a',
+      'tenant-b',
+    ]);
+  });
+
+  it('lists sessions by survey with filters and pagination', async () => {
+    await provider.createSession(buildSession({ sessionId: 'sess_A' }));
+    await provider.createSession(
+      buildSession({ sessionId: 'sess_B', status: 'completed' }),
+    );
+    await provider.createSession(
+      buildSession({ sessionId: 'sess_C', surveyId: 'other-survey' }),
+    );
+
+    const all = await provider.getSessionsBySurvey(
+      'storage-survey',
+      'tenant-a',
+    );
+    expect(all.total).toBe(2);
+
+    const completed = await provider.getSessionsBySurvey(
+      'storage-survey',
+      'tenant-a',
+      { status: 'completed' },
+    );
+    expect(completed.sessions.map((s) => s.sessionId)).toEqual(['sess_B']);
+
+    const firstPage = await provider.getSessionsBySurvey(
+      'storage-survey',
+      'tenant-a',
+      undefined,
+      { page: 1, pageSize: 1 },
+    );
+    expect(firstPage.sessions).toHaveLength(1);
+    expect(firstPage.total).toBe(2);
+  });
+
+  it('reads every matching session without pagination', async () => {
+    for (const sessionId of ['sess_A', 'sess_B', 'sess_C']) {
+      await provider.createSession(buildSession({ sessionId }));
+    }
+    await provider.createSession(
+      buildSession({ sessionId: 'sess_D', status: 'completed' }),
+    );
+
+    const sessions = await provider.getAllSessionsBySurvey(
+      'storage-survey',
+      'tenant-a',
+      { status: 'in-progress' },
+    );
+
+    expect(sessions.map((s) => s.sessionId).sort()).toEqual([
+      'sess_A',
+      'sess_B',
+      'sess_C',
+    ]);
+  });
+
+  it('exports sessions read from storage', async () => {
+    await provider.createSession(
+      buildSession({
+        responses: {
+          q1: {
+            questionId: 'q1',
+            value: 'hello',
+            answeredAt: '2025-01-01T00:01:00.000Z',
+            attemptCount: 1,
+          },
+        },
+      }),
+    );
+
+    const result = await provider.exportResults(
+      'storage-survey',
+      'tenant-a',
+      'csv',
+    );
+    expect(result.recordCount).toBe(1);
+    expect(result.statusCounts).toEqual({ 'in-progress': 1 });
+    expect(result.data).toContain('"hello"');
+  });
+});
+
+describe('StorageBackedSurveyProvider stored definitions', () => {
+  const missingPath = join(tmpdir(), 'survey-defs-missing');
+  let storage: StorageService;
+
+  function createProvider(): StorageBackedSurveyProvider {
+    return new StorageBackedSurveyProvider(
+      {
+        survey: {
+          providerType: 'storage',
+          definitionsPath: missingPath,
+          responsesPath: join(missingPath, 'responses'),
+        },
+      } as AppConfig,
+      storage,
+    );
+  }
+
+  beforeEach(() => {
+    storage = new StorageService(new InMemoryProvider());
+  });
+
+  it('keeps authored definitions in storage when there is no definitions directory', async () => {
+    const first = createProvider();
+    await first.initialize();
+    await expect(first.healthCheck()).resolves.toBe(true);
+    await expect(first.getAllSurveys()).resolves.toEqual([]);
+
+    const survey = SurveyDefinitionSchema.parse(surveyDefinition);
+    await first.saveSurvey(survey);
+    await first.saveSurvey(
+      { ...survey, metadata: { ...survey.metadata, title: 'Acme' } },
+      'tenant-a',
+    );
+
+    const restarted = createProvider();
+    await restarted.initialize();
+    expect(
+      (await restarted.getSurveyById('storage-survey'))?.metadata.title,
+    ).toBe('Storage Survey');
+    expect(
+      (await restarted.getSurveyById('storage-survey', 'tenant-a'))?.metadata
+        .title,
+    ).toBe('Acme');
+
+    await restarted.deleteSurvey('storage-survey', '1.0', 'tenant-a');
+    const afterDelete = createProvider();
+    await afterDelete.initialize();
+    expect(
+      (await afterDelete.getSurveyById('storage-survey', 'tenant-a'))?.metadata
+        .title,
+    ).toBe('Storage Survey');
+  });
+});
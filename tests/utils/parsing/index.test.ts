@@ -215,6 +215,8 @@ describe('Parsing Utilities Barrel Export', () => {
         'xmlParser',
         'YamlParser',
         'yamlParser',
+        'Json5Parser',
+        'json5Parser',
         'PdfParser',
         'pdfParser',
         'dateParser',
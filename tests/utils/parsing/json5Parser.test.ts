@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Unit tests for the JSON5 parser utility.
+ * @module tests/utils/parsing/json5Parser.test
+ */
+import { describe, expect, it, vi } from 'vitest';
+
+import { json5Parser } from '@/utils/parsing/json5Parser.js';
+import { logger, requestContextService } from '@/utils/index.js';
+import { JsonRpcErrorCode, McpError } from '@/types-global/errors.js';
+
+describe('json5Parser.parse', () => {
+  const createContext = () =>
+    requestContextService.createRequestContext({
+      operation: 'json5-parser-test',
+    });
+
+  it('parses JSON5 content with comments, unquoted keys and trailing commas', () => {
+    const json5String = "{\n  // who\n  name: 'Ada',\n  role: 'Engineer',\n}";
+    const result = json5Parser.parse<Record<string, string>>(json5String);
+    expect(result).toEqual({ name: 'Ada', role: 'Engineer' });
+  });
+
+  it('parses JSON5 content after stripping a think block', () => {
+    const context = createContext();
+    const result = json5Parser.parse<Record<string, string>>(
+      "<think>deliberation</think>{ name: 'Grace' }",
+      context,
+    );
+    expect(result).toEqual({ name: 'Grace' });
+  });
+
+  it('throws when the remaining content is empty', () => {
+    expect(() => json5Parser.parse('<think>only thoughts</think>   ')).toThrow(
+      McpError,
+    );
+  });
+
+  it('wraps parser failures in an McpError with the error location', () => {
+    const context = createContext();
+    try {
+      json5Parser.parse('{\n  name: "Ada"\n  role: 1\n}', context);
+      throw new Error('Expected json5Parser.parse to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(McpError);
+      const mcpError = error as McpError;
+      expect(mcpError.code).toBe(JsonRpcErrorCode.ValidationError);
+      expect(mcpError.message).toContain('Failed to parse JSON5');
+      expect(mcpError.data).toMatchObject({ line: 3, column: 3 });
+    }
+  });
+
+  it('logs parse failures with an auto-generated context when none is provided', () => {
+    const errorSpy = vi.spyOn(logger, 'error');
+    expect(() => json5Parser.parse('{ unterminated: ')).toThrow(McpError);
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Failed to parse JSON5 content.',
+      expect.objectContaining({ operation: 'Json5Parser.parseError' }),
+    );
+    errorSpy.mockRestore();
+  });
+});